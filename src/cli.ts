@@ -0,0 +1,814 @@
+#!/usr/bin/env node
+import { closeSync, createReadStream, createWriteStream, openSync } from 'node:fs';
+import { readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { isatty, ReadStream } from 'node:tty';
+import { parseArgs } from 'node:util';
+import type { AESConfig, CryptoAlgorithm, DataEncoding, EnvelopeDecryptOptions, EnvelopeOptions, FileMetadata, KDFParameters, KeyInput, KeyLength, StreamEncryptOptions } from './types/index.js';
+import { AESCrypto } from './crypto/AESCrypto.js';
+import { AuthenticationError } from './crypto/AuthenticationError.js';
+import { FileCrypto } from './crypto/FileCrypto.js';
+import { KeyCodec } from './crypto/KeyCodec.js';
+import { KeyDerivation } from './crypto/KeyDerivation.js';
+import { StreamCrypto } from './crypto/StreamCrypto.js';
+import { CryptoUtils } from './utils/CryptoUtils.js';
+import { ensureWebCrypto } from './core.js';
+
+/**
+ * Ferramenta de linha de comando compatível com a aplicação web
+ *
+ * - Arquivos usam o mesmo formato de "Encriptar Arquivo" (.aesb, com nome e
+ *   tipo protegidos; em streaming a partir de 8 MiB);
+ * - Com --text, a saída é o envelope autodescritivo em texto, o mesmo do campo
+ *   de conteúdo encriptado com "Formato de envelope" marcado.
+ *
+ * Códigos de saída: 0 sucesso, 1 erro, 2 uso inválido, 3 falha de autenticação
+ * (chave errada ou dados adulterados).
+ */
+
+/** Códigos de saída do processo */
+const EXIT_CODES = {
+    success: 0,
+    error: 1,
+    usage: 2,
+    authentication: 3
+} as const;
+
+/** Variável de ambiente lida quando nenhuma fonte de chave é informada */
+const DEFAULT_KEY_ENV = 'AES_CRYPTO_KEY';
+
+const USAGE = `Uso: aes-crypto <comando> [opções] [arquivo]
+
+Comandos:
+  genkey                 Gera uma chave aleatória em hexadecimal
+  encrypt                Encripta um arquivo (ou a entrada padrão)
+  decrypt                Decripta um arquivo ou envelope em texto
+  inspect                Mostra o cabeçalho (algoritmo, IV, derivação) sem decriptar
+
+Entrada e saída:
+  [arquivo]              Arquivo de entrada; sem ele (ou com "-") lê a entrada padrão
+  -o, --out <arquivo>    Arquivo de saída; sem ele escreve na saída padrão
+  --text                 encrypt: gera o envelope em texto em vez do arquivo .aesb
+  --encoding <cod>       Codificação do envelope em texto: hex, base64 ou base64url (padrão hex)
+  --name <nome>          encrypt: nome guardado nos metadados (padrão: nome do arquivo)
+
+Chave (uma das opções; sem nenhuma, usa a variável ${DEFAULT_KEY_ENV}):
+  --key-file <arquivo>   Chave em hexadecimal, Base64 ou JWK
+  --key-env <VAR>        Variável de ambiente com a chave
+  --passphrase           Pede a frase-senha no terminal, mesmo com dados pela entrada padrão
+                         (PBKDF2, parâmetros no cabeçalho)
+  --passphrase-env <VAR> Variável de ambiente com a frase-senha
+
+Algoritmo (genkey e encrypt; decrypt lê IV e tamanhos do cabeçalho):
+  --algorithm <alg>      AES-GCM, AES-CBC ou AES-CTR (padrão AES-GCM); decrypt só aceita
+                         envelopes do algoritmo informado, ou autenticados se for AES-CBC/AES-CTR
+                         Arquivos .aesb exigem AES-GCM ou AES-CBC com --mac
+  --bits <n>             128, 192 ou 256 (padrão 128)
+  --mac                  AES-CBC autenticado com HMAC-SHA-256
+  --aad <texto>          Dados adicionais autenticados
+  --iv <iv>              decrypt: IV de um texto cifrado fora do formato de envelope
+
+Códigos de saída: 0 sucesso, 1 erro, 2 uso inválido, 3 falha de autenticação.
+`;
+
+/**
+ * Opções já interpretadas da linha de comando
+ */
+interface CliOptions {
+    command: string;
+    input?: string;
+    out?: string;
+    text: boolean;
+    encoding: DataEncoding;
+    name?: string;
+    keyFile?: string;
+    keyEnv?: string;
+    passphrase: boolean;
+    passphraseEnv?: string;
+    algorithm: CryptoAlgorithm;
+    bits: KeyLength;
+    mac: boolean;
+    aad: string;
+    iv?: string;
+}
+
+/**
+ * Entrada aberta, com o início já lido
+ */
+interface PeekedInput {
+    /** Bytes iniciais */
+    head: Uint8Array<ArrayBuffer>;
+    /** Se a entrada terminou dentro do início lido */
+    ended: boolean;
+    /** Todo o conteúdo da entrada, a partir do primeiro byte */
+    stream: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Erro de uso da linha de comando (opção inválida ou ausente)
+ * Encerra o processo com o código de uso inválido
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const cryptoUtils = new CryptoUtils();
+const keyDerivation = new KeyDerivation();
+const keyCodec = new KeyCodec(keyDerivation);
+
+/**
+ * Interpreta os argumentos da linha de comando
+ * @param argv Argumentos, sem o executável e o script
+ * @returns Opções validadas
+ * @throws UsageError se alguma opção for inválida
+ */
+function parseOptions(argv: string[]): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                out: { type: 'string', short: 'o' },
+                text: { type: 'boolean', default: false },
+                encoding: { type: 'string', default: 'hex' },
+                name: { type: 'string' },
+                'key-file': { type: 'string' },
+                'key-env': { type: 'string' },
+                passphrase: { type: 'boolean', default: false },
+                'passphrase-env': { type: 'string' },
+                algorithm: { type: 'string', default: 'AES-GCM' },
+                bits: { type: 'string', default: '128' },
+                mac: { type: 'boolean', default: false },
+                aad: { type: 'string', default: '' },
+                iv: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false }
+            }
+        });
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : 'Argumentos inválidos.');
+    }
+
+    const { values, positionals } = parsed;
+    const [command = 'help', input, ...rest] = positionals;
+
+    if (values.help) {
+        return { ...defaultOptions(), command: 'help' };
+    }
+
+    if (rest.length > 0) {
+        throw new UsageError(`Argumentos não reconhecidos: ${rest.join(' ')}`);
+    }
+
+    if (!['hex', 'base64', 'base64url'].includes(values.encoding)) {
+        throw new UsageError('Codificação deve ser hex, base64 ou base64url.');
+    }
+
+    if (!Object.keys(AESCrypto.IV_LENGTHS).includes(values.algorithm)) {
+        throw new UsageError('Algoritmo deve ser AES-GCM, AES-CBC ou AES-CTR.');
+    }
+
+    const bits = Number(values.bits);
+    if (![128, 192, 256].includes(bits)) {
+        throw new UsageError('Tamanho da chave deve ser 128, 192 ou 256 bits.');
+    }
+
+    const keySources = [values['key-file'], values['key-env'], values.passphrase || undefined, values['passphrase-env']].filter(Boolean);
+    if (keySources.length > 1) {
+        throw new UsageError('Informe apenas uma fonte de chave.');
+    }
+
+    const options: CliOptions = {
+        command,
+        text: values.text,
+        encoding: values.encoding as DataEncoding,
+        passphrase: values.passphrase,
+        algorithm: values.algorithm as CryptoAlgorithm,
+        bits: bits as KeyLength,
+        mac: values.mac,
+        aad: values.aad
+    };
+
+    if (input && input !== '-') options.input = input;
+    if (values.out) options.out = values.out;
+    if (values.name) options.name = values.name;
+    if (values['key-file']) options.keyFile = values['key-file'];
+    if (values['key-env']) options.keyEnv = values['key-env'];
+    if (values['passphrase-env']) options.passphraseEnv = values['passphrase-env'];
+    if (values.iv) options.iv = values.iv;
+
+    return options;
+}
+
+/**
+ * Opções padrão, usadas para exibir a ajuda
+ * @returns Opções sem comando
+ */
+function defaultOptions(): CliOptions {
+    return {
+        command: 'help',
+        text: false,
+        encoding: 'hex',
+        passphrase: false,
+        algorithm: 'AES-GCM',
+        bits: 128,
+        mac: false,
+        aad: ''
+    };
+}
+
+/**
+ * Monta a configuração AES a partir das opções
+ * @param options Opções da linha de comando
+ * @returns Configuração do algoritmo escolhido
+ */
+function buildConfig(options: CliOptions): AESConfig {
+    const config = AESCrypto.createConfig(options.algorithm, options.bits);
+    config.outputEncoding = options.encoding;
+
+    if (options.mac) {
+        config.mac = 'HMAC-SHA-256';
+    }
+
+    return config;
+}
+
+/**
+ * Abre a entrada (arquivo ou entrada padrão) como stream, sem lê-la
+ * @param options Opções da linha de comando
+ * @returns Stream com o conteúdo da entrada
+ * @throws UsageError se não houver arquivo e a entrada padrão for um terminal
+ */
+function openInput(options: CliOptions): ReadableStream<Uint8Array> {
+    if (options.input) {
+        return toWebStream(createReadStream(options.input));
+    }
+
+    if (process.stdin.isTTY) {
+        throw new UsageError('Informe um arquivo de entrada ou envie os dados pela entrada padrão.');
+    }
+
+    return toWebStream(process.stdin);
+}
+
+/**
+ * Converte um stream do Node.js em ReadableStream
+ * @param source Stream de leitura do Node.js
+ * @returns ReadableStream com os mesmos bytes
+ */
+function toWebStream(source: Readable): ReadableStream<Uint8Array> {
+    // Lido sob demanda em vez de Readable.toWeb, que no Node.js 18 ignora a contrapressão
+    // e acumularia em memória a entrada inteira
+    const iterator: AsyncIterator<Uint8Array> = source[Symbol.asyncIterator]();
+
+    return new ReadableStream<Uint8Array>({
+        pull: async controller => {
+            const { done, value } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel: () => {
+            source.destroy();
+        }
+    });
+}
+
+/**
+ * Lê um stream inteiro para a memória
+ * @param stream Stream a ler
+ * @returns Promise com os bytes lidos
+ */
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Lê o início da entrada sem consumir o restante
+ * Permite decidir o formato (envelope em memória ou streaming) antes de ler tudo
+ * @param options Opções da linha de comando
+ * @param limit Quantidade mínima de bytes a ler, se a entrada for maior
+ * @returns Promise com o início lido e o stream com todo o conteúdo
+ */
+async function peekInput(options: CliOptions, limit: number): Promise<PeekedInput> {
+    const reader = openInput(options).getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    let ended = false;
+
+    while (length < limit) {
+        const { done, value } = await reader.read();
+        if (done) {
+            ended = true;
+            break;
+        }
+        chunks.push(value);
+        length += value.length;
+    }
+
+    const head = new Uint8Array(Buffer.concat(chunks));
+    const stream = new ReadableStream<Uint8Array>({
+        start: controller => {
+            if (head.length > 0) controller.enqueue(head);
+            if (ended) controller.close();
+        },
+        pull: async controller => {
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel: reason => reader.cancel(reason)
+    });
+
+    return { head, ended, stream };
+}
+
+/**
+ * Escreve o resultado (arquivo ou saída padrão)
+ * @param options Opções da linha de comando
+ * @param data Bytes ou texto a escrever
+ */
+async function writeOutput(options: CliOptions, data: Uint8Array | string): Promise<void> {
+    if (options.out) {
+        await writeFile(options.out, data);
+        return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        process.stdout.write(data, error => error ? reject(error) : resolve());
+    });
+}
+
+/**
+ * Escreve um stream (arquivo ou saída padrão) conforme ele é produzido
+ * Em caso de erro, o arquivo de saída parcial é removido
+ * @param options Opções da linha de comando
+ * @param stream Stream com o resultado
+ */
+async function writeStream(options: CliOptions, stream: ReadableStream<Uint8Array>): Promise<void> {
+    const source = Readable.fromWeb(stream as unknown as NodeReadableStream<Uint8Array>);
+
+    if (!options.out) {
+        await pipeline(source, process.stdout, { end: false });
+        return;
+    }
+
+    try {
+        await pipeline(source, createWriteStream(options.out));
+    } catch (error) {
+        // Não deixa para trás parte do resultado (de um segmento adulterado, por exemplo)
+        await rm(options.out, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Abre o terminal de controle para ler a frase-senha
+ * Com a entrada padrão redirecionada (dados enviados por pipe), a frase-senha é lida
+ * diretamente do terminal: /dev/tty, ou CONIN$ no Windows
+ * @returns Fluxo do terminal ou null se o processo não tiver terminal
+ */
+function openTerminal(): ReadStream | null {
+    if (process.stdin.isTTY) {
+        return process.stdin;
+    }
+
+    let fd: number;
+    try {
+        fd = openSync(process.platform === 'win32' ? 'CONIN$' : '/dev/tty', 'r');
+    } catch {
+        return null;
+    }
+
+    if (!isatty(fd)) {
+        closeSync(fd);
+        return null;
+    }
+
+    return new ReadStream(fd);
+}
+
+/**
+ * Pede uma frase-senha no terminal sem exibi-la
+ * Funciona também com a entrada padrão redirecionada, lendo do terminal de controle
+ * @param question Texto exibido antes da digitação
+ * @returns Promise com a frase-senha digitada
+ * @throws UsageError se não houver terminal interativo
+ */
+async function promptHidden(question: string): Promise<string> {
+    const terminal = openTerminal();
+
+    if (!terminal) {
+        throw new UsageError('Sem terminal para pedir a frase-senha: use --passphrase-env.');
+    }
+
+    process.stderr.write(question);
+    terminal.setRawMode(true);
+    terminal.resume();
+    terminal.setEncoding('utf8');
+
+    return await new Promise<string>((resolve, reject) => {
+        let value = '';
+
+        const onData = (chunk: string): void => {
+            for (const char of chunk) {
+                if (char === '\r' || char === '\n' || char === '\u0004') {
+                    finish();
+                    resolve(value);
+                    return;
+                }
+
+                if (char === '\u0003') {
+                    finish();
+                    reject(new UsageError('Operação cancelada.'));
+                    return;
+                }
+
+                value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+            }
+        };
+
+        const finish = (): void => {
+            terminal.off('data', onData);
+            terminal.setRawMode(false);
+            if (terminal === process.stdin) {
+                terminal.pause();
+            } else {
+                terminal.destroy();
+            }
+            process.stderr.write('\n');
+        };
+
+        terminal.on('data', onData);
+    });
+}
+
+/**
+ * Obtém a frase-senha da variável de ambiente ou do terminal
+ * @param options Opções da linha de comando
+ * @param confirm Pede a frase-senha duas vezes (encriptação)
+ * @returns Promise com a frase-senha ou null se a chave vier de outra fonte
+ * @throws UsageError se a frase-senha estiver vazia ou a confirmação não conferir
+ */
+async function resolvePassphrase(options: CliOptions, confirm: boolean): Promise<string | null> {
+    if (options.passphraseEnv) {
+        const passphrase = process.env[options.passphraseEnv];
+        if (!passphrase) {
+            throw new UsageError(`Variável de ambiente ${options.passphraseEnv} vazia ou ausente.`);
+        }
+        return passphrase;
+    }
+
+    if (!options.passphrase) {
+        return null;
+    }
+
+    const passphrase = await promptHidden('Frase-senha: ');
+    if (!passphrase) {
+        throw new UsageError('Frase-senha não pode estar vazia.');
+    }
+
+    if (confirm && await promptHidden('Confirme a frase-senha: ') !== passphrase) {
+        throw new UsageError('As frases-senha não conferem.');
+    }
+
+    return passphrase;
+}
+
+/**
+ * Lê a chave do arquivo ou da variável de ambiente
+ * Chaves em JWK são importadas como handle vinculado ao algoritmo do JWK
+ * @param options Opções da linha de comando
+ * @returns Promise com a chave
+ * @throws UsageError se nenhuma fonte de chave estiver disponível
+ */
+async function resolveKey(options: CliOptions): Promise<KeyInput> {
+    let serialized: string | undefined;
+
+    if (options.keyFile) {
+        serialized = (await readFile(options.keyFile, 'utf8')).trim();
+    } else {
+        const variable = options.keyEnv ?? DEFAULT_KEY_ENV;
+        serialized = process.env[variable]?.trim();
+
+        if (!serialized) {
+            throw new UsageError(options.keyEnv
+                ? `Variável de ambiente ${variable} vazia ou ausente.`
+                : `Informe a chave com --key-file, --key-env, --passphrase ou a variável ${DEFAULT_KEY_ENV}.`);
+        }
+    }
+
+    if (keyCodec.detectFormat(serialized) === 'jwk') {
+        return await keyCodec.importJwk(serialized);
+    }
+
+    if (keyCodec.detectFormat(serialized) !== 'raw') {
+        throw new UsageError('Pacotes protegidos não são aceitos: importe a chave na aplicação e exporte-a em hexadecimal ou JWK.');
+    }
+
+    return serialized;
+}
+
+/**
+ * Gera uma chave aleatória
+ * @param options Opções da linha de comando
+ */
+async function commandGenkey(options: CliOptions): Promise<void> {
+    const { key } = new AESCrypto(buildConfig(options)).generateKeyAndIV(options.encoding);
+    await writeOutput(options, `${key}\n`);
+}
+
+/**
+ * Encripta a entrada como arquivo .aesb ou como envelope em texto
+ * @param options Opções da linha de comando
+ */
+async function commandEncrypt(options: CliOptions): Promise<void> {
+    // Só o início é lido: acima do limite do streaming, o restante segue direto para a saída
+    const input = await peekInput(options, FileCrypto.STREAM_THRESHOLD);
+
+    try {
+        await encryptInput(options, input);
+    } catch (error) {
+        await input.stream.cancel(error).catch(() => undefined);
+        throw error;
+    }
+}
+
+/**
+ * Encripta a entrada já aberta
+ * @param options Opções da linha de comando
+ * @param input Entrada com o início já lido
+ */
+async function encryptInput(options: CliOptions, input: PeekedInput): Promise<void> {
+    const passphrase = await resolvePassphrase(options, true);
+
+    let key: KeyInput;
+    let kdf: KDFParameters | undefined;
+
+    if (passphrase !== null) {
+        const derived = await keyDerivation.deriveFromPassphrase(passphrase, options.bits);
+        key = derived.keyHex;
+        kdf = keyDerivation.toParameters(derived);
+    } else {
+        key = await resolveKey(options);
+    }
+
+    const config = buildConfig(options);
+    if (typeof key !== 'string') {
+        // O handle de um JWK define algoritmo e tamanho da chave
+        config.algorithm = key.algorithm;
+        config.keyLength = key.keyLength;
+        config.ivLength = AESCrypto.IV_LENGTHS[key.algorithm];
+        if (key.algorithm !== 'AES-GCM') delete config.tagLength;
+    }
+
+    const aesCrypto = new AESCrypto(config);
+    const iv = cryptoUtils.generateRandomIV(config.ivLength);
+    const envelopeOptions: EnvelopeOptions = { additionalData: options.aad };
+    if (kdf) envelopeOptions.kdf = kdf;
+
+    if (options.text) {
+        const envelope = await aesCrypto.encryptBytesToEnvelope(await readAll(input.stream), key, iv, envelopeOptions);
+        await writeOutput(options, `${cryptoUtils.encodeBytes(envelope, options.encoding)}\n`);
+        return;
+    }
+
+    const name = options.name ?? (options.input ? basename(options.input) : 'arquivo');
+    const fileCrypto = new FileCrypto(aesCrypto);
+
+    if (!input.ended && config.algorithm === 'AES-GCM') {
+        // Arquivos grandes seguem o formato de streaming, como na aplicação; de um pipe, o tamanho não é conhecido
+        const metadata: FileMetadata = { name, type: 'application/octet-stream' };
+        if (options.input) metadata.size = (await stat(options.input)).size;
+
+        const streamOptions: StreamEncryptOptions = { additionalData: options.aad };
+        if (kdf) streamOptions.kdf = kdf;
+
+        await writeStream(options, fileCrypto.encryptStream(input.stream, metadata, key, streamOptions));
+        return;
+    }
+
+    // Blob com nome em vez de File, que só é global a partir do Node.js 20
+    const data = input.ended ? input.head : await readAll(input.stream);
+    const file = Object.assign(new Blob([data], { type: 'application/octet-stream' }), { name });
+
+    const result = await fileCrypto.encryptFile(file, key, iv, envelopeOptions);
+    await writeOutput(options, new Uint8Array(await result.blob.arrayBuffer()));
+}
+
+/**
+ * Decripta um arquivo .aesb (envelope ou streaming) ou um envelope em texto
+ * IV e parâmetros de derivação são lidos do cabeçalho; o modo do envelope precisa
+ * corresponder a --algorithm/--mac, que valem como aceite explícito de envelopes em texto
+ * AES-CBC ou AES-CTR sem autenticação (arquivos .aesb sempre exigem autenticação)
+ * @param options Opções da linha de comando
+ */
+async function commandDecrypt(options: CliOptions): Promise<void> {
+    // Cabeçalho fixo, bloco de derivação e sal de até 255 bytes
+    const input = await peekInput(options, 512);
+
+    try {
+        await decryptInput(options, input);
+    } catch (error) {
+        await input.stream.cancel(error).catch(() => undefined);
+        throw error;
+    }
+}
+
+/**
+ * Decripta a entrada já aberta
+ * Arquivos em streaming são decriptados segmento a segmento, direto para a saída
+ * @param options Opções da linha de comando
+ * @param input Entrada com o início já lido
+ */
+async function decryptInput(options: CliOptions, input: PeekedInput): Promise<void> {
+    const aesCrypto = new AESCrypto(buildConfig(options));
+    const fileCrypto = new FileCrypto(aesCrypto);
+    const streamCrypto = new StreamCrypto();
+
+    if (streamCrypto.isStream(input.head)) {
+        const header = streamCrypto.readHeader(input.head);
+        const key = await keyForHeader(options, header.keyLength, header.kdf);
+        const { content } = await fileCrypto.decryptStream(input.stream, key, { additionalData: options.aad });
+
+        await writeStream(options, content);
+        return;
+    }
+
+    const data = await readAll(input.stream);
+
+    if (aesCrypto.isEnvelope(data)) {
+        const blob = new Blob([data]);
+        const header = await fileCrypto.readHeader(blob);
+        const key = await keyForHeader(options, header.keyLength, header.kdf);
+        const result = await fileCrypto.decryptFile(blob, key, { additionalData: options.aad });
+
+        await writeOutput(options, new Uint8Array(await result.blob.arrayBuffer()));
+        return;
+    }
+
+    const text = new TextDecoder().decode(data).trim();
+    if (cryptoUtils.detectEncoding(text) === null) {
+        throw new Error('Entrada não é um arquivo encriptado nem texto em hexadecimal, Base64 ou Base64URL.');
+    }
+
+    const bytes = new Uint8Array(cryptoUtils.decodeData(text).bytes);
+    const decryptOptions: EnvelopeDecryptOptions = { additionalData: options.aad, allowUnauthenticated: true };
+
+    if (aesCrypto.isEnvelope(bytes)) {
+        const envelope = aesCrypto.readEnvelope(bytes);
+        const key = await keyForHeader(options, envelope.keyLength, envelope.kdf);
+        await writeOutput(options, await aesCrypto.decryptEnvelopeBytes(bytes, key, decryptOptions));
+        return;
+    }
+
+    if (!options.iv) {
+        throw new UsageError('Texto cifrado fora do formato de envelope: informe o IV com --iv e o algoritmo com --algorithm.');
+    }
+
+    if (options.passphrase || options.passphraseEnv) {
+        throw new UsageError('Frase-senha exige o formato de envelope, que guarda os parâmetros de derivação.');
+    }
+
+    await writeOutput(options, await aesCrypto.decryptBytes(bytes, await resolveKey(options), options.iv, { additionalData: options.aad }));
+}
+
+/**
+ * Obtém a chave de decriptação conforme o cabeçalho
+ * @param options Opções da linha de comando
+ * @param keyLength Tamanho da chave registrado no cabeçalho
+ * @param kdf Parâmetros de derivação registrados no cabeçalho (opcional)
+ * @returns Promise com a chave
+ * @throws UsageError se a frase-senha for usada com dados encriptados por chave, ou o contrário
+ */
+async function keyForHeader(options: CliOptions, keyLength: KeyLength, kdf?: KDFParameters): Promise<KeyInput> {
+    const passphrase = await resolvePassphrase(options, false);
+
+    if (passphrase === null) {
+        return await resolveKey(options);
+    }
+
+    if (!kdf) {
+        throw new UsageError('Estes dados não foram encriptados a partir de uma frase-senha: informe a chave.');
+    }
+
+    return (await keyDerivation.deriveFromParameters(passphrase, keyLength, kdf)).keyHex;
+}
+
+/**
+ * Mostra o cabeçalho de um arquivo ou envelope em texto
+ * @param options Opções da linha de comando
+ */
+async function commandInspect(options: CliOptions): Promise<void> {
+    const input = await peekInput(options, 512);
+    const aesCrypto = new AESCrypto();
+    const streamCrypto = new StreamCrypto();
+    const lines: string[] = [];
+
+    // Do formato de streaming basta o cabeçalho; os demais são lidos inteiros
+    const streamed = streamCrypto.isStream(input.head);
+    if (streamed) await input.stream.cancel();
+    const data = streamed ? input.head : await readAll(input.stream);
+
+    let bytes: Uint8Array = data;
+    if (!aesCrypto.isEnvelope(data) && !streamCrypto.isStream(data)) {
+        const text = new TextDecoder().decode(data).trim();
+        if (cryptoUtils.detectEncoding(text) === null) {
+            throw new Error('Entrada não é um arquivo encriptado nem um envelope em texto.');
+        }
+        bytes = cryptoUtils.decodeData(text).bytes;
+        lines.push(`formato: envelope em texto (${cryptoUtils.detectEncoding(text, options.encoding)})`);
+    }
+
+    if (streamCrypto.isStream(bytes)) {
+        const header = streamCrypto.readHeader(bytes);
+        lines.push('formato: arquivo em streaming', 'algoritmo: AES-GCM', `chave: ${header.keyLength} bits`,
+            `segmento: ${header.segmentSize} bytes`);
+        if (header.kdf) lines.push(describeKdf(header.kdf));
+    } else if (aesCrypto.isEnvelope(bytes)) {
+        const envelope = aesCrypto.readEnvelope(bytes);
+        if (lines.length === 0) lines.push('formato: arquivo (envelope)');
+        lines.push(`algoritmo: ${envelope.algorithm}${envelope.mac ? ` + ${envelope.mac}` : ''}`, `chave: ${envelope.keyLength} bits`,
+            `iv: ${envelope.ivHex}`);
+        if (envelope.tagLength) lines.push(`tag: ${envelope.tagLength} bits`);
+        if (envelope.counterLength) lines.push(`contador: ${envelope.counterLength} bits`);
+        if (envelope.kdf) lines.push(describeKdf(envelope.kdf));
+        lines.push(`texto cifrado: ${envelope.ciphertext.length} bytes`);
+    } else {
+        throw new Error('Dados não estão em um formato desta aplicação (texto cifrado puro não tem cabeçalho).');
+    }
+
+    await writeOutput(options, `${lines.join('\n')}\n`);
+}
+
+/**
+ * Descreve os parâmetros de derivação de um cabeçalho
+ * @param kdf Parâmetros do PBKDF2
+ * @returns Linha legível
+ */
+function describeKdf(kdf: KDFParameters): string {
+    return `derivação: PBKDF2-${kdf.hash}, ${kdf.iterations} iterações, sal ${kdf.saltHex}`;
+}
+
+/**
+ * Executa a linha de comando
+ * @param argv Argumentos, sem o executável e o script
+ * @returns Promise com o código de saída
+ */
+async function run(argv: string[]): Promise<number> {
+    try {
+        const options = parseOptions(argv);
+        await ensureWebCrypto();
+
+        switch (options.command) {
+            case 'genkey':
+                await commandGenkey(options);
+                break;
+            case 'encrypt':
+                await commandEncrypt(options);
+                break;
+            case 'decrypt':
+                await commandDecrypt(options);
+                break;
+            case 'inspect':
+                await commandInspect(options);
+                break;
+            case 'help':
+                process.stdout.write(USAGE);
+                break;
+            default:
+                throw new UsageError(`Comando desconhecido: ${options.command}`);
+        }
+
+        return EXIT_CODES.success;
+
+    } catch (error) {
+        if (error instanceof AuthenticationError) {
+            process.stderr.write(`aes-crypto: ${error.message}\n`);
+            return EXIT_CODES.authentication;
+        }
+
+        if (error instanceof UsageError) {
+            process.stderr.write(`aes-crypto: ${error.message}\n\n${USAGE}`);
+            return EXIT_CODES.usage;
+        }
+
+        process.stderr.write(`aes-crypto: ${error instanceof Error ? error.message : 'Erro desconhecido'}\n`);
+        return EXIT_CODES.error;
+    }
+}
+
+run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
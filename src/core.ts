@@ -0,0 +1,41 @@
+/**
+ * Ponto de entrada sem dependências do DOM
+ * Reúne o núcleo criptográfico e o gerenciador sem interface para uso em
+ * Node.js, workers e testes. Importar este módulo não acessa `document`
+ * nem `window`; os textos cifrados são compatíveis com os da interface.
+ */
+
+export { AESCrypto } from './crypto/AESCrypto.js';
+export { AESKey } from './crypto/AESKey.js';
+export { AuthenticationError } from './crypto/AuthenticationError.js';
+export { EnvelopeCodec } from './crypto/EnvelopeCodec.js';
+export { FileCrypto } from './crypto/FileCrypto.js';
+export { HashCrypto } from './crypto/HashCrypto.js';
+export { HybridCrypto } from './crypto/HybridCrypto.js';
+export { KeyCodec } from './crypto/KeyCodec.js';
+export { KeyDerivation } from './crypto/KeyDerivation.js';
+export { SignatureCrypto } from './crypto/SignatureCrypto.js';
+export { StreamCrypto } from './crypto/StreamCrypto.js';
+export { IVRegistry } from './storage/IVRegistry.js';
+export { HeadlessCryptoManager } from './managers/HeadlessCryptoManager.js';
+export { CryptoUtils } from './utils/CryptoUtils.js';
+export type * from './types/index.js';
+
+/**
+ * Garante que a Web Crypto API esteja disponível em `globalThis.crypto`
+ * No Node.js anterior ao 19 ela existe apenas em `require('node:crypto').webcrypto`;
+ * chame esta função uma vez antes de usar as classes do núcleo.
+ * @throws Error se o ambiente não oferecer a Web Crypto API
+ */
+async function ensureWebCrypto(): Promise<void> {
+    if (globalThis.crypto?.subtle) return;
+
+    try {
+        const { webcrypto } = await import('node:crypto');
+        Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true, writable: true });
+    } catch {
+        throw new Error('Web Crypto API não disponível neste ambiente.');
+    }
+}
+
+export { ensureWebCrypto };
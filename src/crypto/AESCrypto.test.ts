@@ -0,0 +1,649 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AESConfig, CryptoAlgorithm, KeyLength } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESCrypto } from './AESCrypto.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { EnvelopeCodec } from './EnvelopeCodec.js';
+import { SignatureCrypto } from './SignatureCrypto.js';
+
+const utils = new CryptoUtils();
+const KEY_LENGTHS: KeyLength[] = [128, 192, 256];
+
+/** Remove espaços dos vetores, escritos em blocos de 16 bytes para legibilidade */
+const hex = (text: string): string => text.replace(/\s+/g, '');
+
+/** Decodifica hexadecimal em bytes aceitos pela Web Crypto API */
+const fromHex = (text: string): Uint8Array<ArrayBuffer> => new Uint8Array(utils.hexToUint8Array(text));
+
+/**
+ * Configuração padrão de cada algoritmo
+ * @param algorithm Algoritmo
+ * @param keyLength Tamanho da chave
+ * @returns Configuração AES
+ */
+function configFor(algorithm: CryptoAlgorithm, keyLength: KeyLength): AESConfig {
+    switch (algorithm) {
+        case 'AES-GCM':
+            return { algorithm, keyLength, ivLength: 12, tagLength: 128 };
+        case 'AES-CTR':
+            return { algorithm, keyLength, ivLength: 16 };
+        default:
+            return { algorithm, keyLength, ivLength: 16 };
+    }
+}
+
+/** Texto em claro comum aos vetores F.2 e F.5 do NIST SP 800-38A */
+const SP800_38A_PLAINTEXT = hex(`
+    6bc1bee22e409f96e93d7e117393172a
+    ae2d8a571e03ac9c9eb76fac45af8e51
+    30c81c46a35ce411e5fbc1191a0a52ef
+    f69f2445df4f9b17ad2b417be66c3710`);
+
+const SP800_38A_KEYS: Record<KeyLength, string> = {
+    128: '2b7e151628aed2a6abf7158809cf4f3c',
+    192: '8e73b0f7da0e6452c810f32b809079e562f8ead2522c6b7b',
+    256: '603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4'
+};
+
+/** NIST SP 800-38A, F.2.1, F.2.3 e F.2.5 (CBC-AES128/192/256.Encrypt) */
+const CBC_VECTORS: Record<KeyLength, string> = {
+    128: hex(`
+        7649abac8119b246cee98e9b12e9197d
+        5086cb9b507219ee95db113a917678b2
+        73bed6b8e3c1743b7116e69e22229516
+        3ff1caa1681fac09120eca307586e1a7`),
+    192: hex(`
+        4f021db243bc633d7178183a9fa071e8
+        b4d9ada9ad7dedf4e5e738763f69145a
+        571b242012fb7ae07fa9baac3df102e0
+        08b0e27988598881d920a9e64f5615cd`),
+    256: hex(`
+        f58c4c04d6e5f1ba779eabfb5f7bfbd6
+        9cfc4e967edb808d679f777bc6702c7d
+        39f23369a9d9bacfa530e26304231461
+        b2eb05e2c39be9fcda6c19078c6a9d1b`)
+};
+
+/** NIST SP 800-38A, F.5.1, F.5.3 e F.5.5 (CTR-AES128/192/256.Encrypt) */
+const CTR_VECTORS: Record<KeyLength, string> = {
+    128: hex(`
+        874d6191b620e3261bef6864990db6ce
+        9806f66b7970fdff8617187bb9fffdff
+        5ae4df3edbd5d35e5b4f09020db03eab
+        1e031dda2fbe03d1792170a0f3009cee`),
+    192: hex(`
+        1abc932417521ca24f2b0459fe7e6e0b
+        090339ec0aa6faefd5ccc2c6f4ce8e94
+        1e36b26bd1ebc670d1bd1d665620abf7
+        4f78a7f6d29809585a97daec58c6b050`),
+    256: hex(`
+        601ec313775789a5b7a7f504bbf3d228
+        f443e3ca4d62b59aca84e990cacaf5c5
+        2b0930daa23de94ce87017ba2d84988d
+        dfc9c58db67aada613c2dd08457941a6`)
+};
+
+/**
+ * Vetores do AES-GCM (especificação do GCM, casos de teste 2/4, 8/10 e 14/16,
+ * usados na validação do NIST SP 800-38D): chave zero e chave com AAD
+ */
+interface GcmVector {
+    name: string;
+    key: string;
+    iv: string;
+    plaintext: string;
+    aad: string;
+    ciphertext: string;
+    tag: string;
+}
+
+const GCM_FEFFE_KEY = 'feffe9928665731c6d6a8f9467308308';
+const GCM_IV = 'cafebabefacedbaddecaf888';
+const GCM_AAD = 'feedfacedeadbeeffeedfacedeadbeefabaddad2';
+const GCM_PLAINTEXT = hex(`
+    d9313225f88406e5a55909c5aff5269a
+    86a7a9531534f7da2e4c303d8a318a72
+    1c3c0c95956809532fcf0e2449a6b525
+    b16aedf5aa0de657ba637b39`);
+
+const GCM_VECTORS: Record<KeyLength, GcmVector[]> = {
+    128: [
+        {
+            name: 'caso 2',
+            key: '0'.repeat(32),
+            iv: '0'.repeat(24),
+            plaintext: '0'.repeat(32),
+            aad: '',
+            ciphertext: '0388dace60b6a392f328c2b971b2fe78',
+            tag: 'ab6e47d42cec13bdf53a67b21257bddf'
+        },
+        {
+            name: 'caso 4',
+            key: GCM_FEFFE_KEY,
+            iv: GCM_IV,
+            plaintext: GCM_PLAINTEXT,
+            aad: GCM_AAD,
+            ciphertext: hex(`
+                42831ec2217774244b7221b784d0d49c
+                e3aa212f2c02a4e035c17e2329aca12e
+                21d514b25466931c7d8f6a5aac84aa05
+                1ba30b396a0aac973d58e091`),
+            tag: '5bc94fbc3221a5db94fae95ae7121a47'
+        }
+    ],
+    192: [
+        {
+            name: 'caso 8',
+            key: '0'.repeat(48),
+            iv: '0'.repeat(24),
+            plaintext: '0'.repeat(32),
+            aad: '',
+            ciphertext: '98e7247c07f0fe411c267e4384b0f600',
+            tag: '2ff58d80033927ab8ef4d4587514f0fb'
+        },
+        {
+            name: 'caso 10',
+            key: GCM_FEFFE_KEY + GCM_FEFFE_KEY.slice(0, 16),
+            iv: GCM_IV,
+            plaintext: GCM_PLAINTEXT,
+            aad: GCM_AAD,
+            ciphertext: hex(`
+                3980ca0b3c00e841eb06fac4872a2757
+                859e1ceaa6efd984628593b40ca1e19c
+                7d773d00c144c525ac619d18c84a3f47
+                18e2448b2fe324d9ccda2710`),
+            tag: '2519498e80f1478f37ba55bd6d27618c'
+        }
+    ],
+    256: [
+        {
+            name: 'caso 14',
+            key: '0'.repeat(64),
+            iv: '0'.repeat(24),
+            plaintext: '0'.repeat(32),
+            aad: '',
+            ciphertext: 'cea7403d4d606b6e074ec5d3baf39d18',
+            tag: 'd0d1c8a799996bf0265b98b5d48ab919'
+        },
+        {
+            name: 'caso 16',
+            key: GCM_FEFFE_KEY + GCM_FEFFE_KEY,
+            iv: GCM_IV,
+            plaintext: GCM_PLAINTEXT,
+            aad: GCM_AAD,
+            ciphertext: hex(`
+                522dc1f099567d07f47f37a32a84427d
+                643a8cdcbfe5c0c97598a2bd2555d1aa
+                8cb08e48590dbb3da7b08b1056828838
+                c5f61e6393ba7a0abcc9f662`),
+            tag: '76fc6ece0f4e1768cddf8853bb2d551b'
+        }
+    ]
+};
+
+describe('AESCrypto — vetores de resposta conhecida do NIST', () => {
+    for (const keyLength of KEY_LENGTHS) {
+        describe(`${keyLength} bits`, () => {
+            it('AES-CBC (SP 800-38A F.2): encripta os blocos do vetor', async () => {
+                const aes = new AESCrypto(configFor('AES-CBC', keyLength));
+                const iv = '000102030405060708090a0b0c0d0e0f';
+                const plaintext = fromHex(SP800_38A_PLAINTEXT);
+
+                // A Web Crypto API acrescenta um bloco de preenchimento PKCS #7 ao final
+                const encrypted = await aes.encryptBytes(plaintext, SP800_38A_KEYS[keyLength], iv);
+                assert.equal(encrypted.length, plaintext.length + 16);
+                assert.equal(utils.uint8ArrayToHex(encrypted.subarray(0, plaintext.length)), CBC_VECTORS[keyLength]);
+
+                const padding = encrypted.subarray(plaintext.length);
+                const vector = new Uint8Array([...fromHex(CBC_VECTORS[keyLength]), ...padding]);
+                assert.deepEqual(await aes.decryptBytes(vector, SP800_38A_KEYS[keyLength], iv), plaintext);
+            });
+
+            it('AES-CTR (SP 800-38A F.5): encripta e decripta o vetor', async () => {
+                const aes = new AESCrypto(configFor('AES-CTR', keyLength));
+                const counter = 'f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff';
+                const plaintext = fromHex(SP800_38A_PLAINTEXT);
+                const ciphertext = fromHex(CTR_VECTORS[keyLength]);
+
+                const encrypted = await aes.encryptBytes(plaintext, SP800_38A_KEYS[keyLength], counter);
+                assert.equal(utils.uint8ArrayToHex(encrypted), CTR_VECTORS[keyLength]);
+                assert.deepEqual(await aes.decryptBytes(ciphertext, SP800_38A_KEYS[keyLength], counter), plaintext);
+            });
+
+            it('AES-CTR (SP 800-38A F.5): decripta a partir de um bloco com counterOffset', async () => {
+                const aes = new AESCrypto(configFor('AES-CTR', keyLength));
+                const counter = 'f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff';
+                const ciphertext = fromHex(CTR_VECTORS[keyLength]);
+
+                const tail = await aes.decryptBytes(ciphertext.subarray(32), SP800_38A_KEYS[keyLength], counter, { counterOffset: 2 });
+                assert.equal(utils.uint8ArrayToHex(tail), SP800_38A_PLAINTEXT.slice(64));
+            });
+
+            for (const vector of GCM_VECTORS[keyLength]) {
+                it(`AES-GCM (${vector.name}): produz texto cifrado e tag do vetor`, async () => {
+                    const aes = new AESCrypto(configFor('AES-GCM', keyLength));
+                    const options = vector.aad ? { additionalData: fromHex(vector.aad) } : {};
+
+                    const encrypted = await aes.encryptBytes(fromHex(vector.plaintext), vector.key, vector.iv, options);
+                    assert.equal(utils.uint8ArrayToHex(encrypted), vector.ciphertext + vector.tag);
+
+                    const decrypted = await aes.decryptBytes(fromHex(vector.ciphertext + vector.tag), vector.key, vector.iv, options);
+                    assert.equal(utils.uint8ArrayToHex(decrypted), vector.plaintext);
+                });
+
+                it(`AES-GCM (${vector.name}): recusa tag adulterada`, async () => {
+                    const aes = new AESCrypto(configFor('AES-GCM', keyLength));
+                    const options = vector.aad ? { additionalData: fromHex(vector.aad) } : {};
+                    const tampered = fromHex(vector.ciphertext + vector.tag);
+                    tampered[tampered.length - 1] ^= 0x01;
+
+                    await assert.rejects(aes.decryptBytes(tampered, vector.key, vector.iv, options), AuthenticationError);
+                });
+            }
+        });
+    }
+});
+
+/**
+ * Subchaves do AES-CBC autenticado derivadas das chaves do SP 800-38A
+ * Calculadas à parte, com AES-ECB do OpenSSL sobre os blocos [i] || "AES-CBC-HMAC" || 0x00 || [L]
+ */
+const CBC_HMAC_SUBKEYS: Record<KeyLength, { encryption: string; mac: string }> = {
+    128: {
+        encryption: '3de3f0e9c9fe7214606bbb4deb0f25f9',
+        mac: 'f5134c887ee7e53f1405bfb9c10c47694874f5a6d29b34c7c580b918fc4636c7'
+    },
+    192: {
+        encryption: 'e0ed51cae0af53a1ce4bb0083d1ff557502a7320d2560d3a',
+        mac: 'ad32b8d1870a7efab9626bbf5f19f6176664e29a03eeeaa22fb8e5118ac7b225'
+    },
+    256: {
+        encryption: '22390e5d4bb01183e970e7ba085364c2b2518cddd2d9a0db4198d1639292333d',
+        mac: '9261372245c3a2cd9830f3bf21ceb2072b30af9037b6060dc74adf6242a2b89e'
+    }
+};
+
+describe('AESCrypto — derivação das chaves do AES-CBC autenticado', () => {
+    const iv = '000102030405060708090a0b0c0d0e0f';
+    const aad = new TextEncoder().encode('contexto');
+
+    /**
+     * Texto cifrado esperado, calculado diretamente com as subchaves fixadas
+     * @param keyLength Tamanho da chave informada
+     * @param plaintext Dados em claro
+     * @returns Promise com o texto cifrado seguido da tag HMAC
+     */
+    async function expectedCiphertext(keyLength: KeyLength, plaintext: Uint8Array<ArrayBuffer>): Promise<string> {
+        const { encryption, mac } = CBC_HMAC_SUBKEYS[keyLength];
+        const encryptionKey = await crypto.subtle.importKey('raw', fromHex(encryption), { name: 'AES-CBC' }, false, ['encrypt']);
+        const macKey = await crypto.subtle.importKey('raw', fromHex(mac), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+        const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: fromHex(iv) }, encryptionKey, plaintext));
+        // AAD || IV || texto cifrado || tamanho do AAD em bits (64 bits, big-endian)
+        const aadBits = new Uint8Array(8);
+        new DataView(aadBits.buffer).setBigUint64(0, BigInt(aad.length * 8));
+        const tag = await crypto.subtle.sign('HMAC', macKey, new Uint8Array([...aad, ...fromHex(iv), ...ciphertext, ...aadBits]));
+
+        return utils.uint8ArrayToHex(ciphertext) + utils.uint8ArrayToHex(new Uint8Array(tag));
+    }
+
+    for (const keyLength of KEY_LENGTHS) {
+        it(`${keyLength} bits: usa as subchaves fixadas, com chave em texto ou handle`, async () => {
+            const aes = new AESCrypto({ ...configFor('AES-CBC', keyLength), mac: 'HMAC-SHA-256' });
+            const plaintext = fromHex(SP800_38A_PLAINTEXT);
+            const expected = await expectedCiphertext(keyLength, plaintext);
+
+            const fromString = await aes.encryptBytes(plaintext, SP800_38A_KEYS[keyLength], iv, { additionalData: aad });
+            assert.equal(utils.uint8ArrayToHex(fromString), expected);
+
+            const handle = await aes.importKey(SP800_38A_KEYS[keyLength], { usages: ['encrypt'] });
+            const fromHandle = await aes.encryptBytes(plaintext, handle, iv, { additionalData: aad });
+            assert.equal(utils.uint8ArrayToHex(fromHandle), expected);
+        });
+    }
+});
+
+describe('AESCrypto — ida e volta', () => {
+    const configs: AESConfig[] = KEY_LENGTHS.flatMap(keyLength => [
+        configFor('AES-GCM', keyLength),
+        configFor('AES-CBC', keyLength),
+        { ...configFor('AES-CBC', keyLength), mac: 'HMAC-SHA-256' as const },
+        configFor('AES-CTR', keyLength)
+    ]);
+
+    for (const config of configs) {
+        const label = `${config.algorithm}${config.mac ? ' + HMAC' : ''} ${config.keyLength} bits`;
+
+        it(`${label}: decriptar(encriptar(x)) = x para tamanhos aleatórios`, async () => {
+            const aes = new AESCrypto(config);
+
+            for (const length of [1, 15, 16, 17, 31, 32, 33, 255, 1024, 4099]) {
+                const { key, iv } = aes.generateKeyAndIV();
+                const plaintext = utils.generateRandomBytes(length);
+
+                const encrypted = new Uint8Array(await aes.encryptBytes(plaintext, key, iv));
+                assert.deepEqual(await aes.decryptBytes(encrypted, key, iv), plaintext, `${length} bytes`);
+            }
+        });
+
+        it(`${label}: texto Unicode em todas as codificações de saída`, async () => {
+            const aes = new AESCrypto(config);
+            const text = 'Olá, 世界! 🔐 ação — ' + 'x'.repeat(Math.floor(Math.random() * 100));
+
+            for (const outputEncoding of ['hex', 'base64', 'base64url'] as const) {
+                const { key, iv } = aes.generateKeyAndIV(outputEncoding);
+                const encrypted = await aes.encrypt(text, key, iv, { outputEncoding });
+
+                assert.equal(utils.detectEncoding(encrypted) !== null, true);
+                assert.equal(await aes.decrypt(encrypted, key, iv), text);
+            }
+        });
+
+        it(`${label}: envelope carrega algoritmo, tamanho da chave e IV`, async () => {
+            const aes = new AESCrypto(config);
+            const { key, iv } = aes.generateKeyAndIV();
+
+            const envelope = await aes.encryptToEnvelope('mensagem', key, iv);
+            const header = aes.readEnvelope(envelope);
+
+            assert.equal(header.algorithm, config.algorithm);
+            assert.equal(header.keyLength, config.keyLength);
+            assert.equal(header.ivHex, iv);
+            assert.equal(await new AESCrypto(configFor(config.algorithm, 128)).decryptEnvelope(envelope, key, { allowUnauthenticated: true }), 'mensagem');
+        });
+    }
+
+    it('AES-GCM: AAD diferente na decriptação lança AuthenticationError', async () => {
+        const aes = new AESCrypto();
+        const { key, iv } = aes.generateKeyAndIV();
+        const encrypted = await aes.encrypt('dados', key, iv, { additionalData: 'contexto-a' });
+
+        assert.equal(await aes.decrypt(encrypted, key, iv, { additionalData: 'contexto-a' }), 'dados');
+        await assert.rejects(aes.decrypt(encrypted, key, iv, { additionalData: 'contexto-b' }), AuthenticationError);
+    });
+
+    it('AES-CBC autenticado: qualquer bit alterado lança AuthenticationError', async () => {
+        const aes = new AESCrypto({ ...configFor('AES-CBC', 256), mac: 'HMAC-SHA-256' });
+        const { key, iv } = aes.generateKeyAndIV();
+        const encrypted = new Uint8Array(await aes.encryptBytes(utils.generateRandomBytes(40), key, iv));
+
+        for (const position of [0, 20, encrypted.length - 1]) {
+            const tampered = new Uint8Array(encrypted);
+            tampered[position] ^= 0x80;
+            await assert.rejects(aes.decryptBytes(tampered, key, iv), AuthenticationError);
+        }
+    });
+});
+
+describe('AESCrypto — rebaixamento do envelope', () => {
+    const codec = new EnvelopeCodec();
+    const gcm = new AESCrypto();
+    const ctr = new AESCrypto(configFor('AES-CTR', 128));
+
+    /**
+     * Reescreve um envelope AES-GCM como AES-CTR: o texto cifrado do GCM é o fluxo
+     * CTR iniciado em IV || 00000002, sem a tag
+     */
+    async function forgeCtrEnvelope(): Promise<{ key: string; forged: string }> {
+        const { key, iv } = gcm.generateKeyAndIV();
+        const envelope = codec.decode(await gcm.encryptBytesToEnvelope(new TextEncoder().encode('pay alice 100'), key, iv));
+        const forged = codec.encode({
+            version: envelope.version,
+            algorithm: 'AES-CTR',
+            keyLength: envelope.keyLength,
+            ivHex: `${envelope.ivHex}00000002`,
+            counterLength: 32,
+            ciphertext: envelope.ciphertext.slice(0, -16)
+        });
+
+        // "1" -> "9" no texto em claro
+        forged[forged.length - 3]! ^= 0x31 ^ 0x39;
+        return { key, forged: utils.uint8ArrayToHex(forged) };
+    }
+
+    it('o envelope forjado seria aceito por uma instância AES-CTR que aceite envelopes sem autenticação', async () => {
+        const { key, forged } = await forgeCtrEnvelope();
+        assert.equal(await ctr.decryptEnvelope(forged, key, { allowUnauthenticated: true }), 'pay alice 900');
+    });
+
+    it('instância AES-GCM recusa o envelope rebaixado para AES-CTR', async () => {
+        const { key, forged } = await forgeCtrEnvelope();
+
+        await assert.rejects(gcm.decryptEnvelope(forged, key), /Envelope AES-CTR recusado: a configuração atual aceita apenas AES-GCM/);
+        await assert.rejects(gcm.decryptEnvelope(forged, key, { allowUnauthenticated: true }), /recusado/);
+    });
+
+    it('envelopes sem autenticação exigem o aceite explícito', async () => {
+        const { key, forged } = await forgeCtrEnvelope();
+        await assert.rejects(ctr.decryptEnvelope(forged, key), /Envelope AES-CTR sem autenticação recusado/);
+    });
+
+    it('envelopes sem autenticação de outro algoritmo são recusados mesmo com o aceite', async () => {
+        const cbc = new AESCrypto(configFor('AES-CBC', 128));
+        const { key, iv } = cbc.generateKeyAndIV();
+        const envelope = await cbc.encryptToEnvelope('mensagem', key, iv);
+
+        await assert.rejects(ctr.decryptEnvelope(envelope, key, { allowUnauthenticated: true }), /Envelope AES-CBC sem autenticação recusado/);
+    });
+
+    it('instância AES-GCM recusa tag encurtada no cabeçalho', async () => {
+        const { key, iv } = gcm.generateKeyAndIV();
+        const envelope = codec.decode(await gcm.encryptBytesToEnvelope(new TextEncoder().encode('dados'), key, iv));
+        const truncated = codec.encode({ ...envelope, tagLength: 96, ciphertext: envelope.ciphertext.slice(0, -4) });
+
+        await assert.rejects(gcm.decryptEnvelope(utils.uint8ArrayToHex(truncated), key), /tag de 96 bits recusado/);
+    });
+
+    it('instância AES-CBC com HMAC recusa o envelope sem o HMAC, mesmo com o aceite', async () => {
+        const cbcHmac = new AESCrypto({ ...configFor('AES-CBC', 128), mac: 'HMAC-SHA-256' });
+        const { key, iv } = cbcHmac.generateKeyAndIV();
+        const envelope = codec.decode(await cbcHmac.encryptBytesToEnvelope(utils.generateRandomBytes(32), key, iv));
+        const { mac: _mac, ...header } = envelope;
+        const stripped = utils.uint8ArrayToHex(codec.encode({ ...header, ciphertext: envelope.ciphertext.slice(0, -AESCrypto.MAC_TAG_LENGTH) }));
+
+        await assert.rejects(cbcHmac.decryptEnvelope(stripped, key, { allowUnauthenticated: true }),
+            /Envelope AES-CBC recusado: a configuração atual aceita apenas AES-CBC \+ HMAC-SHA-256/);
+        await assert.rejects(gcm.decryptEnvelope(stripped, key), /Envelope AES-CBC recusado/);
+    });
+
+    it('instância sem autenticação aceita envelopes autenticados', async () => {
+        const { key, iv } = gcm.generateKeyAndIV();
+        const envelope = await gcm.encryptToEnvelope('mensagem', key, iv);
+
+        assert.equal(await ctr.decryptEnvelope(envelope, key), 'mensagem');
+    });
+});
+
+describe('AESCrypto — parâmetros de derivação do envelope', () => {
+    it('recusa envelope com iterações do PBKDF2 acima do máximo', async () => {
+        const aes = new AESCrypto();
+        const { key, iv } = aes.generateKeyAndIV();
+        const kdf = { hash: 'SHA-256' as const, iterations: 600000, saltHex: '00'.repeat(16) };
+        const envelope = await aes.encryptBytesToEnvelope(new Uint8Array([1]), key, iv, { kdf });
+
+        // 600000 = 0x000927c0 no bloco de derivação; 0xffffffff levaria horas para derivar
+        const bytes = new Uint8Array(envelope);
+        const position = utils.uint8ArrayToHex(bytes).indexOf('000927c0') / 2;
+        bytes.set([0xff, 0xff, 0xff, 0xff], position);
+
+        assert.throws(() => aes.readEnvelope(bytes), /o PBKDF2 deve usar entre 1 e 6000000 iterações/);
+        await assert.rejects(aes.decryptEnvelopeBytes(bytes, key), /o PBKDF2 deve usar entre 1 e 6000000 iterações/);
+    });
+});
+
+describe('AESCrypto — assinatura destacada', () => {
+    const key = '00'.repeat(16);
+    const iv = '11'.repeat(16);
+
+    it('verifySignature confere a saída de encryptAndSign', async () => {
+        const aes = new AESCrypto(configFor('AES-CTR', 128));
+        const keys = await new SignatureCrypto().generateKeyPair('Ed25519');
+        const signed = await aes.encryptAndSign('pay alice 100', key, iv, keys.privateKey);
+
+        assert.equal((await aes.verifySignature(signed, iv, [keys.publicKey])).valid, true);
+    });
+
+    it('a assinatura cobre o IV: trocar o IV para alterar o texto em claro a invalida', async () => {
+        const aes = new AESCrypto(configFor('AES-CTR', 128));
+        const keys = await new SignatureCrypto().generateKeyPair('Ed25519');
+        const signed = await aes.encryptAndSign('pay alice 100', key, iv, keys.privateKey);
+
+        const forgedIv = '11'.repeat(15) + '12';
+        assert.equal((await aes.verifySignature(signed, forgedIv, [keys.publicKey])).valid, false);
+        assert.equal((await aes.verifySignature(signed, iv, [keys.publicKey])).valid, true);
+    });
+
+    it('signedContent concatena IV e texto cifrado', () => {
+        const content = new AESCrypto().signedContent(fromHex('aabb'), '0102');
+        assert.equal(utils.uint8ArrayToHex(content), '0102aabb');
+    });
+});
+
+describe('AESCrypto — validação da configuração', () => {
+    const cases: { name: string; config: AESConfig; message: RegExp }[] = [
+        {
+            name: 'tag fora do AES-GCM',
+            config: { algorithm: 'AES-CBC', keyLength: 128, ivLength: 16, tagLength: 128 },
+            message: /Tamanho da tag de autenticação só se aplica ao AES-GCM/
+        },
+        {
+            name: 'tag de tamanho inválido',
+            config: { algorithm: 'AES-GCM', keyLength: 128, ivLength: 12, tagLength: 64 as never },
+            message: /Tag de autenticação deve ter 96, 104, 112, 120 ou 128 bits/
+        },
+        {
+            name: 'contador fora do AES-CTR',
+            config: { algorithm: 'AES-GCM', keyLength: 128, ivLength: 12, counterLength: 64 },
+            message: /Tamanho do contador só se aplica ao AES-CTR/
+        },
+        {
+            name: 'contador vazio',
+            config: { algorithm: 'AES-CTR', keyLength: 128, ivLength: 16, counterLength: 0 },
+            message: /Contador deve ter entre 1 e 128 bits/
+        },
+        {
+            name: 'contador maior que o bloco',
+            config: { algorithm: 'AES-CTR', keyLength: 128, ivLength: 16, counterLength: 129 },
+            message: /Contador deve ter entre 1 e 128 bits/
+        },
+        {
+            name: 'contador fracionário',
+            config: { algorithm: 'AES-CTR', keyLength: 128, ivLength: 16, counterLength: 32.5 },
+            message: /Contador deve ter entre 1 e 128 bits/
+        },
+        {
+            name: 'HMAC fora do AES-CBC',
+            config: { algorithm: 'AES-GCM', keyLength: 128, ivLength: 12, mac: 'HMAC-SHA-256' },
+            message: /Autenticação por HMAC só se aplica ao AES-CBC/
+        },
+        {
+            name: 'MAC não suportado',
+            config: { algorithm: 'AES-CBC', keyLength: 128, ivLength: 16, mac: 'HMAC-SHA-1' as never },
+            message: /Autenticação do AES-CBC deve ser HMAC-SHA-256/
+        },
+        {
+            name: 'AES-CTR com bloco de contador curto',
+            config: { algorithm: 'AES-CTR', keyLength: 128, ivLength: 12 },
+            message: /AES-CTR exige um bloco de contador de 16 bytes/
+        }
+    ];
+
+    for (const { name, config, message } of cases) {
+        it(`recusa ${name}`, () => {
+            assert.throws(() => new AESCrypto(config), message);
+        });
+    }
+});
+
+describe('AESCrypto — validação dos parâmetros', () => {
+    const aes = new AESCrypto(configFor('AES-GCM', 128));
+    const key = '000102030405060708090a0b0c0d0e0f';
+    const iv = '000102030405060708090a0b';
+
+    it('exige chave e IV', async () => {
+        await assert.rejects(aes.encrypt('x', '', iv), /Para encriptar, forneça uma chave e IV válidos/);
+        await assert.rejects(aes.decrypt('00', key, ''), /Para decriptar, forneça uma chave e IV válidos/);
+    });
+
+    it('recusa IV em codificação não reconhecida', async () => {
+        await assert.rejects(aes.encrypt('x', key, 'não é iv'), /IV deve estar em hexadecimal, Base64 ou Base64URL/);
+    });
+
+    it('recusa IV de tamanho diferente do configurado', async () => {
+        await assert.rejects(aes.encrypt('x', key, '000102030405060708090a0b0c0d0e0f'), /IV deve ter 12 bytes \(24 caracteres hex\)/);
+    });
+
+    it('recusa IV em hexadecimal com número ímpar de caracteres', async () => {
+        await assert.rejects(aes.encrypt('x', key, '000102030405060708090a0'), /IV deve/);
+    });
+
+    it('recusa chave em codificação não reconhecida', async () => {
+        await assert.rejects(aes.encrypt('x', 'não é chave', iv), /Chave deve estar em hexadecimal, Base64 ou Base64URL/);
+    });
+
+    it('recusa chave de tamanho diferente de 128, 192 ou 256 bits', async () => {
+        for (const length of [8, 15, 17, 20, 31, 33, 64]) {
+            await assert.rejects(
+                aes.encrypt('x', utils.uint8ArrayToHex(utils.generateRandomBytes(length)), iv),
+                /Chave deve ter 128, 192 ou 256 bits/,
+                `${length} bytes`
+            );
+        }
+    });
+
+    it('recusa handle de outro algoritmo', async () => {
+        const handle = await new AESCrypto(configFor('AES-CBC', 128)).importKey(key);
+        await assert.rejects(aes.encrypt('x', handle, iv), /Chave foi criada para AES-CBC, mas a operação usa AES-GCM/);
+    });
+
+    it('recusa handle sem a operação solicitada', async () => {
+        const handle = await aes.importKey(key, { usages: ['decrypt'] });
+        await assert.rejects(aes.encrypt('x', handle, iv), /Chave não permite a operação "encrypt"/);
+    });
+
+    it('no AES-CBC autenticado exige handle que permita encriptar', async () => {
+        const authenticated = new AESCrypto({ ...configFor('AES-CBC', 128), mac: 'HMAC-SHA-256' });
+        const handle = await authenticated.importKey(key, { usages: ['decrypt'] });
+
+        await assert.rejects(
+            authenticated.decryptBytes(new Uint8Array(64), handle, '000102030405060708090a0b0c0d0e0f'),
+            /precisa permitir "encrypt" para derivar as subchaves/
+        );
+    });
+
+    it('recusa dados vazios', async () => {
+        await assert.rejects(aes.encryptBytes(new Uint8Array(0), key, iv), /Dados para encriptação não podem estar vazios/);
+        await assert.rejects(aes.decryptBytes(new Uint8Array(0), key, iv), /Dados para decriptação não podem estar vazios/);
+    });
+
+    it('recusa deslocamento de contador fora do AES-CTR', async () => {
+        await assert.rejects(aes.encrypt('x', key, iv, { counterOffset: 1 }), /Deslocamento de contador só é suportado no AES-CTR/);
+    });
+
+    it('recusa deslocamento de contador negativo ou fracionário', async () => {
+        const ctr = new AESCrypto(configFor('AES-CTR', 128));
+        const counter = '000102030405060708090a0b0c0d0e0f';
+
+        await assert.rejects(ctr.encrypt('x', key, counter, { counterOffset: -1 }), /Deslocamento de contador deve ser um inteiro não negativo/);
+        await assert.rejects(ctr.encrypt('x', key, counter, { counterOffset: 1.5 }), /Deslocamento de contador deve ser um inteiro não negativo/);
+    });
+
+    it('recusa AAD fora do AES-GCM', async () => {
+        const counter = '000102030405060708090a0b0c0d0e0f';
+
+        await assert.rejects(
+            new AESCrypto(configFor('AES-CTR', 128)).encrypt('x', key, counter, { additionalData: 'aad' }),
+            /Dados adicionais autenticados \(AAD\) só são suportados no AES-GCM/
+        );
+        await assert.rejects(
+            new AESCrypto(configFor('AES-CBC', 128)).encrypt('x', key, counter, { additionalData: 'aad' }),
+            /Dados adicionais autenticados \(AAD\) só são suportados no AES-GCM/
+        );
+    });
+
+    it('envolve as mensagens com a operação que falhou', async () => {
+        await assert.rejects(aes.encrypt('x', '', iv), /^Error: Erro na encriptação: /);
+        await assert.rejects(aes.decrypt('00', '', iv), /^Error: Erro na decriptação: /);
+    });
+});
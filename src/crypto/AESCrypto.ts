@@ -1,110 +1,527 @@
-import type { AESConfig, EncryptionResult, CryptoOperation } from '../types/index.js';
+import type {
+    AESConfig,
+    AEADOptions,
+    CipherOptions,
+    CryptoAlgorithm,
+    EncryptionResult,
+    CryptoOperation,
+    CiphertextEnvelope,
+    DataEncoding,
+    EnvelopeDecryptOptions,
+    EnvelopeHeader,
+    EnvelopeOptions,
+    KDFParameters,
+    KeyHandleOptions,
+    KeyInput,
+    KeyLength,
+    SignatureVerification,
+    SignedCiphertext
+} from '../types/index.js';
 import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESKey } from './AESKey.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { EnvelopeCodec } from './EnvelopeCodec.js';
+import { SignatureCrypto } from './SignatureCrypto.js';
 
 /**
  * Classe responsável pelas operações de criptografia AES
  * Implementa encriptação e decriptação usando Web Crypto API
  */
 export class AESCrypto {
+    /** Tamanho da tag do HMAC-SHA-256 no AES-CBC autenticado, em bytes */
+    public static readonly MAC_TAG_LENGTH = 32;
+
+    /** Tamanho do IV de cada algoritmo, em bytes: nonce de 12 bytes no GCM, bloco de 16 bytes no CBC e no CTR */
+    public static readonly IV_LENGTHS: Readonly<Record<CryptoAlgorithm, number>> = {
+        'AES-GCM': 12,
+        'AES-CBC': 16,
+        'AES-CTR': 16
+    };
+
+    /** Rótulo dos blocos usados para derivar as chaves do AES-CBC autenticado (12 bytes, entre o contador e o tamanho) */
+    private static readonly MAC_KDF_LABEL = 'AES-CBC-HMAC';
+
     private readonly config: AESConfig;
     private readonly cryptoUtils: CryptoUtils;
+    private readonly envelopeCodec: EnvelopeCodec;
+    private readonly signatureCrypto: SignatureCrypto;
 
     /**
      * Cria uma nova instância do AESCrypto
      * @param config Configurações para operações AES
      */
     constructor(config: AESConfig = {
-        algorithm: 'AES-CBC',
+        algorithm: 'AES-GCM',
         keyLength: 128,
-        ivLength: 16
+        ivLength: 12,
+        tagLength: 128
     }) {
+        this.validateConfig(config);
         this.config = config;
         this.cryptoUtils = new CryptoUtils();
+        this.envelopeCodec = new EnvelopeCodec();
+        this.signatureCrypto = new SignatureCrypto();
+    }
+
+    /**
+     * Monta a configuração padrão de um algoritmo e tamanho de chave
+     * @param algorithm Algoritmo
+     * @param keyLength Tamanho da chave em bits
+     * @returns Configuração com o IV do algoritmo e, no AES-GCM, tag de 128 bits
+     */
+    public static createConfig(algorithm: CryptoAlgorithm, keyLength: KeyLength): AESConfig {
+        const config: AESConfig = {
+            algorithm,
+            keyLength,
+            ivLength: AESCrypto.IV_LENGTHS[algorithm]
+        };
+
+        if (algorithm === 'AES-GCM') {
+            config.tagLength = 128;
+        }
+
+        return config;
+    }
+
+    /**
+     * Indica se um modo detecta alterações no texto cifrado
+     * @param mode Algoritmo e MAC (configuração ou cabeçalho de envelope)
+     * @returns true para AES-GCM e AES-CBC com HMAC
+     */
+    public static isAuthenticated(mode: Pick<AESConfig, 'algorithm' | 'mac'>): boolean {
+        return mode.algorithm === 'AES-GCM' || (mode.algorithm === 'AES-CBC' && mode.mac !== undefined);
+    }
+
+    /**
+     * Valida as configurações fornecidas ao construtor
+     * @param config Configurações AES
+     * @throws Error se alguma configuração for incompatível com o algoritmo
+     */
+    private validateConfig(config: AESConfig): void {
+        if (config.tagLength !== undefined) {
+            if (config.algorithm !== 'AES-GCM') {
+                throw new Error('Tamanho da tag de autenticação só se aplica ao AES-GCM.');
+            }
+
+            if (![96, 104, 112, 120, 128].includes(config.tagLength)) {
+                throw new Error('Tag de autenticação deve ter 96, 104, 112, 120 ou 128 bits.');
+            }
+        }
+
+        if (config.counterLength !== undefined) {
+            if (config.algorithm !== 'AES-CTR') {
+                throw new Error('Tamanho do contador só se aplica ao AES-CTR.');
+            }
+
+            if (!Number.isInteger(config.counterLength) || config.counterLength < 1 || config.counterLength > 128) {
+                throw new Error('Contador deve ter entre 1 e 128 bits.');
+            }
+        }
+
+        if (config.mac !== undefined) {
+            if (config.algorithm !== 'AES-CBC') {
+                throw new Error('Autenticação por HMAC só se aplica ao AES-CBC.');
+            }
+
+            if (config.mac !== 'HMAC-SHA-256') {
+                throw new Error('Autenticação do AES-CBC deve ser HMAC-SHA-256.');
+            }
+        }
+
+        if (config.algorithm === 'AES-CTR' && config.ivLength !== 16) {
+            throw new Error('AES-CTR exige um bloco de contador de 16 bytes.');
+        }
+    }
+
+    /**
+     * Monta os parâmetros do algoritmo esperados pela Web Crypto API
+     * @param iv Vetor de inicialização (nonce no AES-GCM, bloco de contador inicial no AES-CTR)
+     * @param options Opções da operação
+     * @returns Parâmetros para crypto.subtle.encrypt/decrypt
+     * @throws Error se uma opção não se aplicar ao algoritmo configurado
+     */
+    private buildAlgorithmParams(iv: Uint8Array<ArrayBuffer>, options: CipherOptions): AesCbcParams | AesGcmParams | AesCtrParams {
+        if (options.counterOffset !== undefined && this.config.algorithm !== 'AES-CTR') {
+            throw new Error('Deslocamento de contador só é suportado no AES-CTR.');
+        }
+
+        if (this.config.algorithm === 'AES-CTR') {
+            if (options.additionalData !== undefined && options.additionalData.length > 0) {
+                throw new Error('Dados adicionais autenticados (AAD) só são suportados no AES-GCM.');
+            }
+
+            const length = this.config.counterLength ?? 64;
+            return {
+                name: 'AES-CTR',
+                counter: this.offsetCounter(iv, options.counterOffset ?? 0, length),
+                length
+            };
+        }
+
+        if (this.config.algorithm === 'AES-GCM') {
+            const params: AesGcmParams = {
+                name: 'AES-GCM',
+                iv,
+                tagLength: this.config.tagLength ?? 128
+            };
+
+            if (options.additionalData !== undefined && options.additionalData.length > 0) {
+                params.additionalData = this.toAdditionalData(options.additionalData);
+            }
+
+            return params;
+        }
+
+        if (options.additionalData !== undefined && options.additionalData.length > 0) {
+            throw new Error('Dados adicionais autenticados (AAD) só são suportados no AES-GCM.');
+        }
+
+        return {
+            name: this.config.algorithm,
+            iv
+        };
+    }
+
+    /**
+     * Avança o bloco de contador em um número de blocos
+     * Apenas os `length` bits menos significativos são incrementados, com o mesmo
+     * comportamento de estouro usado pela Web Crypto API
+     * @param counter Bloco de contador inicial (16 bytes)
+     * @param blocks Quantidade de blocos a avançar
+     * @param length Quantidade de bits do contador
+     * @returns Novo bloco de contador
+     * @throws Error se o deslocamento for inválido
+     */
+    private offsetCounter(counter: Uint8Array<ArrayBuffer>, blocks: number, length: number): Uint8Array<ArrayBuffer> {
+        if (!Number.isSafeInteger(blocks) || blocks < 0) {
+            throw new Error('Deslocamento de contador deve ser um inteiro não negativo.');
+        }
+
+        if (blocks === 0) {
+            return counter;
+        }
+
+        const value = BigInt(`0x${this.cryptoUtils.uint8ArrayToHex(counter)}`);
+        const mask = (1n << BigInt(length)) - 1n;
+        const counterPart = ((value & mask) + BigInt(blocks)) & mask;
+        const result = (value & ~mask) | counterPart;
+
+        return new Uint8Array(this.cryptoUtils.hexToUint8Array(result.toString(16).padStart(counter.length * 2, '0')));
+    }
+
+    /**
+     * Converte os dados adicionais autenticados para bytes
+     * @param additionalData AAD como texto (UTF-8) ou bytes
+     * @returns Uint8Array com ArrayBuffer próprio
+     */
+    private toAdditionalData(additionalData: string | Uint8Array): Uint8Array<ArrayBuffer> {
+        if (typeof additionalData === 'string') {
+            return new TextEncoder().encode(additionalData);
+        }
+
+        return new Uint8Array(additionalData);
     }
 
     /**
      * Cria uma chave criptográfica a partir de dados binários
+     * A chave não é exportável e só pode ser usada na operação solicitada
      * @param keyData Dados da chave em Uint8Array
+     * @param operation Operação em que a chave será usada
      * @returns Promise com a chave criptográfica
      */
-    private async createCryptoKey(keyData: Uint8Array): Promise<CryptoKey> {
-        // Garantir que temos um ArrayBuffer puro
-        const buffer = new ArrayBuffer(keyData.length);
-        const view = new Uint8Array(buffer);
-        view.set(keyData);
-        
+    private async createCryptoKey(keyData: Uint8Array, operation: CryptoOperation): Promise<CryptoKey> {
         return await crypto.subtle.importKey(
             'raw',
-            buffer,
+            new Uint8Array(keyData),
             { name: this.config.algorithm },
             false,
-            ['encrypt', 'decrypt']
+            [operation]
         );
     }
 
     /**
-     * Valida os parâmetros de entrada para operações criptográficas
-     * @param keyHex Chave em formato hexadecimal
-     * @param ivHex IV em formato hexadecimal
+     * Valida e prepara os parâmetros de entrada para operações criptográficas
+     * Chave e IV podem estar em hexadecimal, Base64 ou Base64URL (detectado automaticamente);
+     * a chave também pode ser um handle já importado, que é usado sem nova importação
+     * @param key Chave codificada ou handle
+     * @param iv IV codificado
      * @param operation Tipo de operação (encrypt/decrypt)
+     * @returns Promise com a CryptoKey, o tamanho da chave e os bytes do IV
      * @throws Error se os parâmetros forem inválidos
      */
-    private validateParameters(keyHex: string, ivHex: string, operation: CryptoOperation): void {
-        if (!keyHex || !ivHex) {
+    private async prepareParameters(
+        key: KeyInput,
+        iv: string,
+        operation: CryptoOperation
+    ): Promise<{ cryptoKey: CryptoKey; keyLength: KeyLength; ivData: Uint8Array<ArrayBuffer> }> {
+        if (!key || !iv) {
             throw new Error(`Para ${operation === 'encrypt' ? 'encriptar' : 'decriptar'}, forneça uma chave e IV válidos.`);
         }
 
-        if (!this.cryptoUtils.isValidHex(keyHex)) {
-            throw new Error('Chave deve ser uma string hexadecimal válida.');
+        if (this.cryptoUtils.detectEncoding(iv) === null) {
+            throw new Error('IV deve estar em hexadecimal, Base64 ou Base64URL.');
         }
 
-        if (!this.cryptoUtils.isValidHex(ivHex)) {
-            throw new Error('IV deve ser uma string hexadecimal válida.');
+        const ivData = new Uint8Array(this.cryptoUtils.decodeData(iv).bytes);
+        if (ivData.length !== this.config.ivLength) {
+            throw new Error(`IV deve ter ${this.config.ivLength} bytes (${this.config.ivLength * 2} caracteres hex).`);
+        }
+
+        // No AES-CBC autenticado a chave informada só é usada para derivar as subchaves,
+        // o que é feito encriptando blocos fixos
+        const usage: CryptoOperation = this.config.mac ? 'encrypt' : operation;
+
+        if (typeof key !== 'string') {
+            if (key.algorithm !== this.config.algorithm) {
+                throw new Error(`Chave foi criada para ${key.algorithm}, mas a operação usa ${this.config.algorithm}.`);
+            }
+
+            if (!key.usages.includes(usage)) {
+                throw new Error(this.config.mac
+                    ? 'No AES-CBC autenticado a chave precisa permitir "encrypt" para derivar as subchaves.'
+                    : `Chave não permite a operação "${operation}".`);
+            }
+
+            return { cryptoKey: key.cryptoKey, keyLength: key.keyLength, ivData };
         }
 
-        if (!this.cryptoUtils.isValidKeySize(keyHex)) {
+        if (this.cryptoUtils.detectEncoding(key) === null) {
+            throw new Error('Chave deve estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        const keyData = new Uint8Array(this.cryptoUtils.decodeData(key).bytes);
+        if (![16, 24, 32].includes(keyData.length)) {
             throw new Error('Chave deve ter 128, 192 ou 256 bits (16, 24 ou 32 bytes).');
         }
 
-        if (!this.cryptoUtils.isValidIVSize(ivHex, this.config.ivLength)) {
-            throw new Error(`IV deve ter ${this.config.ivLength} bytes (${this.config.ivLength * 2} caracteres hex).`);
+        const cryptoKey = await this.createCryptoKey(keyData, usage);
+        return { cryptoKey, keyLength: (keyData.length * 8) as KeyLength, ivData };
+    }
+
+    /**
+     * Obtém a codificação de saída de uma operação
+     * @param options Opções da operação
+     * @returns Codificação da opção, da configuração ou hexadecimal
+     */
+    private resolveOutputEncoding(options: { outputEncoding?: DataEncoding }): DataEncoding {
+        return options.outputEncoding ?? this.config.outputEncoding ?? 'hex';
+    }
+
+    /**
+     * Executa a encriptação com parâmetros já validados
+     * @param data Dados em claro
+     * @param cryptoKey Chave importada
+     * @param ivData Bytes do IV
+     * @param options Opções da operação
+     * @returns Promise com os bytes encriptados
+     */
+    private async encryptRaw(
+        data: Uint8Array<ArrayBuffer>,
+        cryptoKey: CryptoKey,
+        ivData: Uint8Array<ArrayBuffer>,
+        options: CipherOptions
+    ): Promise<Uint8Array<ArrayBuffer>> {
+        if (this.config.mac) {
+            return await this.encryptAuthenticatedCbc(data, cryptoKey, ivData, options);
         }
+
+        const encryptedBuffer = await crypto.subtle.encrypt(
+            this.buildAlgorithmParams(ivData, options),
+            cryptoKey,
+            data
+        );
+
+        return new Uint8Array(encryptedBuffer);
     }
 
     /**
-     * Encripta dados usando AES
-     * @param plainText Texto a ser encriptado
-     * @param keyHex Chave em formato hexadecimal
-     * @param ivHex IV em formato hexadecimal
-     * @returns Promise com os dados encriptados em formato hexadecimal
+     * Executa a decriptação com parâmetros já validados
+     * @param data Dados encriptados
+     * @param cryptoKey Chave importada
+     * @param ivData Bytes do IV
+     * @param options Opções da operação
+     * @returns Promise com os bytes decriptados
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC autenticado não puder ser verificado
      */
-    public async encrypt(plainText: string, keyHex: string, ivHex: string): Promise<string> {
-        try {
-            this.validateParameters(keyHex, ivHex, 'encrypt');
+    private async decryptRaw(
+        data: Uint8Array<ArrayBuffer>,
+        cryptoKey: CryptoKey,
+        ivData: Uint8Array<ArrayBuffer>,
+        options: CipherOptions
+    ): Promise<Uint8Array<ArrayBuffer>> {
+        if (this.config.mac) {
+            return await this.decryptAuthenticatedCbc(data, cryptoKey, ivData, options);
+        }
+
+        const algorithmParams = this.buildAlgorithmParams(ivData, options);
 
-            if (!plainText) {
-                throw new Error('Texto para encriptação não pode estar vazio.');
+        try {
+            return new Uint8Array(await crypto.subtle.decrypt(algorithmParams, cryptoKey, data));
+        } catch (error) {
+            // No AES-GCM qualquer falha de decriptação significa que a tag não confere
+            if (this.config.algorithm === 'AES-GCM') {
+                throw new AuthenticationError();
             }
+            throw error;
+        }
+    }
 
-            const keyData = this.cryptoUtils.hexToUint8Array(keyHex);
-            const ivData = this.cryptoUtils.hexToUint8Array(ivHex);
-            const plainTextBuffer = this.cryptoUtils.textToArrayBuffer(plainText);
+    /**
+     * Encripta no AES-CBC autenticado (encrypt-then-MAC)
+     * O texto cifrado é seguido da tag HMAC-SHA-256 calculada sobre AAD, IV e texto cifrado
+     * @param data Dados em claro
+     * @param masterKey Chave informada, usada apenas para derivar as subchaves
+     * @param ivData Bytes do IV
+     * @param options Opções da operação (AAD)
+     * @returns Promise com o texto cifrado seguido da tag
+     */
+    private async encryptAuthenticatedCbc(
+        data: Uint8Array<ArrayBuffer>,
+        masterKey: CryptoKey,
+        ivData: Uint8Array<ArrayBuffer>,
+        options: CipherOptions
+    ): Promise<Uint8Array<ArrayBuffer>> {
+        if (options.counterOffset !== undefined) {
+            throw new Error('Deslocamento de contador só é suportado no AES-CTR.');
+        }
 
-            const cryptoKey = await this.createCryptoKey(keyData);
+        const { encryptionKey, macKey } = await this.deriveCbcHmacKeys(masterKey);
+        const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: ivData }, encryptionKey, data));
+        const tag = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, this.buildMacInput(options.additionalData, ivData, ciphertext)));
 
-            // Garantir que ivData é um Uint8Array com ArrayBuffer puro
-            const ivBuffer = new Uint8Array(ivData);
+        const result = new Uint8Array(ciphertext.length + tag.length);
+        result.set(ciphertext);
+        result.set(tag, ciphertext.length);
+        return result;
+    }
 
-            const encryptedBuffer = await crypto.subtle.encrypt(
-                {
-                    name: this.config.algorithm,
-                    iv: ivBuffer
-                },
-                cryptoKey,
-                plainTextBuffer
-            );
+    /**
+     * Decripta no AES-CBC autenticado, verificando a tag antes de decriptar
+     * Tamanho inválido, tag incorreta e padding inválido produzem o mesmo erro, para que
+     * um atacante não consiga distinguir as falhas (oráculo de padding)
+     * @param data Texto cifrado seguido da tag
+     * @param masterKey Chave informada, usada apenas para derivar as subchaves
+     * @param ivData Bytes do IV
+     * @param options Opções da operação (AAD)
+     * @returns Promise com os bytes decriptados
+     * @throws AuthenticationError se a tag não conferir ou a decriptação falhar
+     */
+    private async decryptAuthenticatedCbc(
+        data: Uint8Array<ArrayBuffer>,
+        masterKey: CryptoKey,
+        ivData: Uint8Array<ArrayBuffer>,
+        options: CipherOptions
+    ): Promise<Uint8Array<ArrayBuffer>> {
+        if (options.counterOffset !== undefined) {
+            throw new Error('Deslocamento de contador só é suportado no AES-CTR.');
+        }
 
-            return this.cryptoUtils.uint8ArrayToHex(new Uint8Array(encryptedBuffer));
+        const { encryptionKey, macKey } = await this.deriveCbcHmacKeys(masterKey);
+        const ciphertextLength = data.length - AESCrypto.MAC_TAG_LENGTH;
+
+        if (ciphertextLength < 16 || ciphertextLength % 16 !== 0) {
+            throw new AuthenticationError();
+        }
+
+        const ciphertext = data.subarray(0, ciphertextLength);
+        const tag = data.subarray(ciphertextLength);
+        const expectedTag = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, this.buildMacInput(options.additionalData, ivData, ciphertext)));
+
+        if (!this.cryptoUtils.constantTimeEqual(expectedTag, tag)) {
+            throw new AuthenticationError();
+        }
+
+        try {
+            return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: ivData }, encryptionKey, ciphertext));
+        } catch {
+            throw new AuthenticationError();
+        }
+    }
+
+    /**
+     * Deriva as chaves de encriptação e de MAC do AES-CBC autenticado
+     * KDF em modo contador na estrutura do NIST SP 800-108, com o AES da chave informada
+     * como PRF: o bloco i é [i] || rótulo || 0x00 || [L], com L o total de bits derivados
+     * (chave AES-CBC do mesmo tamanho da informada seguida da chave HMAC-SHA-256 de 256 bits).
+     * Cada bloco é encriptado em uma chamada própria, com IV zero, de modo que a saída é
+     * exatamente AES(K, bloco i), sem encadeamento entre os blocos. Usar o AES como PRF
+     * permite derivar também de handles não exportáveis, em que o HKDF não tem acesso aos bytes.
+     * A chave informada nunca encripta os dados; ela não deve ser usada também no AES-CBC ou
+     * no AES-CTR sem autenticação, que encriptariam blocos escolhidos e revelariam as subchaves.
+     * @param masterKey Chave AES-CBC informada (com permissão de encriptar)
+     * @returns Promise com as subchaves, não exportáveis
+     */
+    private async deriveCbcHmacKeys(masterKey: CryptoKey): Promise<{ encryptionKey: CryptoKey; macKey: CryptoKey }> {
+        const keyBytes = (masterKey.algorithm as AesKeyAlgorithm).length / 8;
+        const outputLength = keyBytes + 32;
+        const label = new TextEncoder().encode(AESCrypto.MAC_KDF_LABEL);
+        const blockCount = Math.ceil(outputLength / 16);
+
+        const blocks = Array.from({ length: blockCount }, (_, index) => {
+            const block = new Uint8Array(16);
+            block[0] = index + 1;
+            block.set(label, 1);
+            new DataView(block.buffer).setUint16(14, outputLength * 8);
+            return block;
+        });
+
+        // No AES-CBC com IV zero, o primeiro bloco da saída é AES(K, bloco); o segundo é o preenchimento
+        const encrypted = await Promise.all(blocks.map(block =>
+            crypto.subtle.encrypt({ name: 'AES-CBC', iv: new Uint8Array(16) }, masterKey, block)));
+
+        const output = new Uint8Array(blockCount * 16);
+        encrypted.forEach((buffer, index) => {
+            output.set(new Uint8Array(buffer, 0, 16), index * 16);
+            new Uint8Array(buffer).fill(0);
+        });
+
+        try {
+            const encryptionKey = await crypto.subtle.importKey('raw', output.slice(0, keyBytes), { name: 'AES-CBC' }, false, ['encrypt', 'decrypt']);
+            const macKey = await crypto.subtle.importKey('raw', output.slice(keyBytes, outputLength), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+            return { encryptionKey, macKey };
+        } finally {
+            output.fill(0);
+        }
+    }
+
+    /**
+     * Monta a mensagem autenticada pelo HMAC: AAD, IV, texto cifrado e o tamanho do AAD
+     * em bits (64 bits, big-endian), como no AES_CBC_HMAC_SHA2 da RFC 7518
+     * @param additionalData AAD (opcional)
+     * @param ivData Bytes do IV
+     * @param ciphertext Texto cifrado
+     * @returns Bytes a serem autenticados
+     */
+    private buildMacInput(additionalData: string | Uint8Array | undefined, ivData: Uint8Array, ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+        const aad = this.toAdditionalData(additionalData ?? new Uint8Array(0));
+        const input = new Uint8Array(aad.length + ivData.length + ciphertext.length + 8);
+
+        input.set(aad);
+        input.set(ivData, aad.length);
+        input.set(ciphertext, aad.length + ivData.length);
+        new DataView(input.buffer).setBigUint64(input.length - 8, BigInt(aad.length) * 8n);
+
+        return input;
+    }
+
+    /**
+     * Encripta dados binários usando AES
+     * @param data Dados em claro (ArrayBuffer, TypedArray ou DataView)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options Opções da operação (AAD no AES-GCM, deslocamento de contador no AES-CTR)
+     * @returns Promise com os bytes encriptados (no AES-GCM, inclui a tag no final)
+     */
+    public async encryptBytes(data: BufferSource, key: KeyInput, iv: string, options: CipherOptions = {}): Promise<Uint8Array> {
+        try {
+            const { cryptoKey, ivData } = await this.prepareParameters(key, iv, 'encrypt');
+            const plainBytes = this.cryptoUtils.toUint8Array(data);
+
+            if (plainBytes.length === 0) {
+                throw new Error('Dados para encriptação não podem estar vazios.');
+            }
+
+            return await this.encryptRaw(plainBytes, cryptoKey, ivData, options);
 
         } catch (error) {
             if (error instanceof Error) {
@@ -115,69 +532,211 @@ export class AESCrypto {
     }
 
     /**
-     * Decripta dados usando AES
-     * @param encryptedHex Dados encriptados em formato hexadecimal
-     * @param keyHex Chave em formato hexadecimal
-     * @param ivHex IV em formato hexadecimal
-     * @returns Promise com o texto decriptado
+     * Decripta dados binários usando AES
+     * Nenhuma conversão para texto é feita, então qualquer conteúdo é preservado
+     * @param data Dados encriptados (ArrayBuffer, TypedArray ou DataView)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options Opções da operação (o AAD deve ser o mesmo da encriptação; no AES-CTR,
+     * `counterOffset` indica o bloco em que o trecho fornecido começa)
+     * @returns Promise com os bytes decriptados
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC autenticado não puder ser verificado
      */
-    public async decrypt(encryptedHex: string, keyHex: string, ivHex: string): Promise<string> {
+    public async decryptBytes(data: BufferSource, key: KeyInput, iv: string, options: CipherOptions = {}): Promise<Uint8Array> {
         try {
-            this.validateParameters(keyHex, ivHex, 'decrypt');
+            const { cryptoKey, ivData } = await this.prepareParameters(key, iv, 'decrypt');
+            const encryptedBytes = this.cryptoUtils.toUint8Array(data);
 
-            if (!encryptedHex) {
+            if (encryptedBytes.length === 0) {
                 throw new Error('Dados para decriptação não podem estar vazios.');
             }
 
-            if (!this.cryptoUtils.isValidHex(encryptedHex)) {
-                throw new Error('Dados encriptados devem ser uma string hexadecimal válida.');
+            return await this.decryptRaw(encryptedBytes, cryptoKey, ivData, options);
+
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                throw error;
             }
+            if (error instanceof Error) {
+                throw new Error(`Erro na decriptação: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na decriptação');
+        }
+    }
 
-            const keyData = this.cryptoUtils.hexToUint8Array(keyHex);
-            const ivData = this.cryptoUtils.hexToUint8Array(ivHex);
-            const encryptedData = this.cryptoUtils.hexToUint8Array(encryptedHex);
+    /**
+     * Encripta texto usando AES
+     * @param plainText Texto a ser encriptado (codificado em UTF-8)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options Opções da operação (AAD no AES-GCM, deslocamento de contador no AES-CTR, codificação da saída)
+     * @returns Promise com os dados encriptados na codificação de saída (no AES-GCM, inclui a tag no final)
+     */
+    public async encrypt(plainText: string, key: KeyInput, iv: string, options: CipherOptions = {}): Promise<string> {
+        if (!plainText) {
+            throw new Error('Erro na encriptação: Texto para encriptação não pode estar vazio.');
+        }
 
-            const cryptoKey = await this.createCryptoKey(keyData);
+        const encryptedBytes = await this.encryptBytes(new TextEncoder().encode(plainText), key, iv, options);
+        return this.cryptoUtils.encodeBytes(encryptedBytes, this.resolveOutputEncoding(options));
+    }
 
-            // Garantir que ivData é um Uint8Array com ArrayBuffer puro
-            const ivBuffer = new Uint8Array(ivData);
-            
-            // Garantir que encryptedData é um ArrayBuffer puro
-            const encryptedBuffer = new ArrayBuffer(encryptedData.length);
-            const encryptedView = new Uint8Array(encryptedBuffer);
-            encryptedView.set(encryptedData);
+    /**
+     * Encripta texto e emite uma assinatura destacada do resultado
+     * A assinatura cobre o IV seguido dos bytes encriptados (veja signedContent): verifique-a antes de decriptar
+     * @param plainText Texto a ser encriptado (codificado em UTF-8)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param signingKey Chave privada de assinatura (ECDSA P-256 ou Ed25519)
+     * @param options Opções da operação (as mesmas de encrypt)
+     * @returns Promise com os dados encriptados e a assinatura, ambos na codificação de saída
+     */
+    public async encryptAndSign(plainText: string, key: KeyInput, iv: string, signingKey: CryptoKey, options: CipherOptions = {}): Promise<SignedCiphertext> {
+        if (!plainText) {
+            throw new Error('Erro na encriptação: Texto para encriptação não pode estar vazio.');
+        }
 
-            const decryptedBuffer = await crypto.subtle.decrypt(
-                {
-                    name: this.config.algorithm,
-                    iv: ivBuffer
-                },
-                cryptoKey,
-                encryptedBuffer
-            );
+        const encoding = this.resolveOutputEncoding(options);
+        const encryptedBytes = await this.encryptBytes(new TextEncoder().encode(plainText), key, iv, options);
+        const signature = await this.signatureCrypto.sign(this.signedContent(encryptedBytes, iv), signingKey);
 
-            return this.cryptoUtils.arrayBufferToText(decryptedBuffer);
+        return {
+            ciphertext: this.cryptoUtils.encodeBytes(encryptedBytes, encoding),
+            signature: this.cryptoUtils.encodeBytes(signature, encoding)
+        };
+    }
 
-        } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`Erro na decriptação: ${error.message}`);
-            }
-            throw new Error('Erro desconhecido na decriptação');
+    /**
+     * Verifica a assinatura destacada emitida por encryptAndSign
+     * @param signed Dados encriptados e assinatura em hexadecimal, Base64 ou Base64URL
+     * @param iv IV usado na encriptação
+     * @param publicKeys Chaves públicas conhecidas
+     * @returns Promise com o resultado e, se válida, a impressão digital da chave que assinou
+     */
+    public async verifySignature(signed: SignedCiphertext, iv: string, publicKeys: CryptoKey[]): Promise<SignatureVerification> {
+        if (this.cryptoUtils.detectEncoding(signed.ciphertext) === null || this.cryptoUtils.detectEncoding(signed.signature) === null) {
+            throw new Error('Dados encriptados e assinatura devem estar em hexadecimal, Base64 ou Base64URL.');
         }
+
+        return await this.signatureCrypto.verifyWithKeys(
+            this.signedContent(this.cryptoUtils.decodeData(signed.ciphertext).bytes, iv),
+            new Uint8Array(this.cryptoUtils.decodeData(signed.signature).bytes),
+            publicKeys
+        );
+    }
+
+    /**
+     * Monta os bytes cobertos pela assinatura destacada de uma saída sem envelope: IV seguido do texto cifrado
+     * Sem o IV, quem o trocasse alteraria o texto em claro (o primeiro bloco no AES-CBC, todo ele no
+     * AES-CTR) sem invalidar a assinatura. Envelopes e mensagens híbridas já carregam o IV e são assinados inteiros.
+     * @param ciphertext Bytes encriptados
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @returns Bytes a serem assinados ou verificados
+     */
+    public signedContent(ciphertext: Uint8Array, iv: string): Uint8Array<ArrayBuffer> {
+        if (!iv || this.cryptoUtils.detectEncoding(iv) === null) {
+            throw new Error('IV deve estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        const ivData = this.cryptoUtils.decodeData(iv).bytes;
+        const content = new Uint8Array(ivData.length + ciphertext.length);
+
+        content.set(ivData);
+        content.set(ciphertext, ivData.length);
+
+        return content;
+    }
+
+    /**
+     * Decripta texto usando AES
+     * @param encryptedData Dados encriptados em hexadecimal, Base64 ou Base64URL
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options Opções da operação (o AAD deve ser o mesmo da encriptação; no AES-CTR,
+     * `counterOffset` indica o bloco em que o trecho fornecido começa)
+     * @returns Promise com o texto decriptado
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC autenticado não puder ser verificado
+     * @throws Error se o conteúdo decriptado não for texto UTF-8 (use decryptBytes)
+     */
+    public async decrypt(encryptedData: string, key: KeyInput, iv: string, options: CipherOptions = {}): Promise<string> {
+        const encryptedBytes = this.decodeEncryptedData(encryptedData);
+        const decryptedBytes = await this.decryptBytes(encryptedBytes, key, iv, options);
+        return this.bytesToText(decryptedBytes);
+    }
+
+    /**
+     * Decodifica dados encriptados recebidos como texto
+     * @param encryptedData Dados em hexadecimal, Base64 ou Base64URL
+     * @returns Bytes encriptados
+     * @throws Error se os dados estiverem vazios ou em codificação desconhecida
+     */
+    private decodeEncryptedData(encryptedData: string): Uint8Array<ArrayBuffer> {
+        if (!encryptedData) {
+            throw new Error('Erro na decriptação: Dados para decriptação não podem estar vazios.');
+        }
+
+        if (this.cryptoUtils.detectEncoding(encryptedData) === null) {
+            throw new Error('Erro na decriptação: Dados encriptados devem estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        return new Uint8Array(this.cryptoUtils.decodeData(encryptedData).bytes);
+    }
+
+    /**
+     * Converte bytes decriptados em texto sem perdas
+     * @param bytes Bytes decriptados
+     * @returns Texto UTF-8
+     * @throws Error se os bytes não forem texto UTF-8 válido
+     */
+    private bytesToText(bytes: Uint8Array): string {
+        if (!this.cryptoUtils.isValidUtf8(bytes)) {
+            throw new Error('Erro na decriptação: o conteúdo decriptado não é texto UTF-8 válido. Use decryptBytes ou decryptEnvelopeBytes para obter os bytes.');
+        }
+
+        return new TextDecoder().decode(bytes);
     }
 
     /**
      * Gera uma nova chave e IV aleatórios
+     * @param outputEncoding Codificação desejada (opcional, usa a da configuração)
      * @returns Objeto com chave e IV gerados
      */
-    public generateKeyAndIV(): { key: string; iv: string } {
+    public generateKeyAndIV(outputEncoding?: DataEncoding): { key: string; iv: string } {
         const keyLength = this.config.keyLength / 8; // Converter bits para bytes
+        const encoding = outputEncoding ?? this.resolveOutputEncoding({});
         return {
-            key: this.cryptoUtils.generateRandomKey(keyLength),
-            iv: this.cryptoUtils.generateRandomIV(this.config.ivLength)
+            key: this.cryptoUtils.encodeBytes(this.cryptoUtils.generateRandomBytes(keyLength), encoding),
+            iv: this.cryptoUtils.encodeBytes(this.cryptoUtils.generateRandomBytes(this.config.ivLength), encoding)
         };
     }
 
+    /**
+     * Gera uma chave aleatória como handle, sem expor seu material
+     * @param options Exportabilidade (padrão não exportável) e operações permitidas
+     * @returns Promise com o handle vinculado ao algoritmo e tamanho configurados
+     */
+    public async generateKey(options: KeyHandleOptions = {}): Promise<AESKey> {
+        return await AESKey.generate(this.config.algorithm, this.config.keyLength, options);
+    }
+
+    /**
+     * Importa uma chave uma única vez para reutilizá-la em várias operações
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou bytes
+     * @param options Exportabilidade (padrão não exportável) e operações permitidas
+     * @returns Promise com o handle vinculado ao algoritmo configurado
+     * @throws Error se a chave for inválida
+     */
+    public async importKey(key: string | BufferSource, options: KeyHandleOptions = {}): Promise<AESKey> {
+        try {
+            return await AESKey.import(key, this.config.algorithm, options);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave');
+        }
+    }
+
     /**
      * Obter configurações atuais
      * @returns Configurações AES atuais
@@ -189,17 +748,272 @@ export class AESCrypto {
     /**
      * Encripta dados retornando resultado completo com IV
      * @param plainText Texto a ser encriptado
-     * @param keyHex Chave em formato hexadecimal
-     * @param ivHex IV em formato hexadecimal (opcional, será gerado se não fornecido)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL (opcional, será gerado se não fornecido)
+     * @param options Opções da operação (AAD no AES-GCM, deslocamento de contador no AES-CTR)
      * @returns Promise com resultado da encriptação
      */
-    public async encryptWithResult(plainText: string, keyHex: string, ivHex?: string): Promise<EncryptionResult> {
-        const actualIV = ivHex || this.cryptoUtils.generateRandomIV(this.config.ivLength);
-        const encryptedHex = await this.encrypt(plainText, keyHex, actualIV);
+    public async encryptWithResult(plainText: string, key: KeyInput, iv?: string, options: CipherOptions = {}): Promise<EncryptionResult> {
+        const actualIV = iv || this.cryptoUtils.generateRandomIV(this.config.ivLength);
+        const encryptedHex = await this.encrypt(plainText, key, actualIV, { ...options, outputEncoding: 'hex' });
         
         return {
             encryptedData: new Uint8Array(this.cryptoUtils.hexToUint8Array(encryptedHex)).buffer,
-            iv: this.cryptoUtils.hexToUint8Array(actualIV)
+            iv: this.cryptoUtils.decodeData(actualIV).bytes
+        };
+    }
+
+    /**
+     * Encripta dados e retorna um envelope autodescritivo
+     * O envelope registra algoritmo, tamanho da chave, IV e, opcionalmente, os parâmetros
+     * do PBKDF2. No AES-GCM o cabeçalho também é autenticado pela tag.
+     * @param plainText Texto a ser encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options AAD adicional, parâmetros de derivação da chave e codificação da saída
+     * @returns Promise com o envelope na codificação de saída
+     */
+    public async encryptToEnvelope(plainText: string, key: KeyInput, iv: string, options: EnvelopeOptions = {}): Promise<string> {
+        if (!plainText) {
+            throw new Error('Erro na encriptação: Texto para encriptação não pode estar vazio.');
+        }
+
+        const envelope = await this.encryptBytesToEnvelope(
+            new TextEncoder().encode(plainText),
+            key,
+            iv,
+            options
+        );
+
+        return this.cryptoUtils.encodeBytes(envelope, this.resolveOutputEncoding(options));
+    }
+
+    /**
+     * Encripta dados binários e retorna os bytes do envelope
+     * @param data Dados em claro
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options AAD adicional e parâmetros de derivação da chave
+     * @returns Promise com os bytes do envelope
+     */
+    public async encryptBytesToEnvelope(data: Uint8Array, key: KeyInput, iv: string, options: EnvelopeOptions = {}): Promise<Uint8Array> {
+        try {
+            const { cryptoKey, keyLength, ivData } = await this.prepareParameters(key, iv, 'encrypt');
+
+            if (data.length === 0) {
+                throw new Error('Dados para encriptação não podem estar vazios.');
+            }
+
+            const header = this.buildEnvelopeHeader(keyLength, ivData, options.kdf);
+            const ciphertext = await this.encryptRaw(new Uint8Array(data), cryptoKey, ivData, {
+                additionalData: this.envelopeAdditionalData(header, options.additionalData)
+            });
+
+            return this.envelopeCodec.encode({ ...header, ciphertext });
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na encriptação: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na encriptação');
+        }
+    }
+
+    /**
+     * Decripta um envelope usando os parâmetros gravados em seu cabeçalho
+     * O IV e os tamanhos vêm do envelope; o modo precisa ser tão forte quanto o desta
+     * instância (veja assertEnvelopeAccepted).
+     * @param envelopeData Envelope em hexadecimal, Base64 ou Base64URL
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD adicional (deve ser o mesmo da encriptação) e aceitação de envelopes sem autenticação
+     * @returns Promise com o texto decriptado
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC autenticado não puder ser verificado
+     * @throws Error se o envelope for mais fraco que esta instância ou o conteúdo não for texto UTF-8 (use decryptEnvelopeBytes)
+     */
+    public async decryptEnvelope(envelopeData: string, key: KeyInput, options: EnvelopeDecryptOptions = {}): Promise<string> {
+        const decrypted = await this.decryptEnvelopeBytes(this.decodeEncryptedData(envelopeData), key, options);
+        return this.bytesToText(decrypted);
+    }
+
+    /**
+     * Decripta os bytes de um envelope
+     * @param envelopeData Bytes do envelope
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD adicional (deve ser o mesmo da encriptação) e aceitação de envelopes sem autenticação
+     * @returns Promise com os bytes decriptados
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC autenticado não puder ser verificado
+     * @throws Error se o envelope for mais fraco que esta instância
+     */
+    public async decryptEnvelopeBytes(envelopeData: Uint8Array, key: KeyInput, options: EnvelopeDecryptOptions = {}): Promise<Uint8Array<ArrayBuffer>> {
+        try {
+            const envelope = this.envelopeCodec.decode(envelopeData);
+            this.assertEnvelopeAccepted(envelope, options);
+
+            const engine = new AESCrypto(this.configFromEnvelope(envelope));
+            const { cryptoKey, keyLength, ivData } = await engine.prepareParameters(key, envelope.ivHex, 'decrypt');
+
+            if (keyLength !== envelope.keyLength) {
+                throw new Error(`Chave deve ter ${envelope.keyLength} bits para este envelope.`);
+            }
+
+            return await engine.decryptRaw(new Uint8Array(envelope.ciphertext), cryptoKey, ivData, {
+                additionalData: engine.envelopeAdditionalData(envelope, options.additionalData)
+            });
+
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                throw error;
+            }
+            if (error instanceof Error) {
+                throw new Error(`Erro na decriptação: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na decriptação');
+        }
+    }
+
+    /**
+     * Verifica se os dados estão no formato de envelope
+     * @param data Dados em hexadecimal, Base64 ou Base64URL, ou bytes
+     * @returns true se os dados começam com o identificador do envelope
+     */
+    public isEnvelope(data: string | Uint8Array): boolean {
+        if (typeof data !== 'string') {
+            return this.envelopeCodec.isEnvelope(data);
+        }
+
+        if (!data || this.cryptoUtils.detectEncoding(data) === null) {
+            return false;
+        }
+
+        return this.envelopeCodec.isEnvelope(this.cryptoUtils.decodeData(data).bytes);
+    }
+
+    /**
+     * Lê o cabeçalho e o texto cifrado de um envelope sem decriptá-lo
+     * @param envelopeData Envelope em hexadecimal, Base64 ou Base64URL, ou bytes
+     * @returns Envelope decodificado
+     */
+    public readEnvelope(envelopeData: string | Uint8Array): CiphertextEnvelope {
+        const bytes = typeof envelopeData === 'string'
+            ? this.cryptoUtils.decodeData(envelopeData).bytes
+            : envelopeData;
+
+        return this.envelopeCodec.decode(bytes);
+    }
+
+    /**
+     * Monta o cabeçalho do envelope para a configuração atual
+     * @param keyLength Tamanho da chave em bits (já validada)
+     * @param ivData Bytes do IV (já validado)
+     * @param kdf Parâmetros de derivação da chave (opcional)
+     * @returns Cabeçalho do envelope
+     */
+    private buildEnvelopeHeader(keyLength: KeyLength, ivData: Uint8Array, kdf?: KDFParameters): EnvelopeHeader {
+        const header: EnvelopeHeader = {
+            version: EnvelopeCodec.VERSION,
+            algorithm: this.config.algorithm,
+            keyLength,
+            ivHex: this.cryptoUtils.uint8ArrayToHex(ivData)
+        };
+
+        if (this.config.algorithm === 'AES-GCM') {
+            header.tagLength = this.config.tagLength ?? 128;
+        } else if (this.config.algorithm === 'AES-CTR') {
+            header.counterLength = this.config.counterLength ?? 64;
+        } else if (this.config.mac) {
+            header.mac = this.config.mac;
+        }
+
+        if (kdf) {
+            header.kdf = kdf;
+        }
+
+        return header;
+    }
+
+    /**
+     * Impede o rebaixamento do modo por um cabeçalho adulterado
+     * O cabeçalho só é autenticado depois da decriptação, com o modo que ele mesmo
+     * declara: trocar o AES-GCM por AES-CTR, remover o HMAC ou encurtar a tag
+     * tornaria um texto cifrado autenticado maleável. Uma instância autenticada
+     * aceita apenas o próprio modo; envelopes sem autenticação exigem
+     * allowUnauthenticated e o mesmo algoritmo desta instância.
+     * @param header Cabeçalho do envelope
+     * @param options Opções da decriptação
+     * @throws Error se o envelope for mais fraco que a configuração desta instância
+     */
+    private assertEnvelopeAccepted(header: EnvelopeHeader, options: EnvelopeDecryptOptions): void {
+        const expected = this.config.mac ? `${this.config.algorithm} + ${this.config.mac}` : this.config.algorithm;
+        const received = header.mac ? `${header.algorithm} + ${header.mac}` : header.algorithm;
+
+        if (AESCrypto.isAuthenticated(this.config)) {
+            if (received !== expected) {
+                throw new Error(`Envelope ${received} recusado: a configuração atual aceita apenas ${expected}.`);
+            }
+
+            const minTagLength = this.config.tagLength ?? 128;
+            if (header.algorithm === 'AES-GCM' && (header.tagLength ?? 128) < minTagLength) {
+                throw new Error(`Envelope com tag de ${header.tagLength} bits recusado: a configuração atual exige ${minTagLength} bits.`);
+            }
+            return;
+        }
+
+        if (AESCrypto.isAuthenticated(header)) {
+            return;
+        }
+
+        if (!options.allowUnauthenticated || received !== expected) {
+            throw new Error(`Envelope ${received} sem autenticação recusado: `
+                + `selecione ${header.algorithm} e aceite explicitamente envelopes sem autenticação para decriptá-lo.`);
+        }
+    }
+
+    /**
+     * Reconstrói a configuração AES descrita por um envelope
+     * @param header Cabeçalho do envelope
+     * @returns Configuração equivalente
+     */
+    private configFromEnvelope(header: EnvelopeHeader): AESConfig {
+        const config: AESConfig = {
+            algorithm: header.algorithm,
+            keyLength: header.keyLength,
+            ivLength: header.ivHex.length / 2
         };
+
+        if (header.tagLength !== undefined) {
+            config.tagLength = header.tagLength;
+        }
+
+        if (header.counterLength !== undefined) {
+            config.counterLength = header.counterLength;
+        }
+
+        if (header.mac !== undefined) {
+            config.mac = header.mac;
+        }
+
+        return config;
+    }
+
+    /**
+     * Calcula os dados autenticados usados em um envelope
+     * No AES-GCM e no AES-CBC autenticado o cabeçalho é prefixado ao AAD do usuário,
+     * protegendo-o contra alterações
+     * @param header Cabeçalho do envelope
+     * @param additionalData AAD informado pelo usuário
+     * @returns Dados adicionais a serem passados para encrypt/decrypt
+     */
+    private envelopeAdditionalData(header: EnvelopeHeader, additionalData: string | Uint8Array = ''): string | Uint8Array {
+        if (this.config.algorithm !== 'AES-GCM' && !this.config.mac) {
+            return additionalData;
+        }
+
+        const headerBytes = this.envelopeCodec.encodeHeader(header);
+        const userBytes = this.toAdditionalData(additionalData);
+        const combined = new Uint8Array(headerBytes.length + userBytes.length);
+        combined.set(headerBytes);
+        combined.set(userBytes, headerBytes.length);
+
+        return combined;
     }
 }
@@ -0,0 +1,146 @@
+import type { CryptoAlgorithm, DataEncoding, KeyHandle, KeyHandleOptions, KeyLength } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+
+/**
+ * Handle de uma chave AES
+ * Importa ou gera a CryptoKey uma única vez para reutilizá-la em várias operações.
+ * Por padrão a chave não é exportável; o material só pode ser lido via export()
+ * quando a chave foi criada com `extractable: true`.
+ */
+export class AESKey implements KeyHandle {
+    /** Algoritmos AES reconhecidos */
+    private static readonly ALGORITHMS: readonly CryptoAlgorithm[] = ['AES-CBC', 'AES-GCM', 'AES-CTR'];
+
+    public readonly cryptoKey: CryptoKey;
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria um handle a partir de uma CryptoKey existente
+     * @param cryptoKey Chave AES da Web Crypto API
+     * @throws Error se a chave não for uma chave AES secreta
+     */
+    constructor(cryptoKey: CryptoKey) {
+        if (cryptoKey.type !== 'secret' || !AESKey.ALGORITHMS.includes(cryptoKey.algorithm.name as CryptoAlgorithm)) {
+            throw new Error('CryptoKey fornecida não é uma chave AES.');
+        }
+
+        this.cryptoKey = cryptoKey;
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Gera uma nova chave aleatória
+     * @param algorithm Algoritmo ao qual a chave ficará vinculada
+     * @param keyLength Tamanho da chave em bits
+     * @param options Exportabilidade e operações permitidas
+     * @returns Promise com o handle da chave gerada
+     */
+    public static async generate(algorithm: CryptoAlgorithm, keyLength: KeyLength, options: KeyHandleOptions = {}): Promise<AESKey> {
+        const cryptoKey = await crypto.subtle.generateKey(
+            { name: algorithm, length: keyLength },
+            options.extractable ?? false,
+            options.usages ?? ['encrypt', 'decrypt']
+        );
+
+        return new AESKey(cryptoKey);
+    }
+
+    /**
+     * Importa uma chave a partir do seu material
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou bytes
+     * @param algorithm Algoritmo ao qual a chave ficará vinculada
+     * @param options Exportabilidade e operações permitidas
+     * @returns Promise com o handle da chave importada
+     * @throws Error se a chave for inválida
+     */
+    public static async import(key: string | BufferSource, algorithm: CryptoAlgorithm, options: KeyHandleOptions = {}): Promise<AESKey> {
+        const cryptoUtils = new CryptoUtils();
+        let keyData: Uint8Array<ArrayBuffer>;
+
+        if (typeof key === 'string') {
+            if (!key || cryptoUtils.detectEncoding(key) === null) {
+                throw new Error('Chave deve estar em hexadecimal, Base64 ou Base64URL.');
+            }
+            keyData = new Uint8Array(cryptoUtils.decodeData(key).bytes);
+        } else {
+            keyData = cryptoUtils.toUint8Array(key);
+        }
+
+        if (![16, 24, 32].includes(keyData.length)) {
+            throw new Error('Chave deve ter 128, 192 ou 256 bits (16, 24 ou 32 bytes).');
+        }
+
+        const cryptoKey = await crypto.subtle.importKey(
+            'raw',
+            keyData,
+            { name: algorithm },
+            options.extractable ?? false,
+            options.usages ?? ['encrypt', 'decrypt']
+        );
+
+        // Não manter cópias do material da chave além da CryptoKey
+        keyData.fill(0);
+
+        return new AESKey(cryptoKey);
+    }
+
+    /**
+     * Algoritmo ao qual a chave está vinculada
+     */
+    public get algorithm(): CryptoAlgorithm {
+        return this.cryptoKey.algorithm.name as CryptoAlgorithm;
+    }
+
+    /**
+     * Tamanho da chave em bits
+     */
+    public get keyLength(): KeyLength {
+        return (this.cryptoKey.algorithm as AesKeyAlgorithm).length as KeyLength;
+    }
+
+    /**
+     * Indica se o material da chave pode ser exportado
+     */
+    public get extractable(): boolean {
+        return this.cryptoKey.extractable;
+    }
+
+    /**
+     * Operações permitidas com a chave
+     */
+    public get usages(): readonly KeyUsage[] {
+        return this.cryptoKey.usages;
+    }
+
+    /**
+     * Verifica se a chave pode ser usada em uma operação
+     * @param usage Operação desejada
+     * @returns true se a operação estiver entre as permitidas
+     */
+    public canUse(usage: KeyUsage): boolean {
+        return this.cryptoKey.usages.includes(usage);
+    }
+
+    /**
+     * Exporta o material da chave
+     * @returns Promise com os bytes da chave
+     * @throws Error se a chave não for exportável
+     */
+    public async exportBytes(): Promise<Uint8Array> {
+        if (!this.extractable) {
+            throw new Error('Chave não é exportável. Crie-a com extractable: true para poder exportá-la.');
+        }
+
+        return new Uint8Array(await crypto.subtle.exportKey('raw', this.cryptoKey));
+    }
+
+    /**
+     * Exporta o material da chave como texto
+     * @param encoding Codificação desejada (padrão hexadecimal)
+     * @returns Promise com a chave codificada
+     * @throws Error se a chave não for exportável
+     */
+    public async export(encoding: DataEncoding = 'hex'): Promise<string> {
+        return this.cryptoUtils.encodeBytes(await this.exportBytes(), encoding);
+    }
+}
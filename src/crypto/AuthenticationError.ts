@@ -0,0 +1,15 @@
+/**
+ * Erro lançado quando a verificação de integridade de um dado encriptado falha
+ * Indica que a chave, o IV, os dados adicionais (AAD) ou o próprio conteúdo
+ * não correspondem ao que foi usado na encriptação
+ */
+export class AuthenticationError extends Error {
+    /**
+     * Cria um novo erro de autenticação
+     * @param message Mensagem descritiva do erro
+     */
+    constructor(message: string = 'Falha na autenticação: os dados foram alterados ou a chave, IV ou AAD estão incorretos.') {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
@@ -0,0 +1,287 @@
+import type { CiphertextEnvelope, EnvelopeHeader, CryptoAlgorithm, HashAlgorithm, KDFParameters, KeyLength, GCMTagLength } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { KeyDerivation } from './KeyDerivation.js';
+
+/**
+ * Codificador do envelope de texto cifrado
+ *
+ * Formato binário (versão 1), todos os inteiros em big-endian:
+ *
+ * | Campo            | Bytes | Descrição                                           |
+ * |------------------|-------|-----------------------------------------------------|
+ * | magic            | 4     | "AESB"                                              |
+ * | version          | 1     | Versão do formato                                   |
+ * | algorithm        | 1     | 1 = AES-CBC, 2 = AES-GCM, 3 = AES-CTR               |
+ * | keyLength        | 1     | Tamanho da chave em bytes (16, 24 ou 32)            |
+ * | modeParameter    | 1     | Tag em bytes (GCM), contador em bits (CTR), MAC (CBC: 0 = nenhum, 1 = HMAC-SHA-256) |
+ * | ivLength         | 1     | Tamanho do IV em bytes                              |
+ * | iv               | n     | IV, nonce ou bloco de contador                      |
+ * | kdf              | 1     | 0 = nenhum, 1 = PBKDF2                              |
+ * | kdfHash          | 1     | Apenas PBKDF2: 1 = SHA-1, 2 = SHA-256, 3 = SHA-384, 4 = SHA-512 |
+ * | kdfIterations    | 4     | Apenas PBKDF2                                       |
+ * | saltLength       | 1     | Apenas PBKDF2                                       |
+ * | salt             | n     | Apenas PBKDF2                                       |
+ * | ciphertext       | resto | Texto cifrado (no GCM e no CBC com MAC, inclui a tag no final) |
+ */
+export class EnvelopeCodec {
+    /** Versão atual do formato */
+    public static readonly VERSION = 1;
+
+    /** Bytes mágicos que identificam o envelope ("AESB") */
+    private static readonly MAGIC = [0x41, 0x45, 0x53, 0x42];
+
+    private static readonly ALGORITHM_IDS: Record<CryptoAlgorithm, number> = {
+        'AES-CBC': 1,
+        'AES-GCM': 2,
+        'AES-CTR': 3
+    };
+
+    private static readonly HASH_IDS: Record<HashAlgorithm, number> = {
+        'SHA-1': 1,
+        'SHA-256': 2,
+        'SHA-384': 3,
+        'SHA-512': 4
+    };
+
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria uma nova instância do EnvelopeCodec
+     */
+    constructor() {
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Verifica se os dados começam com o identificador do envelope
+     * @param data Dados binários
+     * @returns true se os dados parecem ser um envelope
+     */
+    public isEnvelope(data: Uint8Array): boolean {
+        return data.length > EnvelopeCodec.MAGIC.length
+            && EnvelopeCodec.MAGIC.every((byte, index) => data[index] === byte);
+    }
+
+    /**
+     * Serializa o cabeçalho do envelope
+     * O resultado é determinístico e é usado como dado autenticado no AES-GCM
+     * @param header Cabeçalho a ser serializado
+     * @returns Bytes do cabeçalho
+     * @throws Error se algum campo não puder ser representado
+     */
+    public encodeHeader(header: EnvelopeHeader): Uint8Array {
+        const iv = this.cryptoUtils.hexToUint8Array(header.ivHex);
+        if (iv.length === 0 || iv.length > 255) {
+            throw new Error('Envelope inválido: IV deve ter entre 1 e 255 bytes.');
+        }
+
+        const bytes: number[] = [
+            ...EnvelopeCodec.MAGIC,
+            header.version,
+            EnvelopeCodec.ALGORITHM_IDS[header.algorithm],
+            header.keyLength / 8,
+            this.encodeModeParameter(header),
+            iv.length,
+            ...iv,
+            ...this.encodeKdfParameters(header.kdf)
+        ];
+
+        return new Uint8Array(bytes);
+    }
+
+    /**
+     * Serializa o bloco de parâmetros de derivação de chave
+     * Compartilhado com o formato de streaming
+     * @param kdf Parâmetros do PBKDF2 (opcional)
+     * @returns Bytes do bloco (apenas o identificador 0 quando não há derivação)
+     * @throws Error se algum parâmetro não puder ser representado
+     */
+    public encodeKdfParameters(kdf?: KDFParameters): number[] {
+        if (!kdf) {
+            return [0];
+        }
+
+        const salt = this.cryptoUtils.hexToUint8Array(kdf.saltHex);
+        const iterations = kdf.iterations;
+
+        if (salt.length === 0 || salt.length > 255) {
+            throw new Error('Envelope inválido: sal deve ter entre 1 e 255 bytes.');
+        }
+
+        if (!Number.isInteger(iterations) || iterations < 1 || iterations > KeyDerivation.MAX_ITERATIONS) {
+            throw new Error('Envelope inválido: número de iterações fora do intervalo.');
+        }
+
+        return [
+            1,
+            EnvelopeCodec.HASH_IDS[kdf.hash],
+            (iterations >>> 24) & 0xff,
+            (iterations >>> 16) & 0xff,
+            (iterations >>> 8) & 0xff,
+            iterations & 0xff,
+            salt.length,
+            ...salt
+        ];
+    }
+
+    /**
+     * Lê o bloco de parâmetros de derivação de chave
+     * @param bytes Bytes do cabeçalho
+     * @param offset Posição em que o bloco começa
+     * @returns Parâmetros lidos (se houver) e a posição seguinte ao bloco
+     * @throws Error se o bloco estiver truncado, for desconhecido ou pedir iterações acima de KeyDerivation.MAX_ITERATIONS
+     */
+    public decodeKdfParameters(bytes: Uint8Array, offset: number): { kdf?: KDFParameters; offset: number } {
+        const require = (length: number): void => {
+            if (offset + length > bytes.length) {
+                throw new Error('Envelope inválido: cabeçalho truncado.');
+            }
+        };
+
+        require(1);
+        const kdfId = bytes[offset++];
+
+        if (kdfId === 0) {
+            return { offset };
+        }
+
+        if (kdfId !== 1) {
+            throw new Error('Envelope inválido: derivação de chave desconhecida.');
+        }
+
+        require(6);
+        const hash = this.findKey(EnvelopeCodec.HASH_IDS, bytes[offset]);
+        if (!hash) {
+            throw new Error('Envelope inválido: função de hash desconhecida.');
+        }
+
+        const iterations = new DataView(bytes.buffer, bytes.byteOffset + offset + 1, 4).getUint32(0);
+        if (iterations < 1 || iterations > KeyDerivation.MAX_ITERATIONS) {
+            throw new Error(`Envelope inválido: o PBKDF2 deve usar entre 1 e ${KeyDerivation.MAX_ITERATIONS} iterações.`);
+        }
+
+        const saltLength = bytes[offset + 5];
+        offset += 6;
+
+        require(saltLength);
+        const saltHex = this.cryptoUtils.uint8ArrayToHex(bytes.subarray(offset, offset + saltLength));
+        offset += saltLength;
+
+        return { kdf: { hash, iterations, saltHex }, offset };
+    }
+
+    /**
+     * Serializa um envelope completo
+     * @param envelope Envelope a ser serializado
+     * @returns Bytes do envelope
+     */
+    public encode(envelope: CiphertextEnvelope): Uint8Array {
+        const header = this.encodeHeader(envelope);
+        const ciphertext = envelope.ciphertext;
+        const result = new Uint8Array(header.length + ciphertext.length);
+        result.set(header);
+        result.set(ciphertext, header.length);
+        return result;
+    }
+
+    /**
+     * Lê um envelope serializado
+     * @param bytes Bytes do envelope
+     * @returns Envelope com cabeçalho e texto cifrado
+     * @throws Error se o envelope estiver malformado ou usar versão desconhecida
+     */
+    public decode(bytes: Uint8Array): CiphertextEnvelope {
+        if (!this.isEnvelope(bytes)) {
+            throw new Error('Dados não estão no formato de envelope.');
+        }
+
+        let offset = EnvelopeCodec.MAGIC.length;
+
+        const read = (length: number): Uint8Array => {
+            if (offset + length > bytes.length) {
+                throw new Error('Envelope inválido: cabeçalho truncado.');
+            }
+            const slice = bytes.slice(offset, offset + length);
+            offset += length;
+            return slice;
+        };
+        const readByte = (): number => read(1)[0];
+
+        const version = readByte();
+        if (version !== EnvelopeCodec.VERSION) {
+            throw new Error(`Envelope inválido: versão ${version} não suportada.`);
+        }
+
+        const algorithm = this.findKey(EnvelopeCodec.ALGORITHM_IDS, readByte());
+        if (!algorithm) {
+            throw new Error('Envelope inválido: algoritmo desconhecido.');
+        }
+
+        const keyLength = readByte() * 8;
+        if (keyLength !== 128 && keyLength !== 192 && keyLength !== 256) {
+            throw new Error('Envelope inválido: tamanho de chave desconhecido.');
+        }
+
+        const modeParameter = readByte();
+        const ivHex = this.cryptoUtils.uint8ArrayToHex(read(readByte()));
+
+        const header: EnvelopeHeader = {
+            version,
+            algorithm,
+            keyLength: keyLength as KeyLength,
+            ivHex
+        };
+
+        if (algorithm === 'AES-GCM') {
+            header.tagLength = (modeParameter * 8) as GCMTagLength;
+        } else if (algorithm === 'AES-CTR') {
+            header.counterLength = modeParameter;
+        } else if (modeParameter === 1) {
+            header.mac = 'HMAC-SHA-256';
+        } else if (modeParameter !== 0) {
+            throw new Error('Envelope inválido: autenticação do AES-CBC desconhecida.');
+        }
+
+        const kdfBlock = this.decodeKdfParameters(bytes, offset);
+        offset = kdfBlock.offset;
+        if (kdfBlock.kdf) {
+            header.kdf = kdfBlock.kdf;
+        }
+
+        const ciphertext = bytes.slice(offset);
+        if (ciphertext.length === 0) {
+            throw new Error('Envelope inválido: texto cifrado ausente.');
+        }
+
+        return {
+            ...header,
+            ciphertext
+        };
+    }
+
+    /**
+     * Codifica o parâmetro específico do modo de operação
+     * @param header Cabeçalho do envelope
+     * @returns Byte do parâmetro
+     */
+    private encodeModeParameter(header: EnvelopeHeader): number {
+        switch (header.algorithm) {
+            case 'AES-GCM':
+                return (header.tagLength ?? 128) / 8;
+            case 'AES-CTR':
+                return header.counterLength ?? 64;
+            default:
+                return header.mac === 'HMAC-SHA-256' ? 1 : 0;
+        }
+    }
+
+    /**
+     * Busca a chave de um mapa de identificadores a partir do valor
+     * @param map Mapa nome → identificador
+     * @param id Identificador lido do envelope
+     * @returns Nome correspondente ou undefined
+     */
+    private findKey<T extends string>(map: Record<T, number>, id: number): T | undefined {
+        return (Object.keys(map) as T[]).find(key => map[key] === id);
+    }
+}
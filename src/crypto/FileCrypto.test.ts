@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AESConfig, FileMetadata } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESCrypto } from './AESCrypto.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { FileCrypto } from './FileCrypto.js';
+
+const utils = new CryptoUtils();
+const KEY = '00'.repeat(16);
+
+const GCM: AESConfig = { algorithm: 'AES-GCM', keyLength: 128, ivLength: 12, tagLength: 128 };
+const CBC_HMAC: AESConfig = { algorithm: 'AES-CBC', keyLength: 128, ivLength: 16, mac: 'HMAC-SHA-256' };
+const CBC: AESConfig = { algorithm: 'AES-CBC', keyLength: 128, ivLength: 16 };
+const CTR: AESConfig = { algorithm: 'AES-CTR', keyLength: 128, ivLength: 16 };
+
+const UNAUTHENTICATED = /Arquivos exigem modo autenticado \(AES-GCM ou AES-CBC com HMAC\)/;
+
+/** Arquivo de exemplo, com nome e tipo MIME */
+const sampleFile = (): Blob => Object.assign(new Blob(['relatório'], { type: 'text/plain' }), { name: 'relatorio.txt' });
+
+/**
+ * Encripta o arquivo de exemplo
+ * @param config Configuração AES
+ * @returns Promise com os bytes do arquivo encriptado
+ */
+async function encryptSample(config: AESConfig): Promise<Uint8Array<ArrayBuffer>> {
+    const files = new FileCrypto(new AESCrypto(config));
+    const { blob } = await files.encryptFile(sampleFile(), KEY, utils.generateRandomIV(config.ivLength));
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('FileCrypto — metadados autenticados', () => {
+    for (const [label, config] of [['AES-GCM', GCM], ['AES-CBC + HMAC', CBC_HMAC]] as const) {
+        it(`${label}: preserva nome e tipo MIME`, async () => {
+            const files = new FileCrypto(new AESCrypto(config));
+            const { metadata, blob } = await files.decryptFile(new Blob([await encryptSample(config)]), KEY);
+
+            assert.equal(metadata.name, 'relatorio.txt');
+            assert.equal(metadata.type, 'text/plain');
+            assert.equal(await blob.text(), 'relatório');
+        });
+
+        it(`${label}: metadados alterados lançam AuthenticationError`, async () => {
+            const files = new FileCrypto(new AESCrypto(config));
+            const encrypted = await encryptSample(config);
+            const { ciphertext } = new AESCrypto(config).readEnvelope(encrypted);
+
+            // Os primeiros bytes do texto cifrado são os metadados em JSON
+            encrypted[encrypted.length - ciphertext.length + 12] ^= 0x01;
+
+            await assert.rejects(files.decryptFile(new Blob([encrypted]), KEY), AuthenticationError);
+        });
+    }
+
+    for (const [label, config] of [['AES-CBC', CBC], ['AES-CTR', CTR]] as const) {
+        it(`${label} sem autenticação: recusa encriptar arquivos`, async () => {
+            await assert.rejects(encryptSample(config), UNAUTHENTICATED);
+        });
+
+        it(`${label} sem autenticação: recusa decriptar arquivos, mesmo no algoritmo configurado`, async () => {
+            // Arquivo montado sem passar pelo FileCrypto: metadados de 2 bytes e conteúdo vazio
+            const payload = new Uint8Array([0, 0, 0, 2, ...new TextEncoder().encode('{}')]);
+            const aes = new AESCrypto(config);
+            const forged = await aes.encryptBytesToEnvelope(payload, KEY, utils.generateRandomIV(config.ivLength));
+
+            await assert.rejects(new FileCrypto(aes).decryptFile(new Blob([new Uint8Array(forged)]), KEY), UNAUTHENTICATED);
+        });
+    }
+});
+
+/**
+ * Stream com o conteúdo informado, entregue em trechos pequenos
+ * @param content Bytes a entregar
+ * @returns ReadableStream de trechos de até 1000 bytes
+ */
+function chunked(content: Uint8Array): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        pull: controller => {
+            if (offset >= content.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(content.slice(offset, offset + 1000));
+            offset += 1000;
+        }
+    });
+}
+
+describe('FileCrypto — streaming', () => {
+    const files = new FileCrypto(new AESCrypto(GCM));
+    const content = new Uint8Array(10000).map((_, index) => index % 251);
+    // Como a partir de um pipe: o tamanho não é conhecido na encriptação
+    const metadata: FileMetadata = { name: 'dados.bin', type: 'application/octet-stream' };
+
+    it('encryptStream e decryptStream: devolve metadados e conteúdo, mesmo sem o tamanho', async () => {
+        const encrypted = files.encryptStream(chunked(content), metadata, KEY, { segmentSize: 4096 });
+        const { metadata: decrypted, content: stream } = await files.decryptStream(encrypted, KEY);
+
+        assert.deepEqual(decrypted, metadata);
+        assert.deepEqual(new Uint8Array(await new Response(stream).arrayBuffer()), content);
+    });
+
+    it('o arquivo gerado por encryptStream é aceito por decryptFile', async () => {
+        const encrypted = await new Response(files.encryptStream(chunked(content), { ...metadata, size: content.length }, KEY)).blob();
+        const { metadata: decrypted, blob } = await files.decryptFile(encrypted, KEY);
+
+        assert.equal(decrypted.size, content.length);
+        assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), content);
+    });
+
+    it('tamanho que não confere com o conteúdo é recusado no fim da leitura', async () => {
+        const encrypted = files.encryptStream(chunked(content), { ...metadata, size: content.length + 1 }, KEY);
+        const { content: stream } = await files.decryptStream(encrypted, KEY);
+
+        await assert.rejects(new Response(stream).arrayBuffer(), /metadados não conferem com o conteúdo/);
+    });
+
+    it('segmento alterado no meio do arquivo lança AuthenticationError durante a leitura', async () => {
+        const encrypted = new Uint8Array(await new Response(files.encryptStream(chunked(content), metadata, KEY, { segmentSize: 4096 })).arrayBuffer());
+        encrypted[encrypted.length - 100] ^= 0x01;
+
+        const { content: stream } = await files.decryptStream(chunked(encrypted), KEY);
+        await assert.rejects(new Response(stream).arrayBuffer(), AuthenticationError);
+    });
+});
@@ -0,0 +1,407 @@
+import type {
+    CiphertextEnvelope,
+    DecryptedFile,
+    DecryptedFileStream,
+    EncryptedFile,
+    EnvelopeHeader,
+    EnvelopeOptions,
+    FileMetadata,
+    KeyInput,
+    StreamEncryptOptions,
+    StreamHeader,
+    StreamOptions
+} from '../types/index.js';
+import { AESCrypto } from './AESCrypto.js';
+import { StreamCrypto } from './StreamCrypto.js';
+
+/**
+ * Classe responsável pela encriptação de arquivos
+ *
+ * O arquivo é gravado como um envelope binário cujo conteúdo em claro é:
+ *
+ * | Campo          | Bytes | Descrição                                 |
+ * |----------------|-------|-------------------------------------------|
+ * | metadataLength | 4     | Tamanho dos metadados (big-endian)        |
+ * | metadata       | n     | JSON UTF-8 com nome, tipo MIME e tamanho  |
+ * | content        | resto | Bytes do arquivo original                 |
+ *
+ * Como os metadados fazem parte do conteúdo encriptado, eles também são
+ * autenticados: nome e tipo não podem ser trocados sem invalidar a tag. Por isso
+ * arquivos só são encriptados e decriptados em modo autenticado (AES-GCM ou
+ * AES-CBC com HMAC); no AES-CBC e no AES-CTR puros, os metadados poderiam ser
+ * alterados sem que a decriptação percebesse.
+ *
+ * Arquivos grandes podem ser encriptados em streaming (ver StreamCrypto), com o
+ * mesmo conteúdo em claro; a decriptação identifica o formato automaticamente.
+ */
+export class FileCrypto {
+    /** Extensão adicionada aos arquivos encriptados */
+    public static readonly EXTENSION = '.aesb';
+
+    /** Tamanho a partir do qual a interface encripta arquivos em streaming (8 MiB) */
+    public static readonly STREAM_THRESHOLD = 8 * 1024 * 1024;
+
+    private static readonly UNAUTHENTICATED_MESSAGE = 'Arquivos exigem modo autenticado (AES-GCM ou AES-CBC com HMAC): '
+        + 'no AES-CBC e no AES-CTR puros, nome, tipo e conteúdo poderiam ser alterados sem que a decriptação percebesse.';
+
+    private readonly aesCrypto: AESCrypto;
+    private readonly streamCrypto: StreamCrypto;
+
+    /**
+     * Cria uma nova instância do FileCrypto
+     * @param aesCrypto Motor de criptografia usado para encriptar os arquivos
+     */
+    constructor(aesCrypto: AESCrypto) {
+        this.aesCrypto = aesCrypto;
+        this.streamCrypto = new StreamCrypto();
+    }
+
+    /**
+     * Encripta um arquivo
+     * @param file Arquivo ou Blob a ser encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @param options AAD adicional e parâmetros de derivação da chave
+     * @returns Promise com o arquivo encriptado e o nome sugerido
+     * @throws Error se o AESCrypto não estiver configurado em modo autenticado
+     */
+    public async encryptFile(file: Blob, key: KeyInput, iv: string, options: EnvelopeOptions = {}): Promise<EncryptedFile> {
+        if (!AESCrypto.isAuthenticated(this.aesCrypto.getConfig())) {
+            throw new Error(FileCrypto.UNAUTHENTICATED_MESSAGE);
+        }
+
+        const metadata = this.getMetadata(file);
+        const content = new Uint8Array(await file.arrayBuffer());
+        const payload = this.buildPayload(metadata, content);
+
+        const envelope = await this.aesCrypto.encryptBytesToEnvelope(payload, key, iv, options);
+
+        return {
+            blob: new Blob([new Uint8Array(envelope)], { type: 'application/octet-stream' }),
+            fileName: `${metadata.name}${FileCrypto.EXTENSION}`
+        };
+    }
+
+    /**
+     * Encripta um arquivo em streaming, sem carregá-lo inteiro em memória
+     * Usa sempre AES-GCM segmentado; o nonce de cada segmento é gerado internamente
+     * @param file Arquivo ou Blob a ser encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD, parâmetros de derivação, progresso (em bytes do arquivo) e cancelamento
+     * @returns Promise com o arquivo encriptado e o nome sugerido
+     */
+    public async encryptFileStream(file: Blob, key: KeyInput, options: StreamEncryptOptions = {}): Promise<EncryptedFile> {
+        const metadata = this.getMetadata(file);
+
+        return {
+            blob: await new Response(this.encryptStream(file.stream(), metadata, key, options)).blob(),
+            fileName: `${metadata.name}${FileCrypto.EXTENSION}`
+        };
+    }
+
+    /**
+     * Encripta um ReadableStream no formato de streaming de arquivos
+     * Nada é acumulado em memória além de um segmento: serve para arquivos maiores que a memória
+     * @param source Conteúdo do arquivo
+     * @param metadata Metadados a proteger (sem `size` quando o tamanho não é conhecido de antemão)
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD, parâmetros de derivação, progresso (em bytes do conteúdo) e cancelamento
+     * @returns Stream com o arquivo encriptado
+     */
+    public encryptStream(source: ReadableStream<Uint8Array>, metadata: FileMetadata, key: KeyInput, options: StreamEncryptOptions = {}): ReadableStream<Uint8Array> {
+        const prefix = this.buildPayload(metadata, new Uint8Array(0));
+        const streamOptions: StreamEncryptOptions = { ...options };
+
+        // O progresso é informado em bytes do arquivo, sem contar os metadados
+        const onProgress = options.onProgress;
+        if (onProgress) {
+            streamOptions.onProgress = processed => onProgress(Math.max(0, processed - prefix.length));
+        }
+
+        const reader = source.getReader();
+        const payload = new ReadableStream<Uint8Array>({
+            start: controller => {
+                controller.enqueue(prefix);
+            },
+            pull: async controller => {
+                const { done, value } = await reader.read();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            },
+            cancel: reason => reader.cancel(reason)
+        });
+
+        return this.streamCrypto.encryptStream(payload, key, streamOptions);
+    }
+
+    /**
+     * Decripta um arquivo gerado por encryptFile ou encryptFileStream
+     * @param file Arquivo encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD adicional (deve ser o mesmo da encriptação); progresso e cancelamento se aplicam ao formato de streaming
+     * @returns Promise com o arquivo original e seus metadados
+     * @throws AuthenticationError se a tag do AES-GCM ou o HMAC do AES-CBC não puder ser verificado
+     * @throws Error se o arquivo não for autenticado ou for mais fraco que a configuração do AESCrypto (veja AESCrypto.decryptEnvelopeBytes)
+     */
+    public async decryptFile(file: Blob, key: KeyInput, options: StreamOptions = {}): Promise<DecryptedFile> {
+        if (await this.isStreamFile(file)) {
+            return await this.decryptFileStream(file, key, options);
+        }
+
+        const envelope = new Uint8Array(await file.arrayBuffer());
+        if (!AESCrypto.isAuthenticated(this.aesCrypto.readEnvelope(envelope))) {
+            throw new Error(FileCrypto.UNAUTHENTICATED_MESSAGE);
+        }
+
+        const payload = await this.aesCrypto.decryptEnvelopeBytes(envelope, key, options);
+        const { metadata, content } = this.parsePayload(payload);
+
+        return {
+            blob: new Blob([content], { type: metadata.type || 'application/octet-stream' }),
+            metadata
+        };
+    }
+
+    /**
+     * Decripta um ReadableStream no formato de streaming de arquivos
+     * Os metadados são lidos antes de retornar; o conteúdo é decriptado conforme é lido, segmento a
+     * segmento, e cada segmento é autenticado antes de ser entregue
+     * @param source Arquivo encriptado em streaming
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD (deve ser o mesmo da encriptação), progresso (em bytes encriptados) e cancelamento
+     * @returns Promise com os metadados e o stream do conteúdo original
+     * @throws AuthenticationError se algum segmento não puder ser verificado (também durante a leitura do conteúdo)
+     */
+    public async decryptStream(source: ReadableStream<Uint8Array>, key: KeyInput, options: StreamOptions = {}): Promise<DecryptedFileStream> {
+        const reader = this.streamCrypto.decryptStream(source, key, options).getReader();
+        let head: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+
+        const readAtLeast = async (length: number): Promise<void> => {
+            while (head.length < length) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    throw new Error(head.length < 4 ? 'Arquivo decriptado inválido: metadados ausentes.' : 'Arquivo decriptado inválido: metadados truncados.');
+                }
+
+                const joined = new Uint8Array(head.length + value.length);
+                joined.set(head);
+                joined.set(value, head.length);
+                head = joined;
+            }
+        };
+
+        let metadataLength: number;
+        let metadata: FileMetadata;
+        try {
+            await readAtLeast(4);
+            metadataLength = new DataView(head.buffer).getUint32(0);
+            await readAtLeast(4 + metadataLength);
+
+            // O tamanho só é conhecido no fim: os metadados são validados sem ele e conferidos ao final
+            metadata = this.parseMetadata(head.subarray(4, 4 + metadataLength), null);
+        } catch (error) {
+            // Libera a origem, que não será mais lida
+            await reader.cancel(error).catch(() => undefined);
+            throw error;
+        }
+
+        const rest = head.slice(4 + metadataLength);
+        let received = rest.length;
+
+        const content = new ReadableStream<Uint8Array>({
+            start: controller => {
+                if (rest.length > 0) controller.enqueue(rest);
+            },
+            pull: async controller => {
+                const { done, value } = await reader.read();
+                if (!done) {
+                    received += value.length;
+                    controller.enqueue(value);
+                } else if (metadata.size !== undefined && metadata.size !== received) {
+                    controller.error(new Error('Arquivo decriptado inválido: metadados não conferem com o conteúdo.'));
+                } else {
+                    controller.close();
+                }
+            },
+            cancel: reason => reader.cancel(reason)
+        });
+
+        return { content, metadata };
+    }
+
+    /**
+     * Decripta um arquivo no formato de streaming
+     * O conteúdo em claro é montado como Blob, sem ser copiado para um único buffer
+     * @param file Arquivo encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle importado
+     * @param options AAD, progresso (em bytes do arquivo encriptado) e cancelamento
+     * @returns Promise com o arquivo original e seus metadados
+     */
+    private async decryptFileStream(file: Blob, key: KeyInput, options: StreamOptions): Promise<DecryptedFile> {
+        const decrypted = await new Response(this.streamCrypto.decryptStream(file.stream(), key, options)).blob();
+
+        const head = new Uint8Array(await decrypted.slice(0, 4).arrayBuffer());
+        if (head.length < 4) {
+            throw new Error('Arquivo decriptado inválido: metadados ausentes.');
+        }
+
+        const metadataLength = new DataView(head.buffer).getUint32(0);
+        const metadataBytes = new Uint8Array(await decrypted.slice(4, 4 + metadataLength).arrayBuffer());
+        if (metadataBytes.length !== metadataLength) {
+            throw new Error('Arquivo decriptado inválido: metadados truncados.');
+        }
+
+        const metadata = this.parseMetadata(metadataBytes, decrypted.size - 4 - metadataLength);
+
+        return {
+            blob: decrypted.slice(4 + metadataLength, decrypted.size, metadata.type || 'application/octet-stream'),
+            metadata
+        };
+    }
+
+    /**
+     * Lê o cabeçalho de um arquivo encriptado em qualquer um dos formatos
+     * Útil para obter o tamanho da chave e os parâmetros de derivação antes de pedir a chave
+     * @param file Arquivo encriptado
+     * @returns Promise com o cabeçalho do envelope ou do stream
+     * @throws Error se o arquivo não estiver em um formato reconhecido
+     */
+    public async readHeader(file: Blob): Promise<EnvelopeHeader | StreamHeader> {
+        if (await this.isStreamFile(file)) {
+            // Cabeçalho fixo, bloco de derivação e sal de até 255 bytes
+            const head = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+            return this.streamCrypto.readHeader(head);
+        }
+
+        return await this.readEnvelope(file);
+    }
+
+    /**
+     * Lê o cabeçalho do envelope de um arquivo encriptado sem decriptá-lo
+     * Útil para obter os parâmetros de derivação antes de pedir a chave
+     * @param file Arquivo encriptado
+     * @returns Promise com o envelope decodificado
+     * @throws Error se o arquivo não estiver no formato de envelope
+     */
+    public async readEnvelope(file: Blob): Promise<CiphertextEnvelope> {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+
+        if (!this.aesCrypto.isEnvelope(bytes)) {
+            throw new Error('Arquivo não está no formato encriptado por esta aplicação.');
+        }
+
+        return this.aesCrypto.readEnvelope(bytes);
+    }
+
+    /**
+     * Verifica se um arquivo parece ter sido encriptado por esta aplicação
+     * @param file Arquivo a ser verificado
+     * @returns Promise com true se o arquivo começa com o identificador do envelope
+     */
+    public async isEncryptedFile(file: Blob): Promise<boolean> {
+        const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+        return this.aesCrypto.isEnvelope(head) || this.streamCrypto.isStream(head);
+    }
+
+    /**
+     * Verifica se um arquivo foi encriptado no formato de streaming
+     * @param file Arquivo a ser verificado
+     * @returns Promise com true se o arquivo começa com o identificador do stream
+     */
+    public async isStreamFile(file: Blob): Promise<boolean> {
+        const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+        return this.streamCrypto.isStream(head);
+    }
+
+    /**
+     * Extrai os metadados de um arquivo
+     * @param file Arquivo ou Blob
+     * @returns Metadados do arquivo
+     */
+    private getMetadata(file: Blob): FileMetadata {
+        const metadata: FileMetadata = {
+            name: 'arquivo',
+            type: file.type,
+            size: file.size
+        };
+
+        // Verificação estrutural: além de File, aceita Blobs com nome (o File só é global a partir do Node.js 20)
+        const named = file as Partial<Pick<File, 'name' | 'lastModified'>>;
+        if (typeof named.name === 'string') {
+            metadata.name = named.name || metadata.name;
+        }
+        if (typeof named.lastModified === 'number') {
+            metadata.lastModified = named.lastModified;
+        }
+
+        return metadata;
+    }
+
+    /**
+     * Monta o conteúdo em claro com os metadados à frente
+     * @param metadata Metadados do arquivo
+     * @param content Bytes do arquivo
+     * @returns Conteúdo a ser encriptado
+     */
+    private buildPayload(metadata: FileMetadata, content: Uint8Array): Uint8Array {
+        const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+        const payload = new Uint8Array(4 + metadataBytes.length + content.length);
+
+        new DataView(payload.buffer).setUint32(0, metadataBytes.length);
+        payload.set(metadataBytes, 4);
+        payload.set(content, 4 + metadataBytes.length);
+
+        return payload;
+    }
+
+    /**
+     * Separa metadados e conteúdo de um arquivo decriptado
+     * @param payload Conteúdo decriptado
+     * @returns Metadados e bytes do arquivo original
+     * @throws Error se o conteúdo estiver malformado
+     */
+    private parsePayload(payload: Uint8Array<ArrayBuffer>): { metadata: FileMetadata; content: Uint8Array<ArrayBuffer> } {
+        if (payload.length < 4) {
+            throw new Error('Arquivo decriptado inválido: metadados ausentes.');
+        }
+
+        const metadataLength = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(0);
+        if (4 + metadataLength > payload.length) {
+            throw new Error('Arquivo decriptado inválido: metadados truncados.');
+        }
+
+        const content = payload.slice(4 + metadataLength);
+        const metadata = this.parseMetadata(payload.subarray(4, 4 + metadataLength), content.length);
+
+        return { metadata, content };
+    }
+
+    /**
+     * Lê e valida os metadados de um arquivo decriptado
+     * @param bytes JSON UTF-8 dos metadados
+     * @param contentSize Tamanho do conteúdo decriptado, ou null se ainda não for conhecido
+     * @returns Metadados do arquivo original
+     * @throws Error se os metadados estiverem corrompidos ou não conferirem com o conteúdo
+     */
+    private parseMetadata(bytes: Uint8Array, contentSize: number | null): FileMetadata {
+        let metadata: FileMetadata;
+        try {
+            metadata = JSON.parse(new TextDecoder().decode(bytes));
+        } catch {
+            throw new Error('Arquivo decriptado inválido: metadados corrompidos.');
+        }
+
+        // Sem tamanho (arquivo encriptado a partir de um pipe) não há o que conferir
+        const sizeMatches = metadata.size === undefined
+            || (Number.isSafeInteger(metadata.size) && (contentSize === null || metadata.size === contentSize));
+
+        if (typeof metadata.name !== 'string' || typeof metadata.type !== 'string' || !sizeMatches) {
+            throw new Error('Arquivo decriptado inválido: metadados não conferem com o conteúdo.');
+        }
+
+        return metadata;
+    }
+}
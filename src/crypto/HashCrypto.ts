@@ -0,0 +1,147 @@
+import type { HashAlgorithm, HashOptions, HashResult } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+
+/**
+ * Resumos criptográficos (SHA-1/256/384/512) e HMAC de textos e arquivos
+ *
+ * Usa `crypto.subtle.digest` e HMAC da Web Crypto API. Como a API não é
+ * incremental, arquivos são lidos inteiros em memória.
+ *
+ * O SHA-1 tem colisões práticas: serve apenas para conferir checksums
+ * publicados por terceiros, nunca para integridade contra adulteração.
+ */
+export class HashCrypto {
+    /** Algoritmos de resumo suportados */
+    public static readonly ALGORITHMS: readonly HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria uma nova instância do HashCrypto
+     */
+    constructor() {
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Calcula o resumo de dados binários
+     * @param data Dados a resumir
+     * @param algorithm Função de hash (padrão SHA-256)
+     * @returns Promise com o resumo
+     */
+    public async digest(data: BufferSource, algorithm: HashAlgorithm = 'SHA-256'): Promise<Uint8Array> {
+        this.validateAlgorithm(algorithm);
+        return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+    }
+
+    /**
+     * Calcula o HMAC de dados binários
+     * @param data Dados a autenticar
+     * @param key Chave secreta do HMAC (não vazia)
+     * @param algorithm Função de hash (padrão SHA-256)
+     * @returns Promise com a tag
+     */
+    public async hmac(data: BufferSource, key: BufferSource, algorithm: HashAlgorithm = 'SHA-256'): Promise<Uint8Array> {
+        const hmacKey = await this.importHmacKey(key, algorithm, 'sign');
+        return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+    }
+
+    /**
+     * Verifica o HMAC de dados binários em tempo constante
+     * @param data Dados autenticados
+     * @param key Chave secreta do HMAC
+     * @param mac Tag esperada
+     * @param algorithm Função de hash (padrão SHA-256)
+     * @returns Promise com true se a tag conferir
+     */
+    public async verifyHmac(data: BufferSource, key: BufferSource, mac: BufferSource, algorithm: HashAlgorithm = 'SHA-256'): Promise<boolean> {
+        const hmacKey = await this.importHmacKey(key, algorithm, 'verify');
+        return await crypto.subtle.verify('HMAC', hmacKey, mac, data);
+    }
+
+    /**
+     * Calcula o resumo ou o HMAC de um texto (codificado em UTF-8)
+     * @param text Texto a resumir
+     * @param options Função de hash e, para HMAC, a chave
+     * @returns Promise com o resultado em hexadecimal e Base64
+     */
+    public async hashText(text: string, options: HashOptions = {}): Promise<HashResult> {
+        try {
+            return await this.hashBytes(new TextEncoder().encode(text), options);
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro no cálculo do hash: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido no cálculo do hash');
+        }
+    }
+
+    /**
+     * Calcula o resumo ou o HMAC de um arquivo
+     * @param file Arquivo ou Blob a resumir
+     * @param options Função de hash e, para HMAC, a chave
+     * @returns Promise com o resultado em hexadecimal e Base64
+     */
+    public async hashFile(file: Blob, options: HashOptions = {}): Promise<HashResult> {
+        try {
+            return await this.hashBytes(new Uint8Array(await file.arrayBuffer()), options);
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro no cálculo do hash do arquivo: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido no cálculo do hash do arquivo');
+        }
+    }
+
+    /**
+     * Calcula o resumo ou o HMAC e monta o resultado
+     * @param data Dados a resumir
+     * @param options Função de hash e, para HMAC, a chave
+     * @returns Promise com o resultado
+     */
+    private async hashBytes(data: Uint8Array<ArrayBuffer>, options: HashOptions): Promise<HashResult> {
+        const algorithm = options.algorithm ?? 'SHA-256';
+        const bytes = options.hmacKey !== undefined
+            ? await this.hmac(data, options.hmacKey, algorithm)
+            : await this.digest(data, algorithm);
+
+        return {
+            algorithm,
+            hmac: options.hmacKey !== undefined,
+            bytes,
+            hex: this.cryptoUtils.uint8ArrayToHex(bytes),
+            base64: this.cryptoUtils.uint8ArrayToBase64(bytes)
+        };
+    }
+
+    /**
+     * Importa a chave de um HMAC
+     * @param key Chave secreta
+     * @param algorithm Função de hash
+     * @param usage Operação permitida
+     * @returns Promise com a chave HMAC
+     * @throws Error se a chave estiver vazia
+     */
+    private async importHmacKey(key: BufferSource, algorithm: HashAlgorithm, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+        this.validateAlgorithm(algorithm);
+
+        if (key.byteLength === 0) {
+            throw new Error('Chave do HMAC não pode estar vazia.');
+        }
+
+        return await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: algorithm }, false, [usage]);
+    }
+
+    /**
+     * Valida a função de hash
+     * @param algorithm Função de hash informada
+     * @throws Error se a função não for suportada
+     */
+    private validateAlgorithm(algorithm: HashAlgorithm): void {
+        if (!HashCrypto.ALGORITHMS.includes(algorithm)) {
+            throw new Error('Função de hash deve ser SHA-1, SHA-256, SHA-384 ou SHA-512.');
+        }
+    }
+}
@@ -0,0 +1,864 @@
+import type { AEADOptions, EncodingOptions, HybridRecipient, HybridSlot, KeyHandleOptions, PublicKeyAlgorithm, RecipientCredential, RecipientInput, RecipientType } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESCrypto } from './AESCrypto.js';
+import { AESKey } from './AESKey.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { EnvelopeCodec } from './EnvelopeCodec.js';
+import { KeyDerivation } from './KeyDerivation.js';
+
+/**
+ * Criptografia híbrida: os dados são encriptados com uma chave AES-GCM nova
+ * e essa chave de conteúdo é encapsulada para cada destinatário com a sua
+ * chave pública (RSA-OAEP ou ECDH P-256), uma chave simétrica compartilhada
+ * ou uma frase-senha.
+ *
+ * Formato binário (versão 1), todos os inteiros em big-endian:
+ *
+ * | Campo            | Bytes | Descrição                                           |
+ * |------------------|-------|-----------------------------------------------------|
+ * | magic            | 4     | "AESH"                                              |
+ * | version          | 1     | Versão do formato                                   |
+ * | ivLength         | 1     | Tamanho do nonce em bytes                           |
+ * | iv               | n     | Nonce do AES-GCM                                    |
+ * | slotCount        | 1     | Número de destinatários                             |
+ * | slots            | ...   | Um slot por destinatário (abaixo)                   |
+ * | ciphertext       | resto | Texto cifrado AES-GCM-256 com a tag no final        |
+ *
+ * Cada slot: tipo (1 = RSA-OAEP, 2 = ECDH-ES P-256, 3 = AES-GCM, 4 = PBKDF2),
+ * tamanho (1) e identificador, tamanho (2) e dados do slot. O identificador é
+ * a impressão digital da chave pública ou, nos slots simétricos, 8 bytes
+ * aleatórios. Os dados de cada tipo são:
+ *
+ * - RSA-OAEP: chave de conteúdo encapsulada;
+ * - ECDH: chave pública efêmera (65 bytes) seguida da chave de conteúdo
+ *   encapsulada com AES-KW sob uma chave derivada (HKDF-SHA-256) do segredo
+ *   compartilhado;
+ * - AES-GCM: nonce (12 bytes) seguido da chave de conteúdo encriptada, com o
+ *   tipo e o identificador do slot como AAD;
+ * - PBKDF2: bloco de parâmetros de derivação (o mesmo do envelope) seguido da
+ *   chave de conteúdo encapsulada com AES-KW sob a chave derivada.
+ *
+ * O AAD do AES-GCM cobre magic, versão e nonce (mais o AAD do usuário), mas
+ * não os slots: destinatários podem ser adicionados ou revogados sem
+ * reencriptar o conteúdo, e um slot adulterado apenas impede a obtenção da
+ * chave correta.
+ */
+export class HybridCrypto {
+    /** Versão atual do formato */
+    public static readonly VERSION = 1;
+
+    /** Tamanho do módulo das chaves RSA geradas */
+    public static readonly RSA_MODULUS_LENGTH = 3072;
+
+    /** Tamanho mínimo do módulo aceito em chaves RSA importadas */
+    public static readonly MIN_RSA_MODULUS_LENGTH = 2048;
+
+    /** Bytes mágicos que identificam o formato ("AESH") */
+    private static readonly MAGIC = [0x41, 0x45, 0x53, 0x48];
+
+    private static readonly SLOT_IDS: Record<RecipientType, number> = {
+        'RSA-OAEP': 1,
+        'ECDH-P256': 2,
+        'AES-GCM': 3,
+        'PBKDF2': 4
+    };
+
+    private static readonly IV_LENGTH = 12;
+    private static readonly FINGERPRINT_LENGTH = 16;
+    private static readonly EC_PUBLIC_KEY_LENGTH = 65;
+    private static readonly SLOT_ID_LENGTH = 8;
+    private static readonly MAX_SLOTS = 255;
+    private static readonly HKDF_INFO = 'AESH ECDH-ES P-256 AES-KW';
+
+    private readonly aesCrypto: AESCrypto;
+    private readonly cryptoUtils: CryptoUtils;
+    private readonly envelopeCodec: EnvelopeCodec;
+    private readonly keyDerivation: KeyDerivation;
+
+    /**
+     * Cria uma nova instância do HybridCrypto
+     * @param encoding Codificação padrão da saída textual (padrão 'hex')
+     * @param keyDerivation Derivação usada nos slots de frase-senha
+     */
+    constructor(encoding: EncodingOptions = {}, keyDerivation: KeyDerivation = new KeyDerivation()) {
+        this.aesCrypto = new AESCrypto({
+            algorithm: 'AES-GCM',
+            keyLength: 256,
+            ivLength: HybridCrypto.IV_LENGTH,
+            tagLength: 128,
+            outputEncoding: encoding.outputEncoding ?? 'hex'
+        });
+        this.cryptoUtils = new CryptoUtils();
+        this.envelopeCodec = new EnvelopeCodec();
+        this.keyDerivation = keyDerivation;
+    }
+
+    /**
+     * Verifica se os dados começam com o identificador do formato híbrido
+     * @param data Dados binários
+     * @returns true se os dados parecem ser uma mensagem híbrida
+     */
+    public isHybrid(data: Uint8Array): boolean {
+        return data.length > HybridCrypto.MAGIC.length
+            && HybridCrypto.MAGIC.every((byte, index) => data[index] === byte);
+    }
+
+    /**
+     * Gera um par de chaves para receber mensagens
+     * A chave pública é sempre exportável; a privada só se `extractable` for true
+     * @param algorithm RSA-OAEP (3072 bits, SHA-256) ou ECDH P-256
+     * @param options Exportabilidade da chave privada (padrão não exportável)
+     * @returns Promise com o par de chaves
+     */
+    public async generateKeyPair(algorithm: PublicKeyAlgorithm = 'ECDH-P256', options: Pick<KeyHandleOptions, 'extractable'> = {}): Promise<CryptoKeyPair> {
+        const extractable = options.extractable ?? false;
+
+        if (algorithm === 'RSA-OAEP') {
+            return await crypto.subtle.generateKey(
+                {
+                    name: 'RSA-OAEP',
+                    modulusLength: HybridCrypto.RSA_MODULUS_LENGTH,
+                    publicExponent: new Uint8Array([1, 0, 1]),
+                    hash: 'SHA-256'
+                },
+                extractable,
+                ['wrapKey', 'unwrapKey']
+            );
+        }
+
+        return await crypto.subtle.generateKey(
+            { name: 'ECDH', namedCurve: 'P-256' },
+            extractable,
+            ['deriveBits']
+        );
+    }
+
+    /**
+     * Exporta uma chave pública no formato PEM (SPKI)
+     * @param publicKey Chave pública RSA-OAEP ou ECDH
+     * @returns Promise com o texto PEM
+     */
+    public async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+        const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+        return this.cryptoUtils.toPem(spki, 'PUBLIC KEY');
+    }
+
+    /**
+     * Importa a chave pública de um destinatário
+     * O algoritmo é identificado pelo próprio SPKI
+     * @param publicKey Chave em PEM, Base64 ou bytes (SPKI)
+     * @returns Promise com a chave pública
+     * @throws Error se a chave não for RSA-OAEP (≥ 2048 bits) nem ECDH P-256
+     */
+    public async importPublicKey(publicKey: string | BufferSource): Promise<CryptoKey> {
+        try {
+            const spki = typeof publicKey === 'string'
+                ? this.cryptoUtils.fromPem(publicKey, 'PUBLIC KEY')
+                : this.cryptoUtils.toUint8Array(publicKey);
+
+            const key = await this.importSpki(spki);
+            this.validatePublicKey(key);
+            return key;
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave pública: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave pública');
+        }
+    }
+
+    /**
+     * Exporta a chave privada de um par no formato PEM (PKCS #8)
+     * @param privateKey Chave privada exportável
+     * @returns Promise com o texto PEM
+     * @throws Error se a chave não for exportável
+     */
+    public async exportPrivateKey(privateKey: CryptoKey): Promise<string> {
+        if (!privateKey.extractable) {
+            throw new Error('Chave privada não é exportável. Gere o par com extractable: true para poder exportá-la.');
+        }
+
+        const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', privateKey));
+        return this.cryptoUtils.toPem(pkcs8, 'PRIVATE KEY');
+    }
+
+    /**
+     * Importa um par de chaves a partir da chave privada (PKCS #8)
+     * A chave pública é reconstruída a partir dos parâmetros da privada
+     * @param privateKey Chave privada em PEM, Base64 ou bytes (PKCS #8)
+     * @param options Exportabilidade da chave privada (padrão não exportável)
+     * @returns Promise com o par de chaves
+     * @throws Error se a chave não for RSA-OAEP nem ECDH P-256
+     */
+    public async importKeyPair(privateKey: string | BufferSource, options: Pick<KeyHandleOptions, 'extractable'> = {}): Promise<CryptoKeyPair> {
+        try {
+            const pkcs8 = typeof privateKey === 'string'
+                ? this.cryptoUtils.fromPem(privateKey, 'PRIVATE KEY')
+                : this.cryptoUtils.toUint8Array(privateKey);
+
+            // Importar temporariamente como exportável para obter os parâmetros públicos
+            const { algorithm, key } = await this.importPkcs8(pkcs8);
+            const jwk = await crypto.subtle.exportKey('jwk', key);
+
+            const publicJwk: JsonWebKey = algorithm === 'RSA-OAEP'
+                ? { kty: 'RSA', n: jwk.n!, e: jwk.e!, alg: 'RSA-OAEP-256', ext: true }
+                : { kty: 'EC', crv: 'P-256', x: jwk.x!, y: jwk.y!, ext: true };
+
+            const publicKey = algorithm === 'RSA-OAEP'
+                ? await crypto.subtle.importKey('jwk', publicJwk, { name: 'RSA-OAEP', hash: 'SHA-256' }, true, ['wrapKey'])
+                : await crypto.subtle.importKey('jwk', publicJwk, { name: 'ECDH', namedCurve: 'P-256' }, true, []);
+
+            this.validatePublicKey(publicKey);
+
+            const extractable = options.extractable ?? false;
+            const finalPrivateKey = algorithm === 'RSA-OAEP'
+                ? await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, extractable, ['unwrapKey'])
+                : await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDH', namedCurve: 'P-256' }, extractable, ['deriveBits']);
+
+            return { publicKey, privateKey: finalPrivateKey };
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave privada: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave privada');
+        }
+    }
+
+    /**
+     * Calcula a impressão digital de uma chave pública
+     * @param publicKey Chave pública RSA-OAEP ou ECDH
+     * @returns Promise com os primeiros 16 bytes do SHA-256 do SPKI, em hexadecimal
+     */
+    public async fingerprint(publicKey: CryptoKey): Promise<string> {
+        const spki = await crypto.subtle.exportKey('spki', publicKey);
+        const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+        return this.cryptoUtils.uint8ArrayToHex(digest.subarray(0, HybridCrypto.FINGERPRINT_LENGTH));
+    }
+
+    /**
+     * Identifica o algoritmo de uma chave pública ou privada
+     * @param key Chave RSA-OAEP ou ECDH
+     * @returns Algoritmo da chave
+     * @throws Error se a chave não for de um algoritmo suportado
+     */
+    public algorithmOf(key: CryptoKey): PublicKeyAlgorithm {
+        if (key.algorithm.name === 'RSA-OAEP') {
+            return 'RSA-OAEP';
+        }
+
+        if (key.algorithm.name === 'ECDH' && (key.algorithm as EcKeyAlgorithm).namedCurve === 'P-256') {
+            return 'ECDH-P256';
+        }
+
+        throw new Error('Chave deve ser RSA-OAEP ou ECDH P-256.');
+    }
+
+    /**
+     * Encripta dados binários para um ou mais destinatários
+     * @param data Dados em claro
+     * @param recipients Chaves públicas, chaves simétricas AES-GCM ou frases-senha dos destinatários
+     * @param options Dados adicionais autenticados (AAD)
+     * @returns Promise com a mensagem híbrida
+     * @throws Error se não houver destinatários ou algum deles for inválido
+     */
+    public async encryptBytes(data: BufferSource, recipients: RecipientInput[], options: AEADOptions = {}): Promise<Uint8Array> {
+        try {
+            if (recipients.length === 0) {
+                throw new Error('Informe pelo menos um destinatário.');
+            }
+
+            if (recipients.length > HybridCrypto.MAX_SLOTS) {
+                throw new Error(`No máximo ${HybridCrypto.MAX_SLOTS} destinatários por mensagem.`);
+            }
+
+            const contentKey = await AESKey.generate('AES-GCM', 256, { extractable: true });
+            const slots: HybridSlot[] = [];
+
+            for (const recipient of recipients) {
+                slots.push(await this.sealSlot(contentKey.cryptoKey, recipient));
+            }
+
+            const ivHex = this.cryptoUtils.generateRandomIV(HybridCrypto.IV_LENGTH);
+            const prefix = this.encodePrefix(this.cryptoUtils.hexToUint8Array(ivHex));
+            const ciphertext = await this.aesCrypto.encryptBytes(data, contentKey, ivHex, {
+                additionalData: this.buildAdditionalData(prefix, options.additionalData)
+            });
+
+            return this.assemble(prefix, slots, ciphertext);
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na encriptação híbrida: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na encriptação híbrida');
+        }
+    }
+
+    /**
+     * Decripta uma mensagem híbrida
+     * Pares de chaves localizam o slot pela impressão digital da chave pública; chaves
+     * simétricas e frases-senha são testadas nos slots do tipo correspondente
+     * @param data Mensagem híbrida
+     * @param credentials Uma ou mais credenciais, tentadas em ordem
+     * @param options Dados adicionais autenticados (AAD)
+     * @returns Promise com os bytes decriptados
+     * @throws AuthenticationError se a chave de conteúdo ou o texto cifrado não puderem ser verificados
+     * @throws Error se a mensagem não tiver slot para as credenciais informadas
+     */
+    public async decryptBytes(data: BufferSource, credentials: RecipientCredential | RecipientCredential[], options: AEADOptions = {}): Promise<Uint8Array> {
+        try {
+            const bytes = this.cryptoUtils.toUint8Array(data);
+            const message = this.parse(bytes);
+
+            const contentKey = new AESKey(await this.openContentKey(message.slots, credentials, false));
+            return await this.aesCrypto.decryptBytes(bytes.subarray(message.bodyOffset), contentKey, message.ivHex, {
+                additionalData: this.buildAdditionalData(bytes.subarray(0, message.prefixLength), options.additionalData)
+            });
+
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                throw error;
+            }
+            if (error instanceof Error) {
+                throw new Error(`Erro na decriptação híbrida: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na decriptação híbrida');
+        }
+    }
+
+    /**
+     * Encripta texto para um ou mais destinatários
+     * @param plainText Texto a ser encriptado (UTF-8)
+     * @param recipients Chaves públicas, chaves simétricas AES-GCM ou frases-senha dos destinatários
+     * @param options AAD e codificação da saída
+     * @returns Promise com a mensagem híbrida codificada
+     */
+    public async encrypt(plainText: string, recipients: RecipientInput[], options: AEADOptions & EncodingOptions = {}): Promise<string> {
+        if (!plainText) {
+            throw new Error('Erro na encriptação híbrida: Texto para encriptação não pode estar vazio.');
+        }
+
+        const bytes = await this.encryptBytes(new TextEncoder().encode(plainText), recipients, options);
+        return this.cryptoUtils.encodeBytes(bytes, options.outputEncoding ?? this.aesCrypto.getConfig().outputEncoding ?? 'hex');
+    }
+
+    /**
+     * Decripta uma mensagem híbrida codificada como texto
+     * @param encryptedData Mensagem em hexadecimal, Base64 ou Base64URL
+     * @param credentials Uma ou mais credenciais, tentadas em ordem
+     * @param options Dados adicionais autenticados (AAD)
+     * @returns Promise com o texto decriptado
+     * @throws Error se o conteúdo decriptado não for texto UTF-8 (use decryptBytes)
+     */
+    public async decrypt(encryptedData: string, credentials: RecipientCredential | RecipientCredential[], options: AEADOptions = {}): Promise<string> {
+        if (!encryptedData || this.cryptoUtils.detectEncoding(encryptedData) === null) {
+            throw new Error('Erro na decriptação híbrida: Dados devem estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        const bytes = await this.decryptBytes(new Uint8Array(this.cryptoUtils.decodeData(encryptedData).bytes), credentials, options);
+
+        if (!this.cryptoUtils.isValidUtf8(bytes)) {
+            throw new Error('Erro na decriptação híbrida: o conteúdo decriptado não é texto UTF-8 válido. Use decryptBytes para obter os bytes.');
+        }
+
+        return new TextDecoder().decode(bytes);
+    }
+
+    /**
+     * Adiciona destinatários a uma mensagem existente
+     * A chave de conteúdo é obtida com uma credencial atual e encapsulada para os novos
+     * destinatários; nonce e texto cifrado são copiados sem alteração
+     * @param data Mensagem híbrida
+     * @param credentials Credenciais de um destinatário atual, tentadas em ordem
+     * @param recipients Novos destinatários
+     * @returns Promise com a mensagem contendo os novos slots
+     * @throws AuthenticationError se nenhuma credencial abrir um slot
+     * @throws Error se a mensagem ficar com mais de 255 destinatários
+     */
+    public async addRecipients(data: BufferSource, credentials: RecipientCredential | RecipientCredential[], recipients: RecipientInput[]): Promise<Uint8Array> {
+        try {
+            const bytes = this.cryptoUtils.toUint8Array(data);
+            const message = this.parse(bytes);
+
+            if (recipients.length === 0) {
+                throw new Error('Informe pelo menos um destinatário.');
+            }
+
+            if (message.slots.length + recipients.length > HybridCrypto.MAX_SLOTS) {
+                throw new Error(`No máximo ${HybridCrypto.MAX_SLOTS} destinatários por mensagem.`);
+            }
+
+            // A chave de conteúdo precisa ser exportável para ser encapsulada novamente
+            const contentKey = await this.openContentKey(message.slots, credentials, true);
+            const slots = [...message.slots];
+
+            for (const recipient of recipients) {
+                slots.push(await this.sealSlot(contentKey, recipient));
+            }
+
+            return this.assemble(bytes.subarray(0, message.prefixLength), slots, bytes.subarray(message.bodyOffset));
+
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                throw error;
+            }
+            if (error instanceof Error) {
+                throw new Error(`Erro ao adicionar destinatários: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido ao adicionar destinatários');
+        }
+    }
+
+    /**
+     * Remove o slot de um destinatário, sem reencriptar o conteúdo
+     * A revogação só vale para cópias da mensagem geradas depois dela: quem já obteve a
+     * chave de conteúdo (ou guardou a mensagem anterior) continua podendo decriptar
+     * @param data Mensagem híbrida
+     * @param fingerprint Identificador do slot (veja readRecipients)
+     * @returns Mensagem sem o slot
+     * @throws Error se o slot não existir ou for o último da mensagem
+     */
+    public removeRecipient(data: BufferSource, fingerprint: string): Uint8Array {
+        try {
+            const bytes = this.cryptoUtils.toUint8Array(data);
+            const message = this.parse(bytes);
+            const slots = message.slots.filter(slot => slot.fingerprint !== fingerprint.toLowerCase());
+
+            if (slots.length === message.slots.length) {
+                throw new Error('Destinatário não encontrado nesta mensagem.');
+            }
+
+            if (slots.length === 0) {
+                throw new Error('A mensagem precisa manter pelo menos um destinatário.');
+            }
+
+            return this.assemble(bytes.subarray(0, message.prefixLength), slots, bytes.subarray(message.bodyOffset));
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro ao revogar destinatário: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido ao revogar destinatário');
+        }
+    }
+
+    /**
+     * Lista os destinatários de uma mensagem híbrida, sem decriptá-la
+     * @param data Mensagem híbrida
+     * @returns Tipo e identificador de cada destinatário
+     * @throws Error se a mensagem estiver malformada
+     */
+    public readRecipients(data: Uint8Array): HybridRecipient[] {
+        return this.parse(data).slots.map(({ algorithm, fingerprint }) => ({ algorithm, fingerprint }));
+    }
+
+    /**
+     * Encapsula a chave de conteúdo para um destinatário
+     * @param contentKey Chave AES-GCM de conteúdo (exportável)
+     * @param recipient Chave pública, chave simétrica ou frase-senha do destinatário
+     * @returns Promise com o slot
+     */
+    private async sealSlot(contentKey: CryptoKey, recipient: RecipientInput): Promise<HybridSlot> {
+        if ('passphrase' in recipient) {
+            if (!recipient.passphrase) {
+                throw new Error('Frase-senha do destinatário não pode estar vazia.');
+            }
+
+            const kdf = this.keyDerivation.createParameters();
+            const wrappingKey = await this.keyDerivation.deriveWrappingKey(recipient.passphrase, kdf);
+            const wrapped = new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, wrappingKey, 'AES-KW'));
+
+            return {
+                algorithm: 'PBKDF2',
+                fingerprint: this.cryptoUtils.uint8ArrayToHex(this.cryptoUtils.generateRandomBytes(HybridCrypto.SLOT_ID_LENGTH)),
+                data: new Uint8Array([...this.envelopeCodec.encodeKdfParameters(kdf), ...wrapped])
+            };
+        }
+
+        if ('key' in recipient) {
+            const fingerprint = this.cryptoUtils.uint8ArrayToHex(this.cryptoUtils.generateRandomBytes(HybridCrypto.SLOT_ID_LENGTH));
+            const ivHex = this.cryptoUtils.generateRandomIV(HybridCrypto.IV_LENGTH);
+            const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', contentKey));
+
+            try {
+                const encryptedKey = await this.aesCrypto.encryptBytes(rawKey, recipient.key, ivHex, {
+                    additionalData: this.slotAdditionalData('AES-GCM', fingerprint)
+                });
+
+                return {
+                    algorithm: 'AES-GCM',
+                    fingerprint,
+                    data: new Uint8Array([...this.cryptoUtils.hexToUint8Array(ivHex), ...encryptedKey])
+                };
+            } finally {
+                rawKey.fill(0);
+            }
+        }
+
+        if (recipient.type !== 'public') {
+            throw new Error('Destinatários devem ser informados por chaves públicas.');
+        }
+
+        const algorithm = this.algorithmOf(recipient);
+        this.validatePublicKey(recipient);
+
+        let slotData: Uint8Array;
+
+        if (algorithm === 'RSA-OAEP') {
+            slotData = new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, recipient, { name: 'RSA-OAEP' }));
+        } else {
+            const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+            const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+            const wrappingKey = await this.deriveEcdhWrappingKey(ephemeral.privateKey, recipient, ephemeralPublic, recipient);
+            const wrapped = new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, wrappingKey, 'AES-KW'));
+
+            slotData = new Uint8Array(ephemeralPublic.length + wrapped.length);
+            slotData.set(ephemeralPublic);
+            slotData.set(wrapped, ephemeralPublic.length);
+        }
+
+        return { algorithm, fingerprint: await this.fingerprint(recipient), data: slotData };
+    }
+
+    /**
+     * Obtém a chave de conteúdo testando as credenciais nos slots compatíveis
+     * @param slots Slots da mensagem
+     * @param credentials Uma ou mais credenciais, tentadas em ordem
+     * @param extractable Se a chave de conteúdo obtida deve ser exportável
+     * @returns Promise com a chave de conteúdo
+     * @throws AuthenticationError se algum slot compatível existir mas nenhum puder ser aberto
+     * @throws Error se nenhum slot for compatível com as credenciais
+     */
+    private async openContentKey(slots: HybridSlot[], credentials: RecipientCredential | RecipientCredential[], extractable: boolean): Promise<CryptoKey> {
+        const list = Array.isArray(credentials) ? credentials : [credentials];
+        let attempted = false;
+
+        for (const credential of list) {
+            for (const slot of await this.compatibleSlots(slots, credential)) {
+                attempted = true;
+
+                try {
+                    return await this.openSlot(slot, credential, extractable);
+                } catch (error) {
+                    if (!(error instanceof AuthenticationError)) {
+                        throw error;
+                    }
+                }
+            }
+        }
+
+        if (!attempted) {
+            throw new Error('Esta mensagem não foi encriptada para a credencial informada.');
+        }
+
+        throw new AuthenticationError('Falha ao obter a chave de conteúdo: a credencial não corresponde a nenhum slot ou o slot foi alterado.');
+    }
+
+    /**
+     * Seleciona os slots que uma credencial pode tentar abrir
+     * @param slots Slots da mensagem
+     * @param credential Par de chaves, chave simétrica ou frase-senha
+     * @returns Promise com os slots compatíveis
+     * @throws Error se a chave simétrica não for AES-GCM com permissão de decriptar
+     */
+    private async compatibleSlots(slots: HybridSlot[], credential: RecipientCredential): Promise<HybridSlot[]> {
+        if ('passphrase' in credential) {
+            return credential.passphrase ? slots.filter(slot => slot.algorithm === 'PBKDF2') : [];
+        }
+
+        if ('key' in credential) {
+            if (typeof credential.key !== 'string') {
+                if (credential.key.algorithm !== 'AES-GCM') {
+                    throw new Error(`Chave foi criada para ${credential.key.algorithm}, mas slots simétricos usam AES-GCM.`);
+                }
+
+                if (!credential.key.usages.includes('decrypt')) {
+                    throw new Error('Chave não permite a operação "decrypt".');
+                }
+            }
+
+            return credential.key ? slots.filter(slot => slot.algorithm === 'AES-GCM') : [];
+        }
+
+        const fingerprint = await this.fingerprint(credential.publicKey);
+        const algorithm = this.algorithmOf(credential.privateKey);
+        return slots.filter(slot => slot.fingerprint === fingerprint && slot.algorithm === algorithm);
+    }
+
+    /**
+     * Desencapsula a chave de conteúdo de um slot
+     * @param slot Slot do destinatário
+     * @param credential Credencial compatível com o tipo do slot
+     * @param extractable Se a chave de conteúdo obtida deve ser exportável
+     * @returns Promise com a chave de conteúdo
+     * @throws AuthenticationError se a chave não puder ser desencapsulada
+     */
+    private async openSlot(slot: HybridSlot, credential: RecipientCredential, extractable: boolean): Promise<CryptoKey> {
+        try {
+            if ('passphrase' in credential) {
+                const { kdf, offset } = this.envelopeCodec.decodeKdfParameters(slot.data, 0);
+                if (!kdf) {
+                    throw new Error('Slot sem parâmetros de derivação.');
+                }
+
+                const wrappingKey = await this.keyDerivation.deriveWrappingKey(credential.passphrase, kdf);
+                return await crypto.subtle.unwrapKey(
+                    'raw',
+                    new Uint8Array(slot.data.subarray(offset)),
+                    wrappingKey,
+                    'AES-KW',
+                    { name: 'AES-GCM' },
+                    extractable,
+                    ['decrypt']
+                );
+            }
+
+            if ('key' in credential) {
+                const ivHex = this.cryptoUtils.uint8ArrayToHex(slot.data.subarray(0, HybridCrypto.IV_LENGTH));
+                const rawKey = await this.aesCrypto.decryptBytes(new Uint8Array(slot.data.subarray(HybridCrypto.IV_LENGTH)), credential.key, ivHex, {
+                    additionalData: this.slotAdditionalData('AES-GCM', slot.fingerprint)
+                });
+
+                try {
+                    return await crypto.subtle.importKey('raw', new Uint8Array(rawKey), { name: 'AES-GCM' }, extractable, ['decrypt']);
+                } finally {
+                    rawKey.fill(0);
+                }
+            }
+
+            if (slot.algorithm === 'RSA-OAEP') {
+                return await crypto.subtle.unwrapKey(
+                    'raw',
+                    new Uint8Array(slot.data),
+                    credential.privateKey,
+                    { name: 'RSA-OAEP' },
+                    { name: 'AES-GCM' },
+                    extractable,
+                    ['decrypt']
+                );
+            }
+
+            const ephemeralPublic = new Uint8Array(slot.data.subarray(0, HybridCrypto.EC_PUBLIC_KEY_LENGTH));
+            const wrapped = new Uint8Array(slot.data.subarray(HybridCrypto.EC_PUBLIC_KEY_LENGTH));
+            const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublic, { name: 'ECDH', namedCurve: 'P-256' }, true, []);
+            const wrappingKey = await this.deriveEcdhWrappingKey(credential.privateKey, ephemeralKey, ephemeralPublic, credential.publicKey);
+
+            return await crypto.subtle.unwrapKey('raw', wrapped, wrappingKey, 'AES-KW', { name: 'AES-GCM' }, extractable, ['decrypt']);
+
+        } catch {
+            throw new AuthenticationError('Falha ao obter a chave de conteúdo: o slot do destinatário foi alterado ou a credencial não corresponde.');
+        }
+    }
+
+    /**
+     * Monta o AAD de um slot simétrico: tipo e identificador do slot
+     * Impede que os dados de um slot sejam reaproveitados sob outro identificador
+     * @param algorithm Tipo do slot
+     * @param fingerprint Identificador do slot em hexadecimal
+     * @returns AAD do slot
+     */
+    private slotAdditionalData(algorithm: RecipientType, fingerprint: string): Uint8Array {
+        return new Uint8Array([HybridCrypto.SLOT_IDS[algorithm], ...this.cryptoUtils.hexToUint8Array(fingerprint)]);
+    }
+
+    /**
+     * Serializa uma mensagem híbrida a partir das suas partes
+     * @param prefix Parte fixa do cabeçalho (magic, versão e nonce)
+     * @param slots Slots dos destinatários
+     * @param ciphertext Texto cifrado com a tag
+     * @returns Bytes da mensagem
+     * @throws Error se algum slot não puder ser representado
+     */
+    private assemble(prefix: Uint8Array, slots: HybridSlot[], ciphertext: Uint8Array): Uint8Array {
+        const slotBytes: number[] = [];
+
+        for (const slot of slots) {
+            const fingerprint = this.cryptoUtils.hexToUint8Array(slot.fingerprint);
+
+            if (slot.data.length > 0xffff) {
+                throw new Error('Dados do slot excedem 65535 bytes.');
+            }
+
+            slotBytes.push(
+                HybridCrypto.SLOT_IDS[slot.algorithm],
+                fingerprint.length,
+                ...fingerprint,
+                (slot.data.length >>> 8) & 0xff,
+                slot.data.length & 0xff,
+                ...slot.data
+            );
+        }
+
+        const result = new Uint8Array(prefix.length + 1 + slotBytes.length + ciphertext.length);
+        result.set(prefix);
+        result[prefix.length] = slots.length;
+        result.set(slotBytes, prefix.length + 1);
+        result.set(ciphertext, prefix.length + 1 + slotBytes.length);
+        return result;
+    }
+
+    /**
+     * Deriva a chave AES-KW de um slot ECDH
+     * O contexto do HKDF inclui as duas chaves públicas, vinculando a chave derivada a este slot
+     * @param privateKey Chave privada (efêmera na encriptação, do destinatário na decriptação)
+     * @param publicKey Chave pública da outra parte
+     * @param ephemeralPublic Chave pública efêmera em formato bruto
+     * @param recipient Chave pública do destinatário
+     * @returns Promise com a chave de encapsulamento
+     */
+    private async deriveEcdhWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, ephemeralPublic: Uint8Array, recipient: CryptoKey): Promise<CryptoKey> {
+        const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+        const recipientPublic = new Uint8Array(await crypto.subtle.exportKey('raw', recipient));
+        const info = new Uint8Array([...new TextEncoder().encode(HybridCrypto.HKDF_INFO), ...ephemeralPublic, ...recipientPublic]);
+
+        const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+        return await crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info },
+            hkdfKey,
+            { name: 'AES-KW', length: 256 },
+            false,
+            ['wrapKey', 'unwrapKey']
+        );
+    }
+
+    /**
+     * Serializa a parte fixa do cabeçalho (magic, versão e nonce)
+     * @param iv Nonce do AES-GCM
+     * @returns Bytes da parte fixa
+     */
+    private encodePrefix(iv: Uint8Array): Uint8Array {
+        return new Uint8Array([...HybridCrypto.MAGIC, HybridCrypto.VERSION, iv.length, ...iv]);
+    }
+
+    /**
+     * Lê o cabeçalho de uma mensagem híbrida
+     * @param bytes Mensagem híbrida
+     * @returns Nonce, slots e posições do cabeçalho
+     * @throws Error se a mensagem estiver malformada ou usar versão desconhecida
+     */
+    private parse(bytes: Uint8Array): { ivHex: string; slots: HybridSlot[]; prefixLength: number; bodyOffset: number } {
+        if (!this.isHybrid(bytes)) {
+            throw new Error('Dados não estão no formato híbrido.');
+        }
+
+        let offset = HybridCrypto.MAGIC.length;
+
+        const read = (length: number): Uint8Array => {
+            if (offset + length > bytes.length) {
+                throw new Error('Mensagem híbrida inválida: cabeçalho truncado.');
+            }
+            const slice = bytes.slice(offset, offset + length);
+            offset += length;
+            return slice;
+        };
+        const readByte = (): number => read(1)[0];
+
+        const version = readByte();
+        if (version !== HybridCrypto.VERSION) {
+            throw new Error(`Mensagem híbrida inválida: versão ${version} não suportada.`);
+        }
+
+        const ivHex = this.cryptoUtils.uint8ArrayToHex(read(readByte()));
+        const prefixLength = offset;
+        const slotCount = readByte();
+        const slots: HybridSlot[] = [];
+
+        for (let index = 0; index < slotCount; index++) {
+            const typeId = readByte();
+            const algorithm = (Object.keys(HybridCrypto.SLOT_IDS) as RecipientType[])
+                .find(name => HybridCrypto.SLOT_IDS[name] === typeId);
+
+            if (!algorithm) {
+                throw new Error('Mensagem híbrida inválida: tipo de destinatário desconhecido.');
+            }
+
+            const fingerprint = this.cryptoUtils.uint8ArrayToHex(read(readByte()));
+            const lengthBytes = read(2);
+            const data = read((lengthBytes[0] << 8) | lengthBytes[1]);
+
+            slots.push({ algorithm, fingerprint, data });
+        }
+
+        if (offset >= bytes.length) {
+            throw new Error('Mensagem híbrida inválida: texto cifrado ausente.');
+        }
+
+        return { ivHex, slots, prefixLength, bodyOffset: offset };
+    }
+
+    /**
+     * Monta o AAD do conteúdo: parte fixa do cabeçalho seguida do AAD do usuário
+     * @param prefix Bytes da parte fixa do cabeçalho
+     * @param additionalData AAD do usuário (opcional)
+     * @returns AAD completo
+     */
+    private buildAdditionalData(prefix: Uint8Array, additionalData?: string | Uint8Array): Uint8Array {
+        const userData = typeof additionalData === 'string'
+            ? new TextEncoder().encode(additionalData)
+            : additionalData ?? new Uint8Array(0);
+
+        const result = new Uint8Array(prefix.length + userData.length);
+        result.set(prefix);
+        result.set(userData, prefix.length);
+        return result;
+    }
+
+    /**
+     * Valida parâmetros de uma chave pública
+     * @param key Chave pública
+     * @throws Error se a chave RSA for curta demais ou usar outro hash
+     */
+    private validatePublicKey(key: CryptoKey): void {
+        if (this.algorithmOf(key) !== 'RSA-OAEP') return;
+
+        const algorithm = key.algorithm as RsaHashedKeyAlgorithm;
+
+        if (algorithm.modulusLength < HybridCrypto.MIN_RSA_MODULUS_LENGTH) {
+            throw new Error(`Chave RSA deve ter pelo menos ${HybridCrypto.MIN_RSA_MODULUS_LENGTH} bits.`);
+        }
+
+        if (algorithm.hash.name !== 'SHA-256') {
+            throw new Error('Chave RSA-OAEP deve usar SHA-256.');
+        }
+    }
+
+    /**
+     * Importa uma chave pública SPKI, identificando o algoritmo
+     * @param spki Bytes da chave
+     * @returns Promise com a chave pública
+     * @throws Error se a chave não for RSA nem EC P-256
+     */
+    private async importSpki(spki: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+        try {
+            return await crypto.subtle.importKey('spki', spki, { name: 'RSA-OAEP', hash: 'SHA-256' }, true, ['wrapKey']);
+        } catch {
+            try {
+                return await crypto.subtle.importKey('spki', spki, { name: 'ECDH', namedCurve: 'P-256' }, true, []);
+            } catch {
+                throw new Error('Chave pública deve ser RSA ou EC P-256 no formato SPKI.');
+            }
+        }
+    }
+
+    /**
+     * Importa temporariamente uma chave privada PKCS #8, identificando o algoritmo
+     * @param pkcs8 Bytes da chave
+     * @returns Promise com o algoritmo e a chave (exportável, para leitura dos parâmetros públicos)
+     * @throws Error se a chave não for RSA nem EC P-256
+     */
+    private async importPkcs8(pkcs8: Uint8Array<ArrayBuffer>): Promise<{ algorithm: PublicKeyAlgorithm; key: CryptoKey }> {
+        try {
+            const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, true, ['unwrapKey']);
+            return { algorithm: 'RSA-OAEP', key };
+        } catch {
+            try {
+                const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+                return { algorithm: 'ECDH-P256', key };
+            } catch {
+                throw new Error('Chave privada deve ser RSA ou EC P-256 no formato PKCS #8.');
+            }
+        }
+    }
+}
@@ -0,0 +1,422 @@
+import type { CryptoAlgorithm, HashAlgorithm, KeyBundle, KeyExportFormat, KeyHandle, KeyHandleOptions, KeyLength, KDFParameters } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESKey } from './AESKey.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { KeyDerivation } from './KeyDerivation.js';
+
+/**
+ * Exportação e importação de chaves AES em formatos padronizados
+ *
+ * - JWK (RFC 7517): `kty: "oct"` com `alg` no formato JWA (ex.: "A256GCM")
+ * - Bytes brutos: 16, 24 ou 32 bytes, ou sua representação em hex/Base64
+ * - Pacote protegido: JSON com a chave encapsulada (AES-KW) por uma chave
+ *   derivada de uma frase-senha via PBKDF2
+ *
+ * Toda importação é validada contra os algoritmos e tamanhos de chave
+ * suportados, para que chaves vindas de outros serviços não sejam aceitas
+ * com parâmetros que o restante da aplicação não entende.
+ */
+export class KeyCodec {
+    /** Identificador do formato do pacote protegido */
+    public static readonly BUNDLE_FORMAT = 'aes-crypto-key-bundle';
+
+    /** Versão atual do pacote protegido */
+    public static readonly BUNDLE_VERSION = 1;
+
+    private static readonly ALGORITHMS: readonly CryptoAlgorithm[] = ['AES-CBC', 'AES-GCM', 'AES-CTR'];
+    private static readonly KEY_LENGTHS: readonly KeyLength[] = [128, 192, 256];
+    private static readonly HASHES: readonly HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+    /** Sufixo do `alg` JWA de cada algoritmo (ex.: A256 + "GCM") */
+    private static readonly JWK_SUFFIXES: Record<CryptoAlgorithm, string> = {
+        'AES-CBC': 'CBC',
+        'AES-GCM': 'GCM',
+        'AES-CTR': 'CTR'
+    };
+
+    private readonly keyDerivation: KeyDerivation;
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria uma nova instância do KeyCodec
+     * @param keyDerivation Derivação usada nos pacotes protegidos (opcional)
+     */
+    constructor(keyDerivation: KeyDerivation = new KeyDerivation()) {
+        this.keyDerivation = keyDerivation;
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Identifica o formato de uma chave serializada como texto
+     * @param data JWK ou pacote em JSON, ou chave em hex/Base64/Base64URL
+     * @returns Formato detectado
+     * @throws Error se o JSON não for um JWK nem um pacote de chave
+     */
+    public detectFormat(data: string): KeyExportFormat {
+        const trimmed = data.trim();
+
+        if (!trimmed.startsWith('{')) {
+            return 'raw';
+        }
+
+        const parsed = this.parseJson(trimmed);
+
+        if (parsed.format === KeyCodec.BUNDLE_FORMAT) {
+            return 'bundle';
+        }
+
+        if ('kty' in parsed) {
+            return 'jwk';
+        }
+
+        throw new Error('JSON não é um JWK nem um pacote de chave.');
+    }
+
+    /**
+     * Exporta uma chave como JWK
+     * @param handle Handle de uma chave exportável
+     * @returns Promise com o JWK (`kty`, `k`, `alg`, `key_ops` e `ext`)
+     * @throws Error se a chave não for exportável
+     */
+    public async exportJwk(handle: KeyHandle): Promise<JsonWebKey> {
+        this.requireExtractable(handle);
+        return await crypto.subtle.exportKey('jwk', handle.cryptoKey);
+    }
+
+    /**
+     * Importa uma chave a partir de um JWK
+     * O algoritmo e o tamanho vêm do `alg`; o tamanho de `k` precisa corresponder a ele
+     * @param jwk JWK como objeto ou texto JSON
+     * @param options Exportabilidade e operações permitidas (padrão: as do `key_ops`)
+     * @returns Promise com o handle da chave
+     * @throws Error se o JWK não descrever uma chave AES suportada
+     */
+    public async importJwk(jwk: JsonWebKey | string, options: KeyHandleOptions = {}): Promise<AESKey> {
+        try {
+            const parsed = (typeof jwk === 'string' ? this.parseJson(jwk) : jwk) as JsonWebKey;
+
+            if (parsed.kty !== 'oct') {
+                throw new Error(`JWK deve ter kty "oct" (chave simétrica), mas tem "${String(parsed.kty)}".`);
+            }
+
+            const { algorithm, keyLength } = this.parseJwkAlgorithm(parsed.alg);
+
+            if (typeof parsed.k !== 'string' || !this.cryptoUtils.isValidBase64Url(parsed.k)) {
+                throw new Error('JWK deve conter o material da chave em "k" (Base64URL).');
+            }
+
+            const keyBytes = this.cryptoUtils.base64UrlToUint8Array(parsed.k);
+            const actualLength = keyBytes.length * 8;
+            keyBytes.fill(0);
+
+            if (actualLength !== keyLength) {
+                throw new Error(`JWK declara ${parsed.alg}, mas a chave tem ${actualLength} bits.`);
+            }
+
+            if (parsed.ext === false && options.extractable) {
+                throw new Error('JWK está marcado como não exportável (ext: false).');
+            }
+
+            const usages = options.usages ?? this.parseKeyOperations(parsed.key_ops);
+            const cryptoKey = await crypto.subtle.importKey(
+                'jwk',
+                { kty: 'oct', k: parsed.k, alg: parsed.alg!, ext: parsed.ext ?? true },
+                { name: algorithm },
+                options.extractable ?? false,
+                usages
+            );
+
+            return new AESKey(cryptoKey);
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave');
+        }
+    }
+
+    /**
+     * Exporta o material bruto de uma chave
+     * @param handle Handle de uma chave exportável
+     * @returns Promise com os bytes da chave
+     * @throws Error se a chave não for exportável
+     */
+    public async exportRaw(handle: KeyHandle): Promise<Uint8Array> {
+        this.requireExtractable(handle);
+        return new Uint8Array(await crypto.subtle.exportKey('raw', handle.cryptoKey));
+    }
+
+    /**
+     * Importa uma chave a partir do seu material bruto
+     * Bytes brutos não carregam o algoritmo, que precisa ser informado
+     * @param key Bytes da chave ou texto em hex, Base64 ou Base64URL
+     * @param algorithm Algoritmo ao qual a chave ficará vinculada
+     * @param options Exportabilidade e operações permitidas
+     * @returns Promise com o handle da chave
+     * @throws Error se a chave ou o algoritmo forem inválidos
+     */
+    public async importRaw(key: string | BufferSource, algorithm: CryptoAlgorithm, options: KeyHandleOptions = {}): Promise<AESKey> {
+        try {
+            return await AESKey.import(typeof key === 'string' ? key.trim() : key, this.validateAlgorithm(algorithm), options);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave');
+        }
+    }
+
+    /**
+     * Exporta uma chave em um pacote protegido por frase-senha
+     * A chave é encapsulada com AES-KW usando uma chave derivada da frase-senha (PBKDF2)
+     * @param handle Handle de uma chave exportável
+     * @param passphrase Frase-senha que protege o pacote
+     * @param label Nome da chave gravado no pacote (opcional)
+     * @returns Promise com o pacote, pronto para ser serializado em JSON
+     * @throws Error se a chave não for exportável ou a frase-senha estiver vazia
+     */
+    public async exportBundle(handle: KeyHandle, passphrase: string, label?: string): Promise<KeyBundle> {
+        this.requireExtractable(handle);
+
+        const kdf = this.keyDerivation.createParameters();
+        const wrappingKey = await this.keyDerivation.deriveWrappingKey(passphrase, kdf);
+        const wrappedKey = await crypto.subtle.wrapKey('raw', handle.cryptoKey, wrappingKey, 'AES-KW');
+
+        const bundle: KeyBundle = {
+            format: KeyCodec.BUNDLE_FORMAT,
+            version: KeyCodec.BUNDLE_VERSION,
+            algorithm: handle.algorithm,
+            keyLength: handle.keyLength,
+            kdf,
+            wrapAlgorithm: 'AES-KW',
+            wrappedKey: this.cryptoUtils.uint8ArrayToBase64(new Uint8Array(wrappedKey))
+        };
+
+        if (label) {
+            bundle.label = label;
+        }
+
+        return bundle;
+    }
+
+    /**
+     * Importa uma chave de um pacote protegido por frase-senha
+     * @param bundle Pacote como objeto ou texto JSON
+     * @param passphrase Frase-senha que protege o pacote
+     * @param options Exportabilidade e operações permitidas
+     * @returns Promise com o handle da chave
+     * @throws AuthenticationError se a frase-senha estiver incorreta ou o pacote tiver sido alterado
+     * @throws Error se o pacote estiver malformado
+     */
+    public async importBundle(bundle: KeyBundle | string, passphrase: string, options: KeyHandleOptions = {}): Promise<AESKey> {
+        try {
+            const parsed = this.validateBundle(typeof bundle === 'string' ? this.parseJson(bundle) : { ...bundle });
+            const wrappingKey = await this.keyDerivation.deriveWrappingKey(passphrase, parsed.kdf);
+
+            let cryptoKey: CryptoKey;
+            try {
+                cryptoKey = await crypto.subtle.unwrapKey(
+                    'raw',
+                    new Uint8Array(this.cryptoUtils.base64ToUint8Array(parsed.wrappedKey)),
+                    wrappingKey,
+                    'AES-KW',
+                    { name: parsed.algorithm },
+                    options.extractable ?? false,
+                    options.usages ?? ['encrypt', 'decrypt']
+                );
+            } catch {
+                throw new AuthenticationError('Frase-senha incorreta ou pacote de chave alterado.');
+            }
+
+            const handle = new AESKey(cryptoKey);
+            if (handle.keyLength !== parsed.keyLength) {
+                throw new Error(`Pacote declara chave de ${parsed.keyLength} bits, mas contém uma de ${handle.keyLength} bits.`);
+            }
+
+            return handle;
+
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                throw error;
+            }
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave');
+        }
+    }
+
+    /**
+     * Nome JWA (`alg`) de um algoritmo e tamanho de chave
+     * @param algorithm Algoritmo AES
+     * @param keyLength Tamanho da chave em bits
+     * @returns Nome JWA (ex.: "A256GCM")
+     */
+    public jwkAlgorithm(algorithm: CryptoAlgorithm, keyLength: KeyLength): string {
+        return `A${keyLength}${KeyCodec.JWK_SUFFIXES[algorithm]}`;
+    }
+
+    /**
+     * Valida um algoritmo vindo de fora da aplicação
+     * @param value Valor a ser validado
+     * @returns Algoritmo suportado
+     * @throws Error se o algoritmo não for suportado
+     */
+    public validateAlgorithm(value: unknown): CryptoAlgorithm {
+        if (!KeyCodec.ALGORITHMS.includes(value as CryptoAlgorithm)) {
+            throw new Error(`Algoritmo "${String(value)}" não suportado. Use ${KeyCodec.ALGORITHMS.join(', ')}.`);
+        }
+
+        return value as CryptoAlgorithm;
+    }
+
+    /**
+     * Valida um tamanho de chave vindo de fora da aplicação
+     * @param value Valor a ser validado
+     * @returns Tamanho de chave suportado
+     * @throws Error se o tamanho não for suportado
+     */
+    public validateKeyLength(value: unknown): KeyLength {
+        if (!KeyCodec.KEY_LENGTHS.includes(value as KeyLength)) {
+            throw new Error(`Tamanho de chave "${String(value)}" não suportado. Use 128, 192 ou 256 bits.`);
+        }
+
+        return value as KeyLength;
+    }
+
+    /**
+     * Lê o algoritmo e o tamanho da chave a partir do `alg` de um JWK
+     * @param alg Valor do campo `alg`
+     * @returns Algoritmo e tamanho da chave
+     * @throws Error se o `alg` estiver ausente ou não for suportado
+     */
+    private parseJwkAlgorithm(alg: string | undefined): { algorithm: CryptoAlgorithm; keyLength: KeyLength } {
+        const match = /^A(\d+)(CBC|GCM|CTR)$/.exec(alg ?? '');
+
+        if (!match) {
+            throw new Error(`JWK deve ter alg A128/A192/A256 seguido de CBC, GCM ou CTR (recebido "${alg ?? ''}").`);
+        }
+
+        const algorithm = (Object.keys(KeyCodec.JWK_SUFFIXES) as CryptoAlgorithm[])
+            .find(name => KeyCodec.JWK_SUFFIXES[name] === match[2])!;
+
+        return {
+            algorithm: this.validateAlgorithm(algorithm),
+            keyLength: this.validateKeyLength(Number(match[1]))
+        };
+    }
+
+    /**
+     * Converte o `key_ops` de um JWK nas operações permitidas
+     * @param keyOperations Valor do campo `key_ops` (opcional)
+     * @returns Operações de encriptação/decriptação permitidas
+     * @throws Error se o JWK não permitir nenhuma delas
+     */
+    private parseKeyOperations(keyOperations: string[] | undefined): KeyUsage[] {
+        if (!keyOperations) {
+            return ['encrypt', 'decrypt'];
+        }
+
+        const usages = (['encrypt', 'decrypt'] as KeyUsage[]).filter(usage => keyOperations.includes(usage));
+        if (usages.length === 0) {
+            throw new Error('JWK não permite encriptar nem decriptar (key_ops).');
+        }
+
+        return usages;
+    }
+
+    /**
+     * Valida a estrutura de um pacote protegido
+     * @param value Objeto lido do JSON
+     * @returns Pacote validado
+     * @throws Error se algum campo estiver ausente ou inválido
+     */
+    private validateBundle(value: Record<string, unknown>): KeyBundle {
+        if (value.format !== KeyCodec.BUNDLE_FORMAT) {
+            throw new Error('Conteúdo não é um pacote de chave.');
+        }
+
+        if (value.version !== KeyCodec.BUNDLE_VERSION) {
+            throw new Error(`Pacote de chave na versão ${String(value.version)} não suportada.`);
+        }
+
+        if (value.wrapAlgorithm !== 'AES-KW') {
+            throw new Error('Pacote de chave deve usar encapsulamento AES-KW.');
+        }
+
+        const kdf = value.kdf as Partial<KDFParameters> | undefined;
+        if (
+            !kdf
+            || !KeyCodec.HASHES.includes(kdf.hash as HashAlgorithm)
+            || !Number.isInteger(kdf.iterations)
+            || kdf.iterations! < KeyDerivation.MIN_ITERATIONS
+            || kdf.iterations! > KeyDerivation.MAX_ITERATIONS
+            || typeof kdf.saltHex !== 'string'
+            || !this.cryptoUtils.isValidHex(kdf.saltHex)
+        ) {
+            throw new Error('Pacote de chave com parâmetros de derivação inválidos.');
+        }
+
+        const keyLength = this.validateKeyLength(value.keyLength);
+        const wrappedKey = value.wrappedKey;
+
+        // AES-KW acrescenta 8 bytes de verificação ao material encapsulado
+        if (
+            typeof wrappedKey !== 'string'
+            || !this.cryptoUtils.isValidBase64(wrappedKey)
+            || this.cryptoUtils.base64ToUint8Array(wrappedKey).length !== keyLength / 8 + 8
+        ) {
+            throw new Error('Pacote de chave com material encapsulado inválido.');
+        }
+
+        const bundle: KeyBundle = {
+            format: KeyCodec.BUNDLE_FORMAT,
+            version: KeyCodec.BUNDLE_VERSION,
+            algorithm: this.validateAlgorithm(value.algorithm),
+            keyLength,
+            kdf: { hash: kdf.hash!, iterations: kdf.iterations!, saltHex: kdf.saltHex },
+            wrapAlgorithm: 'AES-KW',
+            wrappedKey
+        };
+
+        if (typeof value.label === 'string') {
+            bundle.label = value.label;
+        }
+
+        return bundle;
+    }
+
+    /**
+     * Lê um objeto JSON
+     * @param text Texto JSON
+     * @returns Objeto lido
+     * @throws Error se o texto não for um objeto JSON
+     */
+    private parseJson(text: string): Record<string, unknown> {
+        let parsed: unknown;
+
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            throw new Error('Conteúdo não é um JSON válido.');
+        }
+
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('Conteúdo JSON deve ser um objeto.');
+        }
+
+        return parsed as Record<string, unknown>;
+    }
+
+    /**
+     * Garante que o material da chave pode ser exportado
+     * @param handle Handle da chave
+     * @throws Error se a chave não for exportável
+     */
+    private requireExtractable(handle: KeyHandle): void {
+        if (!handle.extractable) {
+            throw new Error('Chave não é exportável. Crie-a com extractable: true para poder exportá-la.');
+        }
+    }
+}
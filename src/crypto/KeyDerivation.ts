@@ -0,0 +1,286 @@
+import type { KeyDerivationConfig, DerivedKeyResult, KDFParameters, HashAlgorithm, KeyLength } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+
+/**
+ * Classe responsável pela derivação de chaves AES
+ * Usa PBKDF2 para transformar frases-senha em chaves e HKDF para derivar
+ * sub-chaves a partir de um segredo mestre
+ */
+export class KeyDerivation {
+    /** Número mínimo de iterações aceito para o PBKDF2 */
+    public static readonly MIN_ITERATIONS = 10000;
+
+    /**
+     * Número máximo de iterações aceito para o PBKDF2 (10 vezes o padrão)
+     * Parâmetros lidos de envelopes, arquivos e pacotes de chave acima desse valor são
+     * recusados: um cabeçalho forjado com 2^32 iterações travaria a página por horas
+     */
+    public static readonly MAX_ITERATIONS = 6000000;
+
+    private readonly config: KeyDerivationConfig;
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria uma nova instância do KeyDerivation
+     * @param config Configurações da derivação
+     */
+    constructor(config: KeyDerivationConfig = {
+        iterations: 600000,
+        hash: 'SHA-256',
+        saltLength: 16
+    }) {
+        this.validateConfig(config);
+        this.config = config;
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Valida as configurações de derivação
+     * @param config Configurações a serem validadas
+     * @throws Error se alguma configuração for inválida
+     */
+    private validateConfig(config: KeyDerivationConfig): void {
+        if (!Number.isInteger(config.iterations) || config.iterations < KeyDerivation.MIN_ITERATIONS) {
+            throw new Error(`PBKDF2 deve usar pelo menos ${KeyDerivation.MIN_ITERATIONS} iterações.`);
+        }
+
+        if (config.iterations > KeyDerivation.MAX_ITERATIONS) {
+            throw new Error(`PBKDF2 deve usar no máximo ${KeyDerivation.MAX_ITERATIONS} iterações.`);
+        }
+
+        if (!['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'].includes(config.hash)) {
+            throw new Error('Função de hash deve ser SHA-1, SHA-256, SHA-384 ou SHA-512.');
+        }
+
+        if (!Number.isInteger(config.saltLength) || config.saltLength < 16) {
+            throw new Error('Sal deve ter pelo menos 16 bytes.');
+        }
+    }
+
+    /**
+     * Gera um sal aleatório
+     * @returns Sal em formato hexadecimal
+     */
+    public generateSalt(): string {
+        return this.cryptoUtils.generateRandomIV(this.config.saltLength);
+    }
+
+    /**
+     * Cria parâmetros do PBKDF2 com a configuração atual e um sal novo
+     * @returns Função de hash, iterações e sal
+     */
+    public createParameters(): KDFParameters {
+        return {
+            hash: this.config.hash,
+            iterations: this.config.iterations,
+            saltHex: this.generateSalt()
+        };
+    }
+
+    /**
+     * Deriva uma chave AES a partir de uma frase-senha usando PBKDF2
+     * @param passphrase Frase-senha informada pelo usuário
+     * @param keyLength Tamanho da chave desejada em bits
+     * @param saltHex Sal em hexadecimal (opcional, será gerado se não fornecido)
+     * @returns Promise com a chave derivada e os parâmetros usados
+     */
+    public async deriveFromPassphrase(passphrase: string, keyLength: KeyLength, saltHex?: string): Promise<DerivedKeyResult> {
+        return await this.deriveFromParameters(passphrase, keyLength, {
+            hash: this.config.hash,
+            iterations: this.config.iterations,
+            saltHex: saltHex || this.generateSalt()
+        });
+    }
+
+    /**
+     * Deriva uma chave AES com parâmetros explícitos, como os gravados em um envelope
+     * @param passphrase Frase-senha informada pelo usuário
+     * @param keyLength Tamanho da chave desejada em bits
+     * @param parameters Função de hash, iterações e sal a serem usados
+     * @returns Promise com a chave derivada e os parâmetros usados
+     */
+    public async deriveFromParameters(passphrase: string, keyLength: KeyLength, parameters: KDFParameters): Promise<DerivedKeyResult> {
+        try {
+            if (!passphrase) {
+                throw new Error('Frase-senha não pode estar vazia.');
+            }
+
+            if (!parameters.saltHex || !this.cryptoUtils.isValidHex(parameters.saltHex)) {
+                throw new Error('Sal deve ser uma string hexadecimal válida.');
+            }
+
+            const saltData = new Uint8Array(this.cryptoUtils.hexToUint8Array(parameters.saltHex));
+            const keyHex = await this.pbkdf2(passphrase, saltData, parameters.iterations, parameters.hash, keyLength);
+
+            return {
+                keyHex,
+                saltHex: this.cryptoUtils.uint8ArrayToHex(saltData),
+                iterations: parameters.iterations,
+                hash: parameters.hash,
+                keyLength
+            };
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na derivação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na derivação da chave');
+        }
+    }
+
+    /**
+     * Deriva uma chave de encapsulamento AES-KW de 256 bits a partir de uma frase-senha
+     * A chave não é exportável e só permite wrapKey/unwrapKey
+     * @param passphrase Frase-senha informada pelo usuário
+     * @param parameters Função de hash, iterações e sal a serem usados
+     * @returns Promise com a chave de encapsulamento
+     */
+    public async deriveWrappingKey(passphrase: string, parameters: KDFParameters): Promise<CryptoKey> {
+        try {
+            if (!passphrase) {
+                throw new Error('Frase-senha não pode estar vazia.');
+            }
+
+            if (!parameters.saltHex || !this.cryptoUtils.isValidHex(parameters.saltHex)) {
+                throw new Error('Sal deve ser uma string hexadecimal válida.');
+            }
+
+            const passphraseKey = await crypto.subtle.importKey(
+                'raw',
+                new TextEncoder().encode(passphrase),
+                'PBKDF2',
+                false,
+                ['deriveKey']
+            );
+
+            return await crypto.subtle.deriveKey(
+                {
+                    name: 'PBKDF2',
+                    salt: new Uint8Array(this.cryptoUtils.hexToUint8Array(parameters.saltHex)),
+                    iterations: parameters.iterations,
+                    hash: parameters.hash
+                },
+                passphraseKey,
+                { name: 'AES-KW', length: 256 },
+                false,
+                ['wrapKey', 'unwrapKey']
+            );
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na derivação da chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na derivação da chave');
+        }
+    }
+
+    /**
+     * Executa o PBKDF2 via Web Crypto API
+     * @param passphrase Frase-senha
+     * @param salt Sal em bytes
+     * @param iterations Número de iterações
+     * @param hash Função de hash
+     * @param keyLength Tamanho da saída em bits
+     * @returns Promise com os bits derivados em formato hexadecimal
+     */
+    private async pbkdf2(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number, hash: HashAlgorithm, keyLength: KeyLength): Promise<string> {
+        const passphraseKey = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(passphrase),
+            'PBKDF2',
+            false,
+            ['deriveBits']
+        );
+
+        const derivedBits = await crypto.subtle.deriveBits(
+            {
+                name: 'PBKDF2',
+                salt,
+                iterations,
+                hash
+            },
+            passphraseKey,
+            keyLength
+        );
+
+        return this.cryptoUtils.uint8ArrayToHex(new Uint8Array(derivedBits));
+    }
+
+    /**
+     * Converte o resultado de uma derivação nos parâmetros gravados no envelope
+     * @param result Resultado da derivação
+     * @returns Parâmetros do PBKDF2
+     */
+    public toParameters(result: DerivedKeyResult): KDFParameters {
+        return {
+            hash: result.hash,
+            iterations: result.iterations,
+            saltHex: result.saltHex
+        };
+    }
+
+    /**
+     * Deriva uma sub-chave a partir de um segredo mestre usando HKDF
+     * @param masterKeyHex Segredo mestre em formato hexadecimal
+     * @param info Contexto da sub-chave (ex.: "encriptacao", "autenticacao")
+     * @param keyLength Tamanho da sub-chave em bits
+     * @param saltHex Sal em hexadecimal (opcional)
+     * @returns Promise com a sub-chave em formato hexadecimal
+     */
+    public async deriveSubkey(masterKeyHex: string, info: string, keyLength: KeyLength, saltHex: string = ''): Promise<string> {
+        try {
+            if (!masterKeyHex || !this.cryptoUtils.isValidHex(masterKeyHex)) {
+                throw new Error('Segredo mestre deve ser uma string hexadecimal válida.');
+            }
+
+            if (saltHex && !this.cryptoUtils.isValidHex(saltHex)) {
+                throw new Error('Sal deve ser uma string hexadecimal válida.');
+            }
+
+            const masterKey = await crypto.subtle.importKey(
+                'raw',
+                new Uint8Array(this.cryptoUtils.hexToUint8Array(masterKeyHex)),
+                'HKDF',
+                false,
+                ['deriveBits']
+            );
+
+            const derivedBits = await crypto.subtle.deriveBits(
+                {
+                    name: 'HKDF',
+                    hash: this.config.hash,
+                    salt: saltHex ? new Uint8Array(this.cryptoUtils.hexToUint8Array(saltHex)) : new Uint8Array(0),
+                    info: new TextEncoder().encode(info)
+                },
+                masterKey,
+                keyLength
+            );
+
+            return this.cryptoUtils.uint8ArrayToHex(new Uint8Array(derivedBits));
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na derivação da sub-chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na derivação da sub-chave');
+        }
+    }
+
+    /**
+     * Descreve os parâmetros de uma derivação para exibição
+     * @param result Resultado da derivação
+     * @returns Texto legível com os parâmetros
+     */
+    public describeParameters(result: DerivedKeyResult): string {
+        const saltBytes = result.saltHex.length / 2;
+        return `PBKDF2-${result.hash}, ${result.iterations} iterações, sal de ${saltBytes} bytes, chave de ${result.keyLength} bits`;
+    }
+
+    /**
+     * Obter configurações atuais
+     * @returns Configurações de derivação atuais
+     */
+    public getConfig(): Readonly<KeyDerivationConfig> {
+        return { ...this.config };
+    }
+}
@@ -0,0 +1,281 @@
+import type { KeyHandleOptions, SignatureAlgorithm, SignatureVerification } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+
+/**
+ * Assinaturas digitais: prova quem produziu uma mensagem ou um texto cifrado
+ *
+ * Suporta ECDSA na curva P-256 com SHA-256 e Ed25519. As assinaturas são
+ * destacadas (não alteram os dados assinados) e usam o formato bruto da
+ * Web Crypto API: r ‖ s (64 bytes) no ECDSA e 64 bytes no Ed25519.
+ *
+ * A encriptação garante sigilo; a assinatura garante autoria e integridade
+ * perante qualquer pessoa que tenha a chave pública do autor.
+ */
+export class SignatureCrypto {
+    private static readonly FINGERPRINT_LENGTH = 16;
+
+    private static readonly ALGORITHMS: Record<SignatureAlgorithm, EcKeyImportParams | Algorithm> = {
+        'ECDSA-P256': { name: 'ECDSA', namedCurve: 'P-256' } as EcKeyImportParams,
+        'Ed25519': { name: 'Ed25519' }
+    };
+
+    private readonly cryptoUtils: CryptoUtils;
+
+    /**
+     * Cria uma nova instância do SignatureCrypto
+     */
+    constructor() {
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Gera um par de chaves de assinatura
+     * A chave pública é sempre exportável; a privada só se `extractable` for true
+     * @param algorithm ECDSA P-256 ou Ed25519
+     * @param options Exportabilidade da chave privada (padrão não exportável)
+     * @returns Promise com o par de chaves
+     */
+    public async generateKeyPair(algorithm: SignatureAlgorithm = 'ECDSA-P256', options: Pick<KeyHandleOptions, 'extractable'> = {}): Promise<CryptoKeyPair> {
+        return await crypto.subtle.generateKey(
+            SignatureCrypto.ALGORITHMS[algorithm],
+            options.extractable ?? false,
+            ['sign', 'verify']
+        ) as CryptoKeyPair;
+    }
+
+    /**
+     * Exporta uma chave pública de verificação no formato PEM (SPKI)
+     * @param publicKey Chave pública ECDSA ou Ed25519
+     * @returns Promise com o texto PEM
+     */
+    public async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+        const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+        return this.cryptoUtils.toPem(spki, 'PUBLIC KEY');
+    }
+
+    /**
+     * Importa a chave pública de verificação de um autor
+     * O algoritmo é identificado pelo próprio SPKI
+     * @param publicKey Chave em PEM, Base64 ou bytes (SPKI)
+     * @returns Promise com a chave pública
+     * @throws Error se a chave não for ECDSA P-256 nem Ed25519
+     */
+    public async importPublicKey(publicKey: string | BufferSource): Promise<CryptoKey> {
+        try {
+            const spki = typeof publicKey === 'string'
+                ? this.cryptoUtils.fromPem(publicKey, 'PUBLIC KEY')
+                : this.cryptoUtils.toUint8Array(publicKey);
+
+            for (const algorithm of Object.values(SignatureCrypto.ALGORITHMS)) {
+                try {
+                    return await crypto.subtle.importKey('spki', spki, algorithm, true, ['verify']);
+                } catch {
+                    // Tentar o próximo algoritmo
+                }
+            }
+
+            throw new Error('Chave pública deve ser ECDSA P-256 ou Ed25519 no formato SPKI.');
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave de verificação: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave de verificação');
+        }
+    }
+
+    /**
+     * Exporta a chave privada de assinatura no formato PEM (PKCS #8)
+     * @param privateKey Chave privada exportável
+     * @returns Promise com o texto PEM
+     * @throws Error se a chave não for exportável
+     */
+    public async exportPrivateKey(privateKey: CryptoKey): Promise<string> {
+        if (!privateKey.extractable) {
+            throw new Error('Chave privada não é exportável. Gere o par com extractable: true para poder exportá-la.');
+        }
+
+        const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', privateKey));
+        return this.cryptoUtils.toPem(pkcs8, 'PRIVATE KEY');
+    }
+
+    /**
+     * Importa um par de chaves de assinatura a partir da chave privada (PKCS #8)
+     * A chave pública é reconstruída a partir dos parâmetros da privada
+     * @param privateKey Chave privada em PEM, Base64 ou bytes (PKCS #8)
+     * @param options Exportabilidade da chave privada (padrão não exportável)
+     * @returns Promise com o par de chaves
+     * @throws Error se a chave não for ECDSA P-256 nem Ed25519
+     */
+    public async importKeyPair(privateKey: string | BufferSource, options: Pick<KeyHandleOptions, 'extractable'> = {}): Promise<CryptoKeyPair> {
+        try {
+            const pkcs8 = typeof privateKey === 'string'
+                ? this.cryptoUtils.fromPem(privateKey, 'PRIVATE KEY')
+                : this.cryptoUtils.toUint8Array(privateKey);
+
+            // Importar temporariamente como exportável para obter os parâmetros públicos
+            const { algorithm, key } = await this.importPkcs8(pkcs8);
+            const jwk = await crypto.subtle.exportKey('jwk', key);
+
+            const publicJwk: JsonWebKey = algorithm === 'ECDSA-P256'
+                ? { kty: 'EC', crv: 'P-256', x: jwk.x!, y: jwk.y!, ext: true }
+                : { kty: 'OKP', crv: 'Ed25519', x: jwk.x!, ext: true };
+
+            const params = SignatureCrypto.ALGORITHMS[algorithm];
+            const publicKey = await crypto.subtle.importKey('jwk', publicJwk, params, true, ['verify']);
+            const finalPrivateKey = await crypto.subtle.importKey('pkcs8', pkcs8, params, options.extractable ?? false, ['sign']);
+
+            return { publicKey, privateKey: finalPrivateKey };
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na importação da chave de assinatura: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na importação da chave de assinatura');
+        }
+    }
+
+    /**
+     * Calcula a impressão digital de uma chave pública de verificação
+     * @param publicKey Chave pública ECDSA ou Ed25519
+     * @returns Promise com os primeiros 16 bytes do SHA-256 do SPKI, em hexadecimal
+     */
+    public async fingerprint(publicKey: CryptoKey): Promise<string> {
+        const spki = await crypto.subtle.exportKey('spki', publicKey);
+        const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+        return this.cryptoUtils.uint8ArrayToHex(digest.subarray(0, SignatureCrypto.FINGERPRINT_LENGTH));
+    }
+
+    /**
+     * Identifica o algoritmo de uma chave de assinatura ou verificação
+     * @param key Chave ECDSA ou Ed25519
+     * @returns Algoritmo da chave
+     * @throws Error se a chave não for de um algoritmo suportado
+     */
+    public algorithmOf(key: CryptoKey): SignatureAlgorithm {
+        if (key.algorithm.name === 'ECDSA' && (key.algorithm as EcKeyAlgorithm).namedCurve === 'P-256') {
+            return 'ECDSA-P256';
+        }
+
+        if (key.algorithm.name === 'Ed25519') {
+            return 'Ed25519';
+        }
+
+        throw new Error('Chave deve ser ECDSA P-256 ou Ed25519.');
+    }
+
+    /**
+     * Assina dados arbitrários
+     * @param data Dados a assinar
+     * @param privateKey Chave privada ECDSA P-256 ou Ed25519
+     * @returns Promise com a assinatura destacada (64 bytes)
+     */
+    public async sign(data: BufferSource, privateKey: CryptoKey): Promise<Uint8Array> {
+        try {
+            if (privateKey.type !== 'private' || !privateKey.usages.includes('sign')) {
+                throw new Error('Chave deve ser uma chave privada de assinatura.');
+            }
+
+            const signature = await crypto.subtle.sign(
+                this.signParameters(this.algorithmOf(privateKey)),
+                privateKey,
+                data
+            );
+            return new Uint8Array(signature);
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na assinatura: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na assinatura');
+        }
+    }
+
+    /**
+     * Verifica uma assinatura destacada
+     * @param data Dados assinados
+     * @param signature Assinatura
+     * @param publicKey Chave pública do autor
+     * @returns Promise com true se a assinatura for válida para os dados e a chave
+     * @throws Error se a chave não for uma chave pública de verificação suportada
+     */
+    public async verify(data: BufferSource, signature: BufferSource, publicKey: CryptoKey): Promise<boolean> {
+        try {
+            if (publicKey.type !== 'public') {
+                throw new Error('Chave deve ser uma chave pública de verificação.');
+            }
+
+            return await crypto.subtle.verify(
+                this.signParameters(this.algorithmOf(publicKey)),
+                publicKey,
+                signature,
+                data
+            );
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro na verificação da assinatura: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido na verificação da assinatura');
+        }
+    }
+
+    /**
+     * Verifica uma assinatura contra um conjunto de chaves públicas conhecidas
+     * Chaves de algoritmos não suportados são ignoradas
+     * @param data Dados assinados
+     * @param signature Assinatura
+     * @param publicKeys Chaves públicas conhecidas
+     * @returns Promise com o resultado e, se válida, a impressão digital e o algoritmo da chave que a produziu
+     */
+    public async verifyWithKeys(data: BufferSource, signature: BufferSource, publicKeys: CryptoKey[]): Promise<SignatureVerification> {
+        for (const publicKey of publicKeys) {
+            let valid: boolean;
+            try {
+                valid = await this.verify(data, signature, publicKey);
+            } catch {
+                continue;
+            }
+
+            if (valid) {
+                return {
+                    valid: true,
+                    fingerprint: await this.fingerprint(publicKey),
+                    algorithm: this.algorithmOf(publicKey)
+                };
+            }
+        }
+
+        return { valid: false };
+    }
+
+    /**
+     * Parâmetros da assinatura para o algoritmo da chave
+     * @param algorithm Algoritmo da chave
+     * @returns Parâmetros para sign/verify
+     */
+    private signParameters(algorithm: SignatureAlgorithm): EcdsaParams | Algorithm {
+        return algorithm === 'ECDSA-P256'
+            ? { name: 'ECDSA', hash: 'SHA-256' }
+            : { name: 'Ed25519' };
+    }
+
+    /**
+     * Importa temporariamente uma chave privada PKCS #8, identificando o algoritmo
+     * @param pkcs8 Bytes da chave
+     * @returns Promise com o algoritmo e a chave (exportável, para leitura dos parâmetros públicos)
+     * @throws Error se a chave não for ECDSA P-256 nem Ed25519
+     */
+    private async importPkcs8(pkcs8: Uint8Array<ArrayBuffer>): Promise<{ algorithm: SignatureAlgorithm; key: CryptoKey }> {
+        for (const [algorithm, params] of Object.entries(SignatureCrypto.ALGORITHMS) as [SignatureAlgorithm, EcKeyImportParams | Algorithm][]) {
+            try {
+                const key = await crypto.subtle.importKey('pkcs8', pkcs8, params, true, ['sign']);
+                return { algorithm, key };
+            } catch {
+                // Tentar o próximo algoritmo
+            }
+        }
+
+        throw new Error('Chave privada deve ser ECDSA P-256 ou Ed25519 no formato PKCS #8.');
+    }
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'node:events';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { StreamCrypto } from './StreamCrypto.js';
+
+const utils = new CryptoUtils();
+const KEY = '00'.repeat(16);
+const OTHER_KEY = '01'.repeat(16);
+
+/**
+ * Lê um stream inteiro
+ * @param stream Stream a ler
+ * @returns Promise com os bytes lidos
+ */
+const readAll = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => new Uint8Array(await new Response(stream).arrayBuffer());
+
+/**
+ * Stream com o conteúdo informado
+ * @param content Bytes a entregar
+ * @returns ReadableStream de um único trecho
+ */
+const streamOf = (content: Uint8Array): ReadableStream<Uint8Array> => new Blob([new Uint8Array(content)]).stream();
+
+describe('StreamCrypto — sinal de cancelamento', () => {
+    it('um mesmo sinal reaproveitado em vários streams não acumula listeners', async () => {
+        const streams = new StreamCrypto();
+        const controller = new AbortController();
+        const content = utils.generateRandomBytes(5000);
+
+        for (let round = 0; round < 5; round++) {
+            const encrypted = await readAll(streams.encryptStream(streamOf(content), KEY, { segmentSize: 1024, signal: controller.signal }));
+            const decrypted = await readAll(streams.decryptStream(streamOf(encrypted), KEY, { signal: controller.signal }));
+            assert.deepEqual(decrypted, content);
+        }
+
+        // Falhas também removem o listener
+        const encrypted = await readAll(streams.encryptStream(streamOf(content), KEY, { signal: controller.signal }));
+        await assert.rejects(readAll(streams.decryptStream(streamOf(encrypted), OTHER_KEY, { signal: controller.signal })), AuthenticationError);
+
+        assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+
+        // Acionar o sinal depois não afeta os streams já encerrados
+        controller.abort();
+    });
+
+    it('sinal acionado durante o processamento interrompe o stream', async () => {
+        const streams = new StreamCrypto();
+        const controller = new AbortController();
+        const transform = streams.createEncryptStream(KEY, { signal: controller.signal });
+        const writer = transform.writable.getWriter();
+
+        const result = readAll(transform.readable);
+        await writer.write(utils.generateRandomBytes(100));
+        controller.abort(new Error('cancelado pelo usuário'));
+
+        await assert.rejects(result, /cancelado pelo usuário/);
+        await assert.rejects(writer.closed, /cancelado pelo usuário/);
+        assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+    });
+});
@@ -0,0 +1,545 @@
+import type { CryptoOperation, KDFParameters, KeyInput, KeyLength, StreamEncryptOptions, StreamHeader, StreamOptions } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AuthenticationError } from './AuthenticationError.js';
+import { EnvelopeCodec } from './EnvelopeCodec.js';
+
+/**
+ * Encriptação em streaming com AEAD segmentado (AES-GCM)
+ *
+ * Os dados são divididos em segmentos de tamanho fixo e cada segmento é
+ * encriptado separadamente, sem nunca carregar o conteúdo inteiro em memória.
+ *
+ * Formato binário (versão 1), todos os inteiros em big-endian:
+ *
+ * | Campo            | Bytes | Descrição                                           |
+ * |------------------|-------|-----------------------------------------------------|
+ * | magic            | 4     | "AESS"                                              |
+ * | version          | 1     | Versão do formato                                   |
+ * | keyLength        | 1     | Tamanho da chave em bytes (16, 24 ou 32)            |
+ * | segmentSize      | 4     | Tamanho de cada segmento em claro                   |
+ * | noncePrefix      | 7     | Prefixo aleatório dos nonces                        |
+ * | kdf              | 1+    | Mesmo bloco de derivação do EnvelopeCodec           |
+ * | segments         | resto | Segmentos encriptados, cada um com tag de 16 bytes  |
+ *
+ * O nonce do segmento i é noncePrefix ‖ i (4 bytes) ‖ flag, em que a flag vale
+ * 1 apenas no último segmento. Assim, segmentos reordenados, removidos ou um
+ * stream truncado falham na verificação da tag. O cabeçalho inteiro é usado
+ * como dado autenticado de todos os segmentos, junto com o AAD do usuário.
+ */
+export class StreamCrypto {
+    /** Versão atual do formato */
+    public static readonly VERSION = 1;
+
+    /** Tamanho padrão dos segmentos em claro (64 KiB) */
+    public static readonly DEFAULT_SEGMENT_SIZE = 64 * 1024;
+
+    /** Tamanho máximo dos segmentos em claro (16 MiB) */
+    public static readonly MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+    /** Bytes mágicos que identificam o formato de streaming ("AESS") */
+    private static readonly MAGIC = [0x41, 0x45, 0x53, 0x53];
+
+    private static readonly NONCE_PREFIX_LENGTH = 7;
+    private static readonly TAG_LENGTH = 16;
+    private static readonly MAX_SEGMENTS = 0xffffffff;
+
+    /** Tamanho do cabeçalho até o bloco de derivação de chave */
+    private static readonly FIXED_HEADER_LENGTH = 17;
+
+    private readonly cryptoUtils: CryptoUtils;
+    private readonly envelopeCodec: EnvelopeCodec;
+
+    /**
+     * Cria uma nova instância do StreamCrypto
+     */
+    constructor() {
+        this.cryptoUtils = new CryptoUtils();
+        this.envelopeCodec = new EnvelopeCodec();
+    }
+
+    /**
+     * Verifica se os dados começam com o identificador do formato de streaming
+     * @param data Dados binários
+     * @returns true se os dados parecem ser um stream encriptado
+     */
+    public isStream(data: Uint8Array): boolean {
+        return data.length > StreamCrypto.MAGIC.length
+            && StreamCrypto.MAGIC.every((byte, index) => data[index] === byte);
+    }
+
+    /**
+     * Encripta um ReadableStream
+     * @param source Stream com os dados em claro
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle AES-GCM
+     * @param options AAD, parâmetros de derivação, tamanho dos segmentos, progresso e cancelamento
+     * @returns Stream com o cabeçalho seguido dos segmentos encriptados
+     */
+    public encryptStream(source: ReadableStream<Uint8Array>, key: KeyInput, options: StreamEncryptOptions = {}): ReadableStream<Uint8Array> {
+        return this.pipe(source, this.createEncryptStream(key, options), options.signal);
+    }
+
+    /**
+     * Decripta um ReadableStream gerado por encryptStream
+     * @param source Stream encriptado
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle AES-GCM
+     * @param options AAD (deve ser o mesmo da encriptação), progresso e cancelamento
+     * @returns Stream com os dados em claro
+     */
+    public decryptStream(source: ReadableStream<Uint8Array>, key: KeyInput, options: StreamOptions = {}): ReadableStream<Uint8Array> {
+        return this.pipe(source, this.createDecryptStream(key, options), options.signal);
+    }
+
+    /**
+     * Cria um TransformStream que encripta os dados recebidos
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle AES-GCM
+     * @param options AAD, parâmetros de derivação, tamanho dos segmentos, progresso e cancelamento
+     * @returns TransformStream de bytes em claro para bytes encriptados
+     * @throws Error se a chave ou o tamanho dos segmentos forem inválidos
+     */
+    public createEncryptStream(key: KeyInput, options: StreamEncryptOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+        const keyLength = this.validateKey(key, 'encrypt');
+        const segmentSize = options.segmentSize ?? StreamCrypto.DEFAULT_SEGMENT_SIZE;
+        this.validateSegmentSize(segmentSize);
+
+        const noncePrefix = this.cryptoUtils.generateRandomBytes(StreamCrypto.NONCE_PREFIX_LENGTH);
+        const header = this.encodeHeader(keyLength, segmentSize, noncePrefix, options.kdf);
+        const additionalData = this.buildAdditionalData(header, options.additionalData);
+
+        let cryptoKey: CryptoKey;
+        let pending: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+        let counter = 0;
+        let processed = 0;
+
+        return new TransformStream<Uint8Array, Uint8Array>(this.watchSignal(options.signal, {
+            start: async controller => {
+                cryptoKey = await this.loadKey(key, 'encrypt');
+                controller.enqueue(header);
+            },
+            transform: async (chunk, controller) => {
+                options.signal?.throwIfAborted();
+                pending = this.concat(pending, chunk);
+
+                // O último segmento só é conhecido no flush, por isso sempre sobra algo pendente
+                while (pending.length > segmentSize) {
+                    controller.enqueue(await this.sealSegment(cryptoKey, noncePrefix, counter++, false, pending.subarray(0, segmentSize), additionalData));
+                    pending = pending.slice(segmentSize);
+                }
+
+                processed += chunk.length;
+                options.onProgress?.(processed);
+            },
+            flush: async controller => {
+                options.signal?.throwIfAborted();
+                controller.enqueue(await this.sealSegment(cryptoKey, noncePrefix, counter, true, pending, additionalData));
+            }
+        }));
+    }
+
+    /**
+     * Cria um TransformStream que decripta dados gerados por createEncryptStream
+     * Os parâmetros (tamanho dos segmentos e prefixo do nonce) são lidos do cabeçalho
+     * @param key Chave em hexadecimal, Base64 ou Base64URL, ou handle AES-GCM
+     * @param options AAD (deve ser o mesmo da encriptação), progresso e cancelamento
+     * @returns TransformStream de bytes encriptados para bytes em claro
+     * @throws Error se a chave for inválida
+     */
+    public createDecryptStream(key: KeyInput, options: StreamOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+        const keyLength = this.validateKey(key, 'decrypt');
+
+        let cryptoKey: CryptoKey;
+        let header: StreamHeader | null = null;
+        let noncePrefix: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+        let additionalData: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+        let pending: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+        let counter = 0;
+        let processed = 0;
+
+        return new TransformStream<Uint8Array, Uint8Array>(this.watchSignal(options.signal, {
+            start: async () => {
+                cryptoKey = await this.loadKey(key, 'decrypt');
+            },
+            transform: async (chunk, controller) => {
+                options.signal?.throwIfAborted();
+                pending = this.concat(pending, chunk);
+                processed += chunk.length;
+
+                if (!header) {
+                    const headerLength = this.measureHeader(pending);
+                    if (headerLength === null || pending.length < headerLength) {
+                        options.onProgress?.(processed);
+                        return;
+                    }
+
+                    const headerBytes = pending.slice(0, headerLength);
+                    header = this.readHeader(headerBytes);
+
+                    if (header.keyLength !== keyLength) {
+                        throw new Error(`Chave de ${keyLength} bits não corresponde ao stream (${header.keyLength} bits).`);
+                    }
+
+                    noncePrefix = new Uint8Array(this.cryptoUtils.hexToUint8Array(header.noncePrefixHex));
+                    additionalData = this.buildAdditionalData(headerBytes, options.additionalData);
+                    pending = pending.slice(headerLength);
+                }
+
+                const sealedSize = header.segmentSize + StreamCrypto.TAG_LENGTH;
+                while (pending.length > sealedSize) {
+                    controller.enqueue(await this.openSegment(cryptoKey, noncePrefix, counter++, false, pending.subarray(0, sealedSize), additionalData));
+                    pending = pending.slice(sealedSize);
+                }
+
+                options.onProgress?.(processed);
+            },
+            flush: async controller => {
+                options.signal?.throwIfAborted();
+
+                if (!header) {
+                    throw new Error('Stream inválido: cabeçalho truncado.');
+                }
+
+                if (pending.length < StreamCrypto.TAG_LENGTH) {
+                    throw new AuthenticationError('Stream truncado: o segmento final está ausente.');
+                }
+
+                controller.enqueue(await this.openSegment(cryptoKey, noncePrefix, counter, true, pending, additionalData));
+            }
+        }));
+    }
+
+    /**
+     * Lê o cabeçalho de um stream encriptado
+     * @param bytes Bytes iniciais do stream (pelo menos o cabeçalho completo)
+     * @returns Cabeçalho decodificado
+     * @throws Error se o cabeçalho estiver malformado ou usar versão desconhecida
+     */
+    public readHeader(bytes: Uint8Array): StreamHeader {
+        if (!this.isStream(bytes)) {
+            throw new Error('Dados não estão no formato de streaming.');
+        }
+
+        if (bytes.length < StreamCrypto.FIXED_HEADER_LENGTH) {
+            throw new Error('Stream inválido: cabeçalho truncado.');
+        }
+
+        const version = bytes[4];
+        if (version !== StreamCrypto.VERSION) {
+            throw new Error(`Stream inválido: versão ${version} não suportada.`);
+        }
+
+        const keyLength = bytes[5] * 8;
+        if (keyLength !== 128 && keyLength !== 192 && keyLength !== 256) {
+            throw new Error('Stream inválido: tamanho de chave desconhecido.');
+        }
+
+        const segmentSize = new DataView(bytes.buffer, bytes.byteOffset + 6, 4).getUint32(0);
+        this.validateSegmentSize(segmentSize);
+
+        const noncePrefixHex = this.cryptoUtils.uint8ArrayToHex(bytes.subarray(10, StreamCrypto.FIXED_HEADER_LENGTH));
+        const { kdf, offset } = this.envelopeCodec.decodeKdfParameters(bytes, StreamCrypto.FIXED_HEADER_LENGTH);
+
+        const header: StreamHeader = {
+            version,
+            keyLength,
+            segmentSize,
+            noncePrefixHex,
+            headerLength: offset
+        };
+
+        if (kdf) {
+            header.kdf = kdf;
+        }
+
+        return header;
+    }
+
+    /**
+     * Calcula o tamanho do cabeçalho a partir dos bytes já recebidos
+     * @param bytes Bytes iniciais do stream
+     * @returns Tamanho do cabeçalho ou null se ainda não for possível determiná-lo
+     */
+    private measureHeader(bytes: Uint8Array): number | null {
+        const kdfOffset = StreamCrypto.FIXED_HEADER_LENGTH;
+
+        if (bytes.length <= kdfOffset) {
+            return null;
+        }
+
+        if (bytes[kdfOffset] === 0) {
+            return kdfOffset + 1;
+        }
+
+        // Identificador, hash, iterações (4 bytes) e tamanho do sal
+        if (bytes.length < kdfOffset + 7) {
+            return null;
+        }
+
+        return kdfOffset + 7 + bytes[kdfOffset + 6];
+    }
+
+    /**
+     * Serializa o cabeçalho do stream
+     * @param keyLength Tamanho da chave em bits
+     * @param segmentSize Tamanho dos segmentos em claro
+     * @param noncePrefix Prefixo aleatório dos nonces
+     * @param kdf Parâmetros de derivação da chave (opcional)
+     * @returns Bytes do cabeçalho
+     */
+    private encodeHeader(keyLength: KeyLength, segmentSize: number, noncePrefix: Uint8Array, kdf?: KDFParameters): Uint8Array<ArrayBuffer> {
+        const bytes: number[] = [
+            ...StreamCrypto.MAGIC,
+            StreamCrypto.VERSION,
+            keyLength / 8,
+            (segmentSize >>> 24) & 0xff,
+            (segmentSize >>> 16) & 0xff,
+            (segmentSize >>> 8) & 0xff,
+            segmentSize & 0xff,
+            ...noncePrefix,
+            ...this.envelopeCodec.encodeKdfParameters(kdf)
+        ];
+
+        return new Uint8Array(bytes);
+    }
+
+    /**
+     * Encripta um segmento
+     * @param key Chave AES-GCM importada
+     * @param noncePrefix Prefixo dos nonces
+     * @param counter Índice do segmento
+     * @param final Indica se é o último segmento
+     * @param data Bytes em claro do segmento
+     * @param additionalData Cabeçalho e AAD do usuário
+     * @returns Promise com o segmento encriptado (inclui a tag)
+     */
+    private async sealSegment(
+        key: CryptoKey,
+        noncePrefix: Uint8Array,
+        counter: number,
+        final: boolean,
+        data: Uint8Array<ArrayBuffer>,
+        additionalData: Uint8Array<ArrayBuffer>
+    ): Promise<Uint8Array> {
+        const encrypted = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv: this.segmentNonce(noncePrefix, counter, final), additionalData },
+            key,
+            data
+        );
+
+        return new Uint8Array(encrypted);
+    }
+
+    /**
+     * Decripta e autentica um segmento
+     * @param key Chave AES-GCM importada
+     * @param noncePrefix Prefixo dos nonces
+     * @param counter Índice esperado do segmento
+     * @param final Indica se é o último segmento
+     * @param data Segmento encriptado (inclui a tag)
+     * @param additionalData Cabeçalho e AAD do usuário
+     * @returns Promise com os bytes em claro do segmento
+     * @throws AuthenticationError se a tag não puder ser verificada
+     */
+    private async openSegment(
+        key: CryptoKey,
+        noncePrefix: Uint8Array,
+        counter: number,
+        final: boolean,
+        data: Uint8Array<ArrayBuffer>,
+        additionalData: Uint8Array<ArrayBuffer>
+    ): Promise<Uint8Array> {
+        try {
+            const decrypted = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: this.segmentNonce(noncePrefix, counter, final), additionalData },
+                key,
+                data
+            );
+
+            return new Uint8Array(decrypted);
+        } catch {
+            throw new AuthenticationError(
+                `Falha na autenticação do segmento ${counter + 1}: os dados foram alterados, truncados ou reordenados, ou a chave ou o AAD estão incorretos.`
+            );
+        }
+    }
+
+    /**
+     * Monta o nonce de um segmento: prefixo ‖ contador ‖ flag de segmento final
+     * @param noncePrefix Prefixo de 7 bytes
+     * @param counter Índice do segmento
+     * @param final Indica se é o último segmento
+     * @returns Nonce de 12 bytes
+     * @throws Error se o contador exceder o limite de segmentos
+     */
+    private segmentNonce(noncePrefix: Uint8Array, counter: number, final: boolean): Uint8Array<ArrayBuffer> {
+        if (counter > StreamCrypto.MAX_SEGMENTS) {
+            throw new Error('Stream excede o número máximo de segmentos.');
+        }
+
+        const nonce = new Uint8Array(12);
+        nonce.set(noncePrefix);
+
+        const view = new DataView(nonce.buffer);
+        view.setUint32(StreamCrypto.NONCE_PREFIX_LENGTH, counter);
+        view.setUint8(11, final ? 1 : 0);
+
+        return nonce;
+    }
+
+    /**
+     * Combina o cabeçalho com o AAD do usuário
+     * @param header Bytes do cabeçalho
+     * @param userAAD AAD fornecido pelo usuário (opcional)
+     * @returns Dados autenticados de cada segmento
+     */
+    private buildAdditionalData(header: Uint8Array, userAAD: string | Uint8Array = ''): Uint8Array<ArrayBuffer> {
+        const aad = typeof userAAD === 'string' ? new TextEncoder().encode(userAAD) : userAAD;
+        return this.concat(header, aad);
+    }
+
+    /**
+     * Valida a chave antes de criar o stream
+     * @param key Chave codificada ou handle
+     * @param operation Operação em que a chave será usada
+     * @returns Tamanho da chave em bits
+     * @throws Error se a chave for inválida ou não servir para AES-GCM
+     */
+    private validateKey(key: KeyInput, operation: CryptoOperation): KeyLength {
+        if (typeof key !== 'string') {
+            if (key.algorithm !== 'AES-GCM') {
+                throw new Error(`Streaming exige uma chave AES-GCM, mas a chave foi criada para ${key.algorithm}.`);
+            }
+
+            if (!key.usages.includes(operation)) {
+                throw new Error(`Chave não permite a operação "${operation}".`);
+            }
+
+            return key.keyLength;
+        }
+
+        return (this.decodeKey(key).length * 8) as KeyLength;
+    }
+
+    /**
+     * Obtém a CryptoKey usada nos segmentos
+     * @param key Chave codificada ou handle
+     * @param operation Operação em que a chave será usada
+     * @returns Promise com a CryptoKey (importada uma única vez por stream)
+     */
+    private async loadKey(key: KeyInput, operation: CryptoOperation): Promise<CryptoKey> {
+        if (typeof key !== 'string') {
+            return key.cryptoKey;
+        }
+
+        return await crypto.subtle.importKey('raw', this.decodeKey(key), 'AES-GCM', false, [operation]);
+    }
+
+    /**
+     * Decodifica e valida a chave
+     * @param key Chave em hexadecimal, Base64 ou Base64URL
+     * @returns Bytes da chave
+     * @throws Error se a chave for inválida
+     */
+    private decodeKey(key: string): Uint8Array<ArrayBuffer> {
+        if (!key || this.cryptoUtils.detectEncoding(key) === null) {
+            throw new Error('Chave deve estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        const keyData = new Uint8Array(this.cryptoUtils.decodeData(key).bytes);
+        if (![16, 24, 32].includes(keyData.length)) {
+            throw new Error('Chave deve ter 128, 192 ou 256 bits (16, 24 ou 32 bytes).');
+        }
+
+        return keyData;
+    }
+
+    /**
+     * Valida o tamanho dos segmentos
+     * @param segmentSize Tamanho em bytes
+     * @throws Error se o tamanho estiver fora do intervalo permitido
+     */
+    private validateSegmentSize(segmentSize: number): void {
+        if (!Number.isInteger(segmentSize) || segmentSize < 1 || segmentSize > StreamCrypto.MAX_SEGMENT_SIZE) {
+            throw new Error(`Tamanho do segmento deve estar entre 1 e ${StreamCrypto.MAX_SEGMENT_SIZE} bytes.`);
+        }
+    }
+
+    /**
+     * Encerra o stream com erro assim que o sinal de cancelamento for acionado
+     * O listener é removido quando o stream termina, falha ou é cancelado, de modo que um
+     * mesmo sinal pode ser reaproveitado em vários streams sem acumular listeners
+     * @param signal Sinal de cancelamento (opcional)
+     * @param transformer Etapas do TransformStream
+     * @returns Etapas que acompanham o sinal
+     */
+    private watchSignal(signal: AbortSignal | undefined, transformer: Transformer<Uint8Array, Uint8Array>): Transformer<Uint8Array, Uint8Array> {
+        if (!signal) return transformer;
+
+        let onAbort: (() => void) | null = null;
+        const unwatch = (): void => {
+            if (onAbort) signal.removeEventListener('abort', onAbort);
+            onAbort = null;
+        };
+
+        const guard = async (step: () => void | PromiseLike<void>): Promise<void> => {
+            try {
+                await step();
+            } catch (error) {
+                unwatch();
+                throw error;
+            }
+        };
+
+        // cancel (leitor desistiu do stream) é recente na especificação e ainda falta nos tipos do DOM;
+        // runtimes sem suporte o ignoram e o listener sai no próximo acionamento do sinal
+        const watched: Transformer<Uint8Array, Uint8Array> & { cancel: () => void } = {
+            start: controller => {
+                signal.throwIfAborted();
+                const abort = (): void => {
+                    unwatch();
+                    controller.error(signal.reason);
+                };
+                onAbort = abort;
+                signal.addEventListener('abort', abort);
+                return guard(() => transformer.start?.(controller));
+            },
+            transform: (chunk, controller) => guard(() => transformer.transform ? transformer.transform(chunk, controller) : controller.enqueue(chunk)),
+            flush: async controller => {
+                try {
+                    await transformer.flush?.(controller);
+                } finally {
+                    unwatch();
+                }
+            },
+            cancel: unwatch
+        };
+
+        return watched;
+    }
+
+    /**
+     * Encadeia a origem no TransformStream, propagando o cancelamento
+     * @param source Stream de origem
+     * @param transform TransformStream de encriptação ou decriptação
+     * @param signal Sinal de cancelamento (opcional)
+     * @returns Stream resultante
+     */
+    private pipe(
+        source: ReadableStream<Uint8Array>,
+        transform: TransformStream<Uint8Array, Uint8Array>,
+        signal?: AbortSignal
+    ): ReadableStream<Uint8Array> {
+        return signal ? source.pipeThrough(transform, { signal }) : source.pipeThrough(transform);
+    }
+
+    /**
+     * Concatena dois arrays de bytes
+     * @param first Primeiro array
+     * @param second Segundo array
+     * @returns Novo array com os dois conteúdos
+     */
+    private concat(first: Uint8Array, second: Uint8Array): Uint8Array<ArrayBuffer> {
+        const result = new Uint8Array(first.length + second.length);
+        result.set(first);
+        result.set(second, first.length);
+        return result;
+    }
+}
@@ -23,9 +23,99 @@ function initializeAESCryptoApp(): void {
             encryptButton: document.getElementById('encryptButton')!,
             decryptButton: document.getElementById('decryptButton')!,
             aesKey: document.getElementById('aesKey') as HTMLInputElement,
+            aesKeyStatus: document.getElementById('aesKeyStatus')!,
             iv: document.getElementById('iv') as HTMLInputElement,
+            ivStatus: document.getElementById('ivStatus')!,
+            additionalData: document.getElementById('additionalData') as HTMLInputElement,
+            cipherAlgorithm: document.getElementById('cipherAlgorithm') as HTMLSelectElement,
+            keyLength: document.getElementById('keyLength') as HTMLSelectElement,
+            keyMode: document.getElementById('keyMode') as HTMLSelectElement,
+            passphraseGroup: document.getElementById('passphraseGroup')!,
+            passphrase: document.getElementById('passphrase') as HTMLInputElement,
+            salt: document.getElementById('salt') as HTMLInputElement,
+            kdfParams: document.getElementById('kdfParams')!,
+            useEnvelope: document.getElementById('useEnvelope') as HTMLInputElement,
+            autoIv: document.getElementById('autoIv') as HTMLInputElement,
+            usedIv: document.getElementById('usedIv')!,
+            outputEncoding: document.getElementById('outputEncoding') as HTMLSelectElement,
+            keyExportFormat: document.getElementById('keyExportFormat') as HTMLSelectElement,
+            exportKeyButton: document.getElementById('exportKeyButton')!,
+            importKeyButton: document.getElementById('importKeyButton')!,
+            keyFileInput: document.getElementById('keyFileInput') as HTMLInputElement,
+            vaultKeys: document.getElementById('vaultKeys') as HTMLSelectElement,
+            vaultLabel: document.getElementById('vaultLabel') as HTMLInputElement,
+            vaultInfo: document.getElementById('vaultInfo')!,
+            vaultGenerateButton: document.getElementById('vaultGenerateButton')!,
+            vaultStoreButton: document.getElementById('vaultStoreButton')!,
+            vaultRenameButton: document.getElementById('vaultRenameButton')!,
+            vaultDeleteButton: document.getElementById('vaultDeleteButton')!,
+            vaultPassphrase: document.getElementById('vaultPassphrase') as HTMLInputElement,
+            vaultNewPassphrase: document.getElementById('vaultNewPassphrase') as HTMLInputElement,
+            vaultLockStatus: document.getElementById('vaultLockStatus')!,
+            vaultUnlockButton: document.getElementById('vaultUnlockButton')!,
+            vaultLockButton: document.getElementById('vaultLockButton')!,
+            vaultChangePassphraseButton: document.getElementById('vaultChangePassphraseButton')!,
+            hybridAlgorithm: document.getElementById('hybridAlgorithm') as HTMLSelectElement,
+            hybridGenerateButton: document.getElementById('hybridGenerateButton')!,
+            hybridImportButton: document.getElementById('hybridImportButton')!,
+            hybridExportButton: document.getElementById('hybridExportButton')!,
+            hybridKeyFileInput: document.getElementById('hybridKeyFileInput') as HTMLInputElement,
+            hybridPublicKey: document.getElementById('hybridPublicKey') as HTMLTextAreaElement,
+            hybridInfo: document.getElementById('hybridInfo')!,
+            hybridRecipients: document.getElementById('hybridRecipients') as HTMLTextAreaElement,
+            hybridIncludeKey: document.getElementById('hybridIncludeKey') as HTMLInputElement,
+            hybridEncryptButton: document.getElementById('hybridEncryptButton')!,
+            hybridDecryptButton: document.getElementById('hybridDecryptButton')!,
+            hybridSlots: document.getElementById('hybridSlots') as HTMLSelectElement,
+            hybridReadSlotsButton: document.getElementById('hybridReadSlotsButton')!,
+            hybridAddRecipientsButton: document.getElementById('hybridAddRecipientsButton')!,
+            hybridRevokeButton: document.getElementById('hybridRevokeButton')!,
+            signatureAlgorithm: document.getElementById('signatureAlgorithm') as HTMLSelectElement,
+            signatureGenerateButton: document.getElementById('signatureGenerateButton')!,
+            signatureImportButton: document.getElementById('signatureImportButton')!,
+            signatureExportButton: document.getElementById('signatureExportButton')!,
+            signatureKeyFileInput: document.getElementById('signatureKeyFileInput') as HTMLInputElement,
+            signaturePublicKey: document.getElementById('signaturePublicKey') as HTMLTextAreaElement,
+            signatureInfo: document.getElementById('signatureInfo')!,
+            signOnEncrypt: document.getElementById('signOnEncrypt') as HTMLInputElement,
+            signature: document.getElementById('signature') as HTMLInputElement,
+            trustedSigningKeys: document.getElementById('trustedSigningKeys') as HTMLTextAreaElement,
+            verifySignatureButton: document.getElementById('verifySignatureButton')!,
+            signatureStatus: document.getElementById('signatureStatus')!,
+            hashAlgorithm: document.getElementById('hashAlgorithm') as HTMLSelectElement,
+            hashInput: document.getElementById('hashInput') as HTMLTextAreaElement,
+            hmacKey: document.getElementById('hmacKey') as HTMLInputElement,
+            hmacKeyFormat: document.getElementById('hmacKeyFormat') as HTMLSelectElement,
+            hashExpected: document.getElementById('hashExpected') as HTMLInputElement,
+            hashTextButton: document.getElementById('hashTextButton')!,
+            hashFileButton: document.getElementById('hashFileButton')!,
+            hashFileInput: document.getElementById('hashFileInput') as HTMLInputElement,
+            hashHex: document.getElementById('hashHex') as HTMLInputElement,
+            hashBase64: document.getElementById('hashBase64') as HTMLInputElement,
+            hashInfo: document.getElementById('hashInfo')!,
+            historyPassphrase: document.getElementById('historyPassphrase') as HTMLInputElement,
+            historyStatus: document.getElementById('historyStatus')!,
+            historyUnlockButton: document.getElementById('historyUnlockButton')!,
+            historyLockButton: document.getElementById('historyLockButton')!,
+            historyEntries: document.getElementById('historyEntries') as HTMLSelectElement,
+            historyInfo: document.getElementById('historyInfo')!,
+            historyRestoreButton: document.getElementById('historyRestoreButton')!,
+            historyRerunButton: document.getElementById('historyRerunButton')!,
+            historyExportButton: document.getElementById('historyExportButton')!,
+            historyClearButton: document.getElementById('historyClearButton')!,
+            binaryView: document.getElementById('binaryView')!,
+            binaryViewEncoding: document.getElementById('binaryViewEncoding') as HTMLSelectElement,
+            detectedEncoding: document.getElementById('detectedEncoding')!,
+            dropZone: document.getElementById('dropZone')!,
+            fileInput: document.getElementById('fileInput') as HTMLInputElement,
+            selectedFileName: document.getElementById('selectedFileName')!,
+            encryptFileButton: document.getElementById('encryptFileButton')!,
+            decryptFileButton: document.getElementById('decryptFileButton')!,
+            fileProgress: document.getElementById('fileProgress') as HTMLProgressElement,
+            cancelFileButton: document.getElementById('cancelFileButton')!,
             encryptInput: document.getElementById('encryptInput')!,
             decryptInput: document.getElementById('decryptInput')!,
+            decryptInputStatus: document.getElementById('decryptInputStatus')!,
             report: document.getElementById('report')!
         };
 
@@ -92,24 +182,27 @@ function checkBrowserCompatibility(): boolean {
     return true;
 }
 
-// Verificar compatibilidade antes de inicializar
-if (checkBrowserCompatibility()) {
-    initializeAESCryptoApp();
-} else {
-    console.error('Navegador não compatível com os recursos necessários');
+// Inicializar apenas no navegador: fora dele (Node.js) use o ponto de entrada core.ts
+if (typeof document !== 'undefined') {
+    // Verificar compatibilidade antes de inicializar
+    if (checkBrowserCompatibility()) {
+        initializeAESCryptoApp();
+    } else {
+        console.error('Navegador não compatível com os recursos necessários');
     
-    // Mostrar mensagem de erro se possível
-    document.addEventListener('DOMContentLoaded', () => {
-        const reportElement = document.getElementById('report');
-        if (reportElement) {
-            reportElement.innerHTML = `
-                <div class="message error">
-                    Seu navegador não suporta os recursos necessários para esta aplicação.
-                    Por favor, use um navegador moderno como Chrome, Firefox, Safari ou Edge.
-                </div>
-            `;
-        }
-    });
+        // Mostrar mensagem de erro se possível
+        document.addEventListener('DOMContentLoaded', () => {
+            const reportElement = document.getElementById('report');
+            if (reportElement) {
+                reportElement.innerHTML = `
+                    <div class="message error">
+                        Seu navegador não suporta os recursos necessários para esta aplicação.
+                        Por favor, use um navegador moderno como Chrome, Firefox, Safari ou Edge.
+                    </div>
+                `;
+            }
+        });
+    }
 }
 
 // Expor funções globais para debugging
@@ -0,0 +1,668 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { IDBFactory } from 'fake-indexeddb';
+import type { DOMElements } from '../types/index.js';
+import {
+    clickAndWait,
+    collectElements,
+    loadIndexFixture,
+    reportMessages,
+    waitFor,
+    waitForMessagesToExpire,
+    type DOMFixture
+} from '../testing/domFixture.js';
+import { AESCrypto } from '../crypto/AESCrypto.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { SettingsStore } from '../storage/SettingsStore.js';
+import { initializeAESCryptoApp } from '../main.js';
+import { AESCryptoManager } from './AESCryptoManager.js';
+
+/** Derivação rápida (mínimo aceito) para os testes com frase-senha */
+const KDF_CONFIG = { iterations: 10000, hash: 'SHA-256' as const, saltLength: 16 };
+
+const AUTHENTICATION_FAILURE = 'Falha na autenticação: os dados foram alterados ou a chave, IV ou AAD estão incorretos.';
+
+describe('AESCryptoManager com o index.html', () => {
+    let fixture: DOMFixture;
+    let elements: DOMElements;
+    let manager: AESCryptoManager;
+    /** Resposta simulada do confirm() e perguntas feitas */
+    let confirmAnswer = false;
+    const confirmations: string[] = [];
+
+    /** Conteúdo de um campo contenteditable, como lido pela interface */
+    const text = (element: HTMLElement): string => element.innerHTML.replace(/<br>/g, '\n').trim();
+
+    /** Simula a digitação em um campo contenteditable */
+    const type = (element: HTMLElement, value: string): void => {
+        element.textContent = value;
+        element.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    /** Altera um campo ou seletor como o usuário, disparando o evento observado pela interface */
+    const set = (element: HTMLInputElement | HTMLSelectElement, value: string): void => {
+        element.value = value;
+        element.dispatchEvent(new Event(element.tagName === 'SELECT' ? 'change' : 'input', { bubbles: true }));
+    };
+
+    /** Marca ou desmarca uma caixa de seleção como o usuário */
+    const check = (element: HTMLInputElement, checked: boolean): void => {
+        element.checked = checked;
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+    };
+
+    /** Troca a seleção como o usuário e retorna a última mensagem exibida */
+    const select = (element: HTMLSelectElement, value: string) => {
+        element.value = value;
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+
+        const { type, text } = reportMessages(elements.report).at(-1)!;
+        return { type, text };
+    };
+
+    const click = (element: HTMLElement) => clickAndWait(element, elements.report);
+    const disabled = (element: HTMLElement): boolean => (element as HTMLButtonElement).disabled;
+
+    before(() => {
+        fixture = loadIndexFixture();
+        elements = collectElements(fixture.document);
+        manager = new AESCryptoManager(elements, undefined, KDF_CONFIG, new SettingsStore(fixture.window.localStorage));
+        (globalThis as { confirm?: (message: string) => boolean }).confirm = message => {
+            confirmations.push(message);
+            return confirmAnswer;
+        };
+    });
+
+    beforeEach(() => {
+        manager.setCipherSettings({ algorithm: 'AES-GCM', keyLength: 128 });
+        fixture.window.localStorage.clear();
+        confirmAnswer = false;
+        confirmations.length = 0;
+        elements.keyMode!.value = 'hex';
+        elements.aesKey.value = '';
+        elements.iv.value = '';
+        elements.additionalData!.value = '';
+        elements.passphrase!.value = '';
+        elements.salt!.value = '';
+        elements.outputEncoding!.value = 'hex';
+        elements.autoIv!.checked = true;
+        elements.useEnvelope!.checked = true;
+        elements.signOnEncrypt!.checked = false;
+        type(elements.encryptInput, '');
+        type(elements.decryptInput, '');
+    });
+
+    after(async () => {
+        delete (globalThis as { confirm?: unknown }).confirm;
+        await waitForMessagesToExpire(elements.report);
+        await fixture.close();
+    });
+
+    describe('generateKey', () => {
+        it('gera chave de 128 bits e IV de 12 bytes', async () => {
+            assert.deepEqual(await click(elements.generateKey), { type: 'success', text: 'Nova chave AES e IV gerados com sucesso!' });
+            assert.match(elements.aesKey.value, /^[0-9a-f]{32}$/);
+            assert.match(elements.iv.value, /^[0-9a-f]{24}$/);
+        });
+
+        it('usa a codificação de saída escolhida', async () => {
+            elements.outputEncoding!.value = 'base64';
+            await click(elements.generateKey);
+
+            assert.match(elements.aesKey.value, /^[A-Za-z0-9+/]{22}==$/);
+            assert.match(elements.iv.value, /^[A-Za-z0-9+/]{16}$/);
+        });
+
+        it('no modo frase-senha gera sal e IV, sem chave', async () => {
+            set(elements.keyMode!, 'passphrase');
+            set(elements.aesKey, 'antiga');
+
+            assert.deepEqual(await click(elements.generateKey), { type: 'success', text: 'Novo sal e IV gerados com sucesso!' });
+            assert.equal(elements.aesKey.value, '');
+            assert.match(elements.salt!.value, /^[0-9a-f]{32}$/);
+            assert.match(elements.iv.value, /^[0-9a-f]{24}$/);
+        });
+
+        it('no modo cofre gera apenas o IV', async () => {
+            set(elements.keyMode!, 'vault');
+            set(elements.aesKey, '');
+
+            const message = await click(elements.generateKey);
+            assert.equal(message.type, 'success');
+            assert.match(message.text, /^Novo IV gerado com sucesso!/);
+            assert.equal(elements.aesKey.value, '');
+            assert.match(elements.iv.value, /^[0-9a-f]{24}$/);
+        });
+
+        it('relata falha do gerador aleatório', async (t) => {
+            t.mock.method(globalThis.crypto, 'getRandomValues', () => {
+                throw new Error('sem entropia');
+            });
+
+            assert.deepEqual(await click(elements.generateKey), { type: 'error', text: 'Erro ao gerar chave: sem entropia' });
+        });
+    });
+
+    describe('validação em tempo real', () => {
+        it('descreve a chave e o IV gerados e habilita a encriptação', async () => {
+            assert.equal(disabled(elements.encryptButton), true);
+            assert.equal(elements.ivStatus!.textContent, 'Um IV novo é gerado a cada encriptação.');
+
+            await click(elements.generateKey);
+            assert.equal(elements.aesKeyStatus!.textContent, '16/16 bytes · hexadecimal · força: 128 bits');
+            assert.equal(elements.ivStatus!.textContent, '12/12 bytes · hexadecimal');
+            assert.equal(elements.aesKey.classList.contains('valid'), true);
+            assert.equal(elements.aesKey.getAttribute('aria-invalid'), 'false');
+            assert.equal(disabled(elements.encryptButton), false);
+            assert.equal(disabled(elements.decryptButton), true);
+        });
+
+        it('marca o campo inválido enquanto se digita', () => {
+            set(elements.aesKey, '00'.repeat(15));
+            assert.equal(elements.aesKey.classList.contains('invalid'), true);
+            assert.equal(elements.aesKey.getAttribute('aria-invalid'), 'true');
+            assert.equal(elements.aesKeyStatus!.classList.contains('invalid'), true);
+
+            set(elements.aesKey, '00'.repeat(16));
+            assert.equal(elements.aesKey.classList.contains('invalid'), false);
+            assert.equal(elements.aesKey.classList.contains('warning'), true);
+            assert.match(elements.aesKeyStatus!.textContent!, /todos os bytes são iguais/);
+            assert.equal(disabled(elements.encryptButton), false);
+        });
+
+        it('descreve o envelope gerado e habilita a decriptação sem o IV', async () => {
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'x');
+            await click(elements.encryptButton);
+            set(elements.iv, '');
+
+            assert.match(elements.decryptInputStatus!.textContent!, /^Envelope AES-GCM · chave de 128 bits · 17 bytes · hexadecimal$/);
+            assert.equal(disabled(elements.decryptButton), false);
+        });
+
+        it('nos modos frase-senha e cofre não exige a chave digitada', () => {
+            set(elements.keyMode!, 'passphrase');
+            assert.equal(disabled(elements.encryptButton), false);
+
+            set(elements.keyMode!, 'vault');
+            assert.equal(disabled(elements.encryptButton), false);
+
+            set(elements.keyMode!, 'hex');
+            assert.equal(disabled(elements.encryptButton), true);
+        });
+
+        it('revalida o IV ao trocar o algoritmo', async () => {
+            await click(elements.generateKey);
+            select(elements.cipherAlgorithm!, 'AES-CBC');
+
+            assert.equal(elements.ivStatus!.textContent, '12/16 bytes · hexadecimal — o AES-CBC exige um IV de 16 bytes.');
+        });
+    });
+
+    describe('cipherAlgorithm e keyLength', () => {
+        it('exibe a configuração inicial', () => {
+            assert.equal(elements.cipherAlgorithm!.value, 'AES-GCM');
+            assert.equal(elements.keyLength!.value, '128');
+            assert.equal(elements.iv.placeholder, 'IV (12 bytes)');
+        });
+
+        it('recria o motor com o algoritmo e o tamanho escolhidos e guarda a escolha', async () => {
+            assert.deepEqual(select(elements.keyLength!, '256'), { type: 'info', text: 'Algoritmo alterado para AES-GCM com chave de 256 bits.' });
+            assert.deepEqual(select(elements.cipherAlgorithm!, 'AES-CBC'), { type: 'info', text: 'Algoritmo alterado para AES-CBC com chave de 256 bits.' });
+            assert.deepEqual(manager.getConfig(), { algorithm: 'AES-CBC', keyLength: 256, ivLength: 16 });
+            assert.equal(elements.iv.placeholder, 'IV (16 bytes)');
+            assert.deepEqual(new SettingsStore(fixture.window.localStorage).loadCipherSettings(), { algorithm: 'AES-CBC', keyLength: 256 });
+
+            await click(elements.generateKey);
+            assert.match(elements.aesKey.value, /^[0-9a-f]{64}$/);
+            assert.match(elements.iv.value, /^[0-9a-f]{32}$/);
+
+            type(elements.encryptInput, 'em AES-CBC');
+            await click(elements.encryptButton);
+            assert.equal(new AESCrypto().readEnvelope(text(elements.decryptInput)).algorithm, 'AES-CBC');
+            await click(elements.decryptButton);
+            assert.equal(text(elements.encryptInput), 'em AES-CBC');
+        });
+
+        it('oferece gerar chave e IV novos quando os atuais não servem', async () => {
+            await click(elements.generateKey);
+            const key = elements.aesKey.value;
+            confirmAnswer = true;
+
+            assert.deepEqual(select(elements.cipherAlgorithm!, 'AES-CTR'), { type: 'success', text: 'Nova chave AES e IV gerados com sucesso!' });
+            assert.deepEqual(confirmations, ['O IV atual não tem 16 bytes para AES-CTR com chave de 128 bits. Gerar novos valores?']);
+            assert.notEqual(elements.aesKey.value, key);
+            assert.match(elements.iv.value, /^[0-9a-f]{32}$/);
+        });
+
+        it('mantém os valores e avisa quando a troca é recusada', async () => {
+            await click(elements.generateKey);
+            const { value: key } = elements.aesKey;
+
+            assert.deepEqual(select(elements.keyLength!, '192'), {
+                type: 'warning',
+                text: 'Algoritmo alterado para AES-GCM com chave de 192 bits, mas a chave atual não tem 192 bits. Use "Gerar Chaves" antes de encriptar.'
+            });
+            assert.equal(confirmations.length, 1);
+            assert.equal(elements.aesKey.value, key);
+        });
+
+        it('não confere a chave derivada de frase-senha', () => {
+            set(elements.keyMode!, 'passphrase');
+            set(elements.aesKey, '00'.repeat(16));
+            set(elements.iv, '00'.repeat(12));
+
+            assert.equal(select(elements.keyLength!, '256').type, 'info');
+            assert.equal(confirmations.length, 0);
+        });
+    });
+
+    describe('encryptButton e decryptButton', () => {
+        it('encripta em envelope no campo de decriptação e decripta de volta no de encriptação', async () => {
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'mensagem secreta');
+
+            assert.deepEqual(await click(elements.encryptButton), { type: 'success', text: 'Dados encriptados com sucesso!' });
+            const envelope = text(elements.decryptInput);
+            assert.equal(new AESCrypto().isEnvelope(envelope), true);
+            assert.equal(elements.usedIv!.textContent, `IV usado: ${elements.iv.value}`);
+            assert.equal(elements.signature!.value, '');
+
+            type(elements.encryptInput, '');
+            assert.deepEqual(await click(elements.decryptButton), { type: 'success', text: 'Dados decriptados com sucesso!' });
+            assert.equal(text(elements.encryptInput), 'mensagem secreta');
+            assert.equal(elements.detectedEncoding!.textContent, 'Codificação detectada - chave: hexadecimal, dados: hexadecimal');
+        });
+
+        it('sem envelope, usa o IV gerado, exibido no campo IV', async () => {
+            await click(elements.generateKey);
+            const generatedIv = elements.iv.value;
+            elements.useEnvelope!.checked = false;
+            type(elements.encryptInput, 'linha 1\nlinha 2');
+
+            await click(elements.encryptButton);
+            assert.notEqual(elements.iv.value, generatedIv);
+            assert.equal(new AESCrypto().isEnvelope(text(elements.decryptInput)), false);
+
+            type(elements.encryptInput, '');
+            assert.equal((await click(elements.decryptButton)).type, 'success');
+            assert.equal(text(elements.encryptInput), 'linha 1\nlinha 2');
+        });
+
+        it('encripta na codificação de saída escolhida', async () => {
+            await click(elements.generateKey);
+            elements.outputEncoding!.value = 'base64url';
+            type(elements.encryptInput, 'dados');
+
+            await click(elements.encryptButton);
+            assert.match(text(elements.decryptInput), /^[A-Za-z0-9_-]+$/);
+
+            await click(elements.decryptButton);
+            assert.equal(text(elements.encryptInput), 'dados');
+        });
+
+        it('com frase-senha, deriva a chave e decripta só com a frase-senha', async () => {
+            set(elements.keyMode!, 'passphrase');
+            elements.passphrase!.value = 'frase-senha de teste';
+            type(elements.encryptInput, 'protegido por frase-senha');
+
+            assert.equal((await click(elements.encryptButton)).type, 'success');
+            assert.match(elements.aesKey.value, /^[0-9a-f]{32}$/);
+            assert.match(elements.salt!.value, /^[0-9a-f]{32}$/);
+            assert.match(elements.kdfParams!.textContent ?? '', /10000/);
+
+            set(elements.aesKey, '');
+            elements.salt!.value = '';
+            type(elements.encryptInput, '');
+            assert.equal((await click(elements.decryptButton)).type, 'success');
+            assert.equal(text(elements.encryptInput), 'protegido por frase-senha');
+        });
+
+        it('exibe conteúdo binário em hexadecimal ou Base64', async () => {
+            const aes = new AESCrypto();
+            const { key, iv } = aes.generateKeyAndIV();
+            const encrypted = await aes.encryptBytes(new Uint8Array([0xff, 0xfe, 0x00]), key, iv);
+
+            set(elements.aesKey, key);
+            set(elements.iv, iv);
+            elements.useEnvelope!.checked = false;
+            type(elements.decryptInput, new CryptoUtils().uint8ArrayToHex(encrypted));
+
+            const message = await click(elements.decryptButton);
+            assert.equal(message.type, 'success');
+            assert.match(message.text, /não é texto e foi exibido em formato binário/);
+            assert.equal(elements.binaryView!.hidden, false);
+            assert.equal(text(elements.encryptInput), 'fffe00');
+
+            elements.binaryViewEncoding!.value = 'base64';
+            elements.binaryViewEncoding!.dispatchEvent(new Event('change'));
+            assert.equal(text(elements.encryptInput), '//4A');
+        });
+    });
+
+    describe('erros da encriptação', () => {
+        it('fica desabilitada sem chave', () => {
+            type(elements.encryptInput, 'x');
+            assert.equal(disabled(elements.encryptButton), true);
+        });
+
+        it('exige IV quando a geração automática está desmarcada', async () => {
+            await click(elements.generateKey);
+            set(elements.iv, '');
+            assert.equal(disabled(elements.encryptButton), false);
+
+            check(elements.autoIv!, false);
+            assert.equal(disabled(elements.encryptButton), true);
+        });
+
+        it('exige texto', async () => {
+            await click(elements.generateKey);
+            assert.deepEqual(await click(elements.encryptButton), { type: 'error', text: 'Digite o texto a ser encriptado.' });
+        });
+
+        it('exige frase-senha no modo frase-senha', async () => {
+            set(elements.keyMode!, 'passphrase');
+            type(elements.encryptInput, 'x');
+
+            assert.equal((await click(elements.encryptButton)).text, 'Frase-senha e IV são obrigatórios. Use "Gerar Chaves" para criar um IV.');
+        });
+
+        it('exige chave selecionada no modo cofre', async () => {
+            set(elements.keyMode!, 'vault');
+            type(elements.encryptInput, 'x');
+
+            assert.equal((await click(elements.encryptButton)).text, 'Selecione uma chave do cofre e informe o IV. Use "Gerar Chaves" para criar um IV.');
+        });
+
+        it('recusa chave de tamanho inválido', () => {
+            set(elements.aesKey, '00'.repeat(10));
+
+            assert.equal(disabled(elements.encryptButton), true);
+            assert.match(elements.aesKeyStatus!.textContent!, /^10\/16 bytes · hexadecimal — a chave deve ter 16, 24 ou 32 bytes/);
+        });
+
+        it('recusa IV de tamanho inválido apenas sem a geração automática', async () => {
+            await click(elements.generateKey);
+            set(elements.iv, '00'.repeat(16));
+            assert.equal(disabled(elements.encryptButton), false);
+
+            check(elements.autoIv!, false);
+            assert.equal(disabled(elements.encryptButton), true);
+            assert.equal(elements.ivStatus!.textContent, '16/12 bytes · hexadecimal — o AES-GCM exige um IV de 12 bytes.');
+        });
+
+        it('recusa repetir o par chave/IV no AES-GCM', async () => {
+            await click(elements.generateKey);
+            check(elements.autoIv!, false);
+            type(elements.encryptInput, 'x');
+
+            assert.equal((await click(elements.encryptButton)).type, 'success');
+
+            const message = await click(elements.encryptButton);
+            assert.equal(message.type, 'error');
+            assert.match(message.text, /^Este IV já foi usado com esta chave. No AES-GCM/);
+        });
+
+        it('exige par de assinatura quando a assinatura está marcada', async () => {
+            await click(elements.generateKey);
+            elements.signOnEncrypt!.checked = true;
+            type(elements.encryptInput, 'x');
+
+            assert.equal((await click(elements.encryptButton)).text, 'Gere ou importe um par de chaves de assinatura para assinar a encriptação.');
+        });
+    });
+
+    describe('erros da decriptação', () => {
+        it('fica desabilitada sem dados', async () => {
+            await click(elements.generateKey);
+            assert.equal(disabled(elements.decryptButton), true);
+        });
+
+        it('fica desabilitada sem chave', () => {
+            set(elements.iv, '00'.repeat(12));
+            type(elements.decryptInput, '00'.repeat(32));
+            assert.equal(disabled(elements.decryptButton), true);
+        });
+
+        it('exige IV fora do formato de envelope', async () => {
+            await click(elements.generateKey);
+            type(elements.decryptInput, '00'.repeat(32));
+            assert.equal(disabled(elements.decryptButton), false);
+
+            set(elements.iv, '');
+            assert.equal(disabled(elements.decryptButton), true);
+        });
+
+        it('recusa dados em codificação não reconhecida', async () => {
+            await click(elements.generateKey);
+            type(elements.decryptInput, 'não é texto cifrado!');
+
+            assert.equal(disabled(elements.decryptButton), true);
+            assert.equal(elements.decryptInputStatus!.textContent, 'Codificação não reconhecida: use hexadecimal, Base64 ou Base64URL.');
+            assert.equal(elements.decryptInput.classList.contains('invalid'), true);
+        });
+
+        it('relata falha de autenticação com a chave errada', async () => {
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'x');
+            await click(elements.encryptButton);
+
+            await click(elements.generateKey);
+            assert.deepEqual(await click(elements.decryptButton), { type: 'error', text: AUTHENTICATION_FAILURE });
+        });
+
+        it('relata falha de autenticação com AAD diferente', async () => {
+            await click(elements.generateKey);
+            elements.additionalData!.value = 'contexto A';
+            type(elements.encryptInput, 'x');
+            await click(elements.encryptButton);
+
+            elements.additionalData!.value = 'contexto B';
+            assert.deepEqual(await click(elements.decryptButton), { type: 'error', text: AUTHENTICATION_FAILURE });
+        });
+
+        it('recusa frase-senha para envelope encriptado com chave', async () => {
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'x');
+            await click(elements.encryptButton);
+
+            set(elements.keyMode!, 'passphrase');
+            elements.passphrase!.value = 'qualquer';
+            assert.equal(
+                (await click(elements.decryptButton)).text,
+                'Este envelope não foi gerado a partir de uma frase-senha. Use o modo chave hexadecimal.'
+            );
+        });
+
+        it('exige o sal para decriptar com frase-senha fora do formato de envelope', async () => {
+            set(elements.keyMode!, 'passphrase');
+            elements.passphrase!.value = 'qualquer';
+            set(elements.iv, '00'.repeat(12));
+            type(elements.decryptInput, '00'.repeat(32));
+
+            assert.equal((await click(elements.decryptButton)).text, 'Informe o sal usado na encriptação para derivar a chave.');
+        });
+    });
+
+    describe('signOnEncrypt e verifySignatureButton', () => {
+        before(async () => {
+            await click(elements.signatureGenerateButton!);
+        });
+
+        it('sem envelope, a assinatura cobre o IV: trocar o IV a invalida', async () => {
+            await click(elements.generateKey);
+            elements.useEnvelope!.checked = false;
+            elements.signOnEncrypt!.checked = true;
+            type(elements.encryptInput, 'pay alice 100');
+
+            await click(elements.encryptButton);
+            assert.notEqual(elements.signature!.value, '');
+            assert.equal((await click(elements.verifySignatureButton!)).type, 'success');
+
+            set(elements.iv, '00'.repeat(12));
+            assert.deepEqual(await click(elements.verifySignatureButton!), {
+                type: 'error',
+                text: 'A assinatura não confere com nenhuma chave conhecida: o conteúdo pode ter sido alterado.'
+            });
+
+            set(elements.iv, '');
+            assert.equal(
+                (await click(elements.verifySignatureButton!)).text,
+                'Informe o IV usado na encriptação: sem envelope, a assinatura cobre o IV e os dados encriptados.'
+            );
+        });
+
+        it('envelopes são verificados sem o campo IV', async () => {
+            await click(elements.generateKey);
+            elements.signOnEncrypt!.checked = true;
+            type(elements.encryptInput, 'pay alice 100');
+
+            await click(elements.encryptButton);
+            set(elements.iv, '');
+            assert.equal((await click(elements.verifySignatureButton!)).type, 'success');
+        });
+    });
+
+    describe('histórico de operações', () => {
+        const HISTORY_PASSPHRASE = 'frase-senha do histórico';
+
+        /** Entradas exibidas no seletor do histórico */
+        const historyCount = (): number => Array.from(elements.historyEntries!.options).filter(option => option.value).length;
+
+        /** Desbloqueia o histórico (no primeiro uso, define a frase-senha) */
+        const unlockHistory = async (): Promise<void> => {
+            set(elements.historyPassphrase!, HISTORY_PASSPHRASE);
+            assert.equal((await click(elements.historyUnlockButton!)).type, 'success');
+        };
+
+        /** Clica e aguarda o registro de uma nova entrada no histórico */
+        const clickAndRecord = async (element: HTMLElement) => {
+            const count = historyCount();
+            const message = await click(element);
+            await waitFor(() => historyCount() === count + 1);
+            return message;
+        };
+
+        before(() => {
+            // IndexedDB em memória: sem ele, o histórico fica indisponível no Node.js
+            (globalThis as { indexedDB?: IDBFactory }).indexedDB = new IDBFactory();
+        });
+
+        after(async () => {
+            await manager.getOperationHistory().close();
+            delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+        });
+
+        it('define a frase-senha no primeiro desbloqueio e recusa a errada depois', async () => {
+            set(elements.historyPassphrase!, HISTORY_PASSPHRASE);
+            assert.deepEqual(await click(elements.historyUnlockButton!), {
+                type: 'success',
+                text: 'Frase-senha do histórico definida. As próximas operações serão registradas.'
+            });
+
+            elements.historyLockButton!.click();
+            await waitFor(() => !elements.historyUnlockButton!.hidden);
+
+            set(elements.historyPassphrase!, 'outra frase-senha');
+            assert.deepEqual(await click(elements.historyUnlockButton!), { type: 'error', text: 'Frase-senha do histórico incorreta.' });
+            assert.equal(manager.getOperationHistory().isLocked(), true);
+
+            await unlockHistory();
+        });
+
+        it('restaurar devolve a entrada e o resultado aos editores', async () => {
+            await unlockHistory();
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'pay alice 100');
+            await clickAndRecord(elements.encryptButton);
+            const encrypted = text(elements.decryptInput);
+
+            type(elements.encryptInput, '');
+            type(elements.decryptInput, '');
+            assert.equal((await click(elements.historyRestoreButton!)).type, 'success');
+            assert.equal(text(elements.encryptInput), 'pay alice 100');
+            assert.equal(text(elements.decryptInput), encrypted);
+
+            // Na decriptação, a entrada era o texto cifrado
+            await clickAndRecord(elements.decryptButton);
+            type(elements.encryptInput, '');
+            type(elements.decryptInput, '');
+            await click(elements.historyRestoreButton!);
+            assert.equal(text(elements.decryptInput), encrypted);
+            assert.equal(text(elements.encryptInput), 'pay alice 100');
+        });
+
+        it('executar novamente com outra chave pede confirmação', async () => {
+            await unlockHistory();
+            await click(elements.generateKey);
+            type(elements.encryptInput, 'pay alice 100');
+            await clickAndRecord(elements.encryptButton);
+            await click(elements.generateKey);
+            const count = historyCount();
+
+            elements.historyRerunButton!.click();
+            await waitFor(() => confirmations.length === 1);
+            assert.equal(confirmations[0], 'A chave atual é diferente da usada nesta operação. Executar mesmo assim?');
+            await sleep(50);
+            assert.equal(historyCount(), count);
+
+            confirmAnswer = true;
+            assert.deepEqual(await clickAndRecord(elements.historyRerunButton!), { type: 'success', text: 'Dados encriptados com sucesso!' });
+            assert.equal(confirmations.length, 2);
+        });
+
+        it('executa novamente a decriptação sem envelope com o IV registrado', async () => {
+            await unlockHistory();
+            await click(elements.generateKey);
+            elements.useEnvelope!.checked = false;
+            type(elements.encryptInput, 'pay alice 100');
+            await clickAndRecord(elements.encryptButton);
+            const iv = elements.iv.value;
+            await clickAndRecord(elements.decryptButton);
+
+            set(elements.iv, '00'.repeat(12));
+            type(elements.encryptInput, '');
+            assert.deepEqual(await clickAndRecord(elements.historyRerunButton!), { type: 'success', text: 'Dados decriptados com sucesso!' });
+            assert.equal(elements.iv.value, iv);
+            assert.equal(text(elements.encryptInput), 'pay alice 100');
+            assert.equal(confirmations.length, 0);
+        });
+
+        it('recusa executar novamente uma decriptação sem envelope registrada sem o IV', async () => {
+            await unlockHistory();
+            await manager.getOperationHistory().add({
+                operation: 'decrypt',
+                algorithm: 'AES-GCM',
+                keyMode: 'hex',
+                keyFingerprint: 'ab'.repeat(32),
+                inputSize: 32,
+                input: '00'.repeat(32),
+                output: 'antiga'
+            });
+            await unlockHistory();
+
+            assert.deepEqual(await click(elements.historyRerunButton!), {
+                type: 'error',
+                text: 'Esta decriptação foi registrada sem o IV e não pode ser executada novamente. Restaure-a e informe o IV.'
+            });
+        });
+    });
+});
+
+describe('initializeAESCryptoApp com o index.html', () => {
+    it('encontra todos os elementos e expõe o gerenciador', async (t) => {
+        const fixture = loadIndexFixture();
+        t.mock.method(console, 'log', () => undefined);
+
+        try {
+            initializeAESCryptoApp();
+
+            const manager = (fixture.window as unknown as { cryptoManager?: unknown }).cryptoManager;
+            assert.equal(manager instanceof AESCryptoManager, true);
+            assert.equal(fixture.document.getElementById('report')!.textContent!.trim(), '');
+        } finally {
+            await fixture.close();
+        }
+    });
+});
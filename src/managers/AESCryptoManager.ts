@@ -1,6 +1,51 @@
-import type { DOMElements, CryptoInputs, AESConfig } from '../types/index.js';
+import type {
+    DOMElements,
+    CryptoInputs,
+    AESConfig,
+    CipherOptions,
+    CipherSettings,
+    CryptoAlgorithm,
+    EnvelopeOptions,
+    EnvelopeHeader,
+    StreamEncryptOptions,
+    StreamOptions,
+    EncryptedFile,
+    KDFParameters,
+    DerivedKeyResult,
+    KeyDerivationConfig,
+    KeyInputMode,
+    KeyInput,
+    KeyLength,
+    CryptoOperation,
+    DataEncoding,
+    FieldValidation,
+    KeyExportFormat,
+    HashAlgorithm,
+    HashOptions,
+    HashResult,
+    HistoryEntry,
+    HistoryEntryData,
+    PublicKeyAlgorithm,
+    RecipientCredential,
+    RecipientInput,
+    SignatureAlgorithm,
+    VaultKeyInfo
+} from '../types/index.js';
 import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { InputValidator } from '../utils/InputValidator.js';
 import { AESCrypto } from '../crypto/AESCrypto.js';
+import { AESKey } from '../crypto/AESKey.js';
+import { KeyDerivation } from '../crypto/KeyDerivation.js';
+import { FileCrypto } from '../crypto/FileCrypto.js';
+import { KeyCodec } from '../crypto/KeyCodec.js';
+import { HybridCrypto } from '../crypto/HybridCrypto.js';
+import { SignatureCrypto } from '../crypto/SignatureCrypto.js';
+import { HashCrypto } from '../crypto/HashCrypto.js';
+import { KeyVault } from '../storage/KeyVault.js';
+import { IVRegistry } from '../storage/IVRegistry.js';
+import { ProtectedKeyVault } from '../storage/ProtectedKeyVault.js';
+import { SettingsStore } from '../storage/SettingsStore.js';
+import { OperationHistory } from '../storage/OperationHistory.js';
 import { UIManager } from '../ui/UIManager.js';
 
 /**
@@ -9,154 +54,2047 @@ import { UIManager } from '../ui/UIManager.js';
  */
 export class AESCryptoManager {
     private readonly cryptoUtils: CryptoUtils;
-    private readonly aesCrypto: AESCrypto;
+    private readonly inputValidator: InputValidator;
+    private aesCrypto: AESCrypto;
+    private readonly keyDerivation: KeyDerivation;
+    private fileCrypto: FileCrypto;
+    private readonly keyCodec: KeyCodec;
+    private readonly hybridCrypto: HybridCrypto;
+    private readonly signatureCrypto: SignatureCrypto;
+    private readonly hashCrypto: HashCrypto;
+    private readonly keyVault: KeyVault;
+    private readonly ivRegistry: IVRegistry;
+    private readonly protectedVault: ProtectedKeyVault;
+    private readonly settingsStore: SettingsStore;
+    private readonly history: OperationHistory;
     private readonly uiManager: UIManager;
+    private selectedFile: File | null = null;
+    private fileAbortController: AbortController | null = null;
+    private lastDecryptedBytes: Uint8Array | null = null;
+    private keyHandleCache: { source: string; handle: AESKey } | null = null;
+    private vaultEntries: VaultKeyInfo[] = [];
+    private historyEntries: HistoryEntry[] = [];
+    private hybridKeyPair: CryptoKeyPair | null = null;
+    private signingKeyPair: CryptoKeyPair | null = null;
 
     /**
      * Cria uma nova instância do AESCryptoManager
      * @param elements Elementos DOM para gerenciamento
-     * @param config Configurações AES (opcional)
+     * @param config Configurações AES (opcional, usa o algoritmo e o tamanho de chave guardados na sessão anterior)
+     * @param kdfConfig Configurações da derivação de chaves por frase-senha (opcional)
+     * @param settingsStore Preferências guardadas entre sessões (opcional, usa o localStorage)
      */
-    constructor(elements: DOMElements, config?: AESConfig) {
+    constructor(elements: DOMElements, config?: AESConfig, kdfConfig?: KeyDerivationConfig, settingsStore?: SettingsStore) {
         this.cryptoUtils = new CryptoUtils();
-        this.aesCrypto = new AESCrypto(config);
+        this.inputValidator = new InputValidator();
+        this.settingsStore = settingsStore ?? new SettingsStore();
+        this.aesCrypto = new AESCrypto(config ?? this.storedConfig());
+        this.keyDerivation = new KeyDerivation(kdfConfig);
+        this.fileCrypto = new FileCrypto(this.aesCrypto);
+        this.keyCodec = new KeyCodec(this.keyDerivation);
+        this.hybridCrypto = new HybridCrypto(config?.outputEncoding ? { outputEncoding: config.outputEncoding } : {}, this.keyDerivation);
+        this.signatureCrypto = new SignatureCrypto();
+        this.hashCrypto = new HashCrypto();
+        this.keyVault = new KeyVault();
+        this.ivRegistry = new IVRegistry();
+        this.protectedVault = new ProtectedKeyVault(this.keyDerivation, {
+            onLock: () => this.refreshVault()
+        });
+        this.history = new OperationHistory(this.keyDerivation);
         this.uiManager = new UIManager(elements);
         
         this.initializeEventListeners();
+        this.uiManager.setCipherSettings(this.getCipherSettings(), this.aesCrypto.getConfig().ivLength);
+        this.uiManager.setKeyMode(this.getKeyMode());
+        // Registrada após os demais eventos, para validar com o algoritmo e o modo já atualizados
+        this.uiManager.setupFieldValidation(() => this.validateFields());
+        this.refreshVault();
+        this.refreshHistory();
+    }
+
+    /**
+     * Inicializa todos os event listeners da aplicação
+     */
+    private initializeEventListeners(): void {
+        // Gerar nova chave e IV
+        this.uiManager.addEventListener('generateKey', 'click', () => {
+            this.handleGenerateKey();
+        });
+
+        // Encriptar dados
+        this.uiManager.addEventListener('encryptButton', 'click', () => {
+            this.handleEncrypt();
+        });
+
+        // Decriptar dados
+        this.uiManager.addEventListener('decryptButton', 'click', () => {
+            this.handleDecrypt();
+        });
+
+        // Trocar a visualização de conteúdo decriptado binário
+        this.uiManager.addEventListener('binaryViewEncoding', 'change', () => {
+            if (this.lastDecryptedBytes) {
+                this.showDecryptedBytes(this.lastDecryptedBytes);
+            }
+        });
+
+        // Trocar o algoritmo ou o tamanho da chave
+        this.uiManager.addEventListener('cipherAlgorithm', 'change', () => {
+            this.handleCipherSettingsChange();
+        });
+
+        this.uiManager.addEventListener('keyLength', 'change', () => {
+            this.handleCipherSettingsChange();
+        });
+
+        // Alternar entre chave hexadecimal e frase-senha
+        this.uiManager.addEventListener('keyMode', 'change', () => {
+            this.handleKeyModeChange();
+        });
+
+        // Seleção de arquivos (seletor ou arrastar e soltar)
+        this.uiManager.setupFileSelection(file => {
+            this.handleFileSelected(file);
+        });
+
+        // Encriptar arquivo
+        this.uiManager.addEventListener('encryptFileButton', 'click', () => {
+            this.handleEncryptFile();
+        });
+
+        // Decriptar arquivo
+        this.uiManager.addEventListener('decryptFileButton', 'click', () => {
+            this.handleDecryptFile();
+        });
+
+        // Cancelar o processamento do arquivo
+        this.uiManager.addEventListener('cancelFileButton', 'click', () => {
+            this.fileAbortController?.abort();
+        });
+
+        // Exportação e importação de chaves
+        this.uiManager.addEventListener('exportKeyButton', 'click', () => {
+            this.handleExportKey();
+        });
+
+        this.uiManager.setupFilePicker('importKeyButton', 'keyFileInput', file => {
+            this.handleImportKeyFile(file);
+        });
+
+        // Criptografia híbrida
+        this.uiManager.addEventListener('hybridGenerateButton', 'click', () => {
+            this.handleHybridGenerate();
+        });
+
+        this.uiManager.setupFilePicker('hybridImportButton', 'hybridKeyFileInput', file => {
+            this.handleHybridImport(file);
+        });
+
+        this.uiManager.addEventListener('hybridExportButton', 'click', () => {
+            this.handleHybridExport();
+        });
+
+        this.uiManager.addEventListener('hybridEncryptButton', 'click', () => {
+            this.handleHybridEncrypt();
+        });
+
+        this.uiManager.addEventListener('hybridDecryptButton', 'click', () => {
+            this.handleHybridDecrypt();
+        });
+
+        this.uiManager.addEventListener('hybridReadSlotsButton', 'click', () => {
+            this.handleHybridReadSlots();
+        });
+
+        this.uiManager.addEventListener('hybridAddRecipientsButton', 'click', () => {
+            this.handleHybridAddRecipients();
+        });
+
+        this.uiManager.addEventListener('hybridRevokeButton', 'click', () => {
+            this.handleHybridRevoke();
+        });
+
+        // Assinaturas digitais
+        this.uiManager.addEventListener('signatureGenerateButton', 'click', () => {
+            this.handleSignatureGenerate();
+        });
+
+        this.uiManager.setupFilePicker('signatureImportButton', 'signatureKeyFileInput', file => {
+            this.handleSignatureImport(file);
+        });
+
+        this.uiManager.addEventListener('signatureExportButton', 'click', () => {
+            this.handleSignatureExport();
+        });
+
+        this.uiManager.addEventListener('verifySignatureButton', 'click', () => {
+            this.handleVerifySignature();
+        });
+
+        // Resumos e HMAC
+        this.uiManager.addEventListener('hashTextButton', 'click', () => {
+            this.handleHashText();
+        });
+
+        this.uiManager.setupFilePicker('hashFileButton', 'hashFileInput', file => {
+            this.handleHashFile(file);
+        });
+
+        // Cofre de chaves
+        this.uiManager.addEventListener('vaultKeys', 'change', () => {
+            this.handleVaultSelection();
+        });
+
+        this.uiManager.addEventListener('vaultGenerateButton', 'click', () => {
+            this.handleVaultGenerate();
+        });
+
+        this.uiManager.addEventListener('vaultStoreButton', 'click', () => {
+            this.handleVaultStore();
+        });
+
+        this.uiManager.addEventListener('vaultRenameButton', 'click', () => {
+            this.handleVaultRename();
+        });
+
+        this.uiManager.addEventListener('vaultDeleteButton', 'click', () => {
+            this.handleVaultDelete();
+        });
+
+        this.uiManager.addEventListener('vaultUnlockButton', 'click', () => {
+            this.handleVaultUnlock();
+        });
+
+        this.uiManager.addEventListener('vaultLockButton', 'click', () => {
+            this.protectedVault.lock();
+        });
+
+        this.uiManager.addEventListener('vaultChangePassphraseButton', 'click', () => {
+            this.handleVaultChangePassphrase();
+        });
+
+        // Histórico de operações
+        this.uiManager.addEventListener('historyUnlockButton', 'click', () => {
+            this.handleHistoryUnlock();
+        });
+
+        this.uiManager.addEventListener('historyLockButton', 'click', () => {
+            this.history.lock();
+            this.refreshHistory();
+        });
+
+        this.uiManager.addEventListener('historyEntries', 'change', () => {
+            this.handleHistorySelection();
+        });
+
+        this.uiManager.addEventListener('historyRestoreButton', 'click', () => {
+            this.handleHistoryRestore();
+        });
+
+        this.uiManager.addEventListener('historyRerunButton', 'click', () => {
+            this.handleHistoryRerun();
+        });
+
+        this.uiManager.addEventListener('historyExportButton', 'click', () => {
+            this.handleHistoryExport();
+        });
+
+        this.uiManager.addEventListener('historyClearButton', 'click', () => {
+            this.handleHistoryClear();
+        });
+    }
+
+    /**
+     * Obtém o modo de entrada da chave selecionado na interface
+     * @returns Modo de entrada da chave
+     */
+    private getKeyMode(): KeyInputMode {
+        const mode = this.uiManager.getInputValues().keyMode;
+        return mode === 'passphrase' || mode === 'vault' ? mode : 'hex';
+    }
+
+    /**
+     * Monta a configuração a partir do algoritmo e do tamanho de chave guardados
+     * @returns Configuração guardada ou undefined para usar a padrão
+     */
+    private storedConfig(): AESConfig | undefined {
+        const settings = this.settingsStore.loadCipherSettings();
+        return settings ? AESCrypto.createConfig(settings.algorithm, settings.keyLength) : undefined;
+    }
+
+    /**
+     * Obtém o algoritmo e o tamanho de chave em uso
+     * @returns Algoritmo e tamanho da chave da configuração atual
+     */
+    public getCipherSettings(): CipherSettings {
+        const { algorithm, keyLength } = this.aesCrypto.getConfig();
+        return { algorithm, keyLength };
+    }
+
+    /**
+     * Obtém o algoritmo e o tamanho de chave selecionados na interface
+     * @returns Seleção da interface, com os valores atuais no lugar dos ausentes ou inválidos
+     */
+    private getSelectedCipherSettings(): CipherSettings {
+        const current = this.getCipherSettings();
+        const { cipherAlgorithm, keyLength } = this.uiManager.getInputValues();
+        const bits = Number(keyLength);
+
+        return {
+            algorithm: cipherAlgorithm === 'AES-GCM' || cipherAlgorithm === 'AES-CBC' || cipherAlgorithm === 'AES-CTR'
+                ? cipherAlgorithm as CryptoAlgorithm
+                : current.algorithm,
+            keyLength: bits === 128 || bits === 192 || bits === 256 ? bits as KeyLength : current.keyLength
+        };
+    }
+
+    /**
+     * Obtém a codificação de saída selecionada na interface
+     * @returns Codificação selecionada ou undefined para usar a da configuração
+     */
+    private getOutputEncoding(): DataEncoding | undefined {
+        const value = this.uiManager.getInputValues().outputEncoding;
+        return value === 'hex' || value === 'base64' || value === 'base64url' ? value : undefined;
+    }
+
+    /**
+     * Descreve as codificações detectadas nos campos usados na decriptação
+     * @param inputs Inputs validados
+     * @returns Texto legível para exibição
+     */
+    private describeDetectedEncodings(inputs: CryptoInputs): string {
+        const labels: Record<DataEncoding, string> = {
+            hex: 'hexadecimal',
+            base64: 'Base64',
+            base64url: 'Base64URL'
+        };
+        const preferred = this.aesCrypto.getConfig().outputEncoding;
+        const describe = (value: string): string => {
+            const encoding = this.cryptoUtils.detectEncoding(value, preferred);
+            return encoding ? labels[encoding] : 'não reconhecida';
+        };
+
+        const parts = [`dados: ${describe(inputs.decryptData)}`];
+        if (inputs.keyMode === 'hex' && inputs.keyHex) {
+            parts.unshift(`chave: ${describe(inputs.keyHex)}`);
+        }
+        if (inputs.ivHex && !this.aesCrypto.isEnvelope(inputs.decryptData)) {
+            parts.push(`IV: ${describe(inputs.ivHex)}`);
+        }
+
+        return `Codificação detectada - ${parts.join(', ')}`;
+    }
+
+    /**
+     * Manipula a troca do algoritmo ou do tamanho da chave
+     * Recria o motor de criptografia, guarda a escolha e confere a chave e o IV atuais
+     */
+    private handleCipherSettingsChange(): void {
+        const settings = this.getSelectedCipherSettings();
+
+        try {
+            this.setCipherSettings(settings);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido';
+            this.uiManager.setCipherSettings(this.getCipherSettings(), this.aesCrypto.getConfig().ivLength);
+            this.uiManager.showError(`Erro ao trocar o algoritmo: ${message}`);
+            return;
+        }
+
+        const description = `${settings.algorithm} com chave de ${settings.keyLength} bits`;
+        const mismatches = this.describeSizeMismatches();
+
+        if (mismatches.length === 0) {
+            this.uiManager.showInfo(`Algoritmo alterado para ${description}.`);
+            return;
+        }
+
+        const problem = mismatches.join(' e ');
+        if (confirm(`${problem[0].toUpperCase()}${problem.slice(1)} para ${description}. Gerar novos valores?`)) {
+            this.handleGenerateKey();
+        } else {
+            this.uiManager.showWarning(`Algoritmo alterado para ${description}, mas ${problem}. Use "Gerar Chaves" antes de encriptar.`);
+        }
+    }
+
+    /**
+     * Troca o algoritmo e o tamanho da chave usados nas próximas operações
+     * Decriptações de envelopes e arquivos continuam usando os parâmetros do próprio cabeçalho
+     * @param settings Algoritmo e tamanho da chave
+     * @throws Error se a configuração for inválida
+     */
+    public setCipherSettings(settings: CipherSettings): void {
+        const config = AESCrypto.createConfig(settings.algorithm, settings.keyLength);
+        const outputEncoding = this.aesCrypto.getConfig().outputEncoding;
+        if (outputEncoding) {
+            config.outputEncoding = outputEncoding;
+        }
+
+        this.aesCrypto = new AESCrypto(config);
+        this.fileCrypto = new FileCrypto(this.aesCrypto);
+        // Handles importados ficam vinculados ao algoritmo anterior
+        this.keyHandleCache = null;
+        this.uiManager.setCipherSettings(settings, config.ivLength);
+        this.validateFields();
+
+        try {
+            this.settingsStore.saveCipherSettings(settings);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido';
+            this.uiManager.showWarning(`${message}. A escolha vale apenas para esta sessão.`);
+        }
+    }
+
+    /**
+     * Confere a chave e o IV informados contra os tamanhos da configuração atual
+     * Só a chave digitada no modo hexadecimal é conferida: a derivada é refeita na próxima
+     * encriptação e a do cofre tem tamanho próprio
+     * @returns Descrição de cada valor incompatível (vazia se tudo servir)
+     */
+    private describeSizeMismatches(): string[] {
+        const { keyLength, ivLength } = this.aesCrypto.getConfig();
+        const { keyHex, ivHex } = this.uiManager.getInputValues();
+        const byteLength = (value: string): number | null => {
+            try {
+                return this.cryptoUtils.decodeData(value).bytes.length;
+            } catch {
+                return null;
+            }
+        };
+        const mismatches: string[] = [];
+
+        if (this.getKeyMode() === 'hex' && keyHex && byteLength(keyHex) !== keyLength / 8) {
+            mismatches.push(`a chave atual não tem ${keyLength} bits`);
+        }
+
+        if (ivHex && byteLength(ivHex) !== ivLength) {
+            mismatches.push(`o IV atual não tem ${ivLength} bytes`);
+        }
+
+        return mismatches;
+    }
+
+    /**
+     * Valida a chave, o IV e o texto cifrado e habilita os botões de encriptar e decriptar
+     * A chave digitada só é exigida no modo hexadecimal; o IV, apenas sem a geração
+     * automática (na encriptação) ou fora do envelope (na decriptação)
+     */
+    private validateFields(): void {
+        const { keyHex, ivHex, decryptData } = this.uiManager.getInputValues();
+        const config = this.aesCrypto.getConfig();
+        const autoIv = this.uiManager.isAutoIVEnabled();
+
+        const key = this.inputValidator.validateKey(keyHex, config.keyLength, config.outputEncoding);
+        const iv = this.inputValidator.validateIV(ivHex, config.ivLength, config.algorithm, config.outputEncoding);
+        const ciphertext = this.inputValidator.validateCiphertext(decryptData, config);
+
+        this.uiManager.showFieldValidation('aesKey', key);
+        this.uiManager.showFieldValidation('iv', iv.state === 'empty' && autoIv
+            ? { state: 'empty', message: 'Um IV novo é gerado a cada encriptação.' }
+            : iv);
+        this.uiManager.showFieldValidation('decryptInput', ciphertext);
+
+        const usable = (validation: FieldValidation): boolean => validation.state === 'valid' || validation.state === 'warning';
+        const keyReady = this.getKeyMode() !== 'hex' || usable(key);
+
+        this.uiManager.setElementEnabled('encryptButton', keyReady && (autoIv || usable(iv)));
+        this.uiManager.setElementEnabled('decryptButton', keyReady && usable(ciphertext) && (ciphertext.envelope === true || usable(iv)));
+    }
+
+    /**
+     * Manipula a troca do modo de entrada da chave
+     */
+    private handleKeyModeChange(): void {
+        const mode = this.getKeyMode();
+        this.uiManager.setKeyMode(mode);
+
+        if (mode === 'passphrase') {
+            // A chave passa a ser derivada da frase-senha
+            this.uiManager.updateOutputValues({ aesKey: '', kdfParams: '' });
+            this.uiManager.showInfo('Modo frase-senha ativado: a chave será derivada com PBKDF2.');
+        } else if (mode === 'vault') {
+            this.uiManager.showInfo('Modo cofre ativado: a chave selecionada no cofre será usada sem ser exibida.');
+        } else {
+            this.uiManager.showInfo('Modo chave hexadecimal ativado.');
+        }
+    }
+
+    /**
+     * Manipula a geração de nova chave e IV
+     */
+    private handleGenerateKey(): void {
+        try {
+            const { key, iv } = this.aesCrypto.generateKeyAndIV(this.getOutputEncoding());
+
+            if (this.getKeyMode() === 'vault') {
+                // A chave vem do cofre; apenas um novo IV é necessário
+                this.uiManager.updateOutputValues({ iv });
+                this.uiManager.showSuccess('Novo IV gerado com sucesso! Use "Nova Chave no Cofre" para criar uma chave.');
+                return;
+            }
+
+            if (this.getKeyMode() === 'passphrase') {
+                // No modo frase-senha gera-se um novo sal no lugar da chave
+                this.uiManager.updateOutputValues({
+                    aesKey: '',
+                    iv: iv,
+                    salt: this.keyDerivation.generateSalt(),
+                    kdfParams: ''
+                });
+
+                this.uiManager.showSuccess('Novo sal e IV gerados com sucesso!');
+                return;
+            }
+            
+            this.uiManager.updateOutputValues({
+                aesKey: key,
+                iv: iv
+            });
+
+            this.uiManager.showSuccess('Nova chave AES e IV gerados com sucesso!');
+            
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao gerar chave';
+            this.uiManager.showError(`Erro ao gerar chave: ${message}`);
+        }
+    }
+
+    /**
+     * Manipula o processo de encriptação
+     */
+    private async handleEncrypt(): Promise<void> {
+        try {
+            const inputs = this.getValidatedInputs('encrypt');
+            
+            if (!inputs.encryptData) {
+                this.uiManager.showError('Digite o texto a ser encriptado.');
+                return;
+            }
+
+            const signingKey = this.signingKeyForEncryption();
+
+            this.uiManager.showInfo('Encriptando dados...');
+
+            const { key, kdf } = await this.resolveKey(inputs, 'encrypt');
+            const { ivHex, reused } = await this.claimIV(key, inputs);
+            const keyHandle = await this.toKeyHandle(key);
+            const outputEncoding = this.getOutputEncoding();
+            let encryptedData: string;
+
+            if (this.uiManager.isEnvelopeEnabled()) {
+                const options: EnvelopeOptions = { additionalData: inputs.additionalData };
+                if (kdf) {
+                    options.kdf = kdf;
+                }
+                if (outputEncoding) {
+                    options.outputEncoding = outputEncoding;
+                }
+                encryptedData = await this.aesCrypto.encryptToEnvelope(inputs.encryptData, keyHandle, ivHex, options);
+            } else {
+                const options: CipherOptions = { additionalData: inputs.additionalData };
+                if (outputEncoding) {
+                    options.outputEncoding = outputEncoding;
+                }
+                encryptedData = await this.aesCrypto.encrypt(inputs.encryptData, keyHandle, ivHex, options);
+            }
+
+            this.uiManager.updateOutputValues({
+                encryptedOutput: encryptedData
+            });
+            // Envelopes já carregam o IV; sem envelope, a assinatura e o histórico precisam dele também
+            const bareIv = this.aesCrypto.isEnvelope(encryptedData) ? undefined : ivHex;
+            await this.signEncryptedOutput(encryptedData, signingKey, bareIv);
+            this.showUsedIV(ivHex, reused, 'Dados encriptados com sucesso!');
+            await this.recordHistory(key, inputs, {
+                operation: 'encrypt',
+                algorithm: this.aesCrypto.getConfig().algorithm,
+                inputSize: new TextEncoder().encode(inputs.encryptData).length,
+                ...(bareIv ? { iv: bareIv } : {}),
+                input: inputs.encryptData,
+                output: encryptedData
+            });
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido na encriptação';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Manipula o processo de decriptação
+     * Envelopes são detectados automaticamente e fornecem algoritmo, IV e parâmetros de derivação
+     */
+    private async handleDecrypt(): Promise<void> {
+        try {
+            const inputs = this.getValidatedInputs('decrypt');
+            
+            if (!inputs.decryptData) {
+                this.uiManager.showError('Digite os dados a serem decriptados.');
+                return;
+            }
+
+            this.uiManager.showInfo('Decriptando dados...');
+            this.uiManager.updateOutputValues({ detectedEncoding: this.describeDetectedEncodings(inputs) });
+
+            const encryptedBytes = new Uint8Array(this.cryptoUtils.decodeData(inputs.decryptData).bytes);
+            let algorithm = this.aesCrypto.getConfig().algorithm;
+            let bareIv: string | undefined;
+            let key: KeyInput;
+            let decryptedBytes: Uint8Array;
+
+            if (this.aesCrypto.isEnvelope(encryptedBytes)) {
+                const envelope = this.aesCrypto.readEnvelope(encryptedBytes);
+                this.uiManager.updateOutputValues({ iv: envelope.ivHex });
+                algorithm = envelope.algorithm;
+
+                ({ key } = await this.resolveKey(inputs, 'decrypt', envelope));
+                // Com AES-CBC ou AES-CTR selecionado, aceita envelopes sem autenticação apenas do
+                // mesmo algoritmo, como já acontece com o texto cifrado fora do envelope
+                decryptedBytes = await this.aesCrypto.decryptEnvelopeBytes(
+                    encryptedBytes,
+                    key,
+                    { additionalData: inputs.additionalData, allowUnauthenticated: true }
+                );
+            } else {
+                if (!inputs.ivHex) {
+                    throw new Error('IV é obrigatório para decriptar dados fora do formato de envelope.');
+                }
+
+                bareIv = inputs.ivHex;
+                ({ key } = await this.resolveKey(inputs, 'decrypt'));
+                decryptedBytes = await this.aesCrypto.decryptBytes(
+                    encryptedBytes,
+                    await this.toKeyHandle(key),
+                    inputs.ivHex,
+                    { additionalData: inputs.additionalData }
+                );
+            }
+
+            this.uiManager.showSuccess(this.showDecryptedBytes(decryptedBytes)
+                ? 'Dados decriptados com sucesso! O conteúdo não é texto e foi exibido em formato binário.'
+                : 'Dados decriptados com sucesso!');
+
+            await this.recordHistory(key, inputs, {
+                operation: 'decrypt',
+                algorithm,
+                inputSize: encryptedBytes.length,
+                ...(bareIv ? { iv: bareIv } : {}),
+                input: inputs.decryptData,
+                output: this.uiManager.getInputValues().encryptData
+            });
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido na decriptação';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Exibe o resultado da decriptação
+     * Conteúdo que não é texto UTF-8 é exibido sem perdas em hexadecimal ou Base64
+     * @param bytes Bytes decriptados
+     * @returns true se o conteúdo foi exibido como binário
+     */
+    private showDecryptedBytes(bytes: Uint8Array): boolean {
+        this.lastDecryptedBytes = bytes;
+
+        const binary = !this.cryptoUtils.isValidUtf8(bytes);
+        const encoding: DataEncoding = this.uiManager.getInputValues().binaryViewEncoding === 'base64' ? 'base64' : 'hex';
+
+        this.uiManager.updateOutputValues({
+            decryptedOutput: binary ? this.cryptoUtils.encodeBytes(bytes, encoding) : new TextDecoder().decode(bytes)
+        });
+        this.uiManager.setBinaryView(binary);
+
+        return binary;
+    }
+
+    /**
+     * Manipula a seleção de um arquivo
+     * @param file Arquivo escolhido pelo usuário
+     */
+    private async handleFileSelected(file: File): Promise<void> {
+        this.selectedFile = file;
+        this.uiManager.showSelectedFile(file);
+
+        const encrypted = await this.fileCrypto.isEncryptedFile(file);
+        this.uiManager.showInfo(encrypted
+            ? `Arquivo encriptado selecionado: ${file.name}. Use "Decriptar Arquivo".`
+            : `Arquivo selecionado: ${file.name}. Use "Encriptar Arquivo".`);
+    }
+
+    /**
+     * Manipula a encriptação do arquivo selecionado
+     */
+    private async handleEncryptFile(): Promise<void> {
+        try {
+            if (!this.selectedFile) {
+                this.uiManager.showError('Selecione ou arraste um arquivo para encriptar.');
+                return;
+            }
+
+            const inputs = this.getValidatedInputs('encrypt');
+            this.uiManager.showInfo(`Encriptando ${this.selectedFile.name}...`);
+
+            const { key, kdf } = await this.resolveKey(inputs, 'encrypt');
+            const file = this.selectedFile;
+            let result: EncryptedFile;
+
+            if (file.size >= FileCrypto.STREAM_THRESHOLD) {
+                // Arquivos grandes são encriptados em segmentos, com progresso e cancelamento
+                const options: StreamEncryptOptions = {
+                    ...this.startFileProgress(file.size),
+                    additionalData: inputs.additionalData
+                };
+                if (kdf) {
+                    options.kdf = kdf;
+                }
+
+                result = await this.fileCrypto.encryptFileStream(file, key, options);
+            } else {
+                const options: EnvelopeOptions = { additionalData: inputs.additionalData };
+                if (kdf) {
+                    options.kdf = kdf;
+                }
+
+                const { ivHex, reused } = await this.claimIV(key, inputs);
+                result = await this.fileCrypto.encryptFile(file, key, ivHex, options);
+                this.showUsedIV(ivHex, reused);
+            }
+
+            this.uiManager.downloadBlob(result.blob, result.fileName);
+
+            this.uiManager.showSuccess(`Arquivo encriptado com sucesso: ${result.fileName}`);
+
+        } catch (error) {
+            this.showFileError(error, 'Erro desconhecido na encriptação do arquivo');
+        } finally {
+            this.stopFileProgress();
+        }
+    }
+
+    /**
+     * Manipula a decriptação do arquivo selecionado
+     * Algoritmo, IV e parâmetros de derivação são lidos do próprio arquivo
+     */
+    private async handleDecryptFile(): Promise<void> {
+        try {
+            if (!this.selectedFile) {
+                this.uiManager.showError('Selecione ou arraste um arquivo encriptado para decriptar.');
+                return;
+            }
+
+            const inputs = this.getValidatedInputs('decrypt');
+            this.uiManager.showInfo(`Decriptando ${this.selectedFile.name}...`);
+
+            const header = await this.fileCrypto.readHeader(this.selectedFile);
+            const { key } = await this.resolveKey(inputs, 'decrypt', header);
+
+            const result = await this.fileCrypto.decryptFile(this.selectedFile, key, {
+                ...this.startFileProgress(this.selectedFile.size),
+                additionalData: inputs.additionalData
+            });
+            this.uiManager.downloadBlob(result.blob, result.metadata.name);
+
+            this.uiManager.showSuccess(`Arquivo decriptado com sucesso: ${result.metadata.name}`);
+
+        } catch (error) {
+            this.showFileError(error, 'Erro desconhecido na decriptação do arquivo');
+        } finally {
+            this.stopFileProgress();
+        }
+    }
+
+    /**
+     * Prepara a barra de progresso e o cancelamento do processamento de um arquivo
+     * @param totalBytes Tamanho do arquivo sendo processado
+     * @returns Callback de progresso e sinal de cancelamento para o FileCrypto
+     */
+    private startFileProgress(totalBytes: number): StreamOptions {
+        this.fileAbortController = new AbortController();
+        this.uiManager.setFileProgress(0);
+
+        return {
+            onProgress: processed => this.uiManager.setFileProgress(totalBytes > 0 ? processed / totalBytes : 1),
+            signal: this.fileAbortController.signal
+        };
+    }
+
+    /**
+     * Esconde a barra de progresso e descarta o controle de cancelamento
+     */
+    private stopFileProgress(): void {
+        this.fileAbortController = null;
+        this.uiManager.setFileProgress(null);
+    }
+
+    /**
+     * Exibe o erro do processamento de um arquivo
+     * O cancelamento pelo usuário é informado como aviso, e não como erro
+     * @param error Erro capturado
+     * @param fallback Mensagem para erros desconhecidos
+     */
+    private showFileError(error: unknown, fallback: string): void {
+        if (error instanceof Error && error.name === 'AbortError') {
+            this.uiManager.showInfo('Processamento do arquivo cancelado.');
+            return;
+        }
+
+        const message = error instanceof Error ? error.message : fallback;
+        this.uiManager.showError(message);
+    }
+
+    /**
+     * Obtém e valida os inputs da interface
+     * Na decriptação o IV pode vir do envelope, por isso só é exigido na encriptação
+     * @param operation Tipo de operação
+     * @returns Inputs validados
+     * @throws Error se os inputs forem inválidos
+     */
+    private getValidatedInputs(operation: CryptoOperation): CryptoInputs {
+        const inputs = this.uiManager.getInputValues();
+        
+        // Mapear para o formato esperado
+        const cryptoInputs: CryptoInputs = {
+            keyHex: inputs.keyHex,
+            ivHex: inputs.ivHex,
+            encryptData: inputs.encryptData,
+            decryptData: inputs.decryptData,
+            additionalData: inputs.additionalData,
+            keyMode: this.getKeyMode(),
+            passphrase: inputs.passphrase,
+            saltHex: inputs.saltHex,
+            vaultKeyId: inputs.vaultKeyId
+        };
+
+        // Com a geração automática, a encriptação usa um IV novo e o campo pode ficar vazio
+        const ivMissing = operation === 'encrypt' && !cryptoInputs.ivHex && !this.uiManager.isAutoIVEnabled();
+
+        // Validações básicas
+        if (cryptoInputs.keyMode === 'passphrase') {
+            if (!cryptoInputs.passphrase || ivMissing) {
+                throw new Error('Frase-senha e IV são obrigatórios. Use "Gerar Chaves" para criar um IV.');
+            }
+        } else if (cryptoInputs.keyMode === 'vault') {
+            if (!cryptoInputs.vaultKeyId || ivMissing) {
+                throw new Error('Selecione uma chave do cofre e informe o IV. Use "Gerar Chaves" para criar um IV.');
+            }
+        } else if (!cryptoInputs.keyHex || ivMissing) {
+            throw new Error('Chave AES e IV são obrigatórios. Use "Gerar Chaves" se necessário.');
+        }
+
+        return cryptoInputs;
+    }
+
+    /**
+     * Obtém a chave a ser usada na operação
+     * No modo frase-senha deriva a chave com PBKDF2 e exibe o sal e os parâmetros usados;
+     * no modo cofre usa o handle da chave selecionada, sem expor seu material
+     * @param inputs Inputs validados
+     * @param operation Tipo de operação
+     * @param header Cabeçalho do envelope ou stream sendo decriptado (opcional), cujos parâmetros prevalecem
+     * @returns Promise com a chave (texto ou handle) e os parâmetros de derivação, se houver
+     * @throws Error se o sal estiver ausente na decriptação
+     */
+    private async resolveKey(
+        inputs: CryptoInputs,
+        operation: CryptoOperation,
+        header?: Pick<EnvelopeHeader, 'keyLength' | 'kdf'>
+    ): Promise<{ key: KeyInput; kdf?: KDFParameters }> {
+        if (inputs.keyMode === 'vault') {
+            return { key: await this.vaultFor(inputs.vaultKeyId).getKey(inputs.vaultKeyId) };
+        }
+
+        if (inputs.keyMode !== 'passphrase') {
+            return { key: inputs.keyHex };
+        }
+
+        let derived: DerivedKeyResult;
+
+        if (header) {
+            if (!header.kdf) {
+                throw new Error('Este envelope não foi gerado a partir de uma frase-senha. Use o modo chave hexadecimal.');
+            }
+
+            derived = await this.keyDerivation.deriveFromParameters(inputs.passphrase, header.keyLength, header.kdf);
+        } else {
+            if (operation === 'decrypt' && !inputs.saltHex) {
+                throw new Error('Informe o sal usado na encriptação para derivar a chave.');
+            }
+
+            derived = await this.keyDerivation.deriveFromPassphrase(
+                inputs.passphrase,
+                this.aesCrypto.getConfig().keyLength,
+                inputs.saltHex || undefined
+            );
+        }
+
+        this.uiManager.updateOutputValues({
+            aesKey: derived.keyHex,
+            salt: derived.saltHex,
+            kdfParams: this.keyDerivation.describeParameters(derived)
+        });
+
+        return { key: derived.keyHex, kdf: this.keyDerivation.toParameters(derived) };
+    }
+
+    /**
+     * Escolhe o IV de uma encriptação e registra o par chave/IV
+     * Com a geração automática ativa (ou sem IV informado) usa um IV novo; o reuso de um
+     * par já registrado é recusado no AES-CTR e no AES-GCM e apenas sinalizado no AES-CBC
+     * @param key Chave resolvida da operação
+     * @param inputs Inputs validados (IV informado e chave do cofre)
+     * @param requestedIv IV explícito, que prevalece sobre a geração automática (opcional)
+     * @returns Promise com o IV a usar e se ele já tinha sido usado com esta chave
+     * @throws Error se o IV já foi usado com esta chave no AES-CTR ou no AES-GCM
+     */
+    private async claimIV(key: KeyInput, inputs: Pick<CryptoInputs, 'ivHex' | 'keyMode' | 'vaultKeyId'>, requestedIv?: string): Promise<{ ivHex: string; reused: boolean }> {
+        const { algorithm, ivLength } = this.aesCrypto.getConfig();
+        const ivHex = requestedIv
+            || (this.uiManager.isAutoIVEnabled() ? '' : inputs.ivHex)
+            || this.cryptoUtils.generateRandomIV(ivLength);
+
+        const keyFingerprint = await this.ivRegistry.fingerprint(key, inputs.keyMode === 'vault' ? inputs.vaultKeyId : undefined);
+        const reused = await this.ivRegistry.isUsed(keyFingerprint, ivHex);
+
+        if (reused && algorithm !== 'AES-CBC') {
+            throw new Error(`Este IV já foi usado com esta chave. No ${algorithm}, repetir o par chave/IV expõe o texto em claro`
+                + `${algorithm === 'AES-GCM' ? ' e permite forjar mensagens' : ''}. Gere um IV novo ou marque "Gerar IV novo a cada encriptação".`);
+        }
+
+        await this.ivRegistry.register(keyFingerprint, ivHex);
+        return { ivHex, reused };
+    }
+
+    /**
+     * Exibe o IV usado junto do texto cifrado e avisa se ele estava repetido
+     * @param ivHex IV usado na encriptação
+     * @param reused Se o IV já tinha sido usado com esta chave (só permitido no AES-CBC)
+     * @param successMessage Mensagem de sucesso quando não houver reuso (opcional)
+     */
+    private showUsedIV(ivHex: string, reused: boolean, successMessage?: string): void {
+        if (reused) {
+            this.uiManager.showUsedIV(ivHex, 'já usado antes com esta chave');
+            this.uiManager.showWarning('Atenção: este IV já tinha sido usado com esta chave. No AES-CBC, mensagens com o mesmo início ficam reconhecíveis. Gere um IV novo.');
+            return;
+        }
+
+        this.uiManager.showUsedIV(ivHex);
+        if (successMessage) {
+            this.uiManager.showSuccess(successMessage);
+        }
+    }
+
+    /**
+     * Converte a chave resolvida em handle, reutilizando a importação quando possível
+     * @param key Chave em texto ou handle
+     * @returns Promise com o handle da chave
+     */
+    private async toKeyHandle(key: KeyInput): Promise<KeyInput> {
+        return typeof key === 'string' ? await this.getKeyHandle(key) : key;
+    }
+
+    /**
+     * Exporta a chave atual para um arquivo no formato escolhido
+     */
+    private async handleExportKey(): Promise<void> {
+        const format = this.uiManager.getInputValues().keyExportFormat as KeyExportFormat;
+        let passphrase: string | undefined;
+
+        if (format === 'bundle') {
+            passphrase = prompt('Frase-senha para proteger o pacote de chave:') ?? '';
+            if (!passphrase) {
+                this.uiManager.showWarning('Exportação cancelada: o pacote protegido exige uma frase-senha.');
+                return;
+            }
+        }
+
+        const exported = await this.exportKey(format, passphrase);
+        if (exported === null) return;
+
+        if (format === 'raw') {
+            const bytes = new Uint8Array(this.cryptoUtils.hexToUint8Array(exported));
+            this.uiManager.downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), 'chave-aes.key');
+        } else {
+            const fileName = format === 'jwk' ? 'chave-aes.jwk' : 'chave-aes.bundle.json';
+            this.uiManager.downloadBlob(new Blob([exported], { type: 'application/json' }), fileName);
+        }
+
+        this.uiManager.showSuccess('Chave exportada com sucesso!');
+    }
+
+    /**
+     * Importa uma chave a partir de um arquivo
+     * Arquivos de texto são lidos como JWK, pacote protegido ou chave em hex/Base64;
+     * os demais, como bytes brutos
+     * @param file Arquivo de chave escolhido
+     */
+    private async handleImportKeyFile(file: File): Promise<void> {
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            const text = this.cryptoUtils.isValidUtf8(bytes) ? new TextDecoder().decode(bytes).trim() : '';
+
+            if (!text || (!text.startsWith('{') && this.cryptoUtils.detectEncoding(text) === null)) {
+                await this.importKey(bytes);
+                return;
+            }
+
+            let passphrase: string | undefined;
+            if (this.keyCodec.detectFormat(text) === 'bundle') {
+                passphrase = prompt('Frase-senha do pacote de chave:') ?? '';
+                if (!passphrase) {
+                    this.uiManager.showWarning('Importação cancelada: o pacote protegido exige uma frase-senha.');
+                    return;
+                }
+            }
+
+            await this.importKey(text, passphrase);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao importar chave';
+            this.uiManager.showError(`Erro ao importar chave: ${message}`);
+        }
+    }
+
+    /**
+     * Gera um novo par de chaves para receber mensagens híbridas
+     * A chave privada é exportável para que possa ser guardada pelo usuário
+     */
+    private async handleHybridGenerate(): Promise<void> {
+        try {
+            const algorithm = this.uiManager.getInputValues().hybridAlgorithm as PublicKeyAlgorithm;
+
+            this.uiManager.showInfo('Gerando par de chaves...');
+            await this.setHybridKeyPair(await this.hybridCrypto.generateKeyPair(algorithm, { extractable: true }));
+
+            this.uiManager.showSuccess('Par de chaves gerado. Exporte a chave privada para não perdê-la ao recarregar a página.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao gerar par de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Importa o par de chaves local a partir de um arquivo PEM com a chave privada
+     * @param file Arquivo com a chave privada (PKCS #8)
+     */
+    private async handleHybridImport(file: File): Promise<void> {
+        try {
+            await this.setHybridKeyPair(await this.hybridCrypto.importKeyPair(await file.text(), { extractable: true }));
+            this.uiManager.showSuccess('Chave privada importada com sucesso!');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao importar chave privada';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Exporta a chave privada local para um arquivo PEM
+     */
+    private async handleHybridExport(): Promise<void> {
+        try {
+            if (!this.hybridKeyPair) {
+                this.uiManager.showWarning('Nenhum par de chaves para exportar.');
+                return;
+            }
+
+            const pem = await this.hybridCrypto.exportPrivateKey(this.hybridKeyPair.privateKey);
+            this.uiManager.downloadBlob(new Blob([pem], { type: 'application/x-pem-file' }), 'chave-privada.pem');
+
+            this.uiManager.showSuccess('Chave privada exportada. Guarde o arquivo em local seguro.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao exportar chave privada';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Encripta o texto para as chaves públicas informadas como destinatários
+     */
+    private async handleHybridEncrypt(): Promise<void> {
+        try {
+            const inputs = this.uiManager.getInputValues();
+
+            if (!inputs.encryptData) {
+                this.uiManager.showError('Digite o texto a ser encriptado.');
+                return;
+            }
+
+            const recipients = await this.parseRecipients(inputs.hybridRecipients);
+            if (this.uiManager.isHybridKeyIncluded()) {
+                recipients.push(await this.currentKeyCredential());
+            }
+
+            if (recipients.length === 0) {
+                this.uiManager.showError('Informe pelo menos um destinatário: chave pública (PEM), chave simétrica ou frase-senha.');
+                return;
+            }
+
+            const signingKey = this.signingKeyForEncryption();
+
+            this.uiManager.showInfo('Encriptando dados...');
+
+            const outputEncoding = this.getOutputEncoding();
+            const encryptedData = await this.hybridCrypto.encrypt(inputs.encryptData, recipients, outputEncoding
+                ? { additionalData: inputs.additionalData, outputEncoding }
+                : { additionalData: inputs.additionalData });
+
+            this.uiManager.updateOutputValues({
+                encryptedOutput: encryptedData
+            });
+            await this.signEncryptedOutput(encryptedData, signingKey);
+
+            this.uiManager.showSuccess(`Dados encriptados para ${recipients.length} destinatário(s)!`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido na encriptação';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Decripta uma mensagem híbrida com o par de chaves local ou a chave atual
+     */
+    private async handleHybridDecrypt(): Promise<void> {
+        try {
+            const inputs = this.uiManager.getInputValues();
+            const credentials = await this.hybridCredentials();
+
+            if (credentials.length === 0) {
+                this.uiManager.showError('Gere ou importe o seu par de chaves, ou informe a chave ou frase-senha, para decriptar.');
+                return;
+            }
+
+            const encryptedBytes = this.getHybridMessage();
+            if (!encryptedBytes) return;
+
+            this.uiManager.showInfo('Decriptando dados...');
+
+            const decryptedBytes = await this.hybridCrypto.decryptBytes(encryptedBytes, credentials, {
+                additionalData: inputs.additionalData
+            });
+
+            if (this.showDecryptedBytes(decryptedBytes)) {
+                this.uiManager.showSuccess('Dados decriptados com sucesso! O conteúdo não é texto e foi exibido em formato binário.');
+                return;
+            }
+
+            this.uiManager.showSuccess('Dados decriptados com sucesso!');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido na decriptação';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Lista os destinatários da mensagem no campo de decriptação
+     */
+    private async handleHybridReadSlots(): Promise<void> {
+        try {
+            const encryptedBytes = this.getHybridMessage();
+            if (!encryptedBytes) return;
+
+            await this.showHybridRecipients(encryptedBytes);
+            this.uiManager.showSuccess('Destinatários lidos do cabeçalho da mensagem.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao ler destinatários';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Adiciona destinatários à mensagem no campo de decriptação
+     * A chave de conteúdo é obtida com o par local ou a chave atual; o texto cifrado não muda
+     */
+    private async handleHybridAddRecipients(): Promise<void> {
+        try {
+            const credentials = await this.hybridCredentials();
+
+            if (credentials.length === 0) {
+                this.uiManager.showError('Para adicionar destinatários é preciso abrir a mensagem: carregue o seu par de chaves ou informe a chave ou frase-senha.');
+                return;
+            }
+
+            const encryptedBytes = this.getHybridMessage();
+            if (!encryptedBytes) return;
+
+            const recipients = await this.parseRecipients(this.uiManager.getInputValues().hybridRecipients);
+            if (recipients.length === 0) {
+                this.uiManager.showError('Informe no campo de destinatários quem deve ser adicionado.');
+                return;
+            }
+
+            this.uiManager.showInfo('Adicionando destinatários...');
+
+            const updated = await this.hybridCrypto.addRecipients(encryptedBytes, credentials, recipients);
+            await this.setHybridMessage(updated);
+
+            this.uiManager.showSuccess(`${recipients.length} destinatário(s) adicionado(s) sem reencriptar o conteúdo.`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao adicionar destinatários';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Revoga o destinatário selecionado na mensagem do campo de decriptação
+     */
+    private async handleHybridRevoke(): Promise<void> {
+        try {
+            const slotId = this.uiManager.getInputValues().hybridSlotId;
+
+            if (!slotId) {
+                this.uiManager.showWarning('Leia os destinatários da mensagem e selecione o que deve ser revogado.');
+                return;
+            }
+
+            const encryptedBytes = this.getHybridMessage();
+            if (!encryptedBytes) return;
+
+            await this.setHybridMessage(this.hybridCrypto.removeRecipient(encryptedBytes, slotId));
+
+            this.uiManager.showSuccess('Destinatário revogado. Cópias anteriores da mensagem continuam decriptáveis por ele.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao revogar destinatário';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Lê a mensagem híbrida do campo de decriptação
+     * @returns Bytes da mensagem ou null (com erro exibido) se o campo for inválido
+     */
+    private getHybridMessage(): Uint8Array<ArrayBuffer> | null {
+        const decryptData = this.uiManager.getInputValues().decryptData;
+
+        if (!decryptData || this.cryptoUtils.detectEncoding(decryptData) === null) {
+            this.uiManager.showError('Digite os dados a serem decriptados (hexadecimal, Base64 ou Base64URL).');
+            return null;
+        }
+
+        return new Uint8Array(this.cryptoUtils.decodeData(decryptData).bytes);
+    }
+
+    /**
+     * Substitui a mensagem do campo de decriptação e atualiza a lista de destinatários
+     * @param bytes Mensagem híbrida alterada
+     */
+    private async setHybridMessage(bytes: Uint8Array): Promise<void> {
+        this.uiManager.updateOutputValues({
+            encryptedOutput: this.cryptoUtils.encodeBytes(bytes, this.getOutputEncoding() ?? this.aesCrypto.getConfig().outputEncoding ?? 'hex')
+        });
+
+        await this.showHybridRecipients(bytes);
+    }
+
+    /**
+     * Exibe os destinatários de uma mensagem, destacando o par local
+     * @param bytes Mensagem híbrida
+     */
+    private async showHybridRecipients(bytes: Uint8Array): Promise<void> {
+        const ownFingerprint = this.hybridKeyPair ? await this.hybridCrypto.fingerprint(this.hybridKeyPair.publicKey) : undefined;
+        this.uiManager.showHybridRecipients(this.hybridCrypto.readRecipients(bytes), ownFingerprint);
+    }
+
+    /**
+     * Reúne as credenciais disponíveis para abrir uma mensagem híbrida
+     * @returns Promise com o par local (se houver) e a chave atual (se informada)
+     */
+    private async hybridCredentials(): Promise<RecipientCredential[]> {
+        const credentials: RecipientCredential[] = this.hybridKeyPair ? [this.hybridKeyPair] : [];
+        const inputs = this.uiManager.getInputValues();
+        const mode = this.getKeyMode();
+
+        if ((mode === 'hex' && inputs.keyHex) || (mode === 'passphrase' && inputs.passphrase) || (mode === 'vault' && inputs.vaultKeyId)) {
+            credentials.push(await this.currentKeyCredential());
+        }
+
+        return credentials;
+    }
+
+    /**
+     * Obtém a chave da seção de chaves como destinatário ou credencial de um slot simétrico
+     * @returns Promise com a chave (hexadecimal ou handle do cofre) ou a frase-senha
+     * @throws Error se a chave atual não estiver informada
+     */
+    private async currentKeyCredential(): Promise<{ key: KeyInput } | { passphrase: string }> {
+        const inputs = this.uiManager.getInputValues();
+
+        switch (this.getKeyMode()) {
+            case 'passphrase':
+                if (!inputs.passphrase) {
+                    throw new Error('Informe a frase-senha para usá-la como destinatário.');
+                }
+                return { passphrase: inputs.passphrase };
+            case 'vault':
+                if (!inputs.vaultKeyId) {
+                    throw new Error('Selecione uma chave do cofre para usá-la como destinatário.');
+                }
+                return { key: await this.vaultFor(inputs.vaultKeyId).getKey(inputs.vaultKeyId) };
+            default:
+                if (!inputs.keyHex) {
+                    throw new Error('Informe a chave AES para usá-la como destinatário.');
+                }
+                return { key: inputs.keyHex };
+        }
+    }
+
+    /**
+     * Define o par de chaves local e exibe a chave pública
+     * @param keyPair Par de chaves RSA-OAEP ou ECDH P-256
+     */
+    private async setHybridKeyPair(keyPair: CryptoKeyPair): Promise<void> {
+        this.hybridKeyPair = keyPair;
+
+        const algorithm = this.hybridCrypto.algorithmOf(keyPair.publicKey);
+        const fingerprint = await this.hybridCrypto.fingerprint(keyPair.publicKey);
+
+        this.uiManager.showHybridKeyPair(
+            await this.hybridCrypto.exportPublicKey(keyPair.publicKey),
+            `${algorithm} - impressão digital ${fingerprint}`
+        );
+    }
+
+    /**
+     * Interpreta os destinatários informados
+     * Blocos PEM (ou chaves SPKI em Base64) são chaves públicas; linhas "chave: <hex>"
+     * são chaves AES-GCM e linhas "frase-senha: <texto>" são frases-senha
+     * @param text Destinatários, um por linha
+     * @returns Promise com os destinatários
+     * @throws Error se alguma chave pública for inválida
+     */
+    private async parseRecipients(text: string): Promise<RecipientInput[]> {
+        const pemPattern = /-----BEGIN PUBLIC KEY-----[\s\S]*?-----END PUBLIC KEY-----/g;
+        const publicKeys: string[] = [...text.match(pemPattern) ?? []];
+        const recipients: RecipientInput[] = [];
+
+        for (const line of text.replace(pemPattern, '\n').split('\n').map(item => item.trim()).filter(Boolean)) {
+            const match = /^(chave|frase-senha):\s*(.+)$/i.exec(line);
+
+            if (!match) {
+                publicKeys.push(...line.split(/\s+/));
+            } else if (match[1].toLowerCase() === 'chave') {
+                recipients.push({ key: match[2] });
+            } else {
+                recipients.push({ passphrase: match[2] });
+            }
+        }
+
+        return [...await Promise.all(publicKeys.map(block => this.hybridCrypto.importPublicKey(block))), ...recipients];
+    }
+
+    /**
+     * Gera um novo par de chaves de assinatura
+     * A chave privada é exportável para que possa ser guardada pelo usuário
+     */
+    private async handleSignatureGenerate(): Promise<void> {
+        try {
+            const algorithm = this.uiManager.getInputValues().signatureAlgorithm as SignatureAlgorithm;
+
+            this.uiManager.showInfo('Gerando par de chaves de assinatura...');
+            await this.setSigningKeyPair(await this.signatureCrypto.generateKeyPair(algorithm, { extractable: true }));
+
+            this.uiManager.showSuccess('Par de chaves de assinatura gerado. Exporte a chave privada para não perdê-la ao recarregar a página.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao gerar par de chaves de assinatura';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Importa o par de chaves de assinatura a partir de um arquivo PEM com a chave privada
+     * @param file Arquivo com a chave privada (PKCS #8)
+     */
+    private async handleSignatureImport(file: File): Promise<void> {
+        try {
+            await this.setSigningKeyPair(await this.signatureCrypto.importKeyPair(await file.text(), { extractable: true }));
+            this.uiManager.showSuccess('Chave de assinatura importada com sucesso!');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao importar chave de assinatura';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Exporta a chave privada de assinatura para um arquivo PEM
+     */
+    private async handleSignatureExport(): Promise<void> {
+        try {
+            if (!this.signingKeyPair) {
+                this.uiManager.showWarning('Nenhum par de chaves de assinatura para exportar.');
+                return;
+            }
+
+            const pem = await this.signatureCrypto.exportPrivateKey(this.signingKeyPair.privateKey);
+            this.uiManager.downloadBlob(new Blob([pem], { type: 'application/x-pem-file' }), 'chave-assinatura.pem');
+
+            this.uiManager.showSuccess('Chave de assinatura exportada. Guarde o arquivo em local seguro.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao exportar chave de assinatura';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Verifica a assinatura do conteúdo encriptado contra as chaves públicas conhecidas
+     * O par de assinatura local também é considerado conhecido
+     */
+    private async handleVerifySignature(): Promise<void> {
+        try {
+            const inputs = this.uiManager.getInputValues();
+
+            if (!inputs.decryptData || this.cryptoUtils.detectEncoding(inputs.decryptData) === null) {
+                this.uiManager.showError('Informe o conteúdo encriptado a verificar (hexadecimal, Base64 ou Base64URL).');
+                return;
+            }
+
+            if (!inputs.signature || this.cryptoUtils.detectEncoding(inputs.signature) === null) {
+                this.uiManager.showError('Informe a assinatura (hexadecimal, Base64 ou Base64URL).');
+                return;
+            }
+
+            const knownKeys = await this.parseSigningKeys(inputs.trustedSigningKeys);
+            if (this.signingKeyPair) {
+                knownKeys.push(this.signingKeyPair.publicKey);
+            }
+
+            if (knownKeys.length === 0) {
+                this.uiManager.showError('Informe pelo menos uma chave pública conhecida (PEM) ou carregue o seu par de assinatura.');
+                return;
+            }
+
+            const encryptedBytes = new Uint8Array(this.cryptoUtils.decodeData(inputs.decryptData).bytes);
+            const selfDescribing = this.aesCrypto.isEnvelope(encryptedBytes) || this.hybridCrypto.isHybrid(encryptedBytes);
+
+            if (!selfDescribing && !inputs.ivHex) {
+                this.uiManager.showError('Informe o IV usado na encriptação: sem envelope, a assinatura cobre o IV e os dados encriptados.');
+                return;
+            }
+
+            const verification = await this.signatureCrypto.verifyWithKeys(
+                selfDescribing ? encryptedBytes : this.aesCrypto.signedContent(encryptedBytes, inputs.ivHex),
+                new Uint8Array(this.cryptoUtils.decodeData(inputs.signature).bytes),
+                knownKeys
+            );
+            const ownFingerprint = this.signingKeyPair ? await this.signatureCrypto.fingerprint(this.signingKeyPair.publicKey) : undefined;
+            this.uiManager.showSignatureStatus(verification, ownFingerprint);
+
+            if (verification.valid) {
+                this.uiManager.showSuccess(`Assinatura válida da chave ${verification.fingerprint}.`);
+            } else {
+                this.uiManager.showError('A assinatura não confere com nenhuma chave conhecida: o conteúdo pode ter sido alterado.');
+            }
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido na verificação da assinatura';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Obtém a chave privada que deve assinar a próxima encriptação
+     * @returns Chave privada de assinatura ou null se a opção não estiver marcada
+     * @throws Error se a opção estiver marcada sem um par de assinatura carregado
+     */
+    private signingKeyForEncryption(): CryptoKey | null {
+        if (!this.uiManager.isSignOnEncryptEnabled()) {
+            return null;
+        }
+
+        if (!this.signingKeyPair) {
+            throw new Error('Gere ou importe um par de chaves de assinatura para assinar a encriptação.');
+        }
+
+        return this.signingKeyPair.privateKey;
+    }
+
+    /**
+     * Assina o resultado de uma encriptação e exibe a assinatura destacada
+     * Sem chave de assinatura, a assinatura anterior é apagada para não ser confundida com a nova saída
+     * @param encryptedData Dados encriptados como exibidos
+     * @param signingKey Chave privada de assinatura ou null
+     * @param iv IV da saída sem envelope, assinado junto dos dados (omitido quando a saída já o carrega)
+     */
+    private async signEncryptedOutput(encryptedData: string, signingKey: CryptoKey | null, iv?: string): Promise<void> {
+        this.uiManager.showSignatureStatus(null);
+
+        if (!signingKey) {
+            this.uiManager.updateOutputValues({ signature: '' });
+            return;
+        }
+
+        const decoded = this.cryptoUtils.decodeData(encryptedData);
+        const signature = await this.signatureCrypto.sign(
+            iv ? this.aesCrypto.signedContent(decoded.bytes, iv) : new Uint8Array(decoded.bytes),
+            signingKey
+        );
+        this.uiManager.updateOutputValues({ signature: this.cryptoUtils.encodeBytes(signature, decoded.encoding) });
+    }
+
+    /**
+     * Define o par de chaves de assinatura local e exibe a chave pública
+     * @param keyPair Par de chaves ECDSA P-256 ou Ed25519
+     */
+    private async setSigningKeyPair(keyPair: CryptoKeyPair): Promise<void> {
+        this.signingKeyPair = keyPair;
+
+        const algorithm = this.signatureCrypto.algorithmOf(keyPair.publicKey);
+        const fingerprint = await this.signatureCrypto.fingerprint(keyPair.publicKey);
+
+        this.uiManager.showSigningKeyPair(
+            await this.signatureCrypto.exportPublicKey(keyPair.publicKey),
+            `${algorithm} - impressão digital ${fingerprint}`
+        );
+    }
+
+    /**
+     * Interpreta as chaves públicas de verificação conhecidas
+     * @param text Blocos PEM (ou chaves SPKI em Base64, uma por linha)
+     * @returns Promise com as chaves públicas
+     * @throws Error se alguma chave for inválida
+     */
+    private async parseSigningKeys(text: string): Promise<CryptoKey[]> {
+        const pemPattern = /-----BEGIN PUBLIC KEY-----[\s\S]*?-----END PUBLIC KEY-----/g;
+        const blocks: string[] = [...text.match(pemPattern) ?? []];
+        blocks.push(...text.replace(pemPattern, '\n').split(/\s+/).filter(Boolean));
+
+        return await Promise.all(blocks.map(block => this.signatureCrypto.importPublicKey(block)));
+    }
+
+    /**
+     * Calcula o resumo ou o HMAC do texto do painel de resumos
+     */
+    private async handleHashText(): Promise<void> {
+        try {
+            const result = await this.hashCrypto.hashText(this.uiManager.getInputValues().hashInput, this.getHashOptions());
+            this.showHashResult(result, 'texto');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cálculo do hash';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Calcula o resumo ou o HMAC de um arquivo
+     * @param file Arquivo escolhido
+     */
+    private async handleHashFile(file: File): Promise<void> {
+        try {
+            this.uiManager.showInfo(`Calculando o hash de ${file.name}...`);
+
+            const result = await this.hashCrypto.hashFile(file, this.getHashOptions());
+            this.showHashResult(result, `arquivo ${file.name}`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cálculo do hash do arquivo';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Monta as opções do cálculo a partir do painel de resumos
+     * A chave do HMAC é lida como texto UTF-8, hexadecimal ou Base64, conforme o seletor
+     * @returns Função de hash e, se informada, a chave do HMAC
+     * @throws Error se a chave não estiver na codificação escolhida
+     */
+    private getHashOptions(): HashOptions {
+        const inputs = this.uiManager.getInputValues();
+        const options: HashOptions = { algorithm: inputs.hashAlgorithm as HashAlgorithm };
+
+        if (!inputs.hmacKey) {
+            return options;
+        }
+
+        if (inputs.hmacKeyFormat === 'hex') {
+            if (!this.cryptoUtils.isValidHex(inputs.hmacKey.trim())) {
+                throw new Error('Chave do HMAC deve estar em hexadecimal.');
+            }
+            options.hmacKey = new Uint8Array(this.cryptoUtils.hexToUint8Array(inputs.hmacKey.trim()));
+        } else if (inputs.hmacKeyFormat === 'base64') {
+            if (!this.cryptoUtils.isValidBase64(inputs.hmacKey.trim())) {
+                throw new Error('Chave do HMAC deve estar em Base64.');
+            }
+            options.hmacKey = new Uint8Array(this.cryptoUtils.base64ToUint8Array(inputs.hmacKey.trim()));
+        } else {
+            options.hmacKey = new TextEncoder().encode(inputs.hmacKey);
+        }
+
+        return options;
+    }
+
+    /**
+     * Exibe um resumo e, se houver resumo esperado, o resultado da conferência
+     * @param result Resumo ou HMAC calculado
+     * @param source Descrição da origem (texto ou nome do arquivo)
+     */
+    private showHashResult(result: HashResult, source: string): void {
+        const label = `${result.hmac ? 'HMAC-' : ''}${result.algorithm} do ${source}`;
+        const expected = this.uiManager.getInputValues().hashExpected;
+
+        if (!expected) {
+            this.uiManager.showHashResult(result, label);
+            this.uiManager.showSuccess(`${label} calculado.`);
+        } else if (this.cryptoUtils.detectEncoding(expected) !== null
+            && this.cryptoUtils.constantTimeEqual(new Uint8Array(this.cryptoUtils.decodeData(expected).bytes), result.bytes)) {
+            this.uiManager.showHashResult(result, `${label}: confere com o valor esperado.`);
+            this.uiManager.showSuccess(`${label} confere com o valor esperado.`);
+        } else {
+            this.uiManager.showHashResult(result, `${label}: NÃO confere com o valor esperado.`);
+            this.uiManager.showError(`${label} não confere com o valor esperado.`);
+        }
+
+        if (result.algorithm === 'SHA-1' && !result.hmac) {
+            this.uiManager.showWarning('SHA-1 tem colisões conhecidas: use-o apenas para conferir checksums legados.');
+        }
+    }
+
+    /**
+     * Atualiza a lista de chaves do cofre na interface
+     * @param selectedId Chave a manter selecionada (opcional)
+     */
+    private async refreshVault(selectedId?: string): Promise<void> {
+        if (!this.keyVault.isSupported()) return;
+
+        try {
+            const keys = [...await this.keyVault.list(), ...await this.protectedVault.list()];
+            this.vaultEntries = keys.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+            this.uiManager.showVaultKeys(this.vaultEntries, selectedId);
+            this.uiManager.setVaultLocked(this.protectedVault.isLocked(), await this.protectedVault.isInitialized());
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Manipula a seleção de uma chave do cofre
+     */
+    private async handleVaultSelection(): Promise<void> {
+        const { vaultKeyId } = this.uiManager.getInputValues();
+
+        try {
+            this.uiManager.showVaultKeyInfo(vaultKeyId ? await this.vaultFor(vaultKeyId).getInfo(vaultKeyId) : null);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Gera uma nova chave diretamente no cofre
+     * Com o cofre protegido desbloqueado, a chave é encapsulada pela chave mestra
+     */
+    private async handleVaultGenerate(): Promise<void> {
+        try {
+            const label = this.uiManager.getInputValues().vaultLabel || `Chave ${new Date().toLocaleString('pt-BR')}`;
+            const useProtected = !this.protectedVault.isLocked();
+            const handle = await this.aesCrypto.generateKey({ extractable: useProtected });
+            const info = useProtected
+                ? await this.protectedVault.store(handle, label)
+                : await this.keyVault.store(handle, label);
+
+            await this.refreshVault(info.id);
+            this.selectVaultMode();
+
+            this.uiManager.showSuccess(`Chave "${info.label}" gerada e guardada no cofre${useProtected ? ' protegido' : ''}.`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Guarda no cofre a chave digitada e a remove do campo
+     * Sem o cofre protegido, a chave é guardada como não exportável; com ele
+     * desbloqueado, é encapsulada pela chave mestra
+     */
+    private async handleVaultStore(): Promise<void> {
+        try {
+            const inputs = this.uiManager.getInputValues();
+
+            if (this.getKeyMode() !== 'hex' || !inputs.keyHex) {
+                this.uiManager.showError('Informe uma chave no modo chave hexadecimal para guardá-la no cofre.');
+                return;
+            }
+
+            if (!inputs.vaultLabel.trim()) {
+                this.uiManager.showError('Informe um nome para a chave.');
+                return;
+            }
+
+            const useProtected = !this.protectedVault.isLocked();
+            const handle = await this.aesCrypto.importKey(inputs.keyHex, { extractable: useProtected });
+            const info = useProtected
+                ? await this.protectedVault.store(handle, inputs.vaultLabel)
+                : await this.keyVault.store(handle, inputs.vaultLabel);
+            this.keyHandleCache = null;
+
+            await this.refreshVault(info.id);
+            this.selectVaultMode();
+
+            this.uiManager.showSuccess(`Chave "${info.label}" guardada no cofre${useProtected ? ' protegido' : ''} e removida do campo.`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
     }
 
     /**
-     * Inicializa todos os event listeners da aplicação
+     * Renomeia a chave selecionada no cofre
      */
-    private initializeEventListeners(): void {
-        // Gerar nova chave e IV
-        this.uiManager.addEventListener('generateKey', 'click', () => {
-            this.handleGenerateKey();
-        });
+    private async handleVaultRename(): Promise<void> {
+        try {
+            const { vaultKeyId, vaultLabel } = this.uiManager.getInputValues();
 
-        // Encriptar dados
-        this.uiManager.addEventListener('encryptButton', 'click', () => {
-            this.handleEncrypt();
-        });
+            if (!vaultKeyId) {
+                this.uiManager.showError('Selecione uma chave do cofre.');
+                return;
+            }
 
-        // Decriptar dados
-        this.uiManager.addEventListener('decryptButton', 'click', () => {
-            this.handleDecrypt();
-        });
+            const info = await this.vaultFor(vaultKeyId).rename(vaultKeyId, vaultLabel);
+            await this.refreshVault(info.id);
+
+            this.uiManager.showSuccess(`Chave renomeada para "${info.label}".`);
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
     }
 
     /**
-     * Manipula a geração de nova chave e IV
+     * Exclui a chave selecionada do cofre após confirmação
      */
-    private handleGenerateKey(): void {
+    private async handleVaultDelete(): Promise<void> {
         try {
-            const { key, iv } = this.aesCrypto.generateKeyAndIV();
-            
-            this.uiManager.updateOutputValues({
-                aesKey: key,
-                iv: iv
-            });
+            const { vaultKeyId } = this.uiManager.getInputValues();
+
+            if (!vaultKeyId) {
+                this.uiManager.showError('Selecione uma chave do cofre.');
+                return;
+            }
+
+            const vault = this.vaultFor(vaultKeyId);
+            const info = await vault.getInfo(vaultKeyId);
+            if (!confirm(`Excluir a chave "${info.label}"? Dados encriptados com ela não poderão mais ser decriptados.`)) {
+                return;
+            }
+
+            await vault.delete(vaultKeyId);
+            await this.refreshVault();
+
+            this.uiManager.showSuccess(`Chave "${info.label}" excluída do cofre.`);
 
-            this.uiManager.showSuccess('Nova chave AES e IV gerados com sucesso!');
-            
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Erro desconhecido ao gerar chave';
-            this.uiManager.showError(`Erro ao gerar chave: ${message}`);
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
         }
     }
 
     /**
-     * Manipula o processo de encriptação
+     * Desbloqueia o cofre protegido, definindo a frase-senha mestra no primeiro uso
      */
-    private async handleEncrypt(): Promise<void> {
+    private async handleVaultUnlock(): Promise<void> {
         try {
-            const inputs = this.getValidatedInputs();
-            
-            if (!inputs.encryptData) {
-                this.uiManager.showError('Digite o texto a ser encriptado.');
+            const { vaultPassphrase } = this.uiManager.getInputValues();
+
+            if (!vaultPassphrase) {
+                this.uiManager.showError('Informe a frase-senha mestra.');
                 return;
             }
 
-            this.uiManager.showInfo('Encriptando dados...');
+            const initialized = await this.protectedVault.isInitialized();
+            await this.protectedVault.unlock(vaultPassphrase);
+            await this.refreshVault(this.uiManager.getInputValues().vaultKeyId);
 
-            const encryptedData = await this.aesCrypto.encrypt(
-                inputs.encryptData,
-                inputs.keyHex,
-                inputs.ivHex
-            );
+            this.uiManager.showSuccess(initialized
+                ? 'Cofre protegido desbloqueado.'
+                : 'Frase-senha mestra definida. Cofre protegido desbloqueado.');
 
-            this.uiManager.updateOutputValues({
-                encryptedOutput: encryptedData
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Troca a frase-senha mestra, reencapsulando todas as chaves do cofre protegido
+     */
+    private async handleVaultChangePassphrase(): Promise<void> {
+        try {
+            const { vaultPassphrase, vaultNewPassphrase } = this.uiManager.getInputValues();
+
+            if (!vaultPassphrase || !vaultNewPassphrase) {
+                this.uiManager.showError('Informe a frase-senha mestra atual e a nova.');
+                return;
+            }
+
+            await this.protectedVault.changePassphrase(vaultPassphrase, vaultNewPassphrase);
+            await this.refreshVault(this.uiManager.getInputValues().vaultKeyId);
+
+            this.uiManager.showSuccess('Frase-senha mestra alterada. As chaves do cofre protegido foram reencapsuladas.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no cofre de chaves';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Obtém o cofre que guarda uma chave
+     * @param id Identificador da entrada
+     * @returns Cofre protegido, se a entrada for dele, ou o cofre comum
+     */
+    private vaultFor(id: string): KeyVault | ProtectedKeyVault {
+        const entry = this.vaultEntries.find(key => key.id === id);
+        return entry?.protected ? this.protectedVault : this.keyVault;
+    }
+
+    /**
+     * Passa a interface para o modo cofre
+     */
+    private selectVaultMode(): void {
+        this.uiManager.setKeyMode('vault');
+    }
+
+    /**
+     * Atualiza o histórico de operações na interface
+     * @param selectedId Entrada a manter selecionada (opcional)
+     */
+    private async refreshHistory(selectedId?: string): Promise<void> {
+        if (!this.history.isSupported()) return;
+
+        try {
+            this.historyEntries = this.history.isLocked() ? [] : await this.history.list();
+
+            this.uiManager.setHistoryLocked(this.history.isLocked(), await this.history.isInitialized());
+            this.uiManager.showHistory(this.historyEntries, selectedId);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Registra no histórico uma operação concluída, se o histórico estiver desbloqueado
+     * Falhas no registro não desfazem a operação: apenas geram um aviso
+     * @param key Chave usada, da qual é registrada apenas a impressão digital
+     * @param inputs Inputs da operação
+     * @param data Operação, algoritmo, entrada e resultado
+     */
+    private async recordHistory(
+        key: KeyInput,
+        inputs: CryptoInputs,
+        data: Omit<HistoryEntryData, 'keyMode' | 'keyFingerprint'>
+    ): Promise<void> {
+        if (!this.history.isSupported() || this.history.isLocked()) return;
+
+        try {
+            const entry = await this.history.add({
+                ...data,
+                keyMode: inputs.keyMode,
+                keyFingerprint: await this.ivRegistry.fingerprint(key, inputs.keyMode === 'vault' ? inputs.vaultKeyId : undefined)
             });
+            await this.refreshHistory(entry.id);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
+            this.uiManager.showWarning(`A operação foi concluída, mas não foi registrada no histórico: ${message}`);
+        }
+    }
+
+    /**
+     * Obtém a entrada selecionada no histórico
+     * @returns Entrada selecionada ou null, após exibir o erro, se não houver
+     */
+    private getSelectedHistoryEntry(): HistoryEntry | null {
+        const { historyEntryId } = this.uiManager.getInputValues();
+        const entry = this.historyEntries.find(item => item.id === historyEntryId) ?? null;
+
+        if (!entry) {
+            this.uiManager.showError(this.history.isLocked()
+                ? 'Desbloqueie o histórico com a frase-senha do histórico.'
+                : 'Selecione uma operação do histórico.');
+        }
+
+        return entry;
+    }
+
+    /**
+     * Desbloqueia o histórico, definindo a frase-senha no primeiro uso
+     */
+    private async handleHistoryUnlock(): Promise<void> {
+        try {
+            const { historyPassphrase } = this.uiManager.getInputValues();
+
+            if (!historyPassphrase) {
+                this.uiManager.showError('Informe a frase-senha do histórico.');
+                return;
+            }
+
+            const initialized = await this.history.isInitialized();
+            await this.history.unlock(historyPassphrase);
+            await this.refreshHistory();
 
-            this.uiManager.showSuccess('Dados encriptados com sucesso!');
+            this.uiManager.showSuccess(initialized
+                ? 'Histórico desbloqueado. As próximas operações serão registradas.'
+                : 'Frase-senha do histórico definida. As próximas operações serão registradas.');
 
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Erro desconhecido na encriptação';
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
             this.uiManager.showError(message);
         }
     }
 
     /**
-     * Manipula o processo de decriptação
+     * Manipula a seleção de uma entrada do histórico
      */
-    private async handleDecrypt(): Promise<void> {
+    private handleHistorySelection(): void {
+        const { historyEntryId } = this.uiManager.getInputValues();
+        this.uiManager.showHistoryEntryInfo(this.historyEntries.find(entry => entry.id === historyEntryId) ?? null);
+    }
+
+    /**
+     * Restaura a entrada e o resultado da operação selecionada nos editores
+     * Fora do formato de envelope, o IV registrado volta ao campo IV
+     */
+    private handleHistoryRestore(): void {
+        const entry = this.getSelectedHistoryEntry();
+        if (!entry) return;
+
+        this.uiManager.updateOutputValues(entry.operation === 'encrypt'
+            ? { decryptedOutput: entry.input, encryptedOutput: entry.output }
+            : { encryptedOutput: entry.input, decryptedOutput: entry.output });
+        if (entry.iv) {
+            this.uiManager.updateOutputValues({ iv: entry.iv });
+        }
+
+        this.uiManager.showSuccess(`${entry.operation === 'encrypt' ? 'Encriptação' : 'Decriptação'} de `
+            + `${entry.createdAt.toLocaleString('pt-BR')} restaurada nos editores.`);
+    }
+
+    /**
+     * Executa novamente a operação selecionada com a chave e as configurações atuais
+     * Com uma chave digitada diferente da registrada, pede confirmação antes. Decriptações
+     * fora do formato de envelope usam o IV registrado; a encriptação usa as regras de IV atuais
+     */
+    private async handleHistoryRerun(): Promise<void> {
         try {
-            const inputs = this.getValidatedInputs();
-            
-            if (!inputs.decryptData) {
-                this.uiManager.showError('Digite os dados a serem decriptados.');
+            const entry = this.getSelectedHistoryEntry();
+            if (!entry) return;
+
+            if (entry.operation === 'decrypt' && !entry.iv && !this.aesCrypto.isEnvelope(entry.input)) {
+                this.uiManager.showError('Esta decriptação foi registrada sem o IV e não pode ser executada novamente. Restaure-a e informe o IV.');
                 return;
             }
 
-            this.uiManager.showInfo('Decriptando dados...');
+            const { keyHex } = this.uiManager.getInputValues();
+            if (this.getKeyMode() === 'hex' && entry.keyMode === 'hex' && keyHex
+                && await this.ivRegistry.fingerprint(keyHex) !== entry.keyFingerprint
+                && !confirm('A chave atual é diferente da usada nesta operação. Executar mesmo assim?')) {
+                return;
+            }
 
-            const decryptedData = await this.aesCrypto.decrypt(
-                inputs.decryptData,
-                inputs.keyHex,
-                inputs.ivHex
-            );
+            if (entry.operation === 'encrypt') {
+                this.uiManager.updateOutputValues({ decryptedOutput: entry.input });
+                await this.handleEncrypt();
+            } else {
+                this.uiManager.updateOutputValues(entry.iv ? { encryptedOutput: entry.input, iv: entry.iv } : { encryptedOutput: entry.input });
+                await this.handleDecrypt();
+            }
 
-            this.uiManager.updateOutputValues({
-                decryptedOutput: decryptedData
-            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
+            this.uiManager.showError(message);
+        }
+    }
 
-            this.uiManager.showSuccess('Dados decriptados com sucesso!');
+    /**
+     * Exporta o histórico decriptado em JSON após confirmação
+     */
+    private async handleHistoryExport(): Promise<void> {
+        try {
+            if (this.history.isLocked()) {
+                this.uiManager.showError('Desbloqueie o histórico com a frase-senha do histórico.');
+                return;
+            }
+
+            if (!confirm('O arquivo exportado não é encriptado: contém os textos e os resultados de todas as operações. Exportar mesmo assim?')) {
+                return;
+            }
+
+            const exported = await this.history.export();
+            this.uiManager.downloadBlob(new Blob([exported], { type: 'application/json' }), 'historico-aes.json');
+
+            this.uiManager.showSuccess(`Histórico exportado (${this.historyEntries.length} operações).`);
 
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Erro desconhecido na decriptação';
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
             this.uiManager.showError(message);
         }
     }
 
     /**
-     * Obtém e valida os inputs da interface
-     * @returns Inputs validados
-     * @throws Error se os inputs forem inválidos
+     * Apaga todas as entradas e a frase-senha do histórico após confirmação
+     * Não exige o desbloqueio, para permitir recomeçar quando a frase-senha foi esquecida
      */
-    private getValidatedInputs(): CryptoInputs {
-        const inputs = this.uiManager.getInputValues();
-        
-        // Mapear para o formato esperado
-        const cryptoInputs: CryptoInputs = {
-            keyHex: inputs.keyHex,
-            ivHex: inputs.ivHex,
-            encryptData: inputs.encryptData,
-            decryptData: inputs.decryptData
-        };
+    private async handleHistoryClear(): Promise<void> {
+        try {
+            if (!confirm('Apagar todo o histórico de operações e a sua frase-senha? Esta ação não pode ser desfeita.')) {
+                return;
+            }
 
-        // Validações básicas
-        if (!cryptoInputs.keyHex || !cryptoInputs.ivHex) {
-            throw new Error('Chave AES e IV são obrigatórios. Use "Gerar Chaves" se necessário.');
+            await this.history.clear();
+            await this.refreshHistory();
+
+            this.uiManager.showSuccess('Histórico apagado.');
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido no histórico';
+            this.uiManager.showError(message);
+        }
+    }
+
+    /**
+     * Obtém um handle não exportável da chave, importando-a apenas quando ela muda
+     * Operações repetidas com a mesma chave reutilizam a mesma CryptoKey
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL (opcional, usa a da UI se não fornecida)
+     * @returns Promise com o handle vinculado ao algoritmo configurado
+     * @throws Error se a chave estiver ausente ou for inválida
+     */
+    public async getKeyHandle(keyHex?: string): Promise<AESKey> {
+        const source = keyHex || this.uiManager.getInputValues().keyHex;
+
+        if (!source) {
+            throw new Error('Nenhuma chave disponível.');
         }
 
-        return cryptoInputs;
+        if (this.keyHandleCache?.source !== source) {
+            this.keyHandleCache = { source, handle: await this.aesCrypto.importKey(source) };
+        }
+
+        return this.keyHandleCache.handle;
     }
 
     /**
      * Limpa todos os campos da aplicação
      */
     public clearAll(): void {
+        this.lastDecryptedBytes = null;
+        this.keyHandleCache = null;
         this.uiManager.clearAllInputs();
         this.uiManager.clearAllMessages();
         this.uiManager.showInfo('Todos os campos foram limpos.');
@@ -174,66 +2112,112 @@ export class AESCryptoManager {
      * Encripta dados programaticamente
      * @param plainText Texto a ser encriptado
      * @param keyHex Chave em hexadecimal (opcional, usa a da UI se não fornecida)
-     * @param ivHex IV em hexadecimal (opcional, usa o da UI se não fornecido)
+     * @param ivHex IV em hexadecimal (opcional; sem ele segue a política de IV da UI, e o IV usado é exibido)
+     * @param options Opções da operação (opcional, usa o AAD da UI se não fornecido)
      * @returns Promise com dados encriptados
+     * @throws Error se o par chave/IV já foi usado no AES-CTR ou no AES-GCM
      */
-    public async encryptData(plainText: string, keyHex?: string, ivHex?: string): Promise<string> {
+    public async encryptData(plainText: string, keyHex?: string, ivHex?: string, options?: CipherOptions): Promise<string> {
         const inputs = this.uiManager.getInputValues();
         const finalKeyHex = keyHex || inputs.keyHex;
-        const finalIvHex = ivHex || inputs.ivHex;
 
-        if (!finalKeyHex || !finalIvHex) {
-            throw new Error('Chave e IV são obrigatórios para encriptação.');
+        if (!finalKeyHex) {
+            throw new Error('Chave é obrigatória para encriptação.');
+        }
+
+        const { ivHex: finalIvHex, reused } = await this.claimIV(finalKeyHex, { ivHex: inputs.ivHex, keyMode: 'hex', vaultKeyId: '' }, ivHex);
+        const encryptedData = await this.aesCrypto.encrypt(plainText, finalKeyHex, finalIvHex, options ?? { additionalData: inputs.additionalData });
+        this.showUsedIV(finalIvHex, reused);
+        return encryptedData;
+    }
+
+    /**
+     * Encripta dados programaticamente no formato de envelope
+     * @param plainText Texto a ser encriptado
+     * @param keyHex Chave em hexadecimal (opcional, usa a da UI se não fornecida)
+     * @param ivHex IV em hexadecimal (opcional; sem ele segue a política de IV da UI)
+     * @param options Opções do envelope (opcional, usa o AAD da UI se não fornecido)
+     * @returns Promise com o envelope em hexadecimal
+     * @throws Error se o par chave/IV já foi usado no AES-CTR ou no AES-GCM
+     */
+    public async encryptDataToEnvelope(plainText: string, keyHex?: string, ivHex?: string, options?: EnvelopeOptions): Promise<string> {
+        const inputs = this.uiManager.getInputValues();
+        const finalKeyHex = keyHex || inputs.keyHex;
+
+        if (!finalKeyHex) {
+            throw new Error('Chave é obrigatória para encriptação.');
         }
 
-        return await this.aesCrypto.encrypt(plainText, finalKeyHex, finalIvHex);
+        const { ivHex: finalIvHex, reused } = await this.claimIV(finalKeyHex, { ivHex: inputs.ivHex, keyMode: 'hex', vaultKeyId: '' }, ivHex);
+        const envelope = await this.aesCrypto.encryptToEnvelope(plainText, finalKeyHex, finalIvHex, options ?? { additionalData: inputs.additionalData });
+        this.showUsedIV(finalIvHex, reused);
+        return envelope;
     }
 
     /**
      * Decripta dados programaticamente
-     * @param encryptedHex Dados encriptados em hexadecimal
+     * @param encryptedHex Dados encriptados em hexadecimal (texto cifrado puro ou envelope)
      * @param keyHex Chave em hexadecimal (opcional, usa a da UI se não fornecida)
-     * @param ivHex IV em hexadecimal (opcional, usa o da UI se não fornecido)
+     * @param ivHex IV em hexadecimal (opcional, usa o da UI se não fornecido; ignorado para envelopes)
+     * @param options Opções da operação (opcional, usa o AAD da UI se não fornecido)
      * @returns Promise com dados decriptados
+     * @throws AuthenticationError se a verificação de integridade falhar (AES-GCM)
      */
-    public async decryptData(encryptedHex: string, keyHex?: string, ivHex?: string): Promise<string> {
+    public async decryptData(encryptedHex: string, keyHex?: string, ivHex?: string, options?: CipherOptions): Promise<string> {
         const inputs = this.uiManager.getInputValues();
         const finalKeyHex = keyHex || inputs.keyHex;
         const finalIvHex = ivHex || inputs.ivHex;
 
+        if (finalKeyHex && this.aesCrypto.isEnvelope(encryptedHex)) {
+            return await this.aesCrypto.decryptEnvelope(encryptedHex, finalKeyHex, {
+                ...(options ?? { additionalData: inputs.additionalData }),
+                allowUnauthenticated: true
+            });
+        }
+
         if (!finalKeyHex || !finalIvHex) {
             throw new Error('Chave e IV são obrigatórios para decriptação.');
         }
 
-        return await this.aesCrypto.decrypt(encryptedHex, finalKeyHex, finalIvHex);
+        return await this.aesCrypto.decrypt(encryptedHex, finalKeyHex, finalIvHex, options ?? { additionalData: inputs.additionalData });
     }
 
     /**
-     * Importa uma chave e IV específicos
-     * @param keyHex Chave em hexadecimal
-     * @param ivHex IV em hexadecimal
+     * Importa uma chave para o campo de chave
+     * O formato (JWK, pacote protegido ou bytes brutos) é detectado automaticamente,
+     * e a chave precisa ser do algoritmo configurado. O IV não faz parte da chave.
+     * @param data Chave serializada (JWK, pacote em JSON, hex/Base64) ou bytes brutos
+     * @param passphrase Frase-senha do pacote protegido (obrigatória no formato 'bundle')
+     * @returns Promise resolvida após a importação (erros são exibidos na interface)
      */
-    public importKey(keyHex: string, ivHex: string): void {
+    public async importKey(data: string | Uint8Array, passphrase?: string): Promise<void> {
         try {
-            // Validar antes de importar
-            if (!this.cryptoUtils.isValidHex(keyHex) || !this.cryptoUtils.isValidHex(ivHex)) {
-                throw new Error('Chave e IV devem ser strings hexadecimais válidas.');
-            }
+            const algorithm = this.aesCrypto.getConfig().algorithm;
+            const format: KeyExportFormat = typeof data === 'string' ? this.keyCodec.detectFormat(data) : 'raw';
+            let handle: AESKey;
 
-            if (!this.cryptoUtils.isValidKeySize(keyHex)) {
-                throw new Error('Chave deve ter 128, 192 ou 256 bits.');
+            if (format === 'bundle') {
+                if (!passphrase) {
+                    throw new Error('Informe a frase-senha do pacote de chave.');
+                }
+                handle = await this.keyCodec.importBundle(data as string, passphrase, { extractable: true });
+            } else if (format === 'jwk') {
+                handle = await this.keyCodec.importJwk(data as string, { extractable: true });
+            } else {
+                handle = await this.keyCodec.importRaw(typeof data === 'string' ? data : new Uint8Array(data), algorithm, { extractable: true });
             }
 
-            if (!this.cryptoUtils.isValidIVSize(ivHex)) {
-                throw new Error('IV deve ter 128 bits (16 bytes).');
+            if (handle.algorithm !== algorithm) {
+                throw new Error(`Chave foi criada para ${handle.algorithm}, mas a configuração usa ${algorithm}.`);
             }
 
+            this.keyHandleCache = null;
+            this.uiManager.setKeyMode('hex');
             this.uiManager.updateOutputValues({
-                aesKey: keyHex,
-                iv: ivHex
+                aesKey: await handle.export('hex')
             });
 
-            this.uiManager.showSuccess('Chave e IV importados com sucesso!');
+            this.uiManager.showSuccess(`Chave de ${handle.keyLength} bits importada com sucesso!`);
 
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Erro desconhecido ao importar chave';
@@ -242,21 +2226,40 @@ export class AESCryptoManager {
     }
 
     /**
-     * Exporta a chave e IV atuais
-     * @returns Objeto com chave e IV ou null se não disponíveis
+     * Exporta a chave atual em um formato padronizado
+     * O IV não faz parte da chave e não é exportado
+     * @param format Formato desejado (padrão bytes brutos, em hexadecimal)
+     * @param passphrase Frase-senha que protege o pacote (obrigatória no formato 'bundle')
+     * @returns Promise com a chave serializada ou null se não houver chave disponível
      */
-    public exportKey(): { key: string; iv: string } | null {
+    public async exportKey(format: KeyExportFormat = 'raw', passphrase?: string): Promise<string | null> {
         const inputs = this.uiManager.getInputValues();
-        
-        if (!inputs.keyHex || !inputs.ivHex) {
+
+        if (this.getKeyMode() !== 'hex' || !inputs.keyHex) {
             this.uiManager.showWarning('Nenhuma chave disponível para exportação.');
             return null;
         }
 
-        return {
-            key: inputs.keyHex,
-            iv: inputs.ivHex
-        };
+        try {
+            const handle = await this.keyCodec.importRaw(inputs.keyHex, this.aesCrypto.getConfig().algorithm, { extractable: true });
+
+            switch (format) {
+                case 'jwk':
+                    return JSON.stringify(await this.keyCodec.exportJwk(handle), null, 2);
+                case 'bundle':
+                    if (!passphrase) {
+                        throw new Error('Informe uma frase-senha para proteger o pacote de chave.');
+                    }
+                    return JSON.stringify(await this.keyCodec.exportBundle(handle, passphrase), null, 2);
+                default:
+                    return this.cryptoUtils.uint8ArrayToHex(await this.keyCodec.exportRaw(handle));
+            }
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido ao exportar chave';
+            this.uiManager.showError(`Erro ao exportar chave: ${message}`);
+            return null;
+        }
     }
 
     /**
@@ -267,6 +2270,94 @@ export class AESCryptoManager {
         return this.aesCrypto.getConfig();
     }
 
+    /**
+     * Obtém referência ao derivador de chaves
+     * @returns Instância do KeyDerivation
+     */
+    public getKeyDerivation(): KeyDerivation {
+        return this.keyDerivation;
+    }
+
+    /**
+     * Obtém referência ao encriptador de arquivos
+     * @returns Instância do FileCrypto
+     */
+    public getFileCrypto(): FileCrypto {
+        return this.fileCrypto;
+    }
+
+    /**
+     * Obtém referência à criptografia híbrida
+     * @returns Instância do HybridCrypto
+     */
+    public getHybridCrypto(): HybridCrypto {
+        return this.hybridCrypto;
+    }
+
+    /**
+     * Obtém o par de chaves local da criptografia híbrida
+     * @returns Par de chaves ou null se nenhum foi gerado ou importado
+     */
+    public getHybridKeyPair(): CryptoKeyPair | null {
+        return this.hybridKeyPair;
+    }
+
+    /**
+     * Obtém referência às assinaturas digitais
+     * @returns Instância do SignatureCrypto
+     */
+    public getSignatureCrypto(): SignatureCrypto {
+        return this.signatureCrypto;
+    }
+
+    /**
+     * Obtém o par de chaves de assinatura local
+     * @returns Par de chaves ou null se nenhum foi gerado ou importado
+     */
+    public getSigningKeyPair(): CryptoKeyPair | null {
+        return this.signingKeyPair;
+    }
+
+    /**
+     * Obtém referência ao cálculo de resumos e HMAC
+     * @returns Instância do HashCrypto
+     */
+    public getHashCrypto(): HashCrypto {
+        return this.hashCrypto;
+    }
+
+    /**
+     * Obtém referência ao cofre de chaves
+     * @returns Instância do KeyVault
+     */
+    public getKeyVault(): KeyVault {
+        return this.keyVault;
+    }
+
+    /**
+     * Obtém referência ao cofre protegido por frase-senha
+     * @returns Instância do ProtectedKeyVault
+     */
+    public getProtectedKeyVault(): ProtectedKeyVault {
+        return this.protectedVault;
+    }
+
+    /**
+     * Obtém referência ao registro de IVs usados
+     * @returns Instância do IVRegistry
+     */
+    public getIVRegistry(): IVRegistry {
+        return this.ivRegistry;
+    }
+
+    /**
+     * Obtém referência ao histórico de operações
+     * @returns Instância do OperationHistory
+     */
+    public getOperationHistory(): OperationHistory {
+        return this.history;
+    }
+
     /**
      * Obtém referência ao gerenciador de UI
      * @returns Instância do UIManager
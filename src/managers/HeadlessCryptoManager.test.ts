@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeadlessCryptoManager } from './HeadlessCryptoManager.js';
+
+const KEY = '00'.repeat(16);
+const CBC_IV = '11'.repeat(16);
+
+describe('HeadlessCryptoManager — IV repetido', () => {
+    it('no AES-CBC, avisa pela opção onIVReuse e encripta', async () => {
+        const reused: string[] = [];
+        const manager = new HeadlessCryptoManager(
+            { algorithm: 'AES-CBC', keyLength: 128, ivLength: 16 },
+            undefined,
+            { onIVReuse: iv => reused.push(iv) }
+        );
+
+        const first = await manager.encryptData('mensagem', KEY, CBC_IV);
+        assert.deepEqual(reused, []);
+
+        assert.equal(await manager.encryptData('mensagem', KEY, CBC_IV), first);
+        assert.deepEqual(reused, [CBC_IV]);
+    });
+
+    it('no AES-CBC, sem a opção, encripta sem escrever no console', async (t) => {
+        const warn = t.mock.method(console, 'warn', () => undefined);
+        const manager = new HeadlessCryptoManager({ algorithm: 'AES-CBC', keyLength: 128, ivLength: 16 });
+
+        await manager.encryptData('mensagem', KEY, CBC_IV);
+        await manager.encryptData('mensagem', KEY, CBC_IV);
+        assert.equal(warn.mock.callCount(), 0);
+    });
+
+    it('no AES-GCM, recusa o par chave/IV repetido', async () => {
+        const reused: string[] = [];
+        const manager = new HeadlessCryptoManager(undefined, undefined, { onIVReuse: iv => reused.push(iv) });
+        const iv = '22'.repeat(12);
+
+        await manager.encryptData('mensagem', KEY, iv);
+        await assert.rejects(manager.encryptData('mensagem', KEY, iv), /Este IV já foi usado com esta chave/);
+        assert.deepEqual(reused, []);
+    });
+});
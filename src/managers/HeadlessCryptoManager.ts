@@ -0,0 +1,283 @@
+import type {
+    AESConfig,
+    CipherOptions,
+    EnvelopeOptions,
+    HeadlessCryptoManagerOptions,
+    KeyDerivationConfig,
+    KeyExportFormat
+} from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { AESCrypto } from '../crypto/AESCrypto.js';
+import { AESKey } from '../crypto/AESKey.js';
+import { KeyCodec } from '../crypto/KeyCodec.js';
+import { KeyDerivation } from '../crypto/KeyDerivation.js';
+import { IVRegistry } from '../storage/IVRegistry.js';
+
+/**
+ * Gerenciador sem interface para servidores, scripts e testes
+ *
+ * Espelha a API programática do AESCryptoManager (encryptData, decryptData,
+ * importKey, exportKey...) sem UIManager nem DOMElements: chave e IV são
+ * sempre passados pelo chamador e os erros são lançados em vez de exibidos.
+ * Os textos cifrados são compatíveis com os produzidos pela interface.
+ *
+ * A política de IV é a mesma da interface: sem IV, um novo é gerado; um par
+ * chave/IV repetido é recusado no AES-CTR e no AES-GCM e, no AES-CBC, informado
+ * pela opção onIVReuse. Fora do navegador não há IndexedDB, e o registro de IVs
+ * vale apenas para a instância.
+ */
+export class HeadlessCryptoManager {
+    private readonly cryptoUtils: CryptoUtils;
+    private readonly aesCrypto: AESCrypto;
+    private readonly keyDerivation: KeyDerivation;
+    private readonly keyCodec: KeyCodec;
+    private readonly ivRegistry: IVRegistry;
+    private readonly options: HeadlessCryptoManagerOptions;
+    private keyHandleCache: { source: string; handle: AESKey } | null = null;
+    private lastIV: string | null = null;
+
+    /**
+     * Cria uma nova instância do HeadlessCryptoManager
+     * @param config Configurações AES (opcional)
+     * @param kdfConfig Configurações da derivação de chaves por frase-senha (opcional)
+     * @param options Aviso de IV reutilizado no AES-CBC (opcional)
+     */
+    constructor(config?: AESConfig, kdfConfig?: KeyDerivationConfig, options: HeadlessCryptoManagerOptions = {}) {
+        this.cryptoUtils = new CryptoUtils();
+        this.aesCrypto = new AESCrypto(config);
+        this.keyDerivation = new KeyDerivation(kdfConfig);
+        this.keyCodec = new KeyCodec(this.keyDerivation);
+        this.ivRegistry = new IVRegistry();
+        this.options = options;
+    }
+
+    /**
+     * Obtém um handle não exportável da chave, importando-a apenas quando ela muda
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL
+     * @returns Promise com o handle vinculado ao algoritmo configurado
+     * @throws Error se a chave estiver ausente ou for inválida
+     */
+    public async getKeyHandle(keyHex: string): Promise<AESKey> {
+        if (!keyHex) {
+            throw new Error('Nenhuma chave disponível.');
+        }
+
+        if (this.keyHandleCache?.source !== keyHex) {
+            this.keyHandleCache = { source: keyHex, handle: await this.aesCrypto.importKey(keyHex) };
+        }
+
+        return this.keyHandleCache.handle;
+    }
+
+    /**
+     * Gera uma nova chave e um novo IV
+     * @returns Objeto com a nova chave e IV gerados
+     */
+    public generateNewKey(): { key: string; iv: string } {
+        return this.aesCrypto.generateKeyAndIV();
+    }
+
+    /**
+     * Encripta texto
+     * @param plainText Texto a ser encriptado
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL
+     * @param ivHex IV (opcional; sem ele um IV novo é gerado e fica disponível em getLastIV)
+     * @param options Opções da operação (AAD, deslocamento de contador, codificação da saída)
+     * @returns Promise com dados encriptados
+     * @throws Error se o par chave/IV já foi usado no AES-CTR ou no AES-GCM
+     */
+    public async encryptData(plainText: string, keyHex: string, ivHex?: string, options: CipherOptions = {}): Promise<string> {
+        const finalIvHex = await this.claimIV(keyHex, ivHex);
+        return await this.aesCrypto.encrypt(plainText, await this.getKeyHandle(keyHex), finalIvHex, options);
+    }
+
+    /**
+     * Encripta texto no formato de envelope (o IV vai dentro do envelope)
+     * @param plainText Texto a ser encriptado
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL
+     * @param ivHex IV (opcional; sem ele um IV novo é gerado)
+     * @param options Opções do envelope (AAD, parâmetros de derivação, codificação da saída)
+     * @returns Promise com o envelope
+     * @throws Error se o par chave/IV já foi usado no AES-CTR ou no AES-GCM
+     */
+    public async encryptDataToEnvelope(plainText: string, keyHex: string, ivHex?: string, options: EnvelopeOptions = {}): Promise<string> {
+        const finalIvHex = await this.claimIV(keyHex, ivHex);
+        return await this.aesCrypto.encryptToEnvelope(plainText, await this.getKeyHandle(keyHex), finalIvHex, options);
+    }
+
+    /**
+     * Decripta texto
+     * @param encryptedHex Dados encriptados (texto cifrado puro ou envelope)
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL
+     * @param ivHex IV (obrigatório fora do formato de envelope; ignorado para envelopes)
+     * @param options Opções da operação (o AAD deve ser o mesmo da encriptação)
+     * @returns Promise com dados decriptados
+     * @throws AuthenticationError se a verificação de integridade falhar
+     */
+    public async decryptData(encryptedHex: string, keyHex: string, ivHex?: string, options: CipherOptions = {}): Promise<string> {
+        const key = await this.getKeyHandle(keyHex);
+
+        if (this.aesCrypto.isEnvelope(encryptedHex)) {
+            // Envelopes sem autenticação só são aceitos no algoritmo configurado, como o texto cifrado puro
+            return await this.aesCrypto.decryptEnvelope(encryptedHex, key, { ...options, allowUnauthenticated: true });
+        }
+
+        if (!ivHex) {
+            throw new Error('Chave e IV são obrigatórios para decriptação.');
+        }
+
+        return await this.aesCrypto.decrypt(encryptedHex, key, ivHex, options);
+    }
+
+    /**
+     * Obtém o IV usado na última encriptação
+     * Com chamadas concorrentes, prefira informar o IV ou usar envelopes
+     * @returns IV em hexadecimal ou null se nada foi encriptado
+     */
+    public getLastIV(): string | null {
+        return this.lastIV;
+    }
+
+    /**
+     * Importa uma chave serializada
+     * O formato (JWK, pacote protegido ou bytes brutos) é detectado automaticamente,
+     * e a chave precisa ser do algoritmo configurado
+     * @param data Chave serializada (JWK, pacote em JSON, hex/Base64) ou bytes brutos
+     * @param passphrase Frase-senha do pacote protegido (obrigatória no formato 'bundle')
+     * @returns Promise com a chave em hexadecimal
+     * @throws Error se a chave for inválida ou de outro algoritmo
+     */
+    public async importKey(data: string | Uint8Array, passphrase?: string): Promise<string> {
+        try {
+            const algorithm = this.aesCrypto.getConfig().algorithm;
+            const format: KeyExportFormat = typeof data === 'string' ? this.keyCodec.detectFormat(data) : 'raw';
+            let handle: AESKey;
+
+            if (format === 'bundle') {
+                if (!passphrase) {
+                    throw new Error('Informe a frase-senha do pacote de chave.');
+                }
+                handle = await this.keyCodec.importBundle(data as string, passphrase, { extractable: true });
+            } else if (format === 'jwk') {
+                handle = await this.keyCodec.importJwk(data as string, { extractable: true });
+            } else {
+                handle = await this.keyCodec.importRaw(typeof data === 'string' ? data : new Uint8Array(data), algorithm, { extractable: true });
+            }
+
+            if (handle.algorithm !== algorithm) {
+                throw new Error(`Chave foi criada para ${handle.algorithm}, mas a configuração usa ${algorithm}.`);
+            }
+
+            return await handle.export('hex');
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro ao importar chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido ao importar chave');
+        }
+    }
+
+    /**
+     * Exporta uma chave em um formato padronizado
+     * @param keyHex Chave em hexadecimal, Base64 ou Base64URL
+     * @param format Formato desejado (padrão bytes brutos, em hexadecimal)
+     * @param passphrase Frase-senha que protege o pacote (obrigatória no formato 'bundle')
+     * @returns Promise com a chave serializada
+     * @throws Error se a chave for inválida ou faltar a frase-senha do pacote
+     */
+    public async exportKey(keyHex: string, format: KeyExportFormat = 'raw', passphrase?: string): Promise<string> {
+        try {
+            const handle = await this.keyCodec.importRaw(keyHex, this.aesCrypto.getConfig().algorithm, { extractable: true });
+
+            switch (format) {
+                case 'jwk':
+                    return JSON.stringify(await this.keyCodec.exportJwk(handle), null, 2);
+                case 'bundle':
+                    if (!passphrase) {
+                        throw new Error('Informe uma frase-senha para proteger o pacote de chave.');
+                    }
+                    return JSON.stringify(await this.keyCodec.exportBundle(handle, passphrase), null, 2);
+                default:
+                    return this.cryptoUtils.uint8ArrayToHex(await this.keyCodec.exportRaw(handle));
+            }
+
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Erro ao exportar chave: ${error.message}`);
+            }
+            throw new Error('Erro desconhecido ao exportar chave');
+        }
+    }
+
+    /**
+     * Obtém informações sobre a configuração atual
+     * @returns Configurações AES atuais
+     */
+    public getConfig(): Readonly<AESConfig> {
+        return this.aesCrypto.getConfig();
+    }
+
+    /**
+     * Obtém referência ao motor de criptografia AES
+     * @returns Instância do AESCrypto
+     */
+    public getAESCrypto(): AESCrypto {
+        return this.aesCrypto;
+    }
+
+    /**
+     * Obtém referência ao derivador de chaves
+     * @returns Instância do KeyDerivation
+     */
+    public getKeyDerivation(): KeyDerivation {
+        return this.keyDerivation;
+    }
+
+    /**
+     * Obtém referência ao registro de IVs usados
+     * @returns Instância do IVRegistry
+     */
+    public getIVRegistry(): IVRegistry {
+        return this.ivRegistry;
+    }
+
+    /**
+     * Obtém referência ao utilitário de criptografia
+     * @returns Instância do CryptoUtils
+     */
+    public getCryptoUtils(): CryptoUtils {
+        return this.cryptoUtils;
+    }
+
+    /**
+     * Escolhe o IV de uma encriptação e o registra como usado com a chave
+     * No AES-CBC, um IV repetido é informado pela opção onIVReuse
+     * @param keyHex Chave da encriptação
+     * @param requestedIv IV informado pelo chamador (opcional)
+     * @returns Promise com o IV a usar
+     * @throws Error se o par chave/IV já foi usado no AES-CTR ou no AES-GCM
+     */
+    private async claimIV(keyHex: string, requestedIv?: string): Promise<string> {
+        if (!keyHex) {
+            throw new Error('Chave é obrigatória para encriptação.');
+        }
+
+        const { algorithm, ivLength } = this.aesCrypto.getConfig();
+        const ivHex = requestedIv || this.cryptoUtils.generateRandomIV(ivLength);
+
+        const keyFingerprint = await this.ivRegistry.fingerprint(keyHex);
+        if (await this.ivRegistry.isUsed(keyFingerprint, ivHex)) {
+            if (algorithm !== 'AES-CBC') {
+                throw new Error(`Este IV já foi usado com esta chave. No ${algorithm}, repetir o par chave/IV expõe o texto em claro`
+                    + `${algorithm === 'AES-GCM' ? ' e permite forjar mensagens' : ''}. Omita o IV para gerar um novo.`);
+            }
+            // No AES-CBC a repetição só revela mensagens com o mesmo início: cabe ao chamador decidir
+            this.options.onIVReuse?.(ivHex);
+        }
+
+        await this.ivRegistry.register(keyFingerprint, ivHex);
+        this.lastIV = ivHex;
+        return ivHex;
+    }
+}
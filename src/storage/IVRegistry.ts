@@ -0,0 +1,201 @@
+import type { IVRegistryOptions, IVRegistryRecord, KeyInput } from '../types/index.js';
+import { CryptoUtils } from '../utils/CryptoUtils.js';
+import { IndexedDBConnection } from './IndexedDBConnection.js';
+
+/**
+ * Registro dos pares (chave, IV) já usados em encriptações
+ *
+ * Repetir o IV com a mesma chave é catastrófico no AES-CTR e no AES-GCM
+ * (o fluxo de chave se repete e, no GCM, a autenticação pode ser forjada) e
+ * revela prefixos iguais no AES-CBC. Os pares ficam em memória durante a
+ * sessão e, quando há IndexedDB, persistem entre recarregamentos.
+ *
+ * A chave nunca é guardada: apenas uma impressão digital (SHA-256 com
+ * separação de domínio, 16 bytes) do seu material. Handles não exportáveis
+ * não permitem ler o material; para eles usa-se um identificador estável
+ * informado pelo chamador (como o id no cofre) ou, na falta dele, um
+ * identificador válido apenas para a sessão.
+ */
+export class IVRegistry {
+    /** Nome padrão do banco de dados */
+    public static readonly DATABASE_NAME = 'aes-crypto-iv-registry';
+
+    /** Quantidade padrão de pares guardados */
+    public static readonly DEFAULT_MAX_ENTRIES = 10000;
+
+    private static readonly DATABASE_VERSION = 1;
+    private static readonly STORE_NAME = 'ivs';
+    private static readonly FINGERPRINT_LENGTH = 16;
+    private static readonly FINGERPRINT_CONTEXT = 'aes-crypto iv-registry key fingerprint';
+
+    private readonly connection: IndexedDBConnection;
+    private readonly cryptoUtils: CryptoUtils;
+    private readonly maxEntries: number;
+    private readonly sessionEntries = new Set<string>();
+    private readonly sessionKeyIds = new WeakMap<CryptoKey, string>();
+
+    /**
+     * Cria uma nova instância do IVRegistry
+     * @param options Nome do banco de dados e limite de pares guardados
+     */
+    constructor(options: IVRegistryOptions = {}) {
+        this.maxEntries = options.maxEntries ?? IVRegistry.DEFAULT_MAX_ENTRIES;
+
+        if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+            throw new Error('O registro de IVs deve guardar pelo menos um par.');
+        }
+
+        this.connection = new IndexedDBConnection(options.databaseName ?? IVRegistry.DATABASE_NAME, IVRegistry.DATABASE_VERSION, database => {
+            const store = database.createObjectStore(IVRegistry.STORE_NAME, { keyPath: 'id' });
+            store.createIndex('usedAt', 'usedAt');
+        });
+        this.cryptoUtils = new CryptoUtils();
+    }
+
+    /**
+     * Indica se os pares persistem entre recarregamentos
+     * @returns true se houver IndexedDB; caso contrário o registro vale só para a sessão
+     */
+    public isPersistent(): boolean {
+        return this.connection.isSupported();
+    }
+
+    /**
+     * Calcula a impressão digital de uma chave
+     * @param key Chave codificada ou handle
+     * @param stableId Identificador estável de um handle não exportável (ex.: id no cofre)
+     * @returns Promise com a impressão digital em hexadecimal (ou com prefixo "id:"/"sessao:")
+     * @throws Error se a chave codificada for inválida
+     */
+    public async fingerprint(key: KeyInput, stableId?: string): Promise<string> {
+        if (typeof key === 'string') {
+            if (this.cryptoUtils.detectEncoding(key) === null) {
+                throw new Error('Chave deve estar em hexadecimal, Base64 ou Base64URL.');
+            }
+            return await this.digest(new Uint8Array(this.cryptoUtils.decodeData(key).bytes));
+        }
+
+        if (key.extractable) {
+            const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key.cryptoKey));
+            try {
+                return await this.digest(rawKey);
+            } finally {
+                rawKey.fill(0);
+            }
+        }
+
+        if (stableId) {
+            return `id:${stableId}`;
+        }
+
+        let sessionId = this.sessionKeyIds.get(key.cryptoKey);
+        if (!sessionId) {
+            sessionId = `sessao:${this.cryptoUtils.uint8ArrayToHex(this.cryptoUtils.generateRandomBytes(8))}`;
+            this.sessionKeyIds.set(key.cryptoKey, sessionId);
+        }
+        return sessionId;
+    }
+
+    /**
+     * Verifica se um IV já foi usado com a chave
+     * @param keyFingerprint Impressão digital da chave (veja fingerprint)
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     * @returns Promise com true se o par já foi registrado
+     */
+    public async isUsed(keyFingerprint: string, iv: string): Promise<boolean> {
+        const id = this.entryId(keyFingerprint, iv);
+
+        if (this.sessionEntries.has(id)) {
+            return true;
+        }
+
+        if (!this.isPersistent()) {
+            return false;
+        }
+
+        const record = await this.connection.request(IVRegistry.STORE_NAME, 'readonly', store => store.get(id) as IDBRequest<IVRegistryRecord | undefined>);
+        return record !== undefined;
+    }
+
+    /**
+     * Registra o uso de um IV com a chave
+     * Ao passar do limite, os pares mais antigos são descartados
+     * @param keyFingerprint Impressão digital da chave (veja fingerprint)
+     * @param iv IV em hexadecimal, Base64 ou Base64URL
+     */
+    public async register(keyFingerprint: string, iv: string): Promise<void> {
+        const record: IVRegistryRecord = { id: this.entryId(keyFingerprint, iv), usedAt: Date.now() };
+        this.sessionEntries.add(record.id);
+
+        if (!this.isPersistent()) return;
+
+        await this.connection.transaction([IVRegistry.STORE_NAME], 'readwrite', transaction => {
+            const store = transaction.objectStore(IVRegistry.STORE_NAME);
+            store.put(record);
+
+            const countRequest = store.count();
+            countRequest.onsuccess = () => {
+                let excess = countRequest.result - this.maxEntries;
+                if (excess <= 0) return;
+
+                const cursorRequest = store.index('usedAt').openCursor();
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result;
+                    if (!cursor || excess-- <= 0) return;
+
+                    cursor.delete();
+                    cursor.continue();
+                };
+            };
+        });
+    }
+
+    /**
+     * Esquece todos os pares registrados (da sessão e persistidos)
+     */
+    public async clear(): Promise<void> {
+        this.sessionEntries.clear();
+
+        if (!this.isPersistent()) return;
+
+        await this.connection.request(IVRegistry.STORE_NAME, 'readwrite', store => store.clear());
+    }
+
+    /**
+     * Fecha a conexão com o banco de dados
+     */
+    public async close(): Promise<void> {
+        await this.connection.close();
+    }
+
+    /**
+     * Monta o identificador de um par chave/IV
+     * @param keyFingerprint Impressão digital da chave
+     * @param iv IV codificado
+     * @returns Identificador com o IV normalizado para hexadecimal
+     * @throws Error se o IV não estiver em uma codificação suportada
+     */
+    private entryId(keyFingerprint: string, iv: string): string {
+        if (this.cryptoUtils.detectEncoding(iv) === null) {
+            throw new Error('IV deve estar em hexadecimal, Base64 ou Base64URL.');
+        }
+
+        return `${keyFingerprint}:${this.cryptoUtils.uint8ArrayToHex(this.cryptoUtils.decodeData(iv).bytes)}`;
+    }
+
+    /**
+     * Calcula a impressão digital do material de uma chave
+     * @param keyData Bytes da chave
+     * @returns Promise com os primeiros 16 bytes do SHA-256, em hexadecimal
+     */
+    private async digest(keyData: Uint8Array): Promise<string> {
+        const context = new TextEncoder().encode(IVRegistry.FINGERPRINT_CONTEXT);
+        const input = new Uint8Array(context.length + keyData.length);
+        input.set(context);
+        input.set(keyData, context.length);
+
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+        input.fill(0);
+        return this.cryptoUtils.uint8ArrayToHex(hash.subarray(0, IVRegistry.FINGERPRINT_LENGTH));
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Conexão com um banco de dados IndexedDB
+ * Encapsula a abertura (única e preguiçosa) do banco e converte requisições e
+ * transações do IndexedDB em Promises
+ */
+export class IndexedDBConnection {
+    private readonly name: string;
+    private readonly version: number;
+    private readonly upgrade: (database: IDBDatabase) => void;
+    private database: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Cria uma nova conexão (o banco só é aberto na primeira operação)
+     * @param name Nome do banco de dados
+     * @param version Versão do esquema
+     * @param upgrade Função que cria os repositórios quando o banco é criado ou atualizado
+     */
+    constructor(name: string, version: number, upgrade: (database: IDBDatabase) => void) {
+        this.name = name;
+        this.version = version;
+        this.upgrade = upgrade;
+    }
+
+    /**
+     * Verifica se o ambiente oferece IndexedDB
+     * @returns true se o banco pode ser usado
+     */
+    public isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    /**
+     * Executa uma requisição em um repositório e aguarda a conclusão da transação
+     * @param storeName Nome do repositório
+     * @param mode Modo da transação
+     * @param operation Função que cria a requisição
+     * @returns Promise com o resultado da requisição
+     */
+    public async request<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        let request: IDBRequest<T> | undefined;
+
+        await this.transaction([storeName], mode, transaction => {
+            request = operation(transaction.objectStore(storeName));
+        });
+
+        return request!.result;
+    }
+
+    /**
+     * Executa várias operações em uma única transação
+     * Se qualquer operação falhar, nenhuma alteração é gravada
+     * @param storeNames Repositórios envolvidos
+     * @param mode Modo da transação
+     * @param operation Função que enfileira as operações na transação
+     * @returns Promise resolvida quando a transação for concluída
+     */
+    public async transaction(storeNames: string[], mode: IDBTransactionMode, operation: (transaction: IDBTransaction) => void): Promise<void> {
+        const database = await this.open();
+
+        await new Promise<void>((resolve, reject) => {
+            const transaction = database.transaction(storeNames, mode);
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(new Error(`Erro no banco de dados local: ${transaction.error?.message ?? 'erro desconhecido'}`));
+            transaction.onabort = () => reject(new Error(`Erro no banco de dados local: ${transaction.error?.message ?? 'transação cancelada'}`));
+
+            try {
+                operation(transaction);
+            } catch (error) {
+                transaction.abort();
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Fecha a conexão com o banco de dados
+     */
+    public async close(): Promise<void> {
+        if (!this.database) return;
+
+        const database = await this.database;
+        database.close();
+        this.database = null;
+    }
+
+    /**
+     * Abre (uma única vez) o banco de dados
+     * @returns Promise com a conexão
+     * @throws Error se o IndexedDB não estiver disponível
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.isSupported()) {
+            return Promise.reject(new Error('Este navegador não oferece IndexedDB; o armazenamento local não está disponível.'));
+        }
+
+        this.database ??= new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.name, this.version);
+
+            request.onupgradeneeded = () => this.upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                this.database = null;
+                reject(new Error(`Não foi possível abrir o banco de dados local: ${request.error?.message ?? 'erro desconhecido'}`));
+            };
+        });
+
+        return this.database;
+    }
+}
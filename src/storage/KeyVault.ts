@@ -0,0 +1,178 @@
+import type { KeyHandle, VaultKeyInfo, VaultRecord } from '../types/index.js';
+import { AESKey } from '../crypto/AESKey.js';
+import { IndexedDBConnection } from './IndexedDBConnection.js';
+
+/**
+ * Cofre de chaves persistido no IndexedDB
+ *
+ * O IndexedDB armazena objetos CryptoKey diretamente (clonagem estruturada),
+ * inclusive chaves não exportáveis: o material da chave nunca passa por
+ * JavaScript e continua protegido pelo navegador entre recarregamentos.
+ */
+export class KeyVault {
+    /** Nome padrão do banco de dados */
+    public static readonly DATABASE_NAME = 'aes-crypto-vault';
+
+    /** Tamanho máximo do nome de uma chave */
+    public static readonly MAX_LABEL_LENGTH = 100;
+
+    private static readonly DATABASE_VERSION = 1;
+    private static readonly STORE_NAME = 'keys';
+
+    private readonly connection: IndexedDBConnection;
+
+    /**
+     * Cria uma nova instância do KeyVault
+     * @param databaseName Nome do banco de dados IndexedDB (opcional)
+     */
+    constructor(databaseName: string = KeyVault.DATABASE_NAME) {
+        this.connection = new IndexedDBConnection(databaseName, KeyVault.DATABASE_VERSION, database => {
+            database.createObjectStore(KeyVault.STORE_NAME, { keyPath: 'id' });
+        });
+    }
+
+    /**
+     * Verifica se o ambiente oferece IndexedDB
+     * @returns true se o cofre pode ser usado
+     */
+    public isSupported(): boolean {
+        return this.connection.isSupported();
+    }
+
+    /**
+     * Lista as chaves guardadas, da mais antiga para a mais recente
+     * @returns Promise com as informações das chaves (sem o material)
+     */
+    public async list(): Promise<VaultKeyInfo[]> {
+        const records = await this.connection.request(KeyVault.STORE_NAME, 'readonly', store => store.getAll() as IDBRequest<VaultRecord[]>);
+
+        return records
+            .map(record => this.toInfo(record))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    /**
+     * Obtém as informações de uma chave
+     * @param id Identificador da entrada
+     * @returns Promise com as informações da chave
+     * @throws Error se a chave não existir
+     */
+    public async getInfo(id: string): Promise<VaultKeyInfo> {
+        return this.toInfo(await this.getRecord(id));
+    }
+
+    /**
+     * Obtém o handle de uma chave para uso nas operações
+     * @param id Identificador da entrada
+     * @returns Promise com o handle da chave
+     * @throws Error se a chave não existir
+     */
+    public async getKey(id: string): Promise<AESKey> {
+        const record = await this.getRecord(id);
+        return new AESKey(record.key);
+    }
+
+    /**
+     * Guarda uma chave no cofre
+     * @param handle Handle da chave (de preferência não exportável)
+     * @param label Nome da chave
+     * @returns Promise com as informações da nova entrada
+     * @throws Error se o nome for inválido
+     */
+    public async store(handle: KeyHandle, label: string): Promise<VaultKeyInfo> {
+        const record: VaultRecord = {
+            id: crypto.randomUUID(),
+            label: KeyVault.validateLabel(label),
+            createdAt: new Date(),
+            algorithm: handle.algorithm,
+            keyLength: handle.keyLength,
+            key: handle.cryptoKey
+        };
+
+        await this.connection.request(KeyVault.STORE_NAME, 'readwrite', store => store.add(record));
+        return this.toInfo(record);
+    }
+
+    /**
+     * Renomeia uma chave
+     * @param id Identificador da entrada
+     * @param label Novo nome
+     * @returns Promise com as informações atualizadas
+     * @throws Error se a chave não existir ou o nome for inválido
+     */
+    public async rename(id: string, label: string): Promise<VaultKeyInfo> {
+        const record = await this.getRecord(id);
+        record.label = KeyVault.validateLabel(label);
+
+        await this.connection.request(KeyVault.STORE_NAME, 'readwrite', store => store.put(record));
+        return this.toInfo(record);
+    }
+
+    /**
+     * Exclui uma chave do cofre
+     * @param id Identificador da entrada
+     */
+    public async delete(id: string): Promise<void> {
+        await this.connection.request(KeyVault.STORE_NAME, 'readwrite', store => store.delete(id));
+    }
+
+    /**
+     * Fecha a conexão com o banco de dados
+     */
+    public async close(): Promise<void> {
+        await this.connection.close();
+    }
+
+    /**
+     * Lê uma entrada completa do cofre
+     * @param id Identificador da entrada
+     * @returns Promise com a entrada
+     * @throws Error se a chave não existir
+     */
+    private async getRecord(id: string): Promise<VaultRecord> {
+        const record = await this.connection.request(KeyVault.STORE_NAME, 'readonly', store => store.get(id) as IDBRequest<VaultRecord | undefined>);
+
+        if (!record) {
+            throw new Error('Chave não encontrada no cofre.');
+        }
+
+        return record;
+    }
+
+    /**
+     * Remove o material da chave de uma entrada
+     * @param record Entrada do cofre
+     * @returns Informações da chave
+     */
+    private toInfo(record: VaultRecord): VaultKeyInfo {
+        return {
+            id: record.id,
+            label: record.label,
+            createdAt: record.createdAt,
+            algorithm: record.algorithm,
+            keyLength: record.keyLength,
+            protected: false
+        };
+    }
+
+    /**
+     * Valida e normaliza o nome de uma chave
+     * Compartilhado com o cofre protegido por frase-senha
+     * @param label Nome informado
+     * @returns Nome sem espaços nas extremidades
+     * @throws Error se o nome estiver vazio ou for longo demais
+     */
+    public static validateLabel(label: string): string {
+        const trimmed = label.trim();
+
+        if (!trimmed) {
+            throw new Error('Informe um nome para a chave.');
+        }
+
+        if (trimmed.length > KeyVault.MAX_LABEL_LENGTH) {
+            throw new Error(`Nome da chave deve ter no máximo ${KeyVault.MAX_LABEL_LENGTH} caracteres.`);
+        }
+
+        return trimmed;
+    }
+}
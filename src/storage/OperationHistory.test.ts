@@ -0,0 +1,164 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { IDBFactory } from 'fake-indexeddb';
+import type { HistoryEntryData, HistoryRecord } from '../types/index.js';
+import { AuthenticationError } from '../crypto/AuthenticationError.js';
+import { KeyDerivation } from '../crypto/KeyDerivation.js';
+import { IndexedDBConnection } from './IndexedDBConnection.js';
+import { OperationHistory } from './OperationHistory.js';
+
+/** Derivação rápida (mínimo aceito) para os testes */
+const keyDerivation = new KeyDerivation({ iterations: 10000, hash: 'SHA-256', saltLength: 16 });
+
+/**
+ * Dados de uma operação de encriptação
+ * @param input Texto encriptado
+ * @returns Dados a registrar
+ */
+const operation = (input: string): HistoryEntryData => ({
+    operation: 'encrypt',
+    algorithm: 'AES-GCM',
+    keyMode: 'hex',
+    keyFingerprint: 'ab'.repeat(32),
+    inputSize: input.length,
+    input,
+    output: 'cd'.repeat(16)
+});
+
+/**
+ * Abre o banco do histórico diretamente, como faria quem tem acesso ao armazenamento do navegador
+ * @returns Conexão com o esquema já criado pelo OperationHistory
+ */
+const openRawDatabase = (): IndexedDBConnection => new IndexedDBConnection(OperationHistory.DATABASE_NAME, 1, () => undefined);
+
+describe('OperationHistory', () => {
+    beforeEach(() => {
+        // Um IndexedDB em memória novo para cada teste
+        (globalThis as { indexedDB?: IDBFactory }).indexedDB = new IDBFactory();
+    });
+
+    it('sem IndexedDB, informa que não é suportado', () => {
+        delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+        assert.equal(new OperationHistory(keyDerivation).isSupported(), false);
+    });
+
+    it('o primeiro desbloqueio define a frase-senha; depois, frase-senha errada lança AuthenticationError', async () => {
+        const history = new OperationHistory(keyDerivation);
+        assert.equal(await history.isInitialized(), false);
+
+        await history.unlock('frase-senha do histórico');
+        await history.add(operation('mensagem'));
+        history.lock();
+
+        await assert.rejects(history.unlock('outra frase-senha'), (error: unknown) =>
+            error instanceof AuthenticationError && error.message === 'Frase-senha do histórico incorreta.');
+        assert.equal(history.isLocked(), true);
+
+        await history.unlock('frase-senha do histórico');
+        assert.deepEqual((await history.list()).map(entry => entry.input), ['mensagem']);
+        await history.close();
+    });
+
+    it('bloqueado, recusa registrar e listar', async () => {
+        const history = new OperationHistory(keyDerivation);
+
+        await assert.rejects(history.add(operation('x')), /Histórico bloqueado/);
+        await assert.rejects(history.list(), /Histórico bloqueado/);
+        await history.close();
+    });
+
+    it('lista da mais recente para a mais antiga e guarda o IV de operações sem envelope', async () => {
+        const history = new OperationHistory(keyDerivation);
+        await history.unlock('frase-senha');
+
+        await history.add(operation('primeira'));
+        await sleep(2);
+        const second = await history.add({ ...operation('segunda'), operation: 'decrypt', iv: '00'.repeat(12) });
+
+        assert.deepEqual((await history.list()).map(entry => entry.input), ['segunda', 'primeira']);
+
+        const stored = await history.get(second.id);
+        assert.equal(stored.iv, '00'.repeat(12));
+        assert.equal(stored.createdAt.getTime(), second.createdAt.getTime());
+        await history.close();
+    });
+
+    it('ao passar de maxEntries, descarta as entradas mais antigas', async () => {
+        const history = new OperationHistory(keyDerivation, { maxEntries: 3 });
+        await history.unlock('frase-senha');
+
+        for (const input of ['1', '2', '3', '4', '5']) {
+            await history.add(operation(input));
+            await sleep(2);
+        }
+
+        assert.deepEqual((await history.list()).map(entry => entry.input), ['5', '4', '3']);
+        await history.close();
+    });
+
+    it('recusa maxEntries menor que 1', () => {
+        assert.throws(() => new OperationHistory(keyDerivation, { maxEntries: 0 }), /pelo menos uma entrada/);
+    });
+
+    it('entrada alterada no banco lança AuthenticationError', async () => {
+        const history = new OperationHistory(keyDerivation);
+        await history.unlock('frase-senha');
+        const entry = await history.add(operation('pay alice 100'));
+
+        const raw = openRawDatabase();
+        const record = await raw.request('entries', 'readonly', store => store.get(entry.id) as IDBRequest<HistoryRecord>);
+        const data = new Uint8Array(record.data);
+        data[0] ^= 0x01;
+        await raw.request('entries', 'readwrite', store => store.put({ ...record, data: data.buffer }));
+        await raw.close();
+
+        await assert.rejects(history.get(entry.id), (error: unknown) =>
+            error instanceof AuthenticationError && error.message === 'Entrada do histórico alterada ou corrompida.');
+        await assert.rejects(history.list(), AuthenticationError);
+        await history.close();
+    });
+
+    it('entrada copiada para outro identificador lança AuthenticationError', async () => {
+        const history = new OperationHistory(keyDerivation);
+        await history.unlock('frase-senha');
+        const entry = await history.add(operation('pay alice 100'));
+
+        // O identificador é o AAD: o conteúdo não pode ser reaproveitado em outra entrada
+        const raw = openRawDatabase();
+        const record = await raw.request('entries', 'readonly', store => store.get(entry.id) as IDBRequest<HistoryRecord>);
+        await raw.request('entries', 'readwrite', store => store.put({ ...record, id: 'outra-entrada' }));
+        await raw.close();
+
+        await assert.rejects(history.get('outra-entrada'), AuthenticationError);
+        await history.close();
+    });
+
+    it('exporta as entradas decriptadas em JSON', async () => {
+        const history = new OperationHistory(keyDerivation);
+        await history.unlock('frase-senha');
+        const entry = await history.add(operation('mensagem'));
+
+        const exported = JSON.parse(await history.export());
+        assert.equal(exported.format, OperationHistory.EXPORT_FORMAT);
+        assert.equal(exported.entries.length, 1);
+        assert.equal(exported.entries[0].id, entry.id);
+        assert.equal(exported.entries[0].input, 'mensagem');
+        assert.equal(exported.entries[0].createdAt, entry.createdAt.toISOString());
+        await history.close();
+    });
+
+    it('apagar remove as entradas e a frase-senha, sem exigir o desbloqueio', async () => {
+        const history = new OperationHistory(keyDerivation);
+        await history.unlock('frase-senha esquecida');
+        await history.add(operation('mensagem'));
+        history.lock();
+
+        await history.clear();
+        assert.equal(await history.isInitialized(), false);
+
+        await history.unlock('nova frase-senha');
+        assert.deepEqual(await history.list(), []);
+        await history.close();
+    });
+});
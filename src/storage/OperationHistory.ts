@@ -0,0 +1,329 @@
+import type { HistoryEntry, HistoryEntryData, HistoryMasterRecord, HistoryRecord, KDFParameters, OperationHistoryOptions } from '../types/index.js';
+import { AuthenticationError } from '../crypto/AuthenticationError.js';
+import { KeyDerivation } from '../crypto/KeyDerivation.js';
+import { IndexedDBConnection } from './IndexedDBConnection.js';
+
+/**
+ * Histórico das operações de encriptação e decriptação, encriptado no IndexedDB
+ *
+ * Cada entrada é encriptada com AES-GCM por uma chave aleatória do histórico,
+ * que fica encapsulada (AES-KW) por uma chave derivada (PBKDF2) da frase-senha
+ * do usuário, como no cofre protegido. Só o identificador e o momento de cada
+ * entrada ficam visíveis; a chave usada na operação nunca é registrada, apenas
+ * sua impressão digital. A chave do histórico só existe em memória enquanto o
+ * histórico está desbloqueado.
+ */
+export class OperationHistory {
+    /** Nome padrão do banco de dados */
+    public static readonly DATABASE_NAME = 'aes-crypto-history';
+
+    /** Quantidade padrão de entradas guardadas */
+    public static readonly DEFAULT_MAX_ENTRIES = 200;
+
+    /** Identificador do formato do arquivo exportado */
+    public static readonly EXPORT_FORMAT = 'aes-crypto-history';
+
+    private static readonly DATABASE_VERSION = 1;
+    private static readonly ENTRIES_STORE = 'entries';
+    private static readonly META_STORE = 'meta';
+    private static readonly MASTER_ID = 'master';
+    private static readonly WRAP_ALGORITHM = 'AES-KW';
+    private static readonly IV_LENGTH = 12;
+
+    private readonly connection: IndexedDBConnection;
+    private readonly keyDerivation: KeyDerivation;
+    private readonly maxEntries: number;
+    private historyKey: CryptoKey | null = null;
+
+    /**
+     * Cria uma nova instância do OperationHistory (inicialmente bloqueado)
+     * @param keyDerivation Derivação usada para a chave de encapsulamento (opcional)
+     * @param options Banco de dados e limite de entradas guardadas
+     */
+    constructor(keyDerivation: KeyDerivation = new KeyDerivation(), options: OperationHistoryOptions = {}) {
+        this.keyDerivation = keyDerivation;
+        this.maxEntries = options.maxEntries ?? OperationHistory.DEFAULT_MAX_ENTRIES;
+
+        if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+            throw new Error('O histórico deve guardar pelo menos uma entrada.');
+        }
+
+        this.connection = new IndexedDBConnection(
+            options.databaseName ?? OperationHistory.DATABASE_NAME,
+            OperationHistory.DATABASE_VERSION,
+            database => {
+                const entries = database.createObjectStore(OperationHistory.ENTRIES_STORE, { keyPath: 'id' });
+                entries.createIndex('createdAt', 'createdAt');
+                database.createObjectStore(OperationHistory.META_STORE, { keyPath: 'id' });
+            }
+        );
+    }
+
+    /**
+     * Verifica se o ambiente oferece IndexedDB
+     * @returns true se o histórico pode ser usado
+     */
+    public isSupported(): boolean {
+        return this.connection.isSupported();
+    }
+
+    /**
+     * Verifica se a frase-senha do histórico já foi definida
+     * @returns Promise com true se o histórico já foi inicializado
+     */
+    public async isInitialized(): Promise<boolean> {
+        return (await this.getMasterRecord()) !== undefined;
+    }
+
+    /**
+     * Indica se o histórico está bloqueado (chave fora da memória)
+     * @returns true se o histórico estiver bloqueado
+     */
+    public isLocked(): boolean {
+        return this.historyKey === null;
+    }
+
+    /**
+     * Desbloqueia o histórico, definindo a frase-senha no primeiro uso
+     * @param passphrase Frase-senha do histórico
+     * @returns Promise resolvida quando o histórico estiver desbloqueado
+     * @throws AuthenticationError se a frase-senha estiver incorreta
+     */
+    public async unlock(passphrase: string): Promise<void> {
+        const master = await this.getMasterRecord();
+
+        if (!master) {
+            await this.initialize(passphrase);
+            return;
+        }
+
+        const wrappingKey = await this.keyDerivation.deriveWrappingKey(passphrase, master.kdf);
+
+        try {
+            // A verificação de integridade do AES-KW só aceita desencapsular com a chave correta
+            this.historyKey = await crypto.subtle.unwrapKey(
+                'raw',
+                master.wrappedKey,
+                wrappingKey,
+                OperationHistory.WRAP_ALGORITHM,
+                { name: 'AES-GCM' },
+                false,
+                ['encrypt', 'decrypt']
+            );
+        } catch {
+            throw new AuthenticationError('Frase-senha do histórico incorreta.');
+        }
+    }
+
+    /**
+     * Bloqueia o histórico, descartando a chave da memória
+     */
+    public lock(): void {
+        this.historyKey = null;
+    }
+
+    /**
+     * Registra uma operação
+     * Ao passar do limite, as entradas mais antigas são descartadas
+     * @param data Dados da operação
+     * @returns Promise com a entrada registrada
+     * @throws Error se o histórico estiver bloqueado
+     */
+    public async add(data: HistoryEntryData): Promise<HistoryEntry> {
+        const historyKey = this.requireUnlocked();
+        const entry: HistoryEntry = { ...data, id: crypto.randomUUID(), createdAt: new Date() };
+        const iv = crypto.getRandomValues(new Uint8Array(OperationHistory.IV_LENGTH));
+
+        const record: HistoryRecord = {
+            id: entry.id,
+            createdAt: entry.createdAt.getTime(),
+            iv,
+            data: await crypto.subtle.encrypt(
+                { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(entry.id) },
+                historyKey,
+                new TextEncoder().encode(JSON.stringify(data))
+            )
+        };
+
+        await this.connection.transaction([OperationHistory.ENTRIES_STORE], 'readwrite', transaction => {
+            const store = transaction.objectStore(OperationHistory.ENTRIES_STORE);
+            store.add(record);
+
+            const countRequest = store.count();
+            countRequest.onsuccess = () => {
+                let excess = countRequest.result - this.maxEntries;
+                if (excess <= 0) return;
+
+                const cursorRequest = store.index('createdAt').openCursor();
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result;
+                    if (!cursor || excess-- <= 0) return;
+
+                    cursor.delete();
+                    cursor.continue();
+                };
+            };
+        });
+
+        return entry;
+    }
+
+    /**
+     * Lista as entradas, da mais recente para a mais antiga
+     * @returns Promise com as entradas decriptadas
+     * @throws Error se o histórico estiver bloqueado
+     * @throws AuthenticationError se alguma entrada tiver sido alterada
+     */
+    public async list(): Promise<HistoryEntry[]> {
+        const historyKey = this.requireUnlocked();
+        const records = await this.connection.request(
+            OperationHistory.ENTRIES_STORE,
+            'readonly',
+            store => store.getAll() as IDBRequest<HistoryRecord[]>
+        );
+
+        const entries = await Promise.all(records.map(record => this.openRecord(record, historyKey)));
+        return entries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Obtém uma entrada
+     * @param id Identificador da entrada
+     * @returns Promise com a entrada decriptada
+     * @throws Error se o histórico estiver bloqueado ou a entrada não existir
+     */
+    public async get(id: string): Promise<HistoryEntry> {
+        const historyKey = this.requireUnlocked();
+        const record = await this.connection.request(
+            OperationHistory.ENTRIES_STORE,
+            'readonly',
+            store => store.get(id) as IDBRequest<HistoryRecord | undefined>
+        );
+
+        if (!record) {
+            throw new Error('Entrada não encontrada no histórico.');
+        }
+
+        return await this.openRecord(record, historyKey);
+    }
+
+    /**
+     * Exporta o histórico decriptado em JSON
+     * O arquivo não é encriptado: contém as entradas e os resultados em claro
+     * @returns Promise com o JSON das entradas, da mais recente para a mais antiga
+     * @throws Error se o histórico estiver bloqueado
+     */
+    public async export(): Promise<string> {
+        const entries = await this.list();
+
+        return JSON.stringify({
+            format: OperationHistory.EXPORT_FORMAT,
+            version: 1,
+            exportedAt: new Date().toISOString(),
+            entries: entries.map(entry => ({ ...entry, createdAt: entry.createdAt.toISOString() }))
+        }, null, 2);
+    }
+
+    /**
+     * Apaga todas as entradas e a frase-senha do histórico
+     * Não exige o desbloqueio: serve também para recomeçar quando a frase-senha foi esquecida
+     */
+    public async clear(): Promise<void> {
+        this.lock();
+
+        await this.connection.transaction(
+            [OperationHistory.ENTRIES_STORE, OperationHistory.META_STORE],
+            'readwrite',
+            transaction => {
+                transaction.objectStore(OperationHistory.ENTRIES_STORE).clear();
+                transaction.objectStore(OperationHistory.META_STORE).clear();
+            }
+        );
+    }
+
+    /**
+     * Bloqueia o histórico e fecha a conexão com o banco de dados
+     */
+    public async close(): Promise<void> {
+        this.lock();
+        await this.connection.close();
+    }
+
+    /**
+     * Define a frase-senha de um histórico novo e o deixa desbloqueado
+     * @param passphrase Frase-senha do histórico
+     */
+    private async initialize(passphrase: string): Promise<void> {
+        const kdf: KDFParameters = this.keyDerivation.createParameters();
+        const wrappingKey = await this.keyDerivation.deriveWrappingKey(passphrase, kdf);
+        const historyKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+        const master: HistoryMasterRecord = {
+            id: OperationHistory.MASTER_ID,
+            kdf,
+            wrappedKey: await crypto.subtle.wrapKey('raw', historyKey, wrappingKey, OperationHistory.WRAP_ALGORITHM)
+        };
+
+        await this.connection.request(OperationHistory.META_STORE, 'readwrite', store => store.add(master));
+
+        // Em memória fica uma cópia não exportável da chave
+        this.historyKey = await crypto.subtle.unwrapKey(
+            'raw',
+            master.wrappedKey,
+            wrappingKey,
+            OperationHistory.WRAP_ALGORITHM,
+            { name: 'AES-GCM' },
+            false,
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    /**
+     * Decripta uma entrada persistida
+     * @param record Entrada como guardada no IndexedDB
+     * @param historyKey Chave do histórico
+     * @returns Promise com a entrada
+     * @throws AuthenticationError se a entrada tiver sido alterada
+     */
+    private async openRecord(record: HistoryRecord, historyKey: CryptoKey): Promise<HistoryEntry> {
+        let plaintext: ArrayBuffer;
+
+        try {
+            plaintext = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: record.iv, additionalData: new TextEncoder().encode(record.id) },
+                historyKey,
+                record.data
+            );
+        } catch {
+            throw new AuthenticationError('Entrada do histórico alterada ou corrompida.');
+        }
+
+        const data = JSON.parse(new TextDecoder().decode(plaintext)) as HistoryEntryData;
+        return { ...data, id: record.id, createdAt: new Date(record.createdAt) };
+    }
+
+    /**
+     * Obtém a chave do histórico
+     * @returns Chave do histórico
+     * @throws Error se o histórico estiver bloqueado
+     */
+    private requireUnlocked(): CryptoKey {
+        if (this.historyKey === null) {
+            throw new Error('Histórico bloqueado. Desbloqueie-o com a frase-senha do histórico.');
+        }
+
+        return this.historyKey;
+    }
+
+    /**
+     * Lê o registro da chave do histórico
+     * @returns Promise com o registro ou undefined se o histórico ainda não foi inicializado
+     */
+    private async getMasterRecord(): Promise<HistoryMasterRecord | undefined> {
+        return await this.connection.request(
+            OperationHistory.META_STORE,
+            'readonly',
+            store => store.get(OperationHistory.MASTER_ID) as IDBRequest<HistoryMasterRecord | undefined>
+        );
+    }
+}
@@ -0,0 +1,454 @@
+import type { KDFParameters, KeyHandle, ProtectedVaultOptions, ProtectedVaultRecord, VaultKeyInfo, VaultMasterRecord } from '../types/index.js';
+import { AESKey } from '../crypto/AESKey.js';
+import { AuthenticationError } from '../crypto/AuthenticationError.js';
+import { KeyDerivation } from '../crypto/KeyDerivation.js';
+import { IndexedDBConnection } from './IndexedDBConnection.js';
+import { KeyVault } from './KeyVault.js';
+
+/**
+ * Cofre de chaves protegido por uma frase-senha mestra
+ *
+ * A frase-senha deriva (PBKDF2) uma chave mestra AES-KW que encapsula cada
+ * chave guardada com wrapKey/unwrapKey. Apenas o material encapsulado vai para
+ * o IndexedDB; nomes, datas e algoritmos ficam visíveis mesmo com o cofre
+ * bloqueado. A chave mestra só existe em memória enquanto o cofre está
+ * desbloqueado e é descartada no bloqueio, manual ou por inatividade.
+ */
+export class ProtectedKeyVault {
+    /** Nome padrão do banco de dados */
+    public static readonly DATABASE_NAME = 'aes-crypto-protected-vault';
+
+    /** Tempo padrão sem uso até o bloqueio automático (5 minutos) */
+    public static readonly DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+    private static readonly DATABASE_VERSION = 1;
+    private static readonly KEYS_STORE = 'keys';
+    private static readonly META_STORE = 'meta';
+    private static readonly MASTER_ID = 'master';
+    private static readonly WRAP_ALGORITHM = 'AES-KW';
+
+    private readonly connection: IndexedDBConnection;
+    private readonly keyDerivation: KeyDerivation;
+    private readonly onLock: (() => void) | undefined;
+    private autoLockMs: number;
+    private masterKey: CryptoKey | null = null;
+    private lockTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Cria uma nova instância do ProtectedKeyVault (inicialmente bloqueado)
+     * @param keyDerivation Derivação usada para a chave mestra (opcional)
+     * @param options Banco de dados, bloqueio automático e notificação de bloqueio
+     */
+    constructor(keyDerivation: KeyDerivation = new KeyDerivation(), options: ProtectedVaultOptions = {}) {
+        this.keyDerivation = keyDerivation;
+        this.onLock = options.onLock;
+        this.autoLockMs = this.validateAutoLock(options.autoLockMs ?? ProtectedKeyVault.DEFAULT_AUTO_LOCK_MS);
+        this.connection = new IndexedDBConnection(
+            options.databaseName ?? ProtectedKeyVault.DATABASE_NAME,
+            ProtectedKeyVault.DATABASE_VERSION,
+            database => {
+                database.createObjectStore(ProtectedKeyVault.KEYS_STORE, { keyPath: 'id' });
+                database.createObjectStore(ProtectedKeyVault.META_STORE, { keyPath: 'id' });
+            }
+        );
+    }
+
+    /**
+     * Verifica se o ambiente oferece IndexedDB
+     * @returns true se o cofre pode ser usado
+     */
+    public isSupported(): boolean {
+        return this.connection.isSupported();
+    }
+
+    /**
+     * Verifica se a frase-senha mestra já foi definida
+     * @returns Promise com true se o cofre já foi inicializado
+     */
+    public async isInitialized(): Promise<boolean> {
+        return (await this.getMasterRecord()) !== undefined;
+    }
+
+    /**
+     * Indica se o cofre está bloqueado (chave mestra fora da memória)
+     * @returns true se o cofre estiver bloqueado
+     */
+    public isLocked(): boolean {
+        return this.masterKey === null;
+    }
+
+    /**
+     * Desbloqueia o cofre, definindo a frase-senha mestra no primeiro uso
+     * @param passphrase Frase-senha mestra
+     * @returns Promise resolvida quando o cofre estiver desbloqueado
+     * @throws AuthenticationError se a frase-senha estiver incorreta
+     */
+    public async unlock(passphrase: string): Promise<void> {
+        const master = await this.getMasterRecord();
+
+        if (!master) {
+            await this.initialize(passphrase);
+            return;
+        }
+
+        this.masterKey = await this.openMasterKey(passphrase, master);
+        this.touch();
+    }
+
+    /**
+     * Bloqueia o cofre, descartando a chave mestra da memória
+     */
+    public lock(): void {
+        if (this.lockTimer !== null) {
+            clearTimeout(this.lockTimer);
+            this.lockTimer = null;
+        }
+
+        if (this.masterKey === null) return;
+
+        this.masterKey = null;
+        this.onLock?.();
+    }
+
+    /**
+     * Altera o tempo sem uso até o bloqueio automático
+     * @param milliseconds Tempo em milissegundos (0 desativa o bloqueio automático)
+     * @throws Error se o tempo for inválido
+     */
+    public setAutoLock(milliseconds: number): void {
+        this.autoLockMs = this.validateAutoLock(milliseconds);
+
+        if (!this.isLocked()) {
+            this.touch();
+        }
+    }
+
+    /**
+     * Obtém o tempo sem uso até o bloqueio automático
+     * @returns Tempo em milissegundos (0 se desativado)
+     */
+    public getAutoLock(): number {
+        return this.autoLockMs;
+    }
+
+    /**
+     * Lista as chaves guardadas, da mais antiga para a mais recente
+     * Disponível mesmo com o cofre bloqueado, pois não envolve o material das chaves
+     * @returns Promise com as informações das chaves
+     */
+    public async list(): Promise<VaultKeyInfo[]> {
+        const records = await this.connection.request(
+            ProtectedKeyVault.KEYS_STORE,
+            'readonly',
+            store => store.getAll() as IDBRequest<ProtectedVaultRecord[]>
+        );
+
+        return records
+            .map(record => this.toInfo(record))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    /**
+     * Obtém as informações de uma chave
+     * @param id Identificador da entrada
+     * @returns Promise com as informações da chave
+     * @throws Error se a chave não existir
+     */
+    public async getInfo(id: string): Promise<VaultKeyInfo> {
+        return this.toInfo(await this.getRecord(id));
+    }
+
+    /**
+     * Desencapsula uma chave para uso nas operações
+     * O handle resultante não é exportável
+     * @param id Identificador da entrada
+     * @returns Promise com o handle da chave
+     * @throws Error se o cofre estiver bloqueado ou a chave não existir
+     */
+    public async getKey(id: string): Promise<AESKey> {
+        const masterKey = this.requireUnlocked();
+        const record = await this.getRecord(id);
+
+        const cryptoKey = await crypto.subtle.unwrapKey(
+            'raw',
+            record.wrappedKey,
+            masterKey,
+            ProtectedKeyVault.WRAP_ALGORITHM,
+            { name: record.algorithm },
+            false,
+            ['encrypt', 'decrypt']
+        );
+
+        return new AESKey(cryptoKey);
+    }
+
+    /**
+     * Encapsula e guarda uma chave no cofre
+     * @param handle Handle da chave; precisa ser exportável para poder ser encapsulada
+     * @param label Nome da chave
+     * @returns Promise com as informações da nova entrada
+     * @throws Error se o cofre estiver bloqueado, a chave não for exportável ou o nome for inválido
+     */
+    public async store(handle: KeyHandle, label: string): Promise<VaultKeyInfo> {
+        const masterKey = this.requireUnlocked();
+
+        if (!handle.extractable) {
+            throw new Error('Somente chaves exportáveis podem ser encapsuladas no cofre protegido.');
+        }
+
+        const record: ProtectedVaultRecord = {
+            id: crypto.randomUUID(),
+            label: KeyVault.validateLabel(label),
+            createdAt: new Date(),
+            algorithm: handle.algorithm,
+            keyLength: handle.keyLength,
+            wrappedKey: await crypto.subtle.wrapKey('raw', handle.cryptoKey, masterKey, ProtectedKeyVault.WRAP_ALGORITHM)
+        };
+
+        await this.connection.request(ProtectedKeyVault.KEYS_STORE, 'readwrite', store => store.add(record));
+        return this.toInfo(record);
+    }
+
+    /**
+     * Renomeia uma chave
+     * @param id Identificador da entrada
+     * @param label Novo nome
+     * @returns Promise com as informações atualizadas
+     * @throws Error se a chave não existir ou o nome for inválido
+     */
+    public async rename(id: string, label: string): Promise<VaultKeyInfo> {
+        const record = await this.getRecord(id);
+        record.label = KeyVault.validateLabel(label);
+
+        await this.connection.request(ProtectedKeyVault.KEYS_STORE, 'readwrite', store => store.put(record));
+        return this.toInfo(record);
+    }
+
+    /**
+     * Exclui uma chave do cofre
+     * @param id Identificador da entrada
+     */
+    public async delete(id: string): Promise<void> {
+        await this.connection.request(ProtectedKeyVault.KEYS_STORE, 'readwrite', store => store.delete(id));
+    }
+
+    /**
+     * Troca a frase-senha mestra
+     * Cada entrada é desencapsulada com a chave mestra atual e reencapsulada com a
+     * nova; o material das chaves guardadas não muda. Todas as entradas são
+     * gravadas em uma única transação.
+     * @param currentPassphrase Frase-senha mestra atual
+     * @param newPassphrase Nova frase-senha mestra
+     * @returns Promise resolvida quando todas as entradas tiverem sido reencapsuladas
+     * @throws AuthenticationError se a frase-senha atual estiver incorreta
+     */
+    public async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+        const master = await this.getMasterRecord();
+        if (!master) {
+            throw new Error('Cofre protegido ainda não possui frase-senha mestra.');
+        }
+
+        const currentKey = await this.openMasterKey(currentPassphrase, master);
+        const kdf = this.keyDerivation.createParameters();
+        const newKey = await this.keyDerivation.deriveWrappingKey(newPassphrase, kdf);
+
+        const records = await this.connection.request(
+            ProtectedKeyVault.KEYS_STORE,
+            'readonly',
+            store => store.getAll() as IDBRequest<ProtectedVaultRecord[]>
+        );
+
+        const rewrapped: ProtectedVaultRecord[] = [];
+        for (const record of records) {
+            const dataKey = await crypto.subtle.unwrapKey(
+                'raw',
+                record.wrappedKey,
+                currentKey,
+                ProtectedKeyVault.WRAP_ALGORITHM,
+                { name: record.algorithm },
+                true,
+                ['encrypt', 'decrypt']
+            );
+
+            rewrapped.push({
+                ...record,
+                wrappedKey: await crypto.subtle.wrapKey('raw', dataKey, newKey, ProtectedKeyVault.WRAP_ALGORITHM)
+            });
+        }
+
+        const newMaster: VaultMasterRecord = {
+            id: ProtectedKeyVault.MASTER_ID,
+            kdf,
+            verifier: await this.createVerifier(newKey)
+        };
+
+        await this.connection.transaction(
+            [ProtectedKeyVault.KEYS_STORE, ProtectedKeyVault.META_STORE],
+            'readwrite',
+            transaction => {
+                const keys = transaction.objectStore(ProtectedKeyVault.KEYS_STORE);
+                rewrapped.forEach(record => keys.put(record));
+                transaction.objectStore(ProtectedKeyVault.META_STORE).put(newMaster);
+            }
+        );
+
+        this.masterKey = newKey;
+        this.touch();
+    }
+
+    /**
+     * Bloqueia o cofre e fecha a conexão com o banco de dados
+     */
+    public async close(): Promise<void> {
+        this.lock();
+        await this.connection.close();
+    }
+
+    /**
+     * Define a frase-senha mestra de um cofre novo e o deixa desbloqueado
+     * @param passphrase Frase-senha mestra
+     */
+    private async initialize(passphrase: string): Promise<void> {
+        const kdf: KDFParameters = this.keyDerivation.createParameters();
+        const masterKey = await this.keyDerivation.deriveWrappingKey(passphrase, kdf);
+
+        const master: VaultMasterRecord = {
+            id: ProtectedKeyVault.MASTER_ID,
+            kdf,
+            verifier: await this.createVerifier(masterKey)
+        };
+
+        await this.connection.request(ProtectedKeyVault.META_STORE, 'readwrite', store => store.add(master));
+
+        this.masterKey = masterKey;
+        this.touch();
+    }
+
+    /**
+     * Deriva a chave mestra e confere a frase-senha desencapsulando o verificador
+     * @param passphrase Frase-senha informada
+     * @param master Registro da chave mestra
+     * @returns Promise com a chave mestra
+     * @throws AuthenticationError se a frase-senha estiver incorreta
+     */
+    private async openMasterKey(passphrase: string, master: VaultMasterRecord): Promise<CryptoKey> {
+        const masterKey = await this.keyDerivation.deriveWrappingKey(passphrase, master.kdf);
+
+        try {
+            await crypto.subtle.unwrapKey(
+                'raw',
+                master.verifier,
+                masterKey,
+                ProtectedKeyVault.WRAP_ALGORITHM,
+                { name: 'AES-GCM' },
+                false,
+                ['encrypt']
+            );
+        } catch {
+            throw new AuthenticationError('Frase-senha mestra incorreta.');
+        }
+
+        return masterKey;
+    }
+
+    /**
+     * Cria o verificador: uma chave aleatória encapsulada pela chave mestra
+     * A verificação de integridade do AES-KW só aceita desencapsulá-la com a mesma chave mestra
+     * @param masterKey Chave mestra
+     * @returns Promise com o verificador encapsulado
+     */
+    private async createVerifier(masterKey: CryptoKey): Promise<ArrayBuffer> {
+        const verifier = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+        return await crypto.subtle.wrapKey('raw', verifier, masterKey, ProtectedKeyVault.WRAP_ALGORITHM);
+    }
+
+    /**
+     * Obtém a chave mestra e reinicia a contagem do bloqueio automático
+     * @returns Chave mestra
+     * @throws Error se o cofre estiver bloqueado
+     */
+    private requireUnlocked(): CryptoKey {
+        if (this.masterKey === null) {
+            throw new Error('Cofre protegido está bloqueado. Desbloqueie-o com a frase-senha mestra.');
+        }
+
+        this.touch();
+        return this.masterKey;
+    }
+
+    /**
+     * Reinicia a contagem do bloqueio automático
+     */
+    private touch(): void {
+        if (this.lockTimer !== null) {
+            clearTimeout(this.lockTimer);
+            this.lockTimer = null;
+        }
+
+        if (this.autoLockMs > 0) {
+            this.lockTimer = setTimeout(() => this.lock(), this.autoLockMs);
+        }
+    }
+
+    /**
+     * Valida o tempo do bloqueio automático
+     * @param milliseconds Tempo em milissegundos
+     * @returns Tempo validado
+     * @throws Error se o tempo for negativo ou não for inteiro
+     */
+    private validateAutoLock(milliseconds: number): number {
+        if (!Number.isInteger(milliseconds) || milliseconds < 0) {
+            throw new Error('Tempo de bloqueio automático deve ser um número inteiro de milissegundos, maior ou igual a zero.');
+        }
+
+        return milliseconds;
+    }
+
+    /**
+     * Lê o registro da chave mestra
+     * @returns Promise com o registro ou undefined se o cofre ainda não foi inicializado
+     */
+    private async getMasterRecord(): Promise<VaultMasterRecord | undefined> {
+        return await this.connection.request(
+            ProtectedKeyVault.META_STORE,
+            'readonly',
+            store => store.get(ProtectedKeyVault.MASTER_ID) as IDBRequest<VaultMasterRecord | undefined>
+        );
+    }
+
+    /**
+     * Lê uma entrada completa do cofre
+     * @param id Identificador da entrada
+     * @returns Promise com a entrada
+     * @throws Error se a chave não existir
+     */
+    private async getRecord(id: string): Promise<ProtectedVaultRecord> {
+        const record = await this.connection.request(
+            ProtectedKeyVault.KEYS_STORE,
+            'readonly',
+            store => store.get(id) as IDBRequest<ProtectedVaultRecord | undefined>
+        );
+
+        if (!record) {
+            throw new Error('Chave não encontrada no cofre.');
+        }
+
+        return record;
+    }
+
+    /**
+     * Remove o material encapsulado de uma entrada
+     * @param record Entrada do cofre
+     * @returns Informações da chave
+     */
+    private toInfo(record: ProtectedVaultRecord): VaultKeyInfo {
+        return {
+            id: record.id,
+            label: record.label,
+            createdAt: record.createdAt,
+            algorithm: record.algorithm,
+            keyLength: record.keyLength,
+            protected: true
+        };
+    }
+}
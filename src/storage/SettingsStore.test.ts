@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SettingsStore } from './SettingsStore.js';
+
+/** Armazenamento em memória com a interface do localStorage */
+class MemoryStorage implements Storage {
+    private readonly items = new Map<string, string>();
+    public failWrites = false;
+
+    public get length(): number {
+        return this.items.size;
+    }
+
+    public clear(): void {
+        this.items.clear();
+    }
+
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    public key(index: number): string | null {
+        return Array.from(this.items.keys())[index] ?? null;
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+
+    public setItem(key: string, value: string): void {
+        if (this.failWrites) {
+            throw new Error('cota excedida');
+        }
+        this.items.set(key, value);
+    }
+}
+
+describe('SettingsStore', () => {
+    it('guarda e lê o algoritmo e o tamanho da chave', () => {
+        const storage = new MemoryStorage();
+        new SettingsStore(storage).saveCipherSettings({ algorithm: 'AES-CTR', keyLength: 192 });
+
+        assert.deepEqual(new SettingsStore(storage).loadCipherSettings(), { algorithm: 'AES-CTR', keyLength: 192 });
+        assert.equal(storage.getItem(SettingsStore.STORAGE_KEY), '{"algorithm":"AES-CTR","keyLength":192}');
+    });
+
+    it('ignora preferências ausentes, corrompidas ou desconhecidas', () => {
+        const storage = new MemoryStorage();
+        const store = new SettingsStore(storage);
+        assert.equal(store.loadCipherSettings(), null);
+
+        for (const stored of ['{', '"AES-GCM"', '{"algorithm":"AES-ECB","keyLength":128}', '{"algorithm":"AES-GCM","keyLength":"128"}']) {
+            storage.setItem(SettingsStore.STORAGE_KEY, stored);
+            assert.equal(store.loadCipherSettings(), null, stored);
+        }
+    });
+
+    it('sem armazenamento, não persiste', () => {
+        const store = new SettingsStore(null);
+
+        assert.equal(store.isPersistent(), false);
+        store.saveCipherSettings({ algorithm: 'AES-CBC', keyLength: 256 });
+        assert.equal(store.loadCipherSettings(), null);
+    });
+
+    it('relata gravações recusadas pelo armazenamento', () => {
+        const storage = new MemoryStorage();
+        storage.failWrites = true;
+
+        assert.throws(
+            () => new SettingsStore(storage).saveCipherSettings({ algorithm: 'AES-GCM', keyLength: 128 }),
+            { message: 'Erro ao salvar as preferências: cota excedida' }
+        );
+    });
+});
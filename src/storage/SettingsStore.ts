@@ -0,0 +1,90 @@
+import type { CipherSettings, CryptoAlgorithm, KeyLength } from '../types/index.js';
+
+/**
+ * Preferências da interface guardadas entre sessões (localStorage)
+ *
+ * Guarda apenas escolhas sem valor secreto, como o algoritmo e o tamanho da
+ * chave. Sem localStorage (Node.js, navegação privada restrita) as preferências
+ * valem apenas para a sessão; valores corrompidos ou desconhecidos são ignorados.
+ */
+export class SettingsStore {
+    /** Chave padrão usada no localStorage */
+    public static readonly STORAGE_KEY = 'aes-crypto-settings';
+
+    private static readonly ALGORITHMS: readonly CryptoAlgorithm[] = ['AES-GCM', 'AES-CBC', 'AES-CTR'];
+    private static readonly KEY_LENGTHS: readonly KeyLength[] = [128, 192, 256];
+
+    private readonly storage: Storage | null;
+    private readonly storageKey: string;
+
+    /**
+     * Cria uma nova instância do SettingsStore
+     * @param storage Armazenamento usado (opcional, usa o localStorage quando disponível)
+     * @param storageKey Chave sob a qual as preferências são guardadas (opcional)
+     */
+    constructor(storage?: Storage | null, storageKey: string = SettingsStore.STORAGE_KEY) {
+        this.storage = storage === undefined ? SettingsStore.defaultStorage() : storage;
+        this.storageKey = storageKey;
+    }
+
+    /**
+     * Obtém o localStorage, se o ambiente permitir
+     * @returns Armazenamento ou null quando indisponível ou bloqueado
+     */
+    private static defaultStorage(): Storage | null {
+        try {
+            return typeof localStorage !== 'undefined' ? localStorage : null;
+        } catch {
+            // Alguns navegadores lançam SecurityError ao acessar o localStorage
+            return null;
+        }
+    }
+
+    /**
+     * Indica se as preferências persistem entre sessões
+     * @returns true se houver localStorage
+     */
+    public isPersistent(): boolean {
+        return this.storage !== null;
+    }
+
+    /**
+     * Lê o algoritmo e o tamanho da chave guardados
+     * @returns Preferências guardadas ou null se não houver preferências válidas
+     */
+    public loadCipherSettings(): CipherSettings | null {
+        try {
+            const stored = this.storage?.getItem(this.storageKey);
+            if (!stored) {
+                return null;
+            }
+
+            const { algorithm, keyLength } = JSON.parse(stored) as Partial<CipherSettings>;
+            if (!SettingsStore.ALGORITHMS.includes(algorithm!) || !SettingsStore.KEY_LENGTHS.includes(keyLength!)) {
+                return null;
+            }
+
+            return { algorithm: algorithm!, keyLength: keyLength! };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Guarda o algoritmo e o tamanho da chave
+     * @param settings Preferências escolhidas
+     * @throws Error se o armazenamento recusar a gravação (ex.: cota excedida)
+     */
+    public saveCipherSettings(settings: CipherSettings): void {
+        if (!this.storage) {
+            return;
+        }
+
+        try {
+            this.storage.setItem(this.storageKey, JSON.stringify({ algorithm: settings.algorithm, keyLength: settings.keyLength }));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Erro desconhecido';
+            throw new Error(`Erro ao salvar as preferências: ${message}`);
+        }
+    }
+}
@@ -0,0 +1,133 @@
+import { readFileSync } from 'node:fs';
+import { Window as HappyDOMWindow } from 'happy-dom';
+import type { DOMElements, MessageType } from '../types/index.js';
+
+/**
+ * Documento simulado (happy-dom) com o index.html da aplicação, para os testes de interface
+ *
+ * Instala `window`, `document`, `Event` e `NodeFilter` em `globalThis`, como
+ * num navegador, e os restaura em `close()`. Scripts e folhas de estilo da
+ * página não são carregados: os testes constroem os gerenciadores por conta própria.
+ */
+export interface DOMFixture {
+    window: Window & typeof globalThis;
+    document: Document;
+    /** Fecha o documento e restaura os globais anteriores */
+    close(): Promise<void>;
+}
+
+/** Globais do navegador usados pela interface */
+const BROWSER_GLOBALS = ['window', 'document', 'Event', 'NodeFilter'] as const;
+
+/** Caminho do index.html a partir de dist/tests/testing */
+const INDEX_HTML = new URL('../../../index.html', import.meta.url);
+
+/**
+ * Carrega o index.html em um documento simulado e instala os globais do navegador
+ * @returns Fixture com a janela e o documento
+ */
+export function loadIndexFixture(): DOMFixture {
+    const happyWindow = new HappyDOMWindow({
+        url: 'http://localhost/',
+        settings: {
+            disableJavaScriptEvaluation: true,
+            disableJavaScriptFileLoading: true,
+            disableCSSFileLoading: true
+        }
+    });
+    happyWindow.document.write(readFileSync(INDEX_HTML, 'utf8'));
+
+    const window = happyWindow as unknown as Window & typeof globalThis;
+    const globals = globalThis as Record<string, unknown>;
+    const previous = new Map(BROWSER_GLOBALS.map(name => [name, Object.getOwnPropertyDescriptor(globalThis, name)]));
+
+    for (const name of BROWSER_GLOBALS) {
+        Object.defineProperty(globalThis, name, {
+            value: name === 'window' ? window : (window as unknown as Record<string, unknown>)[name],
+            configurable: true,
+            writable: true
+        });
+    }
+
+    return {
+        window,
+        document: window.document,
+        async close(): Promise<void> {
+            for (const [name, descriptor] of previous) {
+                if (descriptor) {
+                    Object.defineProperty(globalThis, name, descriptor);
+                } else {
+                    delete globals[name];
+                }
+            }
+            await happyWindow.happyDOM.close();
+        }
+    };
+}
+
+/**
+ * Mapeia os elementos do documento pelo id, como o main.ts (cada chave de DOMElements é um id)
+ * @param document Documento carregado
+ * @returns Elementos da interface
+ */
+export function collectElements(document: Document): DOMElements {
+    const entries = Array.from(document.querySelectorAll('[id]')).map(element => [element.id, element]);
+    return Object.fromEntries(entries) as DOMElements;
+}
+
+/**
+ * Aguarda uma condição verificada a cada volta do loop de eventos
+ * @param condition Condição esperada
+ * @param timeout Tempo máximo em milissegundos
+ * @throws Error se a condição não for satisfeita a tempo
+ */
+export async function waitFor(condition: () => boolean, timeout: number = 10000): Promise<void> {
+    const deadline = Date.now() + timeout;
+
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condição não satisfeita em ${timeout} ms.`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+/**
+ * Mensagens exibidas no relatório, em ordem
+ * @param report Elemento do relatório
+ * @returns Id, tipo e texto de cada mensagem
+ */
+export function reportMessages(report: HTMLElement): { id: string; type: MessageType; text: string }[] {
+    return Array.from(report.querySelectorAll('.message')).map(element => ({
+        id: element.id,
+        type: (['success', 'error', 'warning', 'info'] as MessageType[]).find(type => element.classList.contains(type)) ?? 'info',
+        text: element.textContent ?? ''
+    }));
+}
+
+/**
+ * Clica em um elemento e aguarda a próxima mensagem de sucesso, erro ou aviso no relatório
+ * Mensagens informativas ("Encriptando dados...") são ignoradas
+ * @param element Elemento a clicar
+ * @param report Elemento do relatório
+ * @returns Promise com o tipo e o texto da mensagem que concluiu a operação
+ */
+export async function clickAndWait(element: HTMLElement, report: HTMLElement): Promise<{ type: MessageType; text: string }> {
+    const previous = new Set(reportMessages(report).map(message => message.id));
+    const next = () => reportMessages(report).find(message => message.type !== 'info' && !previous.has(message.id));
+
+    element.click();
+    await waitFor(() => next() !== undefined);
+
+    const { type, text } = next()!;
+    return { type, text };
+}
+
+/**
+ * Aguarda a remoção automática de todas as mensagens do relatório
+ * Deve ser chamada antes de fechar o documento, pois a remoção usa `document`
+ * @param report Elemento do relatório
+ */
+export async function waitForMessagesToExpire(report: HTMLElement): Promise<void> {
+    await waitFor(() => report.children.length === 0, 30000);
+}
@@ -63,6 +63,16 @@ export interface CryptoInputs {
     encryptData: string;
     /** Dados para decriptação */
     decryptData: string;
+    /** Dados adicionais autenticados (AAD) em texto, usados apenas no AES-GCM */
+    additionalData: string;
+    /** Modo de entrada da chave */
+    keyMode: KeyInputMode;
+    /** Frase-senha (apenas no modo 'passphrase') */
+    passphrase: string;
+    /** Sal do PBKDF2 em formato hexadecimal (apenas no modo 'passphrase') */
+    saltHex: string;
+    /** Identificador da chave selecionada no cofre (apenas no modo 'vault') */
+    vaultKeyId: string;
 }
 
 /**
@@ -81,6 +91,21 @@ export interface OutputValues {
     [key: string]: string | undefined;
 }
 
+/**
+ * Codificações textuais suportadas para dados binários
+ */
+export type DataEncoding = 'hex' | 'base64' | 'base64url';
+
+/**
+ * Resultado da decodificação com detecção automática
+ */
+export interface DecodedData {
+    /** Bytes decodificados */
+    bytes: Uint8Array;
+    /** Codificação detectada */
+    encoding: DataEncoding;
+}
+
 /**
  * Resultado de uma operação de criptografia
  */
@@ -101,6 +126,510 @@ export type CryptoAlgorithm = 'AES-CBC' | 'AES-GCM' | 'AES-CTR';
  */
 export type KeyLength = 128 | 192 | 256;
 
+/**
+ * Opções para gerar ou importar um handle de chave
+ */
+export interface KeyHandleOptions {
+    /** Permite exportar o material da chave depois (padrão false) */
+    extractable?: boolean;
+    /** Operações permitidas com a chave (padrão encriptar e decriptar) */
+    usages?: KeyUsage[];
+}
+
+/**
+ * Handle de uma chave AES já importada na Web Crypto API
+ * O material da chave fica dentro da CryptoKey e só sai por exportação explícita
+ */
+export interface KeyHandle {
+    /** Chave importada ou gerada */
+    readonly cryptoKey: CryptoKey;
+    /** Algoritmo ao qual a chave está vinculada */
+    readonly algorithm: CryptoAlgorithm;
+    /** Tamanho da chave em bits */
+    readonly keyLength: KeyLength;
+    /** Indica se o material da chave pode ser exportado */
+    readonly extractable: boolean;
+    /** Operações permitidas com a chave */
+    readonly usages: readonly KeyUsage[];
+}
+
+/**
+ * Algoritmos de chave pública da criptografia híbrida
+ * - 'RSA-OAEP': RSA-OAEP com SHA-256
+ * - 'ECDH-P256': ECDH-ES na curva P-256
+ */
+export type PublicKeyAlgorithm = 'RSA-OAEP' | 'ECDH-P256';
+
+/**
+ * Tipos de slot de uma mensagem híbrida
+ * - 'RSA-OAEP' e 'ECDH-P256': chave pública do destinatário
+ * - 'AES-GCM': chave simétrica compartilhada
+ * - 'PBKDF2': chave derivada de uma frase-senha
+ */
+export type RecipientType = PublicKeyAlgorithm | 'AES-GCM' | 'PBKDF2';
+
+/**
+ * Destinatário de uma mensagem híbrida: chave pública, chave simétrica AES-GCM ou frase-senha
+ */
+export type RecipientInput = CryptoKey | { key: KeyInput } | { passphrase: string };
+
+/**
+ * Credencial para abrir um slot: par de chaves, chave simétrica AES-GCM ou frase-senha
+ */
+export type RecipientCredential = CryptoKeyPair | { key: KeyInput } | { passphrase: string };
+
+/**
+ * Destinatário registrado no cabeçalho de uma mensagem híbrida
+ */
+export interface HybridRecipient {
+    /** Tipo do slot do destinatário */
+    algorithm: RecipientType;
+    /**
+     * Identificador do slot: impressão digital da chave pública (SHA-256 do SPKI, 16 bytes
+     * em hexadecimal) ou, para chaves simétricas e frases-senha, 8 bytes aleatórios
+     */
+    fingerprint: string;
+}
+
+/**
+ * Slot de destinatário lido do cabeçalho de uma mensagem híbrida
+ */
+export interface HybridSlot extends HybridRecipient {
+    /** Dados do slot (chave de conteúdo encapsulada) */
+    data: Uint8Array;
+}
+
+/**
+ * Algoritmos de assinatura digital
+ * - 'ECDSA-P256': ECDSA na curva P-256 com SHA-256
+ * - 'Ed25519': EdDSA na curva Ed25519
+ */
+export type SignatureAlgorithm = 'ECDSA-P256' | 'Ed25519';
+
+/**
+ * Resultado da verificação de uma assinatura contra chaves conhecidas
+ */
+export interface SignatureVerification {
+    /** Indica se a assinatura foi produzida por uma das chaves */
+    valid: boolean;
+    /** Impressão digital da chave que verificou a assinatura (SHA-256 do SPKI, 16 bytes em hexadecimal) */
+    fingerprint?: string;
+    /** Algoritmo da chave que verificou a assinatura */
+    algorithm?: SignatureAlgorithm;
+}
+
+/**
+ * Texto cifrado acompanhado de uma assinatura destacada
+ */
+export interface SignedCiphertext {
+    /** Dados encriptados na codificação de saída */
+    ciphertext: string;
+    /** Assinatura dos bytes encriptados, na mesma codificação */
+    signature: string;
+}
+
+/**
+ * Formatos de exportação e importação de chaves
+ * - 'raw': bytes da chave (ou sua representação em hex/Base64)
+ * - 'jwk': JSON Web Key (`kty: "oct"`)
+ * - 'bundle': pacote JSON com a chave encapsulada por uma frase-senha
+ */
+export type KeyExportFormat = 'raw' | 'jwk' | 'bundle';
+
+/**
+ * Pacote de chave protegido por frase-senha
+ * A chave é encapsulada com AES-KW por uma chave derivada via PBKDF2
+ */
+export interface KeyBundle {
+    /** Identificador do formato ("aes-crypto-key-bundle") */
+    format: string;
+    /** Versão do pacote */
+    version: number;
+    /** Nome da chave (opcional) */
+    label?: string;
+    /** Algoritmo ao qual a chave está vinculada */
+    algorithm: CryptoAlgorithm;
+    /** Tamanho da chave em bits */
+    keyLength: KeyLength;
+    /** Parâmetros do PBKDF2 usados para derivar a chave de encapsulamento */
+    kdf: KDFParameters;
+    /** Algoritmo de encapsulamento */
+    wrapAlgorithm: 'AES-KW';
+    /** Chave encapsulada em Base64 */
+    wrappedKey: string;
+}
+
+/**
+ * Informações de uma chave guardada no cofre, sem o material da chave
+ */
+export interface VaultKeyInfo {
+    /** Identificador único da entrada */
+    id: string;
+    /** Nome dado pelo usuário */
+    label: string;
+    /** Data de criação da entrada */
+    createdAt: Date;
+    /** Algoritmo ao qual a chave está vinculada */
+    algorithm: CryptoAlgorithm;
+    /** Tamanho da chave em bits */
+    keyLength: KeyLength;
+    /** Indica se a chave está no cofre protegido por frase-senha mestra */
+    protected: boolean;
+}
+
+/**
+ * Entrada do cofre como persistida no IndexedDB
+ */
+export interface VaultRecord extends Omit<VaultKeyInfo, 'protected'> {
+    /** Chave armazenada (pode ser não exportável) */
+    key: CryptoKey;
+}
+
+/**
+ * Entrada do cofre protegido como persistida no IndexedDB
+ */
+export interface ProtectedVaultRecord extends Omit<VaultKeyInfo, 'protected'> {
+    /** Material da chave encapsulado (AES-KW) pela chave mestra */
+    wrappedKey: ArrayBuffer;
+}
+
+/**
+ * Registro da chave mestra do cofre protegido
+ * Guarda apenas o necessário para derivar e conferir a chave mestra
+ */
+export interface VaultMasterRecord {
+    /** Identificador fixo do registro */
+    id: string;
+    /** Parâmetros do PBKDF2 usados para derivar a chave mestra */
+    kdf: KDFParameters;
+    /** Chave aleatória encapsulada que confirma a frase-senha no desbloqueio */
+    verifier: ArrayBuffer;
+}
+
+/**
+ * Opções do cofre protegido por frase-senha
+ */
+export interface ProtectedVaultOptions {
+    /** Nome do banco de dados IndexedDB */
+    databaseName?: string;
+    /** Tempo sem uso, em milissegundos, até o bloqueio automático (0 desativa) */
+    autoLockMs?: number;
+    /** Chamado sempre que o cofre for bloqueado */
+    onLock?: () => void;
+}
+
+/**
+ * Dados de uma operação a registrar no histórico
+ * A chave nunca é registrada: apenas sua impressão digital
+ */
+export interface HistoryEntryData {
+    /** Operação realizada */
+    operation: CryptoOperation;
+    /** Algoritmo usado */
+    algorithm: CryptoAlgorithm;
+    /** Modo de entrada da chave */
+    keyMode: KeyInputMode;
+    /** Impressão digital da chave (veja IVRegistry.fingerprint) */
+    keyFingerprint: string;
+    /** Tamanho da entrada em bytes (texto em UTF-8 ou texto cifrado decodificado) */
+    inputSize: number;
+    /** IV de uma operação fora do formato de envelope (não é secreto); envelopes já o carregam */
+    iv?: string;
+    /** Entrada da operação, usada para restaurá-la e executá-la novamente */
+    input: string;
+    /** Resultado da operação, como exibido na interface */
+    output: string;
+}
+
+/**
+ * Operação registrada no histórico
+ */
+export interface HistoryEntry extends HistoryEntryData {
+    /** Identificador único da entrada */
+    id: string;
+    /** Momento da operação */
+    createdAt: Date;
+}
+
+/**
+ * Entrada do histórico como persistida no IndexedDB
+ * Apenas o identificador e o momento ficam visíveis; o restante é encriptado com AES-GCM
+ */
+export interface HistoryRecord {
+    /** Identificador único da entrada (também usado como AAD) */
+    id: string;
+    /** Momento da operação (milissegundos desde a época Unix) */
+    createdAt: number;
+    /** Nonce de 12 bytes do AES-GCM */
+    iv: Uint8Array<ArrayBuffer>;
+    /** Dados da entrada (HistoryEntryData em JSON) encriptados, com a tag no final */
+    data: ArrayBuffer;
+}
+
+/**
+ * Registro da chave do histórico
+ * A chave AES-GCM das entradas é aleatória e fica encapsulada (AES-KW) pela chave derivada da frase-senha
+ */
+export interface HistoryMasterRecord {
+    /** Identificador fixo do registro */
+    id: string;
+    /** Parâmetros do PBKDF2 usados para derivar a chave de encapsulamento */
+    kdf: KDFParameters;
+    /** Chave AES-GCM das entradas, encapsulada */
+    wrappedKey: ArrayBuffer;
+}
+
+/**
+ * Opções do histórico de operações
+ */
+export interface OperationHistoryOptions {
+    /** Nome do banco de dados IndexedDB */
+    databaseName?: string;
+    /** Quantidade máxima de entradas guardadas; as mais antigas são descartadas (padrão 200) */
+    maxEntries?: number;
+}
+
+/**
+ * Par chave/IV já usado, persistido no registro de IVs
+ */
+export interface IVRegistryRecord {
+    /** Impressão digital da chave e IV em hexadecimal, separados por ":" */
+    id: string;
+    /** Momento do uso (milissegundos desde a época Unix) */
+    usedAt: number;
+}
+
+/**
+ * Opções do registro de IVs usados
+ */
+export interface IVRegistryOptions {
+    /** Nome do banco de dados IndexedDB */
+    databaseName?: string;
+    /** Quantidade máxima de pares guardados; os mais antigos são descartados (padrão 10000) */
+    maxEntries?: number;
+}
+
+/**
+ * Opções do gerenciador sem interface
+ */
+export interface HeadlessCryptoManagerOptions {
+    /** Chamado quando uma encriptação AES-CBC reutiliza um IV já usado com a chave; a encriptação prossegue */
+    onIVReuse?: (iv: string) => void;
+}
+
+/**
+ * Chave aceita pelas operações: texto em hexadecimal, Base64 ou Base64URL, ou um handle já importado
+ */
+export type KeyInput = string | KeyHandle;
+
+/**
+ * Tamanhos de tag de autenticação suportados pelo AES-GCM (em bits)
+ */
+export type GCMTagLength = 96 | 104 | 112 | 120 | 128;
+
+/**
+ * Autenticação do AES-CBC (encrypt-then-MAC)
+ * - 'HMAC-SHA-256': tag de 32 bytes sobre AAD, IV e texto cifrado
+ */
+export type MacAlgorithm = 'HMAC-SHA-256';
+
+/**
+ * Funções de hash suportadas pela derivação de chaves e pelo cálculo de resumos
+ */
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+/**
+ * Opções do cálculo de resumos e HMAC
+ */
+export interface HashOptions {
+    /** Função de hash (padrão SHA-256) */
+    algorithm?: HashAlgorithm;
+    /** Chave secreta; quando informada, calcula o HMAC em vez do resumo */
+    hmacKey?: BufferSource;
+}
+
+/**
+ * Resultado do cálculo de um resumo ou HMAC
+ */
+export interface HashResult {
+    /** Função de hash usada */
+    algorithm: HashAlgorithm;
+    /** Indica se o resultado é um HMAC */
+    hmac: boolean;
+    /** Bytes do resumo ou da tag */
+    bytes: Uint8Array;
+    /** Resultado em hexadecimal */
+    hex: string;
+    /** Resultado em Base64 */
+    base64: string;
+}
+
+/**
+ * Modos de entrada da chave na interface
+ */
+export type KeyInputMode = 'hex' | 'passphrase' | 'vault';
+
+/**
+ * Configurações para derivação de chaves a partir de frases-senha (PBKDF2)
+ */
+export interface KeyDerivationConfig {
+    /** Número de iterações do PBKDF2 */
+    iterations: number;
+    /** Função de hash usada pelo PBKDF2 e pelo HKDF */
+    hash: HashAlgorithm;
+    /** Tamanho do sal gerado em bytes */
+    saltLength: number;
+}
+
+/**
+ * Resultado de uma derivação de chave por frase-senha
+ */
+export interface DerivedKeyResult {
+    /** Chave derivada em formato hexadecimal */
+    keyHex: string;
+    /** Sal usado em formato hexadecimal */
+    saltHex: string;
+    /** Número de iterações usado */
+    iterations: number;
+    /** Função de hash usada */
+    hash: HashAlgorithm;
+    /** Tamanho da chave derivada em bits */
+    keyLength: KeyLength;
+}
+
+/**
+ * Parâmetros de derivação de chave gravados no envelope
+ */
+export interface KDFParameters {
+    /** Função de hash usada pelo PBKDF2 */
+    hash: HashAlgorithm;
+    /** Número de iterações */
+    iterations: number;
+    /** Sal em formato hexadecimal */
+    saltHex: string;
+}
+
+/**
+ * Cabeçalho do envelope de texto cifrado
+ * Contém tudo o que é necessário para decriptar, exceto a chave (ou frase-senha)
+ */
+export interface EnvelopeHeader {
+    /** Versão do formato */
+    version: number;
+    /** Algoritmo usado na encriptação */
+    algorithm: CryptoAlgorithm;
+    /** Tamanho da chave em bits */
+    keyLength: KeyLength;
+    /** IV, nonce ou bloco de contador em formato hexadecimal */
+    ivHex: string;
+    /** Tamanho da tag em bits (apenas AES-GCM) */
+    tagLength?: GCMTagLength;
+    /** Tamanho do contador em bits (apenas AES-CTR) */
+    counterLength?: number;
+    /** Autenticação encrypt-then-MAC (apenas AES-CBC) */
+    mac?: MacAlgorithm;
+    /** Parâmetros do PBKDF2, quando a chave foi derivada de uma frase-senha */
+    kdf?: KDFParameters;
+}
+
+/**
+ * Envelope autodescritivo: cabeçalho seguido do texto cifrado
+ */
+export interface CiphertextEnvelope extends EnvelopeHeader {
+    /** Texto cifrado (no AES-GCM, inclui a tag no final) */
+    ciphertext: Uint8Array;
+}
+
+/**
+ * Opções para encriptação no formato de envelope
+ */
+export interface EnvelopeOptions extends AEADOptions, EncodingOptions {
+    /** Parâmetros do PBKDF2 a registrar no cabeçalho, quando a chave veio de uma frase-senha */
+    kdf?: KDFParameters;
+}
+
+/**
+ * Opções da decriptação em streaming
+ */
+export interface StreamOptions extends AEADOptions {
+    /** Chamado a cada trecho processado com o total de bytes de entrada consumidos até o momento */
+    onProgress?: (processedBytes: number) => void;
+    /** Sinal para cancelar o processamento; o stream é encerrado com erro ao ser abortado */
+    signal?: AbortSignal;
+}
+
+/**
+ * Opções da encriptação em streaming
+ */
+export interface StreamEncryptOptions extends StreamOptions {
+    /** Parâmetros do PBKDF2 a registrar no cabeçalho, quando a chave veio de uma frase-senha */
+    kdf?: KDFParameters;
+    /** Tamanho de cada segmento em claro, em bytes (padrão 64 KiB) */
+    segmentSize?: number;
+}
+
+/**
+ * Cabeçalho do formato de streaming segmentado
+ */
+export interface StreamHeader {
+    /** Versão do formato */
+    version: number;
+    /** Tamanho da chave em bits */
+    keyLength: KeyLength;
+    /** Tamanho de cada segmento em claro, em bytes */
+    segmentSize: number;
+    /** Prefixo aleatório dos nonces dos segmentos, em hexadecimal */
+    noncePrefixHex: string;
+    /** Parâmetros do PBKDF2, quando a chave foi derivada de uma frase-senha */
+    kdf?: KDFParameters;
+    /** Tamanho do cabeçalho serializado em bytes */
+    headerLength: number;
+}
+
+/**
+ * Metadados do arquivo original, protegidos dentro do conteúdo encriptado
+ */
+export interface FileMetadata {
+    /** Nome original do arquivo */
+    name: string;
+    /** Tipo MIME original */
+    type: string;
+    /** Tamanho original em bytes; no formato de streaming, ausente quando a origem não o informa (um pipe, por exemplo) */
+    size?: number;
+    /** Data da última modificação (timestamp em ms), quando disponível */
+    lastModified?: number;
+}
+
+/**
+ * Resultado da encriptação de um arquivo
+ */
+export interface EncryptedFile {
+    /** Conteúdo encriptado (envelope binário) */
+    blob: Blob;
+    /** Nome sugerido para o arquivo encriptado */
+    fileName: string;
+}
+
+/**
+ * Resultado da decriptação de um arquivo
+ */
+export interface DecryptedFile {
+    /** Conteúdo original, com o tipo MIME restaurado */
+    blob: Blob;
+    /** Metadados do arquivo original */
+    metadata: FileMetadata;
+}
+
+/**
+ * Resultado da decriptação de um arquivo em streaming
+ */
+export interface DecryptedFileStream {
+    /** Conteúdo original, lido sob demanda */
+    content: ReadableStream<Uint8Array>;
+    /** Metadados do arquivo original */
+    metadata: FileMetadata;
+}
+
 /**
  * Operações criptográficas permitidas
  */
@@ -114,8 +643,90 @@ export interface AESConfig {
     algorithm: CryptoAlgorithm;
     /** Tamanho da chave em bits */
     keyLength: KeyLength;
-    /** Tamanho do IV em bytes */
+    /** Tamanho do IV em bytes (12 para AES-GCM, 16 para AES-CBC) */
     ivLength: number;
+    /** Tamanho da tag de autenticação em bits (apenas AES-GCM, padrão 128) */
+    tagLength?: GCMTagLength;
+    /** Quantidade de bits do bloco de contador usados como contador (apenas AES-CTR, 1 a 128, padrão 64) */
+    counterLength?: number;
+    /** Autenticação encrypt-then-MAC com chaves de encriptação e MAC derivadas da chave (apenas AES-CBC) */
+    mac?: MacAlgorithm;
+    /** Codificação padrão da saída (chaves, IVs e textos cifrados gerados), padrão 'hex' */
+    outputEncoding?: DataEncoding;
+}
+
+/**
+ * Campos validados em tempo real na interface
+ */
+export type ValidatedField = 'aesKey' | 'iv' | 'decryptInput';
+
+/**
+ * Estado da validação de um campo: 'warning' ainda permite a operação, 'invalid' não
+ */
+export type FieldState = 'empty' | 'valid' | 'warning' | 'invalid';
+
+/**
+ * Resultado da validação em tempo real de um campo
+ */
+export interface FieldValidation {
+    /** Estado do campo */
+    state: FieldState;
+    /** Texto exibido junto do campo (tamanho, codificação e dicas) */
+    message: string;
+    /** Codificação detectada, se o valor pôde ser decodificado */
+    encoding?: DataEncoding;
+    /** Quantidade de bytes decodificados, se o valor pôde ser decodificado */
+    byteLength?: number;
+    /** Se o valor é um envelope autodescritivo (apenas no texto cifrado) */
+    envelope?: boolean;
+}
+
+/**
+ * Escolhas de algoritmo e tamanho da chave feitas na interface, guardadas entre sessões
+ */
+export interface CipherSettings {
+    /** Algoritmo (modo de operação) */
+    algorithm: CryptoAlgorithm;
+    /** Tamanho da chave em bits */
+    keyLength: KeyLength;
+}
+
+/**
+ * Opções de codificação por operação
+ */
+export interface EncodingOptions {
+    /** Codificação da saída desta operação (sobrepõe a configuração) */
+    outputEncoding?: DataEncoding;
+}
+
+/**
+ * Opções adicionais para operações com encriptação autenticada (AEAD)
+ */
+export interface AEADOptions {
+    /** Dados adicionais autenticados (AAD): não são encriptados, mas são protegidos pela tag */
+    additionalData?: string | Uint8Array;
+}
+
+/**
+ * Opções da decriptação de envelopes
+ */
+export interface EnvelopeDecryptOptions extends AEADOptions {
+    /**
+     * Aceita envelopes AES-CBC ou AES-CTR sem autenticação (padrão false).
+     * Mesmo assim, só são aceitos envelopes do algoritmo configurado na instância.
+     */
+    allowUnauthenticated?: boolean;
+}
+
+/**
+ * Opções por operação aceitas por encrypt/decrypt
+ */
+export interface CipherOptions extends AEADOptions, EncodingOptions {
+    /**
+     * Deslocamento em blocos de 16 bytes a partir do contador inicial (apenas AES-CTR).
+     * Permite decriptar um trecho de um texto cifrado começando no bloco indicado.
+     */
+    counterOffset?: number;
 }
 
 /**
@@ -132,6 +743,186 @@ export interface DOMElements {
     aesKey: HTMLInputElement;
     /** Campo do IV */
     iv: HTMLInputElement;
+    /** Campo dos dados adicionais autenticados (AAD), opcional */
+    additionalData?: HTMLInputElement;
+    /** Seletor do algoritmo (modo de operação), opcional */
+    cipherAlgorithm?: HTMLSelectElement;
+    /** Seletor do tamanho da chave, opcional */
+    keyLength?: HTMLSelectElement;
+    /** Elemento que exibe a validação da chave, opcional */
+    aesKeyStatus?: HTMLElement;
+    /** Elemento que exibe a validação do IV, opcional */
+    ivStatus?: HTMLElement;
+    /** Elemento que exibe a validação do texto cifrado, opcional */
+    decryptInputStatus?: HTMLElement;
+    /** Seletor do modo de entrada da chave, opcional */
+    keyMode?: HTMLSelectElement;
+    /** Grupo de campos exibido apenas no modo frase-senha, opcional */
+    passphraseGroup?: HTMLElement;
+    /** Campo da frase-senha, opcional */
+    passphrase?: HTMLInputElement;
+    /** Campo do sal usado na derivação, opcional */
+    salt?: HTMLInputElement;
+    /** Elemento que exibe os parâmetros da derivação, opcional */
+    kdfParams?: HTMLElement;
+    /** Caixa de seleção que ativa a saída no formato de envelope, opcional */
+    useEnvelope?: HTMLInputElement;
+    /** Caixa de seleção que gera um IV novo a cada encriptação, opcional */
+    autoIv?: HTMLInputElement;
+    /** Elemento que exibe o IV usado na última encriptação, opcional */
+    usedIv?: HTMLElement;
+    /** Seletor da codificação de saída, opcional */
+    outputEncoding?: HTMLSelectElement;
+    /** Seletor do formato de exportação da chave, opcional */
+    keyExportFormat?: HTMLSelectElement;
+    /** Botão para exportar a chave atual, opcional */
+    exportKeyButton?: HTMLElement;
+    /** Botão para importar uma chave de um arquivo, opcional */
+    importKeyButton?: HTMLElement;
+    /** Seletor de arquivo usado na importação de chaves, opcional */
+    keyFileInput?: HTMLInputElement;
+    /** Seletor das chaves guardadas no cofre, opcional */
+    vaultKeys?: HTMLSelectElement;
+    /** Campo com o nome da chave do cofre, opcional */
+    vaultLabel?: HTMLInputElement;
+    /** Elemento que exibe os detalhes da chave selecionada no cofre, opcional */
+    vaultInfo?: HTMLElement;
+    /** Botão para gerar uma nova chave no cofre, opcional */
+    vaultGenerateButton?: HTMLElement;
+    /** Botão para guardar a chave atual no cofre, opcional */
+    vaultStoreButton?: HTMLElement;
+    /** Botão para renomear a chave selecionada no cofre, opcional */
+    vaultRenameButton?: HTMLElement;
+    /** Botão para excluir a chave selecionada do cofre, opcional */
+    vaultDeleteButton?: HTMLElement;
+    /** Campo da frase-senha mestra do cofre protegido, opcional */
+    vaultPassphrase?: HTMLInputElement;
+    /** Campo da nova frase-senha mestra, opcional */
+    vaultNewPassphrase?: HTMLInputElement;
+    /** Elemento que exibe se o cofre protegido está bloqueado, opcional */
+    vaultLockStatus?: HTMLElement;
+    /** Botão para desbloquear o cofre protegido, opcional */
+    vaultUnlockButton?: HTMLElement;
+    /** Botão para bloquear o cofre protegido, opcional */
+    vaultLockButton?: HTMLElement;
+    /** Botão para trocar a frase-senha mestra, opcional */
+    vaultChangePassphraseButton?: HTMLElement;
+    /** Seletor do algoritmo do par de chaves da criptografia híbrida, opcional */
+    hybridAlgorithm?: HTMLSelectElement;
+    /** Botão para gerar um par de chaves, opcional */
+    hybridGenerateButton?: HTMLElement;
+    /** Botão para importar uma chave privada, opcional */
+    hybridImportButton?: HTMLElement;
+    /** Botão para exportar a chave privada, opcional */
+    hybridExportButton?: HTMLElement;
+    /** Seletor de arquivo usado na importação da chave privada, opcional */
+    hybridKeyFileInput?: HTMLInputElement;
+    /** Campo que exibe a chave pública local (PEM), opcional */
+    hybridPublicKey?: HTMLTextAreaElement;
+    /** Elemento que exibe o algoritmo e a impressão digital do par local, opcional */
+    hybridInfo?: HTMLElement;
+    /** Campo com os destinatários (chaves públicas PEM, chaves simétricas e frases-senha), opcional */
+    hybridRecipients?: HTMLTextAreaElement;
+    /** Opção para incluir a chave atual como destinatário, opcional */
+    hybridIncludeKey?: HTMLInputElement;
+    /** Botão para encriptar para os destinatários, opcional */
+    hybridEncryptButton?: HTMLElement;
+    /** Botão para decriptar com a chave privada local ou a chave atual, opcional */
+    hybridDecryptButton?: HTMLElement;
+    /** Seletor com os destinatários da mensagem híbrida, opcional */
+    hybridSlots?: HTMLSelectElement;
+    /** Botão para listar os destinatários da mensagem, opcional */
+    hybridReadSlotsButton?: HTMLElement;
+    /** Botão para adicionar destinatários à mensagem, opcional */
+    hybridAddRecipientsButton?: HTMLElement;
+    /** Botão para revogar o destinatário selecionado, opcional */
+    hybridRevokeButton?: HTMLElement;
+    /** Seletor do algoritmo do par de chaves de assinatura, opcional */
+    signatureAlgorithm?: HTMLSelectElement;
+    /** Botão para gerar um par de chaves de assinatura, opcional */
+    signatureGenerateButton?: HTMLElement;
+    /** Botão para importar uma chave privada de assinatura, opcional */
+    signatureImportButton?: HTMLElement;
+    /** Botão para exportar a chave privada de assinatura, opcional */
+    signatureExportButton?: HTMLElement;
+    /** Seletor de arquivo usado na importação da chave de assinatura, opcional */
+    signatureKeyFileInput?: HTMLInputElement;
+    /** Campo que exibe a chave pública de verificação local (PEM), opcional */
+    signaturePublicKey?: HTMLTextAreaElement;
+    /** Elemento que exibe o algoritmo e a impressão digital do par de assinatura, opcional */
+    signatureInfo?: HTMLElement;
+    /** Opção para assinar o resultado de cada encriptação, opcional */
+    signOnEncrypt?: HTMLInputElement;
+    /** Campo da assinatura destacada, opcional */
+    signature?: HTMLInputElement;
+    /** Campo com as chaves públicas conhecidas (PEM) usadas na verificação, opcional */
+    trustedSigningKeys?: HTMLTextAreaElement;
+    /** Botão para verificar a assinatura do conteúdo encriptado, opcional */
+    verifySignatureButton?: HTMLElement;
+    /** Elemento que exibe o resultado da verificação da assinatura, opcional */
+    signatureStatus?: HTMLElement;
+    /** Seletor da função de hash do painel de resumos, opcional */
+    hashAlgorithm?: HTMLSelectElement;
+    /** Campo com o texto a resumir, opcional */
+    hashInput?: HTMLTextAreaElement;
+    /** Campo da chave do HMAC (vazio calcula apenas o resumo), opcional */
+    hmacKey?: HTMLInputElement;
+    /** Seletor da codificação da chave do HMAC, opcional */
+    hmacKeyFormat?: HTMLSelectElement;
+    /** Campo com o resumo esperado para conferência, opcional */
+    hashExpected?: HTMLInputElement;
+    /** Botão para resumir o texto, opcional */
+    hashTextButton?: HTMLElement;
+    /** Botão para resumir um arquivo, opcional */
+    hashFileButton?: HTMLElement;
+    /** Seletor de arquivo usado no cálculo do resumo, opcional */
+    hashFileInput?: HTMLInputElement;
+    /** Campo que exibe o resumo em hexadecimal, opcional */
+    hashHex?: HTMLInputElement;
+    /** Campo que exibe o resumo em Base64, opcional */
+    hashBase64?: HTMLInputElement;
+    /** Elemento que exibe a origem do resumo e o resultado da conferência, opcional */
+    hashInfo?: HTMLElement;
+    /** Campo da frase-senha do histórico de operações, opcional */
+    historyPassphrase?: HTMLInputElement;
+    /** Elemento que exibe se o histórico está bloqueado, opcional */
+    historyStatus?: HTMLElement;
+    /** Botão para desbloquear o histórico, opcional */
+    historyUnlockButton?: HTMLElement;
+    /** Botão para bloquear o histórico, opcional */
+    historyLockButton?: HTMLElement;
+    /** Seletor das entradas do histórico, opcional */
+    historyEntries?: HTMLSelectElement;
+    /** Elemento que exibe os detalhes da entrada selecionada no histórico, opcional */
+    historyInfo?: HTMLElement;
+    /** Botão para restaurar a entrada selecionada nos editores, opcional */
+    historyRestoreButton?: HTMLElement;
+    /** Botão para executar novamente a entrada selecionada, opcional */
+    historyRerunButton?: HTMLElement;
+    /** Botão para exportar o histórico, opcional */
+    historyExportButton?: HTMLElement;
+    /** Botão para apagar o histórico, opcional */
+    historyClearButton?: HTMLElement;
+    /** Grupo com a escolha da visualização de conteúdo decriptado binário, opcional */
+    binaryView?: HTMLElement;
+    /** Seletor da codificação usada para exibir conteúdo decriptado binário, opcional */
+    binaryViewEncoding?: HTMLSelectElement;
+    /** Elemento que exibe as codificações detectadas na decriptação, opcional */
+    detectedEncoding?: HTMLElement;
+    /** Área que destaca o arrastar e soltar de arquivos, opcional */
+    dropZone?: HTMLElement;
+    /** Seletor de arquivos, opcional */
+    fileInput?: HTMLInputElement;
+    /** Elemento que exibe o arquivo selecionado, opcional */
+    selectedFileName?: HTMLElement;
+    /** Botão para encriptar o arquivo selecionado, opcional */
+    encryptFileButton?: HTMLElement;
+    /** Botão para decriptar o arquivo selecionado, opcional */
+    decryptFileButton?: HTMLElement;
+    /** Barra de progresso do processamento de arquivos, opcional */
+    fileProgress?: HTMLProgressElement;
+    /** Botão para cancelar o processamento do arquivo, opcional */
+    cancelFileButton?: HTMLElement;
     /** Campo de entrada para encriptação */
     encryptInput: HTMLElement;
     /** Campo de entrada para decriptação */
@@ -170,4 +961,18 @@ export interface CryptoUtilities {
     textToArrayBuffer(text: string): ArrayBuffer;
     /** Converte ArrayBuffer para texto */
     arrayBufferToText(buffer: ArrayBuffer): string;
+    /** Verifica se os bytes formam texto UTF-8 válido */
+    isValidUtf8(bytes: Uint8Array): boolean;
+    /** Copia um BufferSource para Uint8Array */
+    toUint8Array(data: BufferSource): Uint8Array<ArrayBuffer>;
+    /** Converte Uint8Array para Base64 */
+    uint8ArrayToBase64(array: Uint8Array): string;
+    /** Converte Base64 para Uint8Array */
+    base64ToUint8Array(base64: string): Uint8Array;
+    /** Converte Uint8Array para Base64URL */
+    uint8ArrayToBase64Url(array: Uint8Array): string;
+    /** Converte Base64URL para Uint8Array */
+    base64UrlToUint8Array(base64Url: string): Uint8Array;
+    /** Detecta a codificação de uma string, com preferência entre Base64 e Base64URL */
+    detectEncoding(data: string, preferred?: DataEncoding): DataEncoding | null;
 }
@@ -0,0 +1,379 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DOMElements, HistoryEntry, MessageConfig, OutputValues, TooltipConfig } from '../types/index.js';
+import { collectElements, loadIndexFixture, reportMessages, waitFor, type DOMFixture } from '../testing/domFixture.js';
+import { UIManager } from './UIManager.js';
+
+/** Durações curtas e fáceis de calcular nos testes da fila de mensagens */
+const MESSAGE_CONFIG: MessageConfig = { baseDuration: 40, durationFactor: 20, fadeTimeout: 5 };
+
+/** Tooltips sem atraso */
+const TOOLTIP_CONFIG: TooltipConfig = { baseClass: 'tooltip', showDelay: 0, hideDelay: 0, position: 'auto', offset: 8, allowHtml: true };
+
+/**
+ * Simula a posição de um elemento na tela
+ * @param element Elemento
+ * @param rect Posição e tamanho
+ */
+function placeElement(element: Element, rect: { top: number; left: number; width: number; height: number }): void {
+    const domRect = {
+        ...rect,
+        x: rect.left,
+        y: rect.top,
+        right: rect.left + rect.width,
+        bottom: rect.top + rect.height,
+        toJSON: () => rect
+    };
+    element.getBoundingClientRect = () => domRect as DOMRect;
+}
+
+describe('UIManager', () => {
+    let fixture: DOMFixture;
+    let elements: DOMElements;
+    let ui: UIManager;
+
+    beforeEach(() => {
+        fixture = loadIndexFixture();
+        elements = collectElements(fixture.document);
+        ui = new UIManager(elements, MESSAGE_CONFIG, TOOLTIP_CONFIG);
+    });
+
+    afterEach(async () => {
+        ui.destroyTooltips();
+        await fixture.close();
+    });
+
+    describe('placeholder dos campos contenteditable', () => {
+        it('marca o campo vazio e desmarca quando há conteúdo', () => {
+            const input = elements.encryptInput;
+            assert.equal(input.classList.contains('empty'), true);
+            assert.equal(input.getAttribute('data-empty'), 'true');
+
+            ui.setContentEditableValue(input, 'texto');
+            assert.equal(input.classList.contains('empty'), false);
+            assert.equal(input.hasAttribute('data-empty'), false);
+
+            ui.setContentEditableValue(input, '');
+            assert.equal(input.classList.contains('empty'), true);
+            assert.equal(input.getAttribute('data-empty'), 'true');
+        });
+
+        it('considera vazio o campo só com espaços', () => {
+            ui.setContentEditableValue(elements.decryptInput, '   ');
+            assert.equal(elements.decryptInput.classList.contains('empty'), true);
+        });
+    });
+
+    describe('normalização dos campos contenteditable', () => {
+        /**
+         * Simula uma edição do usuário
+         * @param html Conteúdo produzido pelo navegador
+         * @returns HTML após a normalização
+         */
+        const edit = (html: string): string => {
+            elements.encryptInput.innerHTML = html;
+            elements.encryptInput.dispatchEvent(new Event('input', { bubbles: true }));
+            return elements.encryptInput.innerHTML;
+        };
+
+        it('converte divs criadas pelo navegador em quebras de linha', () => {
+            assert.equal(edit('<div>linha 1</div><div><br></div><div>linha 2</div>'), '<br>linha 1<br><br>linha 2');
+        });
+
+        it('remove formatação e atributos, mantendo só texto e <br>', () => {
+            assert.equal(edit('<b>negrito</b> e <span style="color: red">cor</span><img src="x">'), 'negrito e cor');
+        });
+
+        it('reduz sequências de quebras de linha a no máximo duas', () => {
+            assert.equal(edit('a<br><br><br><br>b'), 'a<br><br>b');
+        });
+
+        it('não altera conteúdo já normalizado', () => {
+            assert.equal(edit('a<br>b'), 'a<br>b');
+        });
+
+        it('lê quebras de linha como \\n e descarta espaços nas pontas', () => {
+            edit('<div>linha 1</div><div>linha 2</div>');
+            assert.equal(ui.getContentEditableValue(elements.encryptInput), 'linha 1\nlinha 2');
+        });
+
+        it('escreve \\n como <br> e lê de volta o mesmo texto', () => {
+            ui.setContentEditableValue(elements.decryptInput, 'a\nb\n\nc');
+            assert.equal(elements.decryptInput.innerHTML, 'a<br>b<br><br>c');
+            assert.equal(ui.getContentEditableValue(elements.decryptInput), 'a\nb\n\nc');
+        });
+    });
+
+    describe('fila de mensagens', () => {
+        it('adiciona mensagens com tipo, texto e id únicos, na ordem', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            const first = ui.addMessage('primeira', 'error');
+            const second = ui.addMessage('segunda');
+
+            assert.notEqual(first, second);
+            assert.deepEqual(reportMessages(elements.report).map(({ type, text }) => ({ type, text })), [
+                { type: 'error', text: 'primeira' },
+                { type: 'info', text: 'segunda' }
+            ]);
+            assert.equal(fixture.document.getElementById(first)?.className, 'message error');
+        });
+
+        it('usa o tipo de cada atalho', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            ui.showError('e');
+            ui.showSuccess('s');
+            ui.showInfo('i');
+            ui.showWarning('w');
+
+            assert.deepEqual(reportMessages(elements.report).map(message => message.type), ['error', 'success', 'info', 'warning']);
+        });
+
+        it('exibe, esmaece e remove a mensagem no tempo calculado', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            // Uma palavra: max(40, 40 + 1 × 20) = 60 ms
+            const id = ui.addMessage('temporária', 'success');
+            const element = fixture.document.getElementById(id)!;
+
+            t.mock.timers.tick(10);
+            assert.equal(element.classList.contains('show'), true);
+
+            t.mock.timers.tick(49);
+            assert.equal(element.classList.contains('fade-out'), false);
+
+            t.mock.timers.tick(1);
+            assert.equal(element.classList.contains('fade-out'), true);
+            assert.equal(elements.report.contains(element), true);
+
+            t.mock.timers.tick(5);
+            assert.equal(elements.report.contains(element), false);
+        });
+
+        it('mantém mensagens longas por mais tempo', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            const short = ui.addMessage('curta');
+            const long = ui.addMessage('uma mensagem bem mais longa com muitas palavras para ler com calma');
+
+            // Uma palavra: 60 ms; doze palavras: 40 + 12 × 20 = 280 ms (mais 5 ms de esmaecimento)
+            t.mock.timers.tick(60);
+            t.mock.timers.tick(5);
+            assert.equal(fixture.document.getElementById(short), null);
+            assert.notEqual(fixture.document.getElementById(long), null);
+
+            t.mock.timers.tick(215);
+            t.mock.timers.tick(5);
+            assert.equal(fixture.document.getElementById(long), null);
+        });
+
+        it('remove mensagens sob demanda e ignora ids desconhecidos', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            const id = ui.addMessage('remover');
+            ui.removeMessage('msg-inexistente');
+            ui.removeMessage(id);
+
+            assert.equal(fixture.document.getElementById(id)?.classList.contains('fade-out'), true);
+            t.mock.timers.tick(5);
+            assert.equal(fixture.document.getElementById(id), null);
+        });
+
+        it('limpa todas as mensagens', (t) => {
+            t.mock.timers.enable({ apis: ['setTimeout'] });
+            ui.showInfo('a');
+            ui.showError('b');
+            ui.clearAllMessages();
+
+            assert.equal(elements.report.children.length, 0);
+        });
+    });
+
+    describe('tooltips', () => {
+        const tooltips = (): HTMLElement[] => Array.from(fixture.document.querySelectorAll<HTMLElement>('body > .tooltip'));
+
+        it('cria um único tooltip no body, com HTML permitido', () => {
+            ui.showTooltip(elements.aesKey, 'primeiro');
+            ui.showTooltip(elements.iv, '<b>segundo</b>');
+
+            assert.equal(tooltips().length, 1);
+            assert.equal(tooltips()[0]!.className, 'tooltip tooltip--visible');
+            assert.equal(tooltips()[0]!.innerHTML, '<b>segundo</b>');
+
+            ui.hideTooltip();
+            assert.equal(tooltips().length, 0);
+        });
+
+        it('usa texto puro quando HTML não é permitido', () => {
+            const plain = new UIManager(elements, MESSAGE_CONFIG, { ...TOOLTIP_CONFIG, allowHtml: false });
+            plain.showTooltip(elements.aesKey, '<b>texto</b>');
+
+            assert.equal(tooltips()[0]!.textContent, '<b>texto</b>');
+            plain.destroyTooltips();
+        });
+
+        it('posiciona acima do elemento quando há espaço', () => {
+            placeElement(elements.aesKey, { top: 300, left: 500, width: 100, height: 20 });
+            ui.showTooltip(elements.aesKey, 'dica');
+
+            const tooltip = tooltips()[0]!;
+            assert.equal(tooltip.getAttribute('data-position'), 'top');
+            assert.equal(tooltip.style.position, 'fixed');
+            assert.equal(tooltip.style.top, '292px');
+            assert.equal(tooltip.style.left, '550px');
+        });
+
+        it('posiciona abaixo quando não há espaço acima', () => {
+            placeElement(elements.aesKey, { top: 0, left: 500, width: 100, height: 20 });
+            ui.showTooltip(elements.aesKey, 'dica');
+
+            const tooltip = tooltips()[0]!;
+            assert.equal(tooltip.getAttribute('data-position'), 'bottom');
+            assert.equal(tooltip.style.top, '28px');
+        });
+
+        it('respeita a posição pedida e mantém o tooltip dentro da janela', () => {
+            placeElement(elements.aesKey, { top: 760, left: 0, width: 100, height: 20 });
+            ui.showTooltip(elements.aesKey, 'dica', 'left');
+
+            const tooltip = tooltips()[0]!;
+            assert.equal(tooltip.getAttribute('data-position'), 'left');
+            assert.equal(tooltip.style.left, '8px');
+            assert.equal(tooltip.style.top, `${fixture.window.innerHeight - 8}px`);
+        });
+
+        it('mostra o data-title ao passar o mouse e esconde ao sair', async () => {
+            const label = fixture.document.querySelector<HTMLElement>('label[for="aesKey"]')!;
+
+            label.dispatchEvent(new Event('mouseenter'));
+            await waitFor(() => tooltips().length === 1);
+            assert.equal(tooltips()[0]!.innerHTML, label.getAttribute('data-title'));
+
+            label.dispatchEvent(new Event('mouseleave'));
+            await waitFor(() => tooltips().length === 0);
+        });
+
+        it('não reage mais aos eventos depois de destroyTooltips', async () => {
+            const label = fixture.document.querySelector<HTMLElement>('label[for="aesKey"]')!;
+            ui.destroyTooltips();
+
+            label.dispatchEvent(new Event('mouseenter'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            assert.equal(tooltips().length, 0);
+        });
+    });
+
+    describe('updateOutputValues', () => {
+        it('envia o texto encriptado ao campo de decriptação e o decriptado ao de encriptação', () => {
+            ui.updateOutputValues({ encryptedOutput: 'cifrado', decryptedOutput: 'claro\nsegunda linha' });
+
+            assert.equal(ui.getContentEditableValue(elements.decryptInput), 'cifrado');
+            assert.equal(ui.getContentEditableValue(elements.encryptInput), 'claro\nsegunda linha');
+            assert.equal(elements.encryptInput.classList.contains('empty'), false);
+        });
+
+        it('preenche chave e IV', () => {
+            ui.updateOutputValues({ aesKey: '00ff', iv: 'aabb' });
+
+            assert.equal(elements.aesKey.value, '00ff');
+            assert.equal(elements.iv.value, 'aabb');
+        });
+
+        it('preenche outros elementos pelo id: value em campos e texto nos demais', () => {
+            ui.updateOutputValues({ salt: 'sal', kdfParams: 'PBKDF2', hybridRecipients: 'destinatários' });
+
+            assert.equal(elements.salt!.value, 'sal');
+            assert.equal(elements.kdfParams!.textContent, 'PBKDF2');
+            assert.equal(elements.hybridRecipients!.value, 'destinatários');
+        });
+
+        it('ignora valores indefinidos e ids inexistentes', () => {
+            elements.aesKey.value = 'mantida';
+            ui.updateOutputValues({ aesKey: undefined, inexistente: 'x' } as unknown as OutputValues);
+
+            assert.equal(elements.aesKey.value, 'mantida');
+            assert.equal(fixture.document.getElementById('inexistente'), null);
+        });
+    });
+
+    describe('campos do formulário', () => {
+        it('lê os valores da interface, com chave e IV sem espaços', () => {
+            elements.aesKey.value = '  00ff  ';
+            elements.iv.value = ' aabb\n';
+            ui.setContentEditableValue(elements.encryptInput, 'olá');
+
+            const values = ui.getInputValues();
+            assert.equal(values.keyHex, '00ff');
+            assert.equal(values.ivHex, 'aabb');
+            assert.equal(values.encryptData, 'olá');
+            assert.equal(values.decryptData, '');
+            assert.equal(values.keyMode, 'hex');
+        });
+
+        it('limpa chave, IV, campos de texto e resultados', () => {
+            elements.aesKey.value = '00ff';
+            elements.iv.value = 'aabb';
+            elements.additionalData!.value = 'aad';
+            ui.updateOutputValues({ encryptedOutput: 'x', decryptedOutput: 'y' });
+            ui.showUsedIV('aabb');
+
+            ui.clearAllInputs();
+
+            const values = ui.getInputValues();
+            assert.equal(values.keyHex, '');
+            assert.equal(values.ivHex, '');
+            assert.equal(values.additionalData, '');
+            assert.equal(values.encryptData, '');
+            assert.equal(values.decryptData, '');
+            assert.equal(elements.usedIv!.textContent, '');
+        });
+
+        it('habilita e desabilita botões', () => {
+            ui.setElementEnabled('encryptButton', false);
+            assert.equal((elements.encryptButton as HTMLButtonElement).disabled, true);
+            assert.equal(elements.encryptButton.classList.contains('disabled'), true);
+
+            ui.setElementEnabled('encryptButton', true);
+            assert.equal((elements.encryptButton as HTMLButtonElement).disabled, false);
+            assert.equal(elements.encryptButton.classList.contains('disabled'), false);
+        });
+    });
+
+    describe('histórico de operações', () => {
+        const entry: HistoryEntry = {
+            id: 'entrada-1',
+            createdAt: new Date(2026, 0, 2, 3, 4, 5),
+            operation: 'encrypt',
+            algorithm: 'AES-GCM',
+            keyMode: 'hex',
+            keyFingerprint: '0123456789abcdef'.repeat(4),
+            inputSize: 5,
+            input: 'texto',
+            output: 'a1b2c3'
+        };
+
+        it('lista as entradas e descreve a selecionada sem expor a chave', () => {
+            ui.showHistory([entry, { ...entry, id: 'entrada-2', operation: 'decrypt' }], 'entrada-2');
+
+            const options = Array.from(elements.historyEntries!.options);
+            assert.equal(options.length, 2);
+            assert.match(options[0]!.textContent ?? '', /Encriptação AES-GCM \(5 bytes\)$/);
+            assert.equal(ui.getInputValues().historyEntryId, 'entrada-2');
+            assert.equal(elements.historyInfo!.textContent,
+                'Chave 0123456789abcdef (chave digitada) - entrada de 5 bytes, resultado com 6 caracteres');
+        });
+
+        it('ao bloquear, esconde as entradas e apaga a frase-senha', () => {
+            ui.setHistoryLocked(false);
+            ui.showHistory([entry]);
+            assert.equal(elements.historyUnlockButton!.hidden, true);
+            assert.equal(elements.historyLockButton!.hidden, false);
+
+            elements.historyPassphrase!.value = 'segredo';
+            ui.setHistoryLocked(true);
+
+            assert.equal(elements.historyUnlockButton!.hidden, false);
+            assert.equal(elements.historyLockButton!.hidden, true);
+            assert.equal(elements.historyPassphrase!.value, '');
+            assert.equal(ui.getInputValues().historyEntryId, '');
+            assert.equal(elements.historyInfo!.textContent, '');
+            assert.equal(elements.historyStatus!.textContent, 'Histórico bloqueado: as operações não estão sendo registradas.');
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import type { MessageType, MessageConfig, DOMElements, OutputValues, MessageManager, TooltipConfig, TooltipManager } from '../types/index.js';
+import type { MessageType, MessageConfig, DOMElements, OutputValues, MessageManager, TooltipConfig, TooltipManager, KeyInputMode, CipherSettings, FieldValidation, ValidatedField, VaultKeyInfo, HistoryEntry, HybridRecipient, RecipientType, SignatureAlgorithm, SignatureVerification, HashResult } from '../types/index.js';
 
 /**
  * Gerenciador de interface do usuário
@@ -11,6 +11,7 @@ export class UIManager implements MessageManager, TooltipManager {
     private messageCounter: number = 0;
     private tooltipElement: HTMLElement | null = null;
     private tooltipTimeout: number | null = null;
+    private fieldValidation: (() => void) | null = null;
 
     /**
      * Cria uma nova instância do UIManager
@@ -555,6 +556,32 @@ export class UIManager implements MessageManager, TooltipManager {
         return {
             keyHex: (this.elements.aesKey as HTMLInputElement).value.trim(),
             ivHex: (this.elements.iv as HTMLInputElement).value.trim(),
+            additionalData: this.elements.additionalData?.value ?? '',
+            cipherAlgorithm: this.elements.cipherAlgorithm?.value ?? '',
+            keyLength: this.elements.keyLength?.value ?? '',
+            keyMode: this.elements.keyMode?.value ?? 'hex',
+            passphrase: this.elements.passphrase?.value ?? '',
+            saltHex: this.elements.salt?.value.trim() ?? '',
+            vaultKeyId: this.elements.vaultKeys?.value ?? '',
+            vaultLabel: this.elements.vaultLabel?.value ?? '',
+            keyExportFormat: this.elements.keyExportFormat?.value ?? 'raw',
+            hybridAlgorithm: this.elements.hybridAlgorithm?.value ?? 'ECDH-P256',
+            hybridRecipients: this.elements.hybridRecipients?.value ?? '',
+            hybridSlotId: this.elements.hybridSlots?.value ?? '',
+            signatureAlgorithm: this.elements.signatureAlgorithm?.value ?? 'ECDSA-P256',
+            signature: this.elements.signature?.value.trim() ?? '',
+            trustedSigningKeys: this.elements.trustedSigningKeys?.value ?? '',
+            hashAlgorithm: this.elements.hashAlgorithm?.value ?? 'SHA-256',
+            hashInput: this.elements.hashInput?.value ?? '',
+            hmacKey: this.elements.hmacKey?.value ?? '',
+            hmacKeyFormat: this.elements.hmacKeyFormat?.value ?? 'text',
+            hashExpected: this.elements.hashExpected?.value.trim() ?? '',
+            vaultPassphrase: this.elements.vaultPassphrase?.value ?? '',
+            vaultNewPassphrase: this.elements.vaultNewPassphrase?.value ?? '',
+            historyPassphrase: this.elements.historyPassphrase?.value ?? '',
+            historyEntryId: this.elements.historyEntries?.value ?? '',
+            outputEncoding: this.elements.outputEncoding?.value ?? '',
+            binaryViewEncoding: this.elements.binaryViewEncoding?.value ?? 'hex',
             encryptData: this.getContentEditableValue(this.elements.encryptInput),
             decryptData: this.getContentEditableValue(this.elements.decryptInput)
         };
@@ -598,6 +625,9 @@ export class UIManager implements MessageManager, TooltipManager {
                     break;
             }
         });
+
+        // Valores preenchidos pela aplicação não disparam o evento input
+        this.fieldValidation?.();
     }
 
     /**
@@ -606,8 +636,34 @@ export class UIManager implements MessageManager, TooltipManager {
     public clearAllInputs(): void {
         (this.elements.aesKey as HTMLInputElement).value = '';
         (this.elements.iv as HTMLInputElement).value = '';
+        if (this.elements.additionalData) {
+            this.elements.additionalData.value = '';
+        }
+        if (this.elements.passphrase) {
+            this.elements.passphrase.value = '';
+        }
+        if (this.elements.salt) {
+            this.elements.salt.value = '';
+        }
+        if (this.elements.kdfParams) {
+            this.elements.kdfParams.textContent = '';
+        }
+        if (this.elements.detectedEncoding) {
+            this.elements.detectedEncoding.textContent = '';
+        }
+        if (this.elements.signature) {
+            this.elements.signature.value = '';
+        }
+        if (this.elements.hmacKey) {
+            this.elements.hmacKey.value = '';
+        }
+        this.showUsedIV(null);
+        this.showSignatureStatus(null);
+        this.showHashResult(null);
+        this.setBinaryView(false);
         this.setContentEditableValue(this.elements.encryptInput, '');
         this.setContentEditableValue(this.elements.decryptInput, '');
+        this.fieldValidation?.();
     }
 
     /**
@@ -649,6 +705,548 @@ export class UIManager implements MessageManager, TooltipManager {
         }
     }
 
+    /**
+     * Configura a validação em tempo real da chave, do IV e do texto cifrado
+     * A validação é refeita a cada digitação, na troca do modo da chave, do algoritmo
+     * ou da geração automática de IV, e sempre que a aplicação preenche os campos
+     * @param validate Função que valida os campos e exibe o resultado
+     */
+    public setupFieldValidation(validate: () => void): void {
+        this.fieldValidation = validate;
+
+        this.elements.aesKey.addEventListener('input', validate);
+        this.elements.iv.addEventListener('input', validate);
+        this.elements.decryptInput.addEventListener('input', validate);
+        // A colagem no contenteditable é tratada sem disparar o evento input
+        this.elements.decryptInput.addEventListener('paste', validate);
+
+        for (const key of ['keyMode', 'autoIv', 'cipherAlgorithm', 'keyLength'] as const) {
+            this.elements[key]?.addEventListener('change', validate);
+        }
+
+        validate();
+    }
+
+    /**
+     * Exibe o resultado da validação de um campo
+     * O campo recebe a classe do estado ('valid', 'warning' ou 'invalid') e aria-invalid,
+     * e o elemento de status ao lado exibe tamanho, codificação e dicas
+     * @param field Campo validado
+     * @param validation Resultado da validação
+     */
+    public showFieldValidation(field: ValidatedField, validation: FieldValidation): void {
+        const element = this.elements[field];
+        const status = this.elements[`${field}Status`];
+
+        element.classList.toggle('valid', validation.state === 'valid');
+        element.classList.toggle('warning', validation.state === 'warning');
+        element.classList.toggle('invalid', validation.state === 'invalid');
+        element.setAttribute('aria-invalid', String(validation.state === 'invalid'));
+
+        if (status) {
+            status.textContent = validation.message;
+            status.classList.toggle('warning', validation.state === 'warning');
+            status.classList.toggle('invalid', validation.state === 'invalid');
+        }
+    }
+
+    /**
+     * Configura a seleção de arquivos pelo seletor e por arrastar e soltar na página
+     * @param onFileSelected Callback chamado com o arquivo escolhido
+     */
+    public setupFileSelection(onFileSelected: (file: File) => void): void {
+        const dropZone = this.elements.dropZone;
+
+        this.elements.fileInput?.addEventListener('change', () => {
+            const file = this.elements.fileInput?.files?.[0];
+            if (file) {
+                onFileSelected(file);
+            }
+        });
+
+        // Aceitar arquivos soltos em qualquer parte da página
+        document.addEventListener('dragover', (e) => {
+            if (!e.dataTransfer?.types.includes('Files')) return;
+
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
+            dropZone?.classList.add('dragging');
+        });
+
+        document.addEventListener('dragleave', (e) => {
+            // Só remover o destaque quando o cursor sair da janela
+            if (e.relatedTarget === null) {
+                dropZone?.classList.remove('dragging');
+            }
+        });
+
+        document.addEventListener('drop', (e) => {
+            if (!e.dataTransfer?.files.length) return;
+
+            e.preventDefault();
+            dropZone?.classList.remove('dragging');
+            onFileSelected(e.dataTransfer.files[0]);
+        });
+    }
+
+    /**
+     * Configura um botão que abre um seletor de arquivos oculto
+     * Usado na importação de chaves a partir de arquivos
+     * @param buttonKey Botão que abre o seletor
+     * @param inputKey Seletor de arquivos oculto
+     * @param onFileSelected Callback chamado com o arquivo escolhido
+     */
+    public setupFilePicker(
+        buttonKey: keyof DOMElements,
+        inputKey: 'keyFileInput' | 'hybridKeyFileInput' | 'signatureKeyFileInput' | 'hashFileInput',
+        onFileSelected: (file: File) => void
+    ): void {
+        const input = this.elements[inputKey];
+
+        this.addEventListener(buttonKey, 'click', () => {
+            input?.click();
+        });
+
+        input?.addEventListener('change', () => {
+            const file = input.files?.[0];
+
+            // Permitir escolher o mesmo arquivo novamente
+            input.value = '';
+
+            if (file) {
+                onFileSelected(file);
+            }
+        });
+    }
+
+    /**
+     * Exibe o arquivo atualmente selecionado
+     * @param file Arquivo selecionado ou null para limpar
+     */
+    public showSelectedFile(file: File | null): void {
+        if (!this.elements.selectedFileName) return;
+
+        this.elements.selectedFileName.textContent = file
+            ? `${file.name} (${this.formatBytes(file.size)})`
+            : 'Nenhum arquivo selecionado';
+    }
+
+    /**
+     * Exibe o progresso do processamento de um arquivo
+     * Enquanto houver progresso, o botão de cancelar fica visível
+     * @param fraction Fração concluída entre 0 e 1, ou null para esconder a barra
+     */
+    public setFileProgress(fraction: number | null): void {
+        const progress = this.elements.fileProgress;
+        const cancelButton = this.elements.cancelFileButton;
+
+        if (progress) {
+            progress.hidden = fraction === null;
+            progress.value = Math.min(1, Math.max(0, fraction ?? 0));
+        }
+
+        if (cancelButton) {
+            cancelButton.hidden = fraction === null;
+        }
+    }
+
+    /**
+     * Formata um tamanho em bytes para exibição
+     * @param bytes Quantidade de bytes
+     * @returns Texto legível (ex.: "1,5 MB")
+     */
+    public formatBytes(bytes: number): string {
+        const units = ['bytes', 'KB', 'MB', 'GB'];
+        let value = bytes;
+        let unit = 0;
+
+        while (value >= 1024 && unit < units.length - 1) {
+            value /= 1024;
+            unit++;
+        }
+
+        return unit === 0
+            ? `${value} ${units[unit]}`
+            : `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${units[unit]}`;
+    }
+
+    /**
+     * Oferece um Blob para download
+     * @param blob Conteúdo a ser baixado
+     * @param fileName Nome do arquivo
+     */
+    public downloadBlob(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+
+        link.href = url;
+        link.download = fileName;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+
+        // Liberar a URL depois que o navegador iniciar o download
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    /**
+     * Mostra ou esconde a escolha de visualização do conteúdo decriptado binário
+     * @param visible true quando o conteúdo decriptado não é texto UTF-8
+     */
+    public setBinaryView(visible: boolean): void {
+        if (this.elements.binaryView) {
+            this.elements.binaryView.hidden = !visible;
+        }
+    }
+
+    /**
+     * Indica se a encriptação deve produzir um envelope autodescritivo
+     * @returns true se a opção estiver marcada (false se o elemento não existir)
+     */
+    public isEnvelopeEnabled(): boolean {
+        return this.elements.useEnvelope?.checked ?? false;
+    }
+
+    /**
+     * Indica se cada encriptação deve usar um IV novo
+     * @returns true se a opção estiver marcada (true se o elemento não existir)
+     */
+    public isAutoIVEnabled(): boolean {
+        return this.elements.autoIv?.checked ?? true;
+    }
+
+    /**
+     * Exibe o IV usado na última encriptação, junto do texto cifrado
+     * O campo IV também recebe o valor, para que a decriptação o encontre
+     * @param ivHex IV em hexadecimal ou null para limpar
+     * @param note Observação exibida após o IV (opcional)
+     */
+    public showUsedIV(ivHex: string | null, note: string = ''): void {
+        if (ivHex) {
+            (this.elements.iv as HTMLInputElement).value = ivHex;
+        }
+
+        if (this.elements.usedIv) {
+            this.elements.usedIv.textContent = ivHex ? `IV usado: ${ivHex}${note ? ` - ${note}` : ''}` : '';
+        }
+    }
+
+    /**
+     * Exibe o algoritmo e o tamanho da chave em uso
+     * @param settings Algoritmo e tamanho da chave
+     * @param ivLength Tamanho do IV do algoritmo, em bytes
+     */
+    public setCipherSettings(settings: CipherSettings, ivLength: number): void {
+        if (this.elements.cipherAlgorithm) {
+            this.elements.cipherAlgorithm.value = settings.algorithm;
+        }
+
+        if (this.elements.keyLength) {
+            this.elements.keyLength.value = String(settings.keyLength);
+        }
+
+        this.elements.iv.placeholder = `IV (${ivLength} bytes)`;
+    }
+
+    /**
+     * Alterna a interface entre os modos de entrada da chave
+     * Nos modos frase-senha e cofre a chave não é digitada: no primeiro ela é derivada
+     * e apenas exibida; no segundo o campo fica vazio, pois o material nunca sai do cofre
+     * @param mode Modo de entrada da chave
+     */
+    public setKeyMode(mode: KeyInputMode): void {
+        if (this.elements.keyMode) {
+            this.elements.keyMode.value = mode;
+        }
+
+        if (this.elements.passphraseGroup) {
+            this.elements.passphraseGroup.hidden = mode !== 'passphrase';
+        }
+
+        const aesKey = this.elements.aesKey;
+        aesKey.readOnly = mode !== 'hex';
+        aesKey.classList.toggle('derived', mode !== 'hex');
+
+        if (mode === 'vault') {
+            aesKey.value = '';
+            aesKey.placeholder = 'Chave guardada no cofre';
+        } else {
+            aesKey.placeholder = 'Chave AES';
+        }
+    }
+
+    /**
+     * Exibe as chaves guardadas no cofre
+     * @param keys Chaves do cofre
+     * @param selectedId Identificador da chave a manter selecionada (opcional)
+     */
+    public showVaultKeys(keys: VaultKeyInfo[], selectedId?: string): void {
+        const select = this.elements.vaultKeys;
+        if (!select) return;
+
+        select.replaceChildren(...keys.map(key => {
+            const option = document.createElement('option');
+            option.value = key.id;
+            option.textContent = `${key.label} (${key.algorithm}, ${key.keyLength} bits${key.protected ? ', protegida' : ''})`;
+            return option;
+        }));
+
+        if (keys.length === 0) {
+            const option = document.createElement('option');
+            option.value = '';
+            option.textContent = 'Nenhuma chave no cofre';
+            select.append(option);
+        }
+
+        if (selectedId && keys.some(key => key.id === selectedId)) {
+            select.value = selectedId;
+        }
+
+        this.showVaultKeyInfo(keys.find(key => key.id === select.value) ?? null);
+    }
+
+    /**
+     * Exibe os detalhes da chave selecionada no cofre
+     * @param key Chave selecionada ou null para limpar
+     */
+    public showVaultKeyInfo(key: VaultKeyInfo | null): void {
+        if (this.elements.vaultLabel) {
+            this.elements.vaultLabel.value = key?.label ?? '';
+        }
+
+        if (this.elements.vaultInfo) {
+            this.elements.vaultInfo.textContent = key
+                ? `Criada em ${key.createdAt.toLocaleString('pt-BR')} - ${key.algorithm}, ${key.keyLength} bits`
+                    + (key.protected ? ' - encapsulada pela frase-senha mestra' : '')
+                : '';
+        }
+    }
+
+    /**
+     * Exibe o par de chaves local da criptografia híbrida
+     * @param publicKeyPem Chave pública em PEM ou null para limpar
+     * @param description Algoritmo e impressão digital do par
+     */
+    public showHybridKeyPair(publicKeyPem: string | null, description: string = ''): void {
+        if (this.elements.hybridPublicKey) {
+            this.elements.hybridPublicKey.value = publicKeyPem ?? '';
+        }
+
+        if (this.elements.hybridInfo) {
+            this.elements.hybridInfo.textContent = publicKeyPem ? description : 'Nenhum par de chaves carregado.';
+        }
+    }
+
+    /**
+     * Indica se a chave atual deve ser incluída como destinatário da mensagem híbrida
+     * @returns true se a opção estiver marcada (false se o elemento não existir)
+     */
+    public isHybridKeyIncluded(): boolean {
+        return this.elements.hybridIncludeKey?.checked ?? false;
+    }
+
+    /**
+     * Exibe os destinatários de uma mensagem híbrida
+     * @param recipients Destinatários lidos do cabeçalho
+     * @param ownFingerprint Impressão digital do par local, destacada na lista (opcional)
+     */
+    public showHybridRecipients(recipients: HybridRecipient[], ownFingerprint?: string): void {
+        const select = this.elements.hybridSlots;
+        if (!select) return;
+
+        const labels: Record<RecipientType, string> = {
+            'RSA-OAEP': 'Chave pública RSA-OAEP',
+            'ECDH-P256': 'Chave pública ECDH P-256',
+            'AES-GCM': 'Chave simétrica AES-GCM',
+            'PBKDF2': 'Frase-senha'
+        };
+
+        select.replaceChildren(...recipients.map(recipient => {
+            const option = document.createElement('option');
+            option.value = recipient.fingerprint;
+            option.textContent = `${labels[recipient.algorithm]} - ${recipient.fingerprint}`
+                + (recipient.fingerprint === ownFingerprint ? ' (minha chave)' : '');
+            return option;
+        }));
+
+        if (recipients.length === 0) {
+            const option = document.createElement('option');
+            option.value = '';
+            option.textContent = 'Nenhuma mensagem lida';
+            select.append(option);
+        }
+    }
+
+    /**
+     * Exibe o par de chaves de assinatura local
+     * @param publicKeyPem Chave pública de verificação em PEM ou null para limpar
+     * @param description Algoritmo e impressão digital do par
+     */
+    public showSigningKeyPair(publicKeyPem: string | null, description: string = ''): void {
+        if (this.elements.signaturePublicKey) {
+            this.elements.signaturePublicKey.value = publicKeyPem ?? '';
+        }
+
+        if (this.elements.signatureInfo) {
+            this.elements.signatureInfo.textContent = publicKeyPem ? description : 'Nenhum par de chaves de assinatura carregado.';
+        }
+    }
+
+    /**
+     * Indica se o resultado de cada encriptação deve ser assinado
+     * @returns true se a opção estiver marcada (false se o elemento não existir)
+     */
+    public isSignOnEncryptEnabled(): boolean {
+        return this.elements.signOnEncrypt?.checked ?? false;
+    }
+
+    /**
+     * Exibe o resultado da verificação de uma assinatura
+     * @param verification Resultado da verificação ou null para limpar
+     * @param ownFingerprint Impressão digital do par de assinatura local, identificado no resultado (opcional)
+     */
+    public showSignatureStatus(verification: SignatureVerification | null, ownFingerprint?: string): void {
+        const status = this.elements.signatureStatus;
+        if (!status) return;
+
+        if (!verification) {
+            status.textContent = '';
+            return;
+        }
+
+        if (!verification.valid) {
+            status.textContent = 'Assinatura inválida ou de uma chave desconhecida.';
+            return;
+        }
+
+        const labels: Record<SignatureAlgorithm, string> = {
+            'ECDSA-P256': 'ECDSA P-256',
+            'Ed25519': 'Ed25519'
+        };
+
+        status.textContent = `Assinatura válida: ${verification.algorithm ? labels[verification.algorithm] : 'chave'} - ${verification.fingerprint}`
+            + (verification.fingerprint === ownFingerprint ? ' (minha chave)' : '');
+    }
+
+    /**
+     * Exibe o resultado do painel de resumos
+     * @param result Resumo ou HMAC calculado, ou null para limpar
+     * @param description Origem do resumo e resultado da conferência
+     */
+    public showHashResult(result: HashResult | null, description: string = ''): void {
+        if (this.elements.hashHex) {
+            this.elements.hashHex.value = result?.hex ?? '';
+        }
+
+        if (this.elements.hashBase64) {
+            this.elements.hashBase64.value = result?.base64 ?? '';
+        }
+
+        if (this.elements.hashInfo) {
+            this.elements.hashInfo.textContent = result ? description : '';
+        }
+    }
+
+    /**
+     * Atualiza a interface conforme o estado do cofre protegido
+     * Ao bloquear, as frases-senha digitadas são apagadas
+     * @param locked true se o cofre protegido estiver bloqueado
+     * @param initialized false se a frase-senha mestra ainda não foi definida
+     */
+    public setVaultLocked(locked: boolean, initialized: boolean = true): void {
+        if (this.elements.vaultLockStatus) {
+            this.elements.vaultLockStatus.textContent = !initialized
+                ? 'Cofre protegido ainda sem frase-senha mestra: desbloqueie para defini-la.'
+                : locked ? 'Cofre protegido bloqueado.' : 'Cofre protegido desbloqueado.';
+        }
+
+        if (this.elements.vaultUnlockButton) {
+            this.elements.vaultUnlockButton.hidden = !locked;
+        }
+
+        if (this.elements.vaultLockButton) {
+            this.elements.vaultLockButton.hidden = locked;
+        }
+
+        if (locked) {
+            if (this.elements.vaultPassphrase) this.elements.vaultPassphrase.value = '';
+            if (this.elements.vaultNewPassphrase) this.elements.vaultNewPassphrase.value = '';
+        }
+    }
+
+    /**
+     * Exibe as entradas do histórico de operações
+     * @param entries Entradas, da mais recente para a mais antiga
+     * @param selectedId Identificador da entrada a manter selecionada (opcional)
+     */
+    public showHistory(entries: HistoryEntry[], selectedId?: string): void {
+        const select = this.elements.historyEntries;
+        if (!select) return;
+
+        select.replaceChildren(...entries.map(entry => {
+            const option = document.createElement('option');
+            option.value = entry.id;
+            option.textContent = `${entry.createdAt.toLocaleString('pt-BR')} - `
+                + `${entry.operation === 'encrypt' ? 'Encriptação' : 'Decriptação'} ${entry.algorithm} (${entry.inputSize} bytes)`;
+            return option;
+        }));
+
+        if (entries.length === 0) {
+            const option = document.createElement('option');
+            option.value = '';
+            option.textContent = 'Nenhuma operação no histórico';
+            select.append(option);
+        }
+
+        if (selectedId && entries.some(entry => entry.id === selectedId)) {
+            select.value = selectedId;
+        }
+
+        this.showHistoryEntryInfo(entries.find(entry => entry.id === select.value) ?? null);
+    }
+
+    /**
+     * Exibe os detalhes da entrada selecionada no histórico
+     * @param entry Entrada selecionada ou null para limpar
+     */
+    public showHistoryEntryInfo(entry: HistoryEntry | null): void {
+        if (!this.elements.historyInfo) return;
+
+        const keyModes: Record<KeyInputMode, string> = { hex: 'chave digitada', passphrase: 'frase-senha', vault: 'chave do cofre' };
+        this.elements.historyInfo.textContent = entry
+            ? `Chave ${entry.keyFingerprint.slice(0, 16)} (${keyModes[entry.keyMode]}) - `
+                + `entrada de ${entry.inputSize} bytes, resultado com ${entry.output.length} caracteres`
+            : '';
+    }
+
+    /**
+     * Atualiza a interface conforme o estado do histórico de operações
+     * Ao bloquear, a frase-senha digitada e as entradas exibidas são apagadas
+     * @param locked true se o histórico estiver bloqueado
+     * @param initialized false se a frase-senha do histórico ainda não foi definida
+     */
+    public setHistoryLocked(locked: boolean, initialized: boolean = true): void {
+        if (this.elements.historyStatus) {
+            this.elements.historyStatus.textContent = !initialized
+                ? 'Histórico desativado: desbloqueie para definir a frase-senha e começar a registrar as operações.'
+                : locked ? 'Histórico bloqueado: as operações não estão sendo registradas.' : 'Histórico desbloqueado: as operações estão sendo registradas.';
+        }
+
+        if (this.elements.historyUnlockButton) {
+            this.elements.historyUnlockButton.hidden = !locked;
+        }
+
+        if (this.elements.historyLockButton) {
+            this.elements.historyLockButton.hidden = locked;
+        }
+
+        if (locked) {
+            if (this.elements.historyPassphrase) this.elements.historyPassphrase.value = '';
+            this.showHistory([]);
+        }
+    }
+
     /**
      * Obtém referência aos elementos DOM gerenciados
      * @returns Objeto com elementos DOM
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CryptoUtils } from './CryptoUtils.js';
+
+const utils = new CryptoUtils();
+
+describe('CryptoUtils', () => {
+    describe('hexToUint8Array', () => {
+        it('converte pares de caracteres em bytes, aceitando maiúsculas e espaços nas pontas', () => {
+            assert.deepEqual(utils.hexToUint8Array('00ff10Ab'), new Uint8Array([0x00, 0xff, 0x10, 0xab]));
+            assert.deepEqual(utils.hexToUint8Array('  0a0b \n'), new Uint8Array([0x0a, 0x0b]));
+        });
+
+        it('recusa hexadecimal com número ímpar de caracteres em vez de completar com zero', () => {
+            assert.throws(() => utils.hexToUint8Array('abc'), /número par de caracteres/);
+            assert.throws(() => utils.hexToUint8Array('f'), /número par de caracteres/);
+        });
+
+        it('recusa caracteres fora do alfabeto hexadecimal e texto vazio', () => {
+            assert.throws(() => utils.hexToUint8Array('0g'), /hexadecimal inválida/);
+            assert.throws(() => utils.hexToUint8Array(''), /hexadecimal inválida/);
+        });
+
+        it('é o inverso de uint8ArrayToHex', () => {
+            for (let length = 0; length < 64; length++) {
+                const bytes = utils.generateRandomBytes(length);
+                const hex = utils.uint8ArrayToHex(bytes);
+
+                assert.equal(hex.length, length * 2);
+                if (length > 0) {
+                    assert.deepEqual(utils.hexToUint8Array(hex), bytes);
+                }
+            }
+        });
+    });
+
+    describe('textToArrayBuffer', () => {
+        it('retorna exatamente os bytes UTF-8 do texto', () => {
+            for (const text of ['', 'a', 'olá', '€ e 😀', 'x'.repeat(1000)]) {
+                const expected = Buffer.from(text, 'utf8');
+                const buffer = utils.textToArrayBuffer(text);
+
+                assert.equal(buffer.byteLength, expected.length);
+                assert.deepEqual(new Uint8Array(buffer), new Uint8Array(expected));
+            }
+        });
+
+        it('é o inverso de arrayBufferToText', () => {
+            const text = 'Criptografia — ação, coração 🔐';
+            assert.equal(utils.arrayBufferToText(utils.textToArrayBuffer(text)), text);
+        });
+    });
+
+    describe('codificações', () => {
+        it('detecta hex, Base64 e Base64URL', () => {
+            assert.equal(utils.detectEncoding('00ff'), 'hex');
+            assert.equal(utils.detectEncoding('AP8='), 'base64');
+            assert.equal(utils.detectEncoding('AP-_'), 'base64url');
+            assert.equal(utils.detectEncoding('não é nada'), null);
+        });
+
+        it('nos dois alfabetos do Base64, usa a codificação preferida', () => {
+            // "AQIDBAUG" não tem "+", "/", "-" nem "_": é Base64 e Base64URL, com os mesmos bytes
+            assert.equal(utils.detectEncoding('AQIDBAUG'), 'base64');
+            assert.equal(utils.detectEncoding('AQIDBAUG', 'base64url'), 'base64url');
+            assert.equal(utils.detectEncoding('AQIDBAUG', 'base64'), 'base64');
+            assert.deepEqual(utils.decodeData('AQIDBAUG', 'base64url'), { bytes: new Uint8Array([1, 2, 3, 4, 5, 6]), encoding: 'base64url' });
+
+            // A preferência não muda o que só é válido em um dos alfabetos, nem a prioridade do hexadecimal
+            assert.equal(utils.detectEncoding('AP+/', 'base64url'), 'base64');
+            assert.equal(utils.detectEncoding('AP-_', 'base64'), 'base64url');
+            assert.equal(utils.detectEncoding('00ff', 'base64url'), 'hex');
+        });
+
+        it('não trata hex com número ímpar de caracteres como hexadecimal', () => {
+            assert.notEqual(utils.detectEncoding('abc'), 'hex');
+        });
+
+        it('decodifica o que codifica, em todas as codificações', () => {
+            for (let length = 1; length < 48; length++) {
+                const bytes = utils.generateRandomBytes(length);
+
+                for (const encoding of ['hex', 'base64', 'base64url'] as const) {
+                    const encoded = utils.encodeBytes(bytes, encoding);
+                    assert.deepEqual(utils.decodeData(encoded).bytes, bytes, `${encoding}, ${length} bytes`);
+                }
+            }
+        });
+
+        it('recusa dados em codificação não reconhecida', () => {
+            assert.throws(() => utils.decodeData('***'), /Codificação não reconhecida/);
+        });
+    });
+
+    describe('constantTimeEqual', () => {
+        it('compara conteúdo e tamanho', () => {
+            assert.equal(utils.constantTimeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3])), true);
+            assert.equal(utils.constantTimeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4])), false);
+            assert.equal(utils.constantTimeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 3])), false);
+        });
+    });
+});
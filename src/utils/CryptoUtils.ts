@@ -1,4 +1,4 @@
-import type { CryptoUtilities } from '../types/index.js';
+import type { CryptoUtilities, DataEncoding, DecodedData } from '../types/index.js';
 
 /**
  * Utilitários para operações de criptografia
@@ -19,7 +19,7 @@ export class CryptoUtils implements CryptoUtilities {
      * Converte string hexadecimal para Uint8Array
      * @param hexString String hexadecimal a ser convertida
      * @returns Uint8Array resultante
-     * @throws Error se o hex for inválido
+     * @throws Error se o hex for inválido ou tiver um número ímpar de caracteres
      */
     public hexToUint8Array(hexString: string): Uint8Array {
         const cleanHex = hexString.trim();
@@ -28,13 +28,15 @@ export class CryptoUtils implements CryptoUtilities {
             throw new Error('String hexadecimal inválida');
         }
 
-        // Garantir que o hex tem um número par de caracteres
-        const normalizedHex = cleanHex.length % 2 === 0 ? cleanHex : '0' + cleanHex;
+        // Cada byte são dois caracteres: completar com zero mudaria o valor silenciosamente
+        if (cleanHex.length % 2 !== 0) {
+            throw new Error('String hexadecimal deve ter um número par de caracteres');
+        }
         
-        const result = new Uint8Array(normalizedHex.length / 2);
+        const result = new Uint8Array(cleanHex.length / 2);
         
-        for (let i = 0; i < normalizedHex.length; i += 2) {
-            result[i / 2] = parseInt(normalizedHex.substr(i, 2), 16);
+        for (let i = 0; i < cleanHex.length; i += 2) {
+            result[i / 2] = parseInt(cleanHex.substring(i, i + 2), 16);
         }
         
         return result;
@@ -54,11 +56,13 @@ export class CryptoUtils implements CryptoUtilities {
     /**
      * Converte texto para ArrayBuffer usando TextEncoder
      * @param text Texto a ser convertido
-     * @returns ArrayBuffer resultante
+     * @returns ArrayBuffer resultante, com exatamente os bytes do texto
      */
     public textToArrayBuffer(text: string): ArrayBuffer {
         const encoder = new TextEncoder();
-        return encoder.encode(text).buffer;
+        const bytes = encoder.encode(text);
+        // O buffer de um Uint8Array pode ser maior que a visão: copiar apenas o trecho usado
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
     }
 
     /**
@@ -71,15 +75,70 @@ export class CryptoUtils implements CryptoUtilities {
         return decoder.decode(new Uint8Array(buffer));
     }
 
+    /**
+     * Verifica se os bytes formam um texto UTF-8 válido
+     * @param bytes Bytes a serem verificados
+     * @returns true se os bytes puderem ser decodificados sem perdas
+     */
+    public isValidUtf8(bytes: Uint8Array): boolean {
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Compara dois arrays de bytes em tempo constante
+     * O tempo depende apenas do tamanho, não da posição da primeira diferença
+     * @param a Primeiro array
+     * @param b Segundo array
+     * @returns true se os arrays forem iguais
+     */
+    public constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+        if (a.length !== b.length) {
+            return false;
+        }
+
+        let difference = 0;
+        for (let index = 0; index < a.length; index++) {
+            difference |= a[index] ^ b[index];
+        }
+
+        return difference === 0;
+    }
+
+    /**
+     * Copia qualquer BufferSource para um Uint8Array com ArrayBuffer próprio
+     * @param data ArrayBuffer, TypedArray ou DataView
+     * @returns Uint8Array independente dos dados originais
+     */
+    public toUint8Array(data: BufferSource): Uint8Array<ArrayBuffer> {
+        if (ArrayBuffer.isView(data)) {
+            return new Uint8Array(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+        }
+        return new Uint8Array(new Uint8Array(data));
+    }
+
+    /**
+     * Gera bytes aleatórios criptograficamente seguros
+     * @param length Quantidade de bytes
+     * @returns Uint8Array com os bytes gerados
+     */
+    public generateRandomBytes(length: number): Uint8Array<ArrayBuffer> {
+        const array = new Uint8Array(length);
+        crypto.getRandomValues(array);
+        return array;
+    }
+
     /**
      * Gera uma chave AES aleatória
      * @param length Tamanho da chave em bytes (16, 24 ou 32)
      * @returns String hexadecimal da chave gerada
      */
     public generateRandomKey(length: number = 16): string {
-        const array = new Uint8Array(length);
-        crypto.getRandomValues(array);
-        return this.uint8ArrayToHex(array);
+        return this.uint8ArrayToHex(this.generateRandomBytes(length));
     }
 
     /**
@@ -88,9 +147,7 @@ export class CryptoUtils implements CryptoUtilities {
      * @returns String hexadecimal do IV gerado
      */
     public generateRandomIV(length: number = 16): string {
-        const array = new Uint8Array(length);
-        crypto.getRandomValues(array);
-        return this.uint8ArrayToHex(array);
+        return this.uint8ArrayToHex(this.generateRandomBytes(length));
     }
 
     /**
@@ -113,4 +170,195 @@ export class CryptoUtils implements CryptoUtilities {
         const ivBytes = ivHex.length / 2;
         return ivBytes === expectedLength;
     }
+
+    /**
+     * Valida se uma string é Base64 padrão (com preenchimento)
+     * @param base64 String a ser validada
+     * @returns true se for Base64 válido
+     */
+    public isValidBase64(base64: string): boolean {
+        const clean = base64.trim();
+        return clean.length > 0 && clean.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(clean);
+    }
+
+    /**
+     * Valida se uma string é Base64URL (alfabeto seguro para URLs, preenchimento opcional)
+     * @param base64Url String a ser validada
+     * @returns true se for Base64URL válido
+     */
+    public isValidBase64Url(base64Url: string): boolean {
+        const clean = base64Url.trim().replace(/=+$/, '');
+        return clean.length > 0 && clean.length % 4 !== 1 && /^[A-Za-z0-9_-]+$/.test(clean);
+    }
+
+    /**
+     * Converte Uint8Array para Base64
+     * @param array Array a ser convertido
+     * @returns String Base64 resultante
+     */
+    public uint8ArrayToBase64(array: Uint8Array): string {
+        let binary = '';
+        const chunkSize = 0x8000;
+
+        // Processar em blocos para não estourar a pilha com arrays grandes
+        for (let i = 0; i < array.length; i += chunkSize) {
+            binary += String.fromCharCode(...array.subarray(i, i + chunkSize));
+        }
+
+        return btoa(binary);
+    }
+
+    /**
+     * Converte string Base64 para Uint8Array
+     * @param base64 String Base64 a ser convertida
+     * @returns Uint8Array resultante
+     * @throws Error se o Base64 for inválido
+     */
+    public base64ToUint8Array(base64: string): Uint8Array {
+        const clean = base64.trim();
+
+        if (!this.isValidBase64(clean)) {
+            throw new Error('String Base64 inválida');
+        }
+
+        const binary = atob(clean);
+        const result = new Uint8Array(binary.length);
+
+        for (let i = 0; i < binary.length; i++) {
+            result[i] = binary.charCodeAt(i);
+        }
+
+        return result;
+    }
+
+    /**
+     * Converte Uint8Array para Base64URL (sem preenchimento)
+     * @param array Array a ser convertido
+     * @returns String Base64URL resultante
+     */
+    public uint8ArrayToBase64Url(array: Uint8Array): string {
+        return this.uint8ArrayToBase64(array)
+            .replace(/\+/g, '-')
+            .replace(/\//g, '_')
+            .replace(/=+$/, '');
+    }
+
+    /**
+     * Converte string Base64URL para Uint8Array
+     * @param base64Url String Base64URL a ser convertida
+     * @returns Uint8Array resultante
+     * @throws Error se o Base64URL for inválido
+     */
+    public base64UrlToUint8Array(base64Url: string): Uint8Array {
+        const clean = base64Url.trim().replace(/=+$/, '');
+
+        if (!this.isValidBase64Url(clean)) {
+            throw new Error('String Base64URL inválida');
+        }
+
+        const base64 = clean.replace(/-/g, '+').replace(/_/g, '/');
+        return this.base64ToUint8Array(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    }
+
+    /**
+     * Codifica bytes no formato PEM
+     * @param bytes Conteúdo DER
+     * @param label Rótulo do bloco (ex.: "PUBLIC KEY")
+     * @returns Texto PEM com linhas de 64 caracteres
+     */
+    public toPem(bytes: Uint8Array, label: string): string {
+        const base64 = this.uint8ArrayToBase64(bytes);
+        const lines = base64.match(/.{1,64}/g) ?? [];
+        return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+    }
+
+    /**
+     * Decodifica um bloco PEM (ou Base64 puro)
+     * @param text Texto PEM ou Base64
+     * @param label Rótulo esperado do bloco
+     * @returns Conteúdo DER
+     * @throws Error se o texto não for PEM nem Base64 válido
+     */
+    public fromPem(text: string, label: string): Uint8Array<ArrayBuffer> {
+        const body = text
+            .replace(`-----BEGIN ${label}-----`, '')
+            .replace(`-----END ${label}-----`, '')
+            .replace(/\s+/g, '');
+
+        if (!body || !this.isValidBase64(body)) {
+            throw new Error(`Chave deve estar no formato PEM (${label}) ou em Base64.`);
+        }
+
+        return new Uint8Array(this.base64ToUint8Array(body));
+    }
+
+    /**
+     * Detecta a codificação de uma string
+     * Hexadecimal tem prioridade, pois todo hex de tamanho múltiplo de 4 também é Base64 válido.
+     * Sem "+", "/", "-" nem "_", a string é válida nos dois alfabetos do Base64 e decodifica
+     * para os mesmos bytes: vale a codificação preferida, ou Base64 se nenhuma for indicada
+     * @param data String a ser analisada
+     * @param preferred Codificação preferida quando Base64 e Base64URL forem ambos válidos (opcional)
+     * @returns Codificação detectada ou null se nenhuma for reconhecida
+     */
+    public detectEncoding(data: string, preferred?: DataEncoding): DataEncoding | null {
+        const clean = data.trim();
+
+        if (clean.length % 2 === 0 && this.isValidHex(clean)) {
+            return 'hex';
+        }
+
+        if (preferred === 'base64url' && this.isValidBase64Url(clean)) {
+            return 'base64url';
+        }
+
+        if (this.isValidBase64(clean)) {
+            return 'base64';
+        }
+
+        if (this.isValidBase64Url(clean)) {
+            return 'base64url';
+        }
+
+        return null;
+    }
+
+    /**
+     * Converte bytes para a codificação indicada
+     * @param array Bytes a serem codificados
+     * @param encoding Codificação de saída
+     * @returns String codificada
+     */
+    public encodeBytes(array: Uint8Array, encoding: DataEncoding): string {
+        switch (encoding) {
+            case 'base64':
+                return this.uint8ArrayToBase64(array);
+            case 'base64url':
+                return this.uint8ArrayToBase64Url(array);
+            default:
+                return this.uint8ArrayToHex(array);
+        }
+    }
+
+    /**
+     * Converte uma string para bytes detectando automaticamente sua codificação
+     * @param data String em hex, Base64 ou Base64URL
+     * @param preferred Codificação preferida quando Base64 e Base64URL forem ambos válidos (opcional)
+     * @returns Bytes decodificados e a codificação detectada
+     * @throws Error se a codificação não for reconhecida
+     */
+    public decodeData(data: string, preferred?: DataEncoding): DecodedData {
+        const encoding = this.detectEncoding(data, preferred);
+
+        switch (encoding) {
+            case 'hex':
+                return { bytes: this.hexToUint8Array(data), encoding };
+            case 'base64':
+                return { bytes: this.base64ToUint8Array(data), encoding };
+            case 'base64url':
+                return { bytes: this.base64UrlToUint8Array(data), encoding };
+            default:
+                throw new Error('Codificação não reconhecida: use hexadecimal, Base64 ou Base64URL');
+        }
+    }
 }
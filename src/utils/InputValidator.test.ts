@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AESCrypto } from '../crypto/AESCrypto.js';
+import { CryptoUtils } from './CryptoUtils.js';
+import { InputValidator } from './InputValidator.js';
+
+const validator = new InputValidator();
+const utils = new CryptoUtils();
+
+/** Bytes aleatórios em hexadecimal */
+const randomHex = (length: number): string => utils.uint8ArrayToHex(utils.generateRandomBytes(length));
+
+describe('InputValidator', () => {
+    describe('validateKey', () => {
+        it('descreve tamanho, codificação e força de uma chave aleatória', () => {
+            const key = utils.generateRandomBytes(16);
+
+            assert.deepEqual(validator.validateKey(utils.uint8ArrayToHex(key), 128), {
+                state: 'valid',
+                message: '16/16 bytes · hexadecimal · força: 128 bits',
+                encoding: 'hex',
+                byteLength: 16
+            });
+            assert.equal(validator.validateKey(utils.uint8ArrayToBase64(key), 128).encoding, 'base64');
+        });
+
+        it('campo vazio não é erro', () => {
+            assert.deepEqual(validator.validateKey('', 128), { state: 'empty', message: '' });
+        });
+
+        it('recusa codificação desconhecida e tamanhos que o AES não aceita', () => {
+            assert.equal(validator.validateKey('zz!', 128).state, 'invalid');
+            assert.deepEqual(validator.validateKey(randomHex(20), 256), {
+                state: 'invalid',
+                message: '20/32 bytes · hexadecimal — a chave deve ter 16, 24 ou 32 bytes (128, 192 ou 256 bits).',
+                encoding: 'hex',
+                byteLength: 20
+            });
+        });
+
+        it('avisa, sem recusar, chave de outro tamanho que o selecionado', () => {
+            const result = validator.validateKey(randomHex(32), 128);
+
+            assert.equal(result.state, 'warning');
+            assert.equal(result.message, '32/16 bytes · hexadecimal — chave de 256 bits; o tamanho selecionado é 128 bits.');
+        });
+
+        it('avisa sobre chaves com padrões não aleatórios', () => {
+            const hint = (hex: string) => validator.validateKey(hex, 128);
+
+            assert.match(hint('00'.repeat(16)).message, /todos os bytes são iguais/);
+            assert.match(hint('000102030405060708090a0b0c0d0e0f').message, /bytes em sequência/);
+            assert.match(hint('0f0e0d0c0b0a09080706050403020100').message, /bytes em sequência/);
+            assert.match(hint('0102'.repeat(8)).message, /pouca variedade de bytes/);
+            assert.match(hint(utils.uint8ArrayToHex(new TextEncoder().encode('minha senha 1234'))).message, /parece texto digitado/);
+            assert.equal(hint('00'.repeat(16)).state, 'warning');
+        });
+    });
+
+    describe('validateIV', () => {
+        it('confere o tamanho exigido pelo algoritmo', () => {
+            assert.equal(validator.validateIV(randomHex(12), 12, 'AES-GCM').message, '12/12 bytes · hexadecimal');
+            assert.deepEqual(validator.validateIV(randomHex(12), 16, 'AES-CBC'), {
+                state: 'invalid',
+                message: '12/16 bytes · hexadecimal — o AES-CBC exige um IV de 16 bytes.',
+                encoding: 'hex',
+                byteLength: 12
+            });
+        });
+
+        it('IV em Base64URL é descrito como Base64URL quando essa é a codificação configurada', () => {
+            // Boa parte dos IVs aleatórios em Base64URL não tem "-" nem "_" e também é Base64 válido
+            for (let round = 0; round < 20; round++) {
+                const iv = utils.uint8ArrayToBase64Url(utils.generateRandomBytes(16));
+                assert.equal(validator.validateIV(iv, 16, 'AES-CBC', 'base64url').message, '16/16 bytes · Base64URL', iv);
+            }
+        });
+
+        it('avisa sobre IV com todos os bytes iguais', () => {
+            assert.equal(validator.validateIV('00'.repeat(16), 16, 'AES-CTR').state, 'warning');
+        });
+    });
+
+    describe('validateCiphertext', () => {
+        it('descreve envelopes pelo próprio cabeçalho', async () => {
+            const aes = new AESCrypto(AESCrypto.createConfig('AES-CBC', 256));
+            const { key, iv } = aes.generateKeyAndIV();
+            const envelope = await aes.encryptToEnvelope('texto', key, iv, { outputEncoding: 'base64url' });
+
+            // Sem "-" nem "_", o envelope também seria Base64 válido: a codificação de saída configurada desempata
+            const result = validator.validateCiphertext(envelope, { ...AESCrypto.createConfig('AES-GCM', 128), outputEncoding: 'base64url' });
+            assert.equal(result.state, 'valid');
+            assert.equal(result.envelope, true);
+            assert.equal(result.message, 'Envelope AES-CBC · chave de 256 bits · 16 bytes · Base64URL');
+        });
+
+        it('recusa envelope truncado', async () => {
+            const aes = new AESCrypto();
+            const { key, iv } = aes.generateKeyAndIV();
+            const envelope = await aes.encryptToEnvelope('texto', key, iv);
+
+            const result = validator.validateCiphertext(envelope.slice(0, 16), aes.getConfig());
+            assert.equal(result.state, 'invalid');
+            assert.equal(result.envelope, true);
+        });
+
+        it('confere o tamanho do texto cifrado fora do envelope contra o algoritmo', () => {
+            const gcm = AESCrypto.createConfig('AES-GCM', 128);
+            const cbc = AESCrypto.createConfig('AES-CBC', 128);
+
+            assert.equal(validator.validateCiphertext(randomHex(15), gcm).state, 'invalid');
+            assert.deepEqual(validator.validateCiphertext(randomHex(16), gcm), {
+                state: 'valid',
+                message: '16 bytes · hexadecimal — sem envelope: informe o IV usado no AES-GCM.',
+                encoding: 'hex',
+                byteLength: 16,
+                envelope: false
+            });
+            assert.match(validator.validateCiphertext(randomHex(24), cbc).message, /múltiplos de 16 bytes/);
+            assert.equal(validator.validateCiphertext(randomHex(48), { ...cbc, mac: 'HMAC-SHA-256' }).state, 'valid');
+            assert.equal(validator.validateCiphertext(randomHex(32), { ...cbc, mac: 'HMAC-SHA-256' }).state, 'invalid');
+            assert.equal(validator.validateCiphertext(randomHex(5), AESCrypto.createConfig('AES-CTR', 128)).state, 'valid');
+        });
+    });
+});
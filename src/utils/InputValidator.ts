@@ -0,0 +1,240 @@
+import type { AESConfig, CryptoAlgorithm, DataEncoding, FieldValidation, KeyLength } from '../types/index.js';
+import { CryptoUtils } from './CryptoUtils.js';
+import { AESCrypto } from '../crypto/AESCrypto.js';
+import { EnvelopeCodec } from '../crypto/EnvelopeCodec.js';
+
+/**
+ * Validação em tempo real dos campos de chave, IV e texto cifrado
+ *
+ * Confere o que pode ser verificado sem a Web Crypto API (codificação, tamanho
+ * e formato) e descreve o valor para exibição junto do campo, como em
+ * "12/16 bytes · hexadecimal". Não substitui as validações feitas pelo
+ * AESCrypto na operação: apenas antecipa os erros mais comuns.
+ */
+export class InputValidator {
+    /** Tamanhos de chave aceitos pelo AES, em bytes */
+    private static readonly KEY_SIZES = [16, 24, 32];
+
+    private static readonly ENCODING_LABELS: Record<DataEncoding, string> = {
+        hex: 'hexadecimal',
+        base64: 'Base64',
+        base64url: 'Base64URL'
+    };
+
+    private readonly cryptoUtils: CryptoUtils;
+    private readonly envelopeCodec: EnvelopeCodec;
+
+    /**
+     * Cria uma nova instância do InputValidator
+     */
+    constructor() {
+        this.cryptoUtils = new CryptoUtils();
+        this.envelopeCodec = new EnvelopeCodec();
+    }
+
+    /**
+     * Decodifica o valor de um campo
+     * @param value Valor digitado
+     * @param preferred Codificação preferida quando Base64 e Base64URL forem ambos válidos (opcional)
+     * @returns Bytes e codificação detectada, ou null se a codificação não for reconhecida
+     */
+    private decode(value: string, preferred?: DataEncoding): { bytes: Uint8Array; encoding: DataEncoding } | null {
+        try {
+            const { bytes, encoding } = this.cryptoUtils.decodeData(value, preferred);
+            return { bytes, encoding };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Monta o resultado de um valor decodificado
+     * @param state Estado do campo
+     * @param summary Resumo do valor (tamanho e codificação)
+     * @param decoded Valor decodificado
+     * @param hint Dica ou erro acrescentado ao resumo (opcional)
+     * @returns Resultado da validação
+     */
+    private result(
+        state: FieldValidation['state'],
+        summary: string,
+        decoded: { bytes: Uint8Array; encoding: DataEncoding },
+        hint?: string
+    ): FieldValidation {
+        return {
+            state,
+            message: hint ? `${summary} — ${hint}` : summary,
+            encoding: decoded.encoding,
+            byteLength: decoded.bytes.length
+        };
+    }
+
+    /**
+     * Resultado de um campo cuja codificação não foi reconhecida
+     * @returns Resultado inválido
+     */
+    private unrecognized(): FieldValidation {
+        return { state: 'invalid', message: 'Codificação não reconhecida: use hexadecimal, Base64 ou Base64URL.' };
+    }
+
+    /**
+     * Procura padrões que indicam que os bytes não foram gerados aleatoriamente
+     * @param bytes Bytes da chave
+     * @returns Descrição do problema ou null se nenhum padrão for encontrado
+     */
+    private describeWeakness(bytes: Uint8Array): string | null {
+        if (bytes.every(byte => byte === bytes[0])) {
+            return 'todos os bytes são iguais: chave trivial. Use "Gerar Chaves".';
+        }
+
+        const step = (bytes[1]! - bytes[0]! + 256) % 256;
+        if ((step === 1 || step === 255) && bytes.every((byte, index) => index === 0 || (byte - bytes[index - 1]! + 256) % 256 === step)) {
+            return 'bytes em sequência: chave previsível. Use "Gerar Chaves".';
+        }
+
+        if (new Set(bytes).size < bytes.length / 2) {
+            return 'pouca variedade de bytes: a chave não parece aleatória.';
+        }
+
+        if (bytes.every(byte => byte >= 0x20 && byte <= 0x7e)) {
+            return 'a chave parece texto digitado. Para usar uma senha, escolha o modo frase-senha.';
+        }
+
+        return null;
+    }
+
+    /**
+     * Valida a chave digitada
+     * @param value Chave em hexadecimal, Base64 ou Base64URL
+     * @param keyLength Tamanho da chave selecionado, em bits
+     * @param preferred Codificação de saída configurada, usada quando Base64 e Base64URL forem ambos válidos (opcional)
+     * @returns Resultado com tamanho, codificação e dicas de força
+     */
+    public validateKey(value: string, keyLength: KeyLength, preferred?: DataEncoding): FieldValidation {
+        if (!value) {
+            return { state: 'empty', message: '' };
+        }
+
+        const decoded = this.decode(value, preferred);
+        if (!decoded) {
+            return this.unrecognized();
+        }
+
+        const size = decoded.bytes.length;
+        const summary = `${size}/${keyLength / 8} bytes · ${InputValidator.ENCODING_LABELS[decoded.encoding]}`;
+
+        if (!InputValidator.KEY_SIZES.includes(size)) {
+            return this.result('invalid', summary, decoded, 'a chave deve ter 16, 24 ou 32 bytes (128, 192 ou 256 bits).');
+        }
+
+        const weakness = this.describeWeakness(decoded.bytes);
+        if (weakness) {
+            return this.result('warning', summary, decoded, weakness);
+        }
+
+        if (size * 8 !== keyLength) {
+            return this.result('warning', summary, decoded, `chave de ${size * 8} bits; o tamanho selecionado é ${keyLength} bits.`);
+        }
+
+        return this.result('valid', `${summary} · força: ${size * 8} bits`, decoded);
+    }
+
+    /**
+     * Valida o IV digitado
+     * @param value IV em hexadecimal, Base64 ou Base64URL
+     * @param ivLength Tamanho do IV exigido pelo algoritmo, em bytes
+     * @param algorithm Algoritmo selecionado
+     * @param preferred Codificação de saída configurada, usada quando Base64 e Base64URL forem ambos válidos (opcional)
+     * @returns Resultado com tamanho e codificação
+     */
+    public validateIV(value: string, ivLength: number, algorithm: CryptoAlgorithm, preferred?: DataEncoding): FieldValidation {
+        if (!value) {
+            return { state: 'empty', message: '' };
+        }
+
+        const decoded = this.decode(value, preferred);
+        if (!decoded) {
+            return this.unrecognized();
+        }
+
+        const summary = `${decoded.bytes.length}/${ivLength} bytes · ${InputValidator.ENCODING_LABELS[decoded.encoding]}`;
+
+        if (decoded.bytes.length !== ivLength) {
+            return this.result('invalid', summary, decoded, `o ${algorithm} exige um IV de ${ivLength} bytes.`);
+        }
+
+        if (decoded.bytes.every(byte => byte === decoded.bytes[0])) {
+            return this.result('warning', summary, decoded, 'IV previsível (todos os bytes iguais). Gere um IV aleatório.');
+        }
+
+        return this.result('valid', summary, decoded);
+    }
+
+    /**
+     * Valida o texto cifrado a decriptar
+     * Envelopes são descritos pelo próprio cabeçalho; fora do envelope o tamanho é
+     * conferido contra o algoritmo selecionado
+     * @param value Texto cifrado em hexadecimal, Base64 ou Base64URL
+     * @param config Configuração atual (a codificação de saída desempata Base64 e Base64URL)
+     * @returns Resultado com tamanho, codificação e formato
+     */
+    public validateCiphertext(value: string, config: Readonly<AESConfig>): FieldValidation {
+        if (!value) {
+            return { state: 'empty', message: '' };
+        }
+
+        const decoded = this.decode(value, config.outputEncoding);
+        if (!decoded) {
+            return this.unrecognized();
+        }
+
+        const encoding = InputValidator.ENCODING_LABELS[decoded.encoding];
+
+        if (this.envelopeCodec.isEnvelope(decoded.bytes)) {
+            try {
+                const envelope = this.envelopeCodec.decode(decoded.bytes);
+                const algorithm = envelope.mac ? `${envelope.algorithm} + ${envelope.mac}` : envelope.algorithm;
+                const summary = `Envelope ${algorithm} · chave de ${envelope.keyLength} bits · ${envelope.ciphertext.length} bytes · ${encoding}`;
+
+                return { ...this.result('valid', summary, decoded), envelope: true };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Erro desconhecido';
+                return { ...this.result('invalid', `Envelope · ${encoding}`, decoded, message), envelope: true };
+            }
+        }
+
+        const size = decoded.bytes.length;
+        const summary = `${size} bytes · ${encoding}`;
+        const problem = this.describeCiphertextSizeProblem(size, config);
+
+        if (problem) {
+            return { ...this.result('invalid', summary, decoded, problem), envelope: false };
+        }
+
+        return { ...this.result('valid', summary, decoded, `sem envelope: informe o IV usado no ${config.algorithm}.`), envelope: false };
+    }
+
+    /**
+     * Confere o tamanho de um texto cifrado fora do envelope contra o algoritmo
+     * @param size Tamanho em bytes
+     * @param config Configuração atual
+     * @returns Descrição do problema ou null se o tamanho for possível
+     */
+    private describeCiphertextSizeProblem(size: number, config: Readonly<AESConfig>): string | null {
+        if (config.algorithm === 'AES-GCM') {
+            const tagBytes = (config.tagLength ?? 128) / 8;
+            return size < tagBytes ? `menor que a tag de ${tagBytes} bytes do AES-GCM.` : null;
+        }
+
+        if (config.algorithm === 'AES-CBC') {
+            const blocks = size - (config.mac ? AESCrypto.MAC_TAG_LENGTH : 0);
+            if (blocks < 16 || blocks % 16 !== 0) {
+                return config.mac
+                    ? `o AES-CBC autenticado produz blocos de 16 bytes seguidos da tag de ${AESCrypto.MAC_TAG_LENGTH} bytes.`
+                    : 'o AES-CBC produz múltiplos de 16 bytes.';
+            }
+        }
+
+        return null;
+    }
+}